@@ -0,0 +1,173 @@
+/**
+ * Schema versions and step-by-step migrations for tayebCoins.json and xcmConfig.json
+ *
+ * Each file records its schema version in `metadata.version`. Loaders refuse any other
+ * version than the current one; `npm run migrate:config` upgrades older files one step
+ * at a time. Like validation.ts, this module has no Node dependency so the frontend
+ * can report version errors too.
+ */
+
+/** Schema version this build reads and writes */
+export const TAYEB_COINS_VERSION = "2.1.0";
+export const XCM_CONFIG_VERSION = "1.1.0";
+
+/** Assumed for files written before they carried a version */
+const UNVERSIONED = "1.0.0";
+
+type JsonObject = Record<string, any>;
+
+export interface ConfigMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(data: JsonObject): JsonObject;
+}
+
+/**
+ * Thrown when a config file's schema version isn't the one this build supports
+ */
+export class UnsupportedConfigVersionError extends Error {
+  readonly file: string;
+  readonly version: string;
+  readonly supported: string;
+
+  constructor(file: string, version: string, supported: string) {
+    const hint =
+      compareVersions(version, supported) < 0
+        ? "Run `npm run migrate:config` to upgrade it."
+        : "It was written by a newer version of Tayeb; update this checkout.";
+    super(`${file} is schema version ${version}, but this build only supports ${supported}. ${hint}`);
+    this.name = "UnsupportedConfigVersionError";
+    this.file = file;
+    this.version = version;
+    this.supported = supported;
+  }
+}
+
+/**
+ * Compare dotted versions numerically (-1, 0 or 1)
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  return 0;
+}
+
+function withVersion(data: JsonObject, version: string): JsonObject {
+  return { ...data, metadata: { ...data.metadata, version } };
+}
+
+export const TAYEB_COINS_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: "1.0.0",
+    to: "2.0.0",
+    description: "Variants carry a Hydration assetId (null until mapped); coins and variants may set avgSlippagePercent",
+    migrate: (data) => ({
+      ...data,
+      coins: (data.coins ?? []).map((coin: JsonObject) =>
+        coin.variants
+          ? {
+              ...coin,
+              variants: coin.variants.map((variant: JsonObject) => ({ ...variant, assetId: variant.assetId ?? null })),
+            }
+          : coin
+      ),
+    }),
+  },
+  {
+    from: "2.0.0",
+    to: "2.1.0",
+    description: "Optional Sharia `screening` per coin and a top-level `screeningMethodology`",
+    migrate: (data) => data,
+  },
+];
+
+export const XCM_CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: "1.0.0",
+    to: "1.1.0",
+    description: "tokenMapping.moonbeamToHydration is keyed by lowercase address; the file records metadata.version",
+    migrate: (data) => ({
+      ...data,
+      tokenMapping: {
+        ...data.tokenMapping,
+        moonbeamToHydration: Object.fromEntries(
+          Object.entries(data.tokenMapping?.moonbeamToHydration ?? {}).map(([address, mapping]) => [
+            address.toLowerCase(),
+            mapping,
+          ])
+        ),
+      },
+    }),
+  },
+];
+
+/**
+ * Schema version recorded in a config payload
+ */
+export function getConfigVersion(data: unknown): string {
+  const version = (data as JsonObject | null)?.metadata?.version;
+  return typeof version === "string" ? version : UNVERSIONED;
+}
+
+/**
+ * Throw UnsupportedConfigVersionError unless `data` is at `supported`
+ */
+export function assertConfigVersion(file: string, data: unknown, supported: string): void {
+  const version = getConfigVersion(data);
+  if (version !== supported) {
+    throw new UnsupportedConfigVersionError(file, version, supported);
+  }
+}
+
+export interface MigrationResult {
+  data: JsonObject;
+  from: string;
+  to: string;
+  applied: ConfigMigration[];
+}
+
+/**
+ * Apply `migrations` in sequence until `data` reaches `target`. Throws for files newer
+ * than `target` or versions no migration starts from.
+ */
+export function runMigrations(
+  file: string,
+  data: unknown,
+  migrations: ConfigMigration[],
+  target: string
+): MigrationResult {
+  const from = getConfigVersion(data);
+  if (compareVersions(from, target) > 0) {
+    throw new UnsupportedConfigVersionError(file, from, target);
+  }
+
+  let current = data as JsonObject;
+  let version = from;
+  const applied: ConfigMigration[] = [];
+  while (version !== target) {
+    const step = migrations.find((migration) => migration.from === version);
+    if (!step) {
+      throw new Error(`No migration for ${file} from version ${version} (supported: ${target})`);
+    }
+    current = withVersion(step.migrate(current), step.to);
+    version = step.to;
+    applied.push(step);
+  }
+
+  return { data: current, from, to: target, applied };
+}
+
+export function migrateTayebCoinsConfig(data: unknown): MigrationResult {
+  return runMigrations("tayebCoins.json", data, TAYEB_COINS_MIGRATIONS, TAYEB_COINS_VERSION);
+}
+
+export function migrateXcmConfig(data: unknown): MigrationResult {
+  return runMigrations("xcmConfig.json", data, XCM_CONFIG_MIGRATIONS, XCM_CONFIG_VERSION);
+}
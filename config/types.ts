@@ -2,6 +2,44 @@
  * Type definitions for Tayeb Coins configuration
  */
 
+/**
+ * Where the value a holder receives comes from
+ */
+export type RevenueSourceCategory =
+  | "network-fees" // Transaction/gas fees paid to validators or miners
+  | "staking-rewards" // Block rewards for securing the network
+  | "asset-backing" // Redeemable 1:1 against a reserve asset (fiat, commodity, bridged coin)
+  | "payments" // Medium of exchange only, no yield
+  | "protocol-fees" // Fees from a service the protocol provides (oracles, storage, exchange)
+  | "lending-interest" // Interest from lending or money markets
+  | "leveraged-trading" // Margin, perpetuals or other leveraged products
+  | "gambling" // Betting, lotteries, games of chance
+  | "prohibited-goods" // Alcohol, tobacco, adult content, weapons and similar
+  | "other";
+
+/**
+ * Structured Sharia screening data for a coin, scored by sdk/screening.ts
+ */
+export interface ShariaScreening {
+  interestBearing: boolean; // The token itself pays or accrues interest (riba) to holders
+  revenueSources: RevenueSourceCategory[];
+  leverageOrLending: boolean; // Primary use is leveraged trading or interest-based lending
+  impermissibleIncomePercent?: number; // 0-100: share of holder returns from prohibited sources
+  governanceNotes?: string;
+  reviewedAt?: string; // ISO date of the last review
+}
+
+/**
+ * Thresholds the screening engine applies
+ */
+export interface ScreeningMethodology {
+  name: string;
+  prohibitedRevenueSources: RevenueSourceCategory[];
+  maxImpermissibleIncomePercent: number;
+  allowInterestBearing: boolean;
+  allowLeverageOrLending: boolean;
+}
+
 export interface TayebCoinVariant {
   symbol: string;
   name?: string;
@@ -13,6 +51,8 @@ export interface TayebCoinVariant {
     moonbeam: string | null;
   };
   assetId?: number | null;
+  avgSlippagePercent?: number;
+  screening?: ShariaScreening; // Overrides the base coin's screening (e.g. a wrapper with its own risks)
 }
 
 export interface TayebCoin {
@@ -28,11 +68,13 @@ export interface TayebCoin {
   assetId?: number | null;
   variants?: TayebCoinVariant[];
   avgSlippagePercent?: number;
+  screening?: ShariaScreening;
 }
 
 export interface TayebCoinsConfig {
   coins: TayebCoin[];
   stablecoins: string[];
+  screeningMethodology?: ScreeningMethodology; // Defaults to DEFAULT_SCREENING_METHODOLOGY in sdk/screening.ts
   metadata: {
     version: string;
     lastUpdated: string | null;
@@ -83,15 +125,71 @@ export interface DeployedMain {
   shariaLocalSwap: string | null;
   shariaDCA: string | null;
   crosschainSwapInitiator?: string | null;
+  crosschainSwapInitiatorNoSdk?: string | null;
 }
 
 export interface DeploymentMetadata {
   deploymentDate: string | null;
   deployer: string | null;
+  /** How each contract in `main` was deployed, keyed like `main` */
+  contracts?: Partial<Record<keyof DeployedMain, ContractDeploymentRecord>>;
+  /** Multisig the contracts were handed to by scripts/deploy/transfer-ownership.ts */
+  ownership?: OwnershipHandoff;
+}
+
+export interface OwnershipHandoff {
+  multisig: string;
+  /** Each contract whose ownership moved to `multisig`, keyed like `main` */
+  transfers: Partial<Record<keyof DeployedMain, OwnershipTransferRecord>>;
+}
+
+/**
+ * One confirmed transferOwnership call. Only applies while `main` still points at `address`.
+ */
+export interface OwnershipTransferRecord {
+  address: string;
+  previousOwner: string;
+  txHash: string;
+  blockNumber: number;
+  transferredAt: string;
+}
+
+/**
+ * solc settings a contract was compiled with, from its Hardhat build info
+ */
+export interface CompilerSettings {
+  version: string;
+  optimizer: {
+    enabled: boolean;
+    runs: number;
+  };
+  viaIR: boolean;
+  evmVersion: string;
+}
+
+/** ABI-decoded constructor argument; integers are stored as decimal strings */
+export type ConstructorArg = string | boolean | ConstructorArg[];
+
+/**
+ * One contract deployment as recorded by scripts/utils/deployHelpers.ts
+ */
+export interface ContractDeploymentRecord {
+  /** Hardhat artifact name */
+  contractName: string;
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  deployer: string;
+  deployedAt: string;
+  constructorArgs: ConstructorArg[];
+  compiler: CompilerSettings;
+  /** keccak256 of the on-chain runtime code with immutable values zeroed, comparable across deployments */
+  runtimeBytecodeHash: string;
 }
 
 export interface DeployedContracts {
   network: string;
+  chainId: number;
   version: string;
   lastDeployed: string | null;
   amm: DeployedAMM;
@@ -101,3 +199,80 @@ export interface DeployedContracts {
   metadata: DeploymentMetadata;
 }
 
+/**
+ * deployedContracts.json: one DeployedContracts entry per chain, keyed by chain ID
+ * (e.g. "1284" Moonbeam, "1287" Moonbase Alpha, "1337" local Hardhat)
+ */
+export interface DeploymentRegistry {
+  deployments: { [chainId: string]: DeployedContracts };
+}
+
+
+// ============================================================================
+// XCM Config Types
+// ============================================================================
+
+export interface HydrationTokenMapping {
+  symbol: string;
+  assetId: number | null;
+  decimals: number;
+}
+
+export interface XcmConfig {
+  metadata: {
+    version: string;
+  };
+  moonbeam?: {
+    rpcUrl?: string;
+    xcmTransactorPrecompile?: string;
+  };
+  hydration: {
+    rpcUrl: string;
+    omnipoolPalletName: string;
+    assetRegistry: Record<string, number>;
+    parachainId?: number;
+    omnipoolPalletIndex?: number;
+    sellCallIndex?: number;
+  };
+  tokenMapping: {
+    moonbeamToHydration: Record<string, HydrationTokenMapping>; // Keyed by lowercase Moonbeam address
+  };
+}
+
+
+// ============================================================================
+// Hydration Asset Registry Types (hydration-asset-registry.json)
+// ============================================================================
+
+/**
+ * One Omnipool asset's state as returned by `omnipool.assets(id).toHuman()`
+ * (amounts are comma-grouped strings)
+ */
+export interface HydrationOmnipoolAsset {
+  hubReserve: string;
+  shares: string;
+  protocolShares: string;
+  cap: string;
+  tradable: {
+    bits: string;
+  };
+  /** From Hydration's asset registry pallet; absent in snapshots taken before it was recorded */
+  metadata?: HydrationAssetMetadata;
+}
+
+export interface HydrationAssetMetadata {
+  symbol: string;
+  name?: string;
+  decimals: number;
+}
+
+/**
+ * Snapshot of the Hydration Omnipool written by scripts/xcm/query-hydration-assets.ts
+ */
+export interface HydrationAssetRegistry {
+  timestamp: string;
+  totalAssets: number;
+  /** Keyed by asset ID */
+  assets: Record<string, HydrationOmnipoolAsset>;
+  assetIds: number[];
+}
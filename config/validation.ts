@@ -0,0 +1,762 @@
+/**
+ * Runtime validation for the JSON config files
+ *
+ * The interfaces in types.ts only exist at compile time, so anything loaded
+ * from disk is checked here before scripts or the frontend rely on it.
+ * This module has no Node or ethers dependency so both sides can share it;
+ * callers pass in their own EIP-55 checksum function (ethers or viem `getAddress`).
+ */
+
+import type {
+  DeploymentRegistry,
+  HydrationAssetRegistry,
+  RevenueSourceCategory,
+  TayebCoinsConfig,
+  XcmConfig,
+} from "./types";
+import {
+  TAYEB_COINS_VERSION,
+  XCM_CONFIG_VERSION,
+  assertConfigVersion,
+  getConfigVersion,
+} from "./migrations";
+
+/**
+ * Returns the EIP-55 checksummed form of an address (throws if invalid)
+ */
+export type ChecksumAddressFn = (address: string) => string;
+
+export interface ValidationOptions {
+  checksumAddress: ChecksumAddressFn;
+}
+
+/**
+ * Thrown when a config file fails validation. `issues` lists every problem found.
+ */
+export class ConfigValidationError extends Error {
+  readonly file: string;
+  readonly issues: string[];
+
+  constructor(file: string, issues: string[]) {
+    super(`Invalid ${file}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigValidationError";
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isDecimals(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 255;
+}
+
+function isAssetId(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Check an address field. Null is allowed when `nullable` is set.
+ */
+function checkAddress(
+  value: unknown,
+  field: string,
+  issues: string[],
+  options: ValidationOptions,
+  nullable = true
+): void {
+  if (value === null || value === undefined) {
+    if (!nullable) {
+      issues.push(`${field} is required`);
+    }
+    return;
+  }
+  if (typeof value !== "string" || !ADDRESS_PATTERN.test(value)) {
+    issues.push(`${field} is not a valid address: ${String(value)}`);
+    return;
+  }
+  let checksummed: string;
+  try {
+    checksummed = options.checksumAddress(value);
+  } catch {
+    issues.push(`${field} is not a valid address: ${value}`);
+    return;
+  }
+  if (checksummed !== value) {
+    issues.push(`${field} is not checksummed (expected ${checksummed})`);
+  }
+}
+
+// ============================================================================
+// tayebCoins.json
+// ============================================================================
+
+const REVENUE_SOURCE_CATEGORIES: readonly RevenueSourceCategory[] = [
+  "network-fees",
+  "staking-rewards",
+  "asset-backing",
+  "payments",
+  "protocol-fees",
+  "lending-interest",
+  "leveraged-trading",
+  "gambling",
+  "prohibited-goods",
+  "other",
+];
+
+function isPercent(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 100;
+}
+
+function checkRevenueSources(value: unknown, field: string, issues: string[]): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${field} must be an array`);
+    return;
+  }
+  for (const source of value) {
+    if (!REVENUE_SOURCE_CATEGORIES.includes(source as RevenueSourceCategory)) {
+      issues.push(`${field} has unknown category "${String(source)}" (expected one of ${REVENUE_SOURCE_CATEGORIES.join(", ")})`);
+    }
+  }
+}
+
+function checkScreening(value: unknown, field: string, issues: string[]): void {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    issues.push(`${field} must be an object`);
+    return;
+  }
+  if (typeof value.interestBearing !== "boolean") issues.push(`${field}.interestBearing must be a boolean`);
+  if (typeof value.leverageOrLending !== "boolean") issues.push(`${field}.leverageOrLending must be a boolean`);
+  checkRevenueSources(value.revenueSources, `${field}.revenueSources`, issues);
+  if (value.impermissibleIncomePercent !== undefined && !isPercent(value.impermissibleIncomePercent)) {
+    issues.push(`${field}.impermissibleIncomePercent must be a number between 0 and 100`);
+  }
+  if (value.governanceNotes !== undefined && typeof value.governanceNotes !== "string") {
+    issues.push(`${field}.governanceNotes must be a string`);
+  }
+  if (value.reviewedAt !== undefined && (typeof value.reviewedAt !== "string" || Number.isNaN(Date.parse(value.reviewedAt)))) {
+    issues.push(`${field}.reviewedAt must be an ISO date`);
+  }
+}
+
+function checkScreeningMethodology(value: unknown, issues: string[]): void {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    issues.push("screeningMethodology must be an object");
+    return;
+  }
+  if (!isNonEmptyString(value.name)) issues.push("screeningMethodology.name is required");
+  checkRevenueSources(value.prohibitedRevenueSources, "screeningMethodology.prohibitedRevenueSources", issues);
+  if (!isPercent(value.maxImpermissibleIncomePercent)) {
+    issues.push("screeningMethodology.maxImpermissibleIncomePercent must be a number between 0 and 100");
+  }
+  for (const flag of ["allowInterestBearing", "allowLeverageOrLending"]) {
+    if (typeof value[flag] !== "boolean") issues.push(`screeningMethodology.${flag} must be a boolean`);
+  }
+}
+
+/**
+ * Collect every problem in a tayebCoins.json payload (empty array when valid)
+ */
+export function checkTayebCoinsConfig(data: unknown, options: ValidationOptions): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    return ["root must be an object"];
+  }
+  if (!Array.isArray(data.coins)) {
+    issues.push("coins must be an array");
+  }
+  if (!Array.isArray(data.stablecoins)) {
+    issues.push("stablecoins must be an array");
+  }
+  if (!isObject(data.metadata)) {
+    issues.push("metadata must be an object");
+  } else {
+    if (!isNonEmptyString(data.metadata.version)) {
+      issues.push("metadata.version is required");
+    } else if (data.metadata.version !== TAYEB_COINS_VERSION) {
+      issues.push(`metadata.version ${data.metadata.version} is not supported (expected ${TAYEB_COINS_VERSION}); run npm run migrate:config`);
+    }
+    if (!isNonEmptyString(data.metadata.network)) issues.push("metadata.network is required");
+  }
+  checkScreeningMethodology(data.screeningMethodology, issues);
+
+  const coins = Array.isArray(data.coins) ? data.coins : [];
+  const seenSymbols = new Map<string, string>();
+  const seenAddresses = new Map<string, string>();
+  const baseSymbols = new Set<string>();
+
+  const claimSymbol = (symbol: string, field: string) => {
+    const key = symbol.toUpperCase();
+    const previous = seenSymbols.get(key);
+    if (previous) {
+      issues.push(`${field} duplicates symbol "${symbol}" already used by ${previous}`);
+    } else {
+      seenSymbols.set(key, field);
+    }
+  };
+
+  const claimAddress = (address: unknown, field: string) => {
+    if (typeof address !== "string" || !ADDRESS_PATTERN.test(address)) return;
+    const key = address.toLowerCase();
+    const previous = seenAddresses.get(key);
+    if (previous) {
+      issues.push(`${field} duplicates address ${address} already used by ${previous}`);
+    } else {
+      seenAddresses.set(key, field);
+    }
+  };
+
+  coins.forEach((coin: unknown, index: number) => {
+    if (!isObject(coin)) {
+      issues.push(`coins[${index}] must be an object`);
+      return;
+    }
+
+    const label = isNonEmptyString(coin.symbol) ? `coins[${coin.symbol}]` : `coins[${index}]`;
+
+    if (!isNonEmptyString(coin.symbol)) {
+      issues.push(`${label}.symbol is required`);
+    } else {
+      claimSymbol(coin.symbol, label);
+      baseSymbols.add(coin.symbol);
+    }
+    if (!isNonEmptyString(coin.name)) issues.push(`${label}.name is required`);
+    if (coin.decimals === undefined) {
+      issues.push(`${label}.decimals is missing`);
+    } else if (!isDecimals(coin.decimals)) {
+      issues.push(`${label}.decimals must be an integer between 0 and 255`);
+    }
+    if (typeof coin.permissible !== "boolean") issues.push(`${label}.permissible must be a boolean`);
+    if (coin.assetId !== undefined && coin.assetId !== null && !isAssetId(coin.assetId)) {
+      issues.push(`${label}.assetId must be a non-negative integer or null`);
+    }
+
+    if (!isObject(coin.addresses)) {
+      issues.push(`${label}.addresses must be an object`);
+    } else {
+      checkAddress(coin.addresses.moonbeam, `${label}.addresses.moonbeam`, issues, options);
+      claimAddress(coin.addresses.moonbeam, label);
+    }
+    checkScreening(coin.screening, `${label}.screening`, issues);
+
+    if (coin.variants === undefined) return;
+    if (!Array.isArray(coin.variants)) {
+      issues.push(`${label}.variants must be an array`);
+      return;
+    }
+
+    coin.variants.forEach((variant: unknown, variantIndex: number) => {
+      if (!isObject(variant)) {
+        issues.push(`${label}.variants[${variantIndex}] must be an object`);
+        return;
+      }
+
+      const variantLabel = isNonEmptyString(variant.symbol)
+        ? `${label}.variants[${variant.symbol}]`
+        : `${label}.variants[${variantIndex}]`;
+
+      if (!isNonEmptyString(variant.symbol)) {
+        issues.push(`${variantLabel}.symbol is required`);
+      } else {
+        claimSymbol(variant.symbol, variantLabel);
+      }
+      // Variants inherit decimals from their parent, but an explicit value must be valid
+      if (variant.decimals !== undefined && !isDecimals(variant.decimals)) {
+        issues.push(`${variantLabel}.decimals must be an integer between 0 and 255`);
+      }
+      if (variant.assetId !== undefined && variant.assetId !== null && !isAssetId(variant.assetId)) {
+        issues.push(`${variantLabel}.assetId must be a non-negative integer or null`);
+      }
+      if (!isObject(variant.addresses)) {
+        issues.push(`${variantLabel}.addresses must be an object`);
+      } else {
+        checkAddress(variant.addresses.moonbeam, `${variantLabel}.addresses.moonbeam`, issues, options);
+        claimAddress(variant.addresses.moonbeam, variantLabel);
+      }
+      checkScreening(variant.screening, `${variantLabel}.screening`, issues);
+    });
+  });
+
+  if (Array.isArray(data.stablecoins)) {
+    data.stablecoins.forEach((symbol: unknown, index: number) => {
+      if (!isNonEmptyString(symbol)) {
+        issues.push(`stablecoins[${index}] must be a symbol`);
+      } else if (!baseSymbols.has(symbol)) {
+        issues.push(`stablecoins[${index}] references unknown coin "${symbol}"`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a tayebCoins.json payload and return it typed. Throws UnsupportedConfigVersionError
+ * for other schema versions, ConfigValidationError for anything else.
+ */
+export function parseTayebCoinsConfig(data: unknown, options: ValidationOptions): TayebCoinsConfig {
+  assertConfigVersion("tayebCoins.json", data, TAYEB_COINS_VERSION);
+  const issues = checkTayebCoinsConfig(data, options);
+  if (issues.length > 0) {
+    throw new ConfigValidationError("tayebCoins.json", issues);
+  }
+  return data as TayebCoinsConfig;
+}
+
+// ============================================================================
+// xcmConfig.json
+// ============================================================================
+
+/**
+ * Collect every problem in an xcmConfig.json payload.
+ * When `tayebCoins` is given, token mappings are cross-checked against it.
+ */
+export function checkXcmConfig(
+  data: unknown,
+  options: ValidationOptions,
+  tayebCoins?: TayebCoinsConfig
+): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    return ["root must be an object"];
+  }
+
+  const version = getConfigVersion(data);
+  if (version !== XCM_CONFIG_VERSION) {
+    issues.push(`metadata.version ${version} is not supported (expected ${XCM_CONFIG_VERSION}); run npm run migrate:config`);
+  }
+
+  const registry: JsonObject = {};
+  if (!isObject(data.hydration)) {
+    issues.push("hydration must be an object");
+  } else {
+    const hydration = data.hydration;
+    if (!isNonEmptyString(hydration.rpcUrl)) issues.push("hydration.rpcUrl is required");
+    if (!isNonEmptyString(hydration.omnipoolPalletName)) issues.push("hydration.omnipoolPalletName is required");
+    for (const field of ["parachainId", "omnipoolPalletIndex", "sellCallIndex"]) {
+      if (hydration[field] !== undefined && !isAssetId(hydration[field])) {
+        issues.push(`hydration.${field} must be a non-negative integer`);
+      }
+    }
+    if (!isObject(hydration.assetRegistry)) {
+      issues.push("hydration.assetRegistry must be an object");
+    } else {
+      for (const [symbol, assetId] of Object.entries(hydration.assetRegistry)) {
+        if (!isAssetId(assetId)) {
+          issues.push(`hydration.assetRegistry.${symbol} must be a non-negative integer`);
+        } else {
+          registry[symbol] = assetId;
+        }
+      }
+    }
+  }
+
+  if (data.moonbeam !== undefined) {
+    if (!isObject(data.moonbeam)) {
+      issues.push("moonbeam must be an object");
+    } else {
+      if (data.moonbeam.rpcUrl !== undefined && !isNonEmptyString(data.moonbeam.rpcUrl)) {
+        issues.push("moonbeam.rpcUrl must be a string");
+      }
+      checkAddress(data.moonbeam.xcmTransactorPrecompile, "moonbeam.xcmTransactorPrecompile", issues, options);
+    }
+  }
+
+  // Decimals by lowercase address and by symbol, for the tayebCoins cross-check
+  const decimalsByAddress = new Map<string, { symbol: string; decimals: number }>();
+  const decimalsBySymbol = new Map<string, number>();
+  if (tayebCoins) {
+    for (const coin of tayebCoins.coins) {
+      decimalsBySymbol.set(coin.symbol.toUpperCase(), coin.decimals);
+      if (coin.addresses.moonbeam) {
+        decimalsByAddress.set(coin.addresses.moonbeam.toLowerCase(), { symbol: coin.symbol, decimals: coin.decimals });
+      }
+      for (const variant of coin.variants ?? []) {
+        const decimals = variant.decimals ?? coin.decimals;
+        decimalsBySymbol.set(variant.symbol.toUpperCase(), decimals);
+        if (variant.addresses.moonbeam) {
+          decimalsByAddress.set(variant.addresses.moonbeam.toLowerCase(), { symbol: variant.symbol, decimals });
+        }
+      }
+    }
+  }
+
+  const tokenMapping = isObject(data.tokenMapping) ? data.tokenMapping : undefined;
+  if (!tokenMapping || !isObject(tokenMapping.moonbeamToHydration)) {
+    issues.push("tokenMapping.moonbeamToHydration must be an object");
+    return issues;
+  }
+
+  for (const [address, mapping] of Object.entries(tokenMapping.moonbeamToHydration)) {
+    const field = `tokenMapping.moonbeamToHydration[${address}]`;
+
+    // Scripts look mappings up by lowercased address, so keys must be lowercase
+    if (!ADDRESS_PATTERN.test(address)) {
+      issues.push(`${field} key is not a valid address`);
+    } else if (address !== address.toLowerCase()) {
+      issues.push(`${field} key must be lowercase`);
+    }
+
+    if (!isObject(mapping)) {
+      issues.push(`${field} must be an object`);
+      continue;
+    }
+    if (!isNonEmptyString(mapping.symbol)) issues.push(`${field}.symbol is required`);
+    if (mapping.assetId !== null && !isAssetId(mapping.assetId)) {
+      issues.push(`${field}.assetId must be a non-negative integer or null`);
+    }
+    if (mapping.decimals === undefined) {
+      issues.push(`${field}.decimals is missing`);
+      continue;
+    }
+    if (!isDecimals(mapping.decimals)) {
+      issues.push(`${field}.decimals must be an integer between 0 and 255`);
+      continue;
+    }
+
+    if (isNonEmptyString(mapping.symbol) && isAssetId(mapping.assetId)) {
+      const registryId = registry[mapping.symbol];
+      if (registryId !== undefined && registryId !== mapping.assetId) {
+        issues.push(
+          `${field}.assetId ${mapping.assetId} disagrees with hydration.assetRegistry.${mapping.symbol} (${registryId})`
+        );
+      }
+    }
+
+    if (!tayebCoins) continue;
+
+    // Prefer the exact token at that address; fall back to the symbol for tokens
+    // that are mapped for XCM but not listed as a Tayeb variant
+    const byAddress = decimalsByAddress.get(address.toLowerCase());
+    const expected = byAddress
+      ?? (isNonEmptyString(mapping.symbol) && decimalsBySymbol.has(mapping.symbol.toUpperCase())
+        ? { symbol: mapping.symbol, decimals: decimalsBySymbol.get(mapping.symbol.toUpperCase())! }
+        : undefined);
+
+    if (!expected) {
+      issues.push(`${field} (${String(mapping.symbol)}) does not match any coin in tayebCoins.json`);
+    } else if (expected.decimals !== mapping.decimals) {
+      issues.push(
+        `${field}.decimals ${mapping.decimals} disagrees with tayebCoins.json ${expected.symbol} (${expected.decimals})`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate an xcmConfig.json payload and return it typed. Throws UnsupportedConfigVersionError
+ * for other schema versions, ConfigValidationError for anything else.
+ */
+export function parseXcmConfig(
+  data: unknown,
+  options: ValidationOptions,
+  tayebCoins?: TayebCoinsConfig
+): XcmConfig {
+  assertConfigVersion("xcmConfig.json", data, XCM_CONFIG_VERSION);
+  const issues = checkXcmConfig(data, options, tayebCoins);
+  if (issues.length > 0) {
+    throw new ConfigValidationError("xcmConfig.json", issues);
+  }
+  return data as XcmConfig;
+}
+
+// ============================================================================
+// deployedContracts.json
+// ============================================================================
+
+function checkAddressMap(value: unknown, section: string, issues: string[], options: ValidationOptions): void {
+  if (!isObject(value)) {
+    issues.push(`${section} must be an object`);
+    return;
+  }
+  for (const [key, address] of Object.entries(value)) {
+    checkAddress(address, `${section}.${key}`, issues, options);
+  }
+}
+
+const HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Check metadata.contracts: one record per `main` key, each for the address `main` lists
+ */
+function checkDeploymentRecords(
+  value: unknown,
+  main: unknown,
+  section: string,
+  issues: string[],
+  options: ValidationOptions
+): void {
+  if (!isObject(value)) {
+    issues.push(`${section} must be an object`);
+    return;
+  }
+  for (const [key, record] of Object.entries(value)) {
+    const field = `${section}.${key}`;
+    if (!isObject(record)) {
+      issues.push(`${field} must be an object`);
+      continue;
+    }
+    if (!isNonEmptyString(record.contractName)) issues.push(`${field}.contractName is required`);
+    checkAddress(record.address, `${field}.address`, issues, options, false);
+    checkAddress(record.deployer, `${field}.deployer`, issues, options, false);
+    if (typeof record.txHash !== "string" || !HASH_PATTERN.test(record.txHash)) {
+      issues.push(`${field}.txHash must be a transaction hash`);
+    }
+    if (typeof record.blockNumber !== "number" || !Number.isInteger(record.blockNumber) || record.blockNumber < 0) {
+      issues.push(`${field}.blockNumber must be a non-negative integer`);
+    }
+    if (!isNonEmptyString(record.deployedAt) || Number.isNaN(Date.parse(record.deployedAt))) {
+      issues.push(`${field}.deployedAt must be an ISO date`);
+    }
+    if (!Array.isArray(record.constructorArgs)) issues.push(`${field}.constructorArgs must be an array`);
+    const compiler = record.compiler;
+    if (
+      !isObject(compiler) ||
+      !isNonEmptyString(compiler.version) ||
+      !isObject(compiler.optimizer) ||
+      typeof compiler.viaIR !== "boolean" ||
+      !isNonEmptyString(compiler.evmVersion)
+    ) {
+      issues.push(`${field}.compiler must give version, optimizer, viaIR and evmVersion`);
+    }
+    if (typeof record.runtimeBytecodeHash !== "string" || !HASH_PATTERN.test(record.runtimeBytecodeHash)) {
+      issues.push(`${field}.runtimeBytecodeHash must be a 32-byte hex hash`);
+    }
+
+    // A record for an address `main` no longer points to is stale
+    const current = isObject(main) ? main[key] : undefined;
+    if (current === undefined) {
+      issues.push(`${field} has no matching main.${key}`);
+    } else if (
+      typeof current === "string" &&
+      typeof record.address === "string" &&
+      current.toLowerCase() !== record.address.toLowerCase()
+    ) {
+      issues.push(`${field}.address ${record.address} is not main.${key} (${current})`);
+    }
+  }
+}
+
+/**
+ * Collect every problem in one chain's deployment entry, prefixing fields with `section`
+ */
+function checkOwnershipHandoff(
+  value: unknown,
+  main: unknown,
+  section: string,
+  issues: string[],
+  options: ValidationOptions
+): void {
+  if (!isObject(value)) {
+    issues.push(`${section} must be an object`);
+    return;
+  }
+  checkAddress(value.multisig, `${section}.multisig`, issues, options, false);
+  if (!isObject(value.transfers)) {
+    issues.push(`${section}.transfers must be an object`);
+    return;
+  }
+  for (const [key, transfer] of Object.entries(value.transfers)) {
+    const field = `${section}.transfers.${key}`;
+    if (!isObject(transfer)) {
+      issues.push(`${field} must be an object`);
+      continue;
+    }
+    if (!isObject(main) || !(key in main)) issues.push(`${field} has no matching main.${key}`);
+    checkAddress(transfer.address, `${field}.address`, issues, options, false);
+    checkAddress(transfer.previousOwner, `${field}.previousOwner`, issues, options, false);
+    if (typeof transfer.txHash !== "string" || !HASH_PATTERN.test(transfer.txHash)) {
+      issues.push(`${field}.txHash must be a transaction hash`);
+    }
+    if (typeof transfer.blockNumber !== "number" || !Number.isInteger(transfer.blockNumber) || transfer.blockNumber < 0) {
+      issues.push(`${field}.blockNumber must be a non-negative integer`);
+    }
+    if (!isNonEmptyString(transfer.transferredAt) || Number.isNaN(Date.parse(transfer.transferredAt))) {
+      issues.push(`${field}.transferredAt must be an ISO date`);
+    }
+  }
+}
+
+function checkDeployment(data: unknown, section: string, issues: string[], options: ValidationOptions): void {
+  if (!isObject(data)) {
+    issues.push(`${section} must be an object`);
+    return;
+  }
+
+  if (!isNonEmptyString(data.network)) issues.push(`${section}.network is required`);
+  if (typeof data.chainId !== "number" || !Number.isInteger(data.chainId) || data.chainId <= 0) {
+    issues.push(`${section}.chainId must be a positive integer`);
+  }
+  if (!isNonEmptyString(data.version)) issues.push(`${section}.version is required`);
+  if (data.lastDeployed !== null && typeof data.lastDeployed !== "string") {
+    issues.push(`${section}.lastDeployed must be a string or null`);
+  }
+
+  if (!isObject(data.amm)) {
+    issues.push(`${section}.amm must be an object`);
+  } else {
+    for (const key of ["factory", "router", "weth"]) {
+      if (!(key in data.amm)) issues.push(`${section}.amm.${key} is missing`);
+    }
+    checkAddressMap(data.amm, `${section}.amm`, issues, options);
+  }
+
+  if (!isObject(data.main)) {
+    issues.push(`${section}.main must be an object`);
+  } else {
+    for (const key of ["shariaCompliance", "shariaLocalSwap", "shariaDCA"]) {
+      if (!(key in data.main)) issues.push(`${section}.main.${key} is missing`);
+    }
+    checkAddressMap(data.main, `${section}.main`, issues, options);
+  }
+
+  checkAddressMap(data.tokens, `${section}.tokens`, issues, options);
+  checkAddressMap(data.pairs, `${section}.pairs`, issues, options);
+
+  if (!isObject(data.metadata)) {
+    issues.push(`${section}.metadata must be an object`);
+  } else {
+    checkAddress(data.metadata.deployer, `${section}.metadata.deployer`, issues, options);
+    if (data.metadata.contracts !== undefined) {
+      checkDeploymentRecords(data.metadata.contracts, data.main, `${section}.metadata.contracts`, issues, options);
+    }
+    if (data.metadata.ownership !== undefined) {
+      checkOwnershipHandoff(data.metadata.ownership, data.main, `${section}.metadata.ownership`, issues, options);
+    }
+  }
+}
+
+/**
+ * Collect every problem in a deployedContracts.json payload (empty array when valid)
+ */
+export function checkDeployedContracts(data: unknown, options: ValidationOptions): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    return ["root must be an object"];
+  }
+  if (!isObject(data.deployments)) {
+    return ["deployments must be an object keyed by chain ID"];
+  }
+
+  for (const [key, entry] of Object.entries(data.deployments)) {
+    const section = `deployments[${key}]`;
+    if (!/^[1-9][0-9]*$/.test(key)) {
+      issues.push(`${section} key must be a chain ID`);
+    }
+    checkDeployment(entry, section, issues, options);
+    if (isObject(entry) && typeof entry.chainId === "number" && String(entry.chainId) !== key) {
+      issues.push(`${section}.chainId is ${entry.chainId} but the entry is keyed by ${key}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a deployedContracts.json payload and return it typed (throws ConfigValidationError)
+ */
+export function parseDeployedContracts(data: unknown, options: ValidationOptions): DeploymentRegistry {
+  const issues = checkDeployedContracts(data, options);
+  if (issues.length > 0) {
+    throw new ConfigValidationError("deployedContracts.json", issues);
+  }
+  return data as DeploymentRegistry;
+}
+
+function checkHydrationAsset(value: unknown, field: string, issues: string[]): void {
+  if (!isObject(value)) {
+    issues.push(`${field} must be an object`);
+    return;
+  }
+  for (const key of ["hubReserve", "shares", "protocolShares", "cap"]) {
+    if (typeof value[key] !== "string") {
+      issues.push(`${field}.${key} must be a string`);
+    }
+  }
+  if (!isObject(value.tradable) || typeof value.tradable.bits !== "string") {
+    issues.push(`${field}.tradable.bits must be a string`);
+  }
+  if (value.metadata !== undefined) {
+    const metadata = value.metadata;
+    if (!isObject(metadata)) {
+      issues.push(`${field}.metadata must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(metadata.symbol)) {
+      issues.push(`${field}.metadata.symbol must be a non-empty string`);
+    }
+    if (metadata.name !== undefined && typeof metadata.name !== "string") {
+      issues.push(`${field}.metadata.name must be a string`);
+    }
+    if (!isDecimals(metadata.decimals)) {
+      issues.push(`${field}.metadata.decimals must be an integer from 0 to 255`);
+    }
+  }
+}
+
+/**
+ * Collect every problem in a hydration-asset-registry.json payload (empty array when valid)
+ */
+export function checkHydrationAssetRegistry(data: unknown): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    return ["root must be an object"];
+  }
+  if (!isNonEmptyString(data.timestamp) || Number.isNaN(Date.parse(data.timestamp))) {
+    issues.push("timestamp must be an ISO date");
+  }
+  if (!isObject(data.assets)) {
+    return [...issues, "assets must be an object keyed by asset ID"];
+  }
+
+  const keys = Object.keys(data.assets);
+  for (const [key, asset] of Object.entries(data.assets)) {
+    if (!/^[0-9]+$/.test(key)) {
+      issues.push(`assets[${key}] key must be an asset ID`);
+    }
+    checkHydrationAsset(asset, `assets[${key}]`, issues);
+  }
+
+  if (!Array.isArray(data.assetIds) || !data.assetIds.every(isAssetId)) {
+    issues.push("assetIds must be an array of asset IDs");
+  } else if (
+    data.assetIds.length !== keys.length ||
+    !data.assetIds.every((assetId) => Object.prototype.hasOwnProperty.call(data.assets, String(assetId)))
+  ) {
+    issues.push("assetIds must list exactly the keys of assets");
+  }
+  if (data.totalAssets !== keys.length) {
+    issues.push(`totalAssets is ${String(data.totalAssets)} but assets has ${keys.length} entries`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a hydration-asset-registry.json payload and return it typed (throws ConfigValidationError)
+ */
+export function parseHydrationAssetRegistry(data: unknown): HydrationAssetRegistry {
+  const issues = checkHydrationAssetRegistry(data);
+  if (issues.length > 0) {
+    throw new ConfigValidationError("hydration-asset-registry.json", issues);
+  }
+  return data as HydrationAssetRegistry;
+}
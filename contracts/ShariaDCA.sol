@@ -39,6 +39,9 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
     /// @notice User's DCA orders
     mapping(address => uint256[]) public userOrders;
 
+    /// @notice Accounts allowed to execute any order; the owner and each order's owner always are
+    mapping(address => bool) public keepers;
+
     // Token addresses are stored in ShariaCompliance contract
 
     /// @notice Minimum interval between executions (1 hour)
@@ -47,10 +50,27 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
     /// @notice Maximum interval between executions (30 days)
     uint256 public constant MAX_INTERVAL = 30 days;
 
+    /// @notice Largest slippage an order may allow per execution (10%)
+    uint256 public constant MAX_SLIPPAGE_BPS = 1000;
+
+    uint256 private constant BPS_DENOMINATOR = 10000;
+
     // ============================================================================
     // STRUCTS
     // ============================================================================
 
+    /**
+     * @notice What an execution does with schedule slots that passed without one
+     * - CatchUp: every missed slot is still executed, one call each
+     * - SkipMissed: only the latest due slot is executed; earlier ones are dropped
+     * - Cap: at most maxCatchUp overdue slots are kept behind the one executed
+     */
+    enum MissedIntervalPolicy {
+        CatchUp,
+        SkipMissed,
+        Cap
+    }
+
     struct DCAOrder {
         uint256 id;
         address owner;
@@ -65,6 +85,11 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         uint256 startTime;
         bool isActive;
         bool exists;
+        uint256 maxSlippageBps;   // Output may fall this far below the quote at execution
+        uint256 skippedIntervals; // Executions skipped because the quote fell below the keeper's minimum
+        MissedIntervalPolicy missedIntervalPolicy;
+        uint256 maxCatchUp;       // Overdue slots kept under MissedIntervalPolicy.Cap
+        uint256 missedIntervals;  // Slots dropped by the policy; the order buys later instead
     }
 
     // ============================================================================
@@ -89,6 +114,19 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
 
+    event DCAIntervalSkipped(
+        uint256 indexed orderId,
+        uint256 expectedAmountOut,
+        uint256 amountOutMin,
+        uint256 nextExecutionTime
+    );
+
+    event DCAIntervalsMissed(
+        uint256 indexed orderId,
+        uint256 missedIntervals,
+        uint256 nextExecutionTime
+    );
+
     event DCAOrderCancelled(
         uint256 indexed orderId,
         address indexed owner
@@ -100,6 +138,11 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         uint256 totalIntervals
     );
 
+    event KeeperUpdated(
+        address indexed keeper,
+        bool authorized
+    );
+
     // ============================================================================
     // ERRORS
     // ============================================================================
@@ -114,6 +157,8 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
     error SwapFailed();
     error TokenNotRegistered();
     error InvalidPath();
+    error InvalidSlippage();
+    error InvalidPerformData();
 
     // ============================================================================
     // CONSTRUCTOR
@@ -141,6 +186,16 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         dexRouter = IDEXRouter(_newRouter);
     }
 
+    /**
+     * @notice Allow or stop an account executing orders through executeDCAOrderWithMinOut and performUpkeep
+     * @param keeper Keeper address
+     * @param authorized Whether it may execute
+     */
+    function setKeeper(address keeper, bool authorized) external onlyOwner {
+        keepers[keeper] = authorized;
+        emit KeeperUpdated(keeper, authorized);
+    }
+
     // ============================================================================
     // DCA FUNCTIONS
     // ============================================================================
@@ -151,6 +206,9 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
      * @param amountPerInterval Amount to invest per interval (in wei)
      * @param intervalSeconds Time between executions (in seconds)
      * @param totalIntervals Total number of intervals
+     * @param maxSlippageBps Largest drop below the on-chain quote accepted per execution
+     * @param missedIntervalPolicy How an execution treats slots missed before it
+     * @param maxCatchUp Overdue slots still executed under MissedIntervalPolicy.Cap
      * @return orderId Created order ID
      */
     function createDCAOrderWithDEV(
@@ -158,12 +216,23 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         address[] calldata path,
         uint256 amountPerInterval,
         uint256 intervalSeconds,
-        uint256 totalIntervals
+        uint256 totalIntervals,
+        uint256 maxSlippageBps,
+        MissedIntervalPolicy missedIntervalPolicy,
+        uint256 maxCatchUp
     ) external payable nonReentrant returns (uint256) {
         if (amountPerInterval == 0 || totalIntervals == 0) {
             revert InvalidAmount();
         }
 
+        if (intervalSeconds == 0) {
+            revert InvalidInterval();
+        }
+
+        if (maxSlippageBps > MAX_SLIPPAGE_BPS) {
+            revert InvalidSlippage();
+        }
+
         if (path.length < 2 || path[0] != WETH || path[path.length - 1] != targetToken) {
             revert InvalidPath();
         }
@@ -199,6 +268,9 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         order.startTime = block.timestamp;
         order.isActive = true;
         order.exists = true;
+        order.maxSlippageBps = maxSlippageBps;
+        order.missedIntervalPolicy = missedIntervalPolicy;
+        order.maxCatchUp = maxCatchUp;
 
         userOrders[msg.sender].push(orderId);
         _storePath(order, path);
@@ -229,6 +301,9 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
      * @param amountPerInterval Amount to invest per interval (in wei)
      * @param intervalSeconds Time between executions (in seconds)
      * @param totalIntervals Total number of intervals
+     * @param maxSlippageBps Largest drop below the on-chain quote accepted per execution
+     * @param missedIntervalPolicy How an execution treats slots missed before it
+     * @param maxCatchUp Overdue slots still executed under MissedIntervalPolicy.Cap
      * @return orderId Created order ID
      */
     function createDCAOrderWithToken(
@@ -237,12 +312,23 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         address[] calldata path,
         uint256 amountPerInterval,
         uint256 intervalSeconds,
-        uint256 totalIntervals
+        uint256 totalIntervals,
+        uint256 maxSlippageBps,
+        MissedIntervalPolicy missedIntervalPolicy,
+        uint256 maxCatchUp
     ) external nonReentrant returns (uint256) {
         if (amountPerInterval == 0 || totalIntervals == 0) {
             revert InvalidAmount();
         }
 
+        if (intervalSeconds == 0) {
+            revert InvalidInterval();
+        }
+
+        if (maxSlippageBps > MAX_SLIPPAGE_BPS) {
+            revert InvalidSlippage();
+        }
+
         if (path.length < 2 || path[0] != sourceToken || path[path.length - 1] != targetToken) {
             revert InvalidPath();
         }
@@ -285,6 +371,9 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         order.startTime = block.timestamp;
         order.isActive = true;
         order.exists = true;
+        order.maxSlippageBps = maxSlippageBps;
+        order.missedIntervalPolicy = missedIntervalPolicy;
+        order.maxCatchUp = maxCatchUp;
 
         userOrders[msg.sender].push(orderId);
         _storePath(order, path);
@@ -303,19 +392,65 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Execute a DCA order (called by automation script or manually)
+     * @notice Execute a DCA order with a minimum output (called by a keeper or the order's owner)
+     * @dev A quote read from the pool in the same transaction can't catch a sandwich, so
+     *      the caller quotes before sending (getOrderQuote) and passes a nonzero minimum
+     *      here. The swap must return at least the larger of amountOutMin and the on-chain
+     *      quote less maxSlippageBps. If the quote has already fallen below amountOutMin,
+     *      the interval is skipped: nothing is swapped and the order moves on to its next
+     *      slot. Only keepers, the owner and the order's owner may call it, so no one else
+     *      can push a minimum that skips the order's slots.
      * @param orderId Order ID to execute
+     * @param amountOutMin Minimum target token amount for this interval
      */
-    function executeDCAOrder(uint256 orderId) public nonReentrant {
+    function executeDCAOrderWithMinOut(uint256 orderId, uint256 amountOutMin) external nonReentrant {
+        _executeDCAOrder(orderId, amountOutMin);
+    }
+
+    function _executeDCAOrder(uint256 orderId, uint256 amountOutMin) private {
         DCAOrder storage order = dcaOrders[orderId];
         
         if (!order.exists) revert OrderNotFound();
+        // performUpkeep reaches here through this.executeDCAOrderWithMinOut
+        if (
+            msg.sender != order.owner &&
+            msg.sender != owner() &&
+            msg.sender != address(this) &&
+            !keepers[msg.sender]
+        ) revert Unauthorized();
+        if (amountOutMin == 0) revert InvalidAmount();
         if (!order.isActive) revert OrderInactive();
         if (block.timestamp < order.nextExecutionTime) revert OrderNotReady();
 
+        address[] storage path = order.path;
+        if (path.length < 2) revert InvalidPath();
+
+        // Executions are anchored to startTime + slot * interval, so a late execution
+        // leaves the following slots where they were instead of shifting the schedule
+        uint256 slot = (order.nextExecutionTime - order.startTime) / order.interval;
+        uint256 missed = _missedSlots(order, slot);
+        if (missed > 0) {
+            slot += missed;
+            order.missedIntervals += missed;
+            order.nextExecutionTime = order.startTime + slot * order.interval;
+            emit DCAIntervalsMissed(orderId, missed, order.nextExecutionTime);
+        }
+
+        uint256 amountIn = order.amountPerInterval;
+        uint256 expectedAmountOut = _quote(amountIn, path);
+
+        if (expectedAmountOut < amountOutMin) {
+            order.skippedIntervals++;
+            order.nextExecutionTime = order.startTime + (slot + 1) * order.interval;
+            emit DCAIntervalSkipped(orderId, expectedAmountOut, amountOutMin, order.nextExecutionTime);
+            return;
+        }
+
+        uint256 slippageFloor = (expectedAmountOut * (BPS_DENOMINATOR - order.maxSlippageBps)) / BPS_DENOMINATOR;
+        uint256 minAmountOut = amountOutMin > slippageFloor ? amountOutMin : slippageFloor;
+
         // Prepare swap
         address tokenIn;
-        uint256 amountIn = order.amountPerInterval;
         
         // Handle source token (DEV or ERC20)
         if (order.sourceToken == address(0)) {
@@ -330,14 +465,11 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         // Approve router
         IERC20(tokenIn).forceApprove(address(dexRouter), amountIn);
 
-        address[] storage path = order.path;
-        if (path.length < 2) revert InvalidPath();
-
         // Execute swap
         uint256[] memory amounts;
         try dexRouter.swapExactTokensForTokens(
             amountIn,
-            0, // No slippage protection for DCA
+            minAmountOut,
             path,
             order.owner,
             block.timestamp + 15 minutes
@@ -351,7 +483,7 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
 
         // Update order
         order.intervalsCompleted++;
-        order.nextExecutionTime = block.timestamp + order.interval;
+        order.nextExecutionTime = order.startTime + (slot + 1) * order.interval;
 
         emit DCAOrderExecuted(
             orderId,
@@ -368,6 +500,39 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @dev Overdue slots after `slot` that the order's policy drops rather than executes
+     */
+    function _missedSlots(DCAOrder storage order, uint256 slot) private view returns (uint256) {
+        uint256 overdue = (block.timestamp - order.startTime) / order.interval - slot;
+        if (order.missedIntervalPolicy == MissedIntervalPolicy.CatchUp) {
+            return 0;
+        }
+        if (order.missedIntervalPolicy == MissedIntervalPolicy.SkipMissed) {
+            return overdue;
+        }
+        return overdue > order.maxCatchUp ? overdue - order.maxCatchUp : 0;
+    }
+
+    /**
+     * @dev Router quote for the order's next interval; reverts SwapFailed when the path
+     *      can't be quoted
+     */
+    function _quote(uint256 amountIn, address[] storage path) private view returns (uint256) {
+        try dexRouter.getAmountsOut(amountIn, path) returns (uint256[] memory amounts) {
+            return amounts[amounts.length - 1];
+        } catch {
+            revert SwapFailed();
+        }
+    }
+
+    /**
+     * @dev A quote less the order's maxSlippageBps: the minimum getOrderQuote and checkUpkeep offer
+     */
+    function _amountOutMin(DCAOrder storage order, uint256 expectedAmountOut) private view returns (uint256) {
+        return (expectedAmountOut * (BPS_DENOMINATOR - order.maxSlippageBps)) / BPS_DENOMINATOR;
+    }
+
     /**
      * @notice Cancel a DCA order and refund remaining balance
      * @param orderId Order ID to cancel
@@ -409,12 +574,15 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
      * @notice Check if upkeep is needed (for automation script)
      * @dev Checks all active orders to see if any need execution
      * @return upkeepNeeded Whether upkeep is needed
-     * @return performData Encoded order IDs to execute
+     * @return performData abi.encode(uint256[] orderIds, uint256[] amountOutMins), ready to
+     *         pass to performUpkeep: each order with its getOrderQuote minimum. Orders the
+     *         router can't quote are left out, as executing them would revert SwapFailed
      */
     function checkUpkeep(
         bytes calldata /* checkData */
     ) external view returns (bool upkeepNeeded, bytes memory performData) {
         uint256[] memory ordersToExecute = new uint256[](nextOrderId);
+        uint256[] memory minimums = new uint256[](nextOrderId);
         uint256 count = 0;
 
         for (uint256 i = 1; i < nextOrderId; i++) {
@@ -425,20 +593,28 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
                 block.timestamp >= order.nextExecutionTime &&
                 order.intervalsCompleted < order.totalIntervals
             ) {
-                ordersToExecute[count] = i;
-                count++;
+                try dexRouter.getAmountsOut(order.amountPerInterval, order.path) returns (uint256[] memory amounts) {
+                    uint256 amountOutMin = _amountOutMin(order, amounts[amounts.length - 1]);
+                    if (amountOutMin > 0) {
+                        ordersToExecute[count] = i;
+                        minimums[count] = amountOutMin;
+                        count++;
+                    }
+                } catch {}
             }
         }
 
         if (count > 0) {
-            // Resize array
-            uint256[] memory result = new uint256[](count);
+            // Resize arrays
+            uint256[] memory orderIds = new uint256[](count);
+            uint256[] memory amountOutMins = new uint256[](count);
             for (uint256 i = 0; i < count; i++) {
-                result[i] = ordersToExecute[i];
+                orderIds[i] = ordersToExecute[i];
+                amountOutMins[i] = minimums[i];
             }
             
             upkeepNeeded = true;
-            performData = abi.encode(result);
+            performData = abi.encode(orderIds, amountOutMins);
         }
 
         return (upkeepNeeded, performData);
@@ -446,17 +622,21 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
 
     /**
      * @notice Perform upkeep (called by automation script)
-     * @param performData Encoded order IDs to execute
-     * @dev Catches errors per order to prevent one failure from blocking others
+     * @param performData abi.encode(uint256[] orderIds, uint256[] amountOutMins): the orders
+     *        to execute, each with the keeper's minimum output as for executeDCAOrderWithMinOut
+     * @dev Keepers and the owner only. Catches errors per order to prevent one failure from
+     *      blocking others
      */
     function performUpkeep(bytes calldata performData) external {
-        uint256[] memory orderIds = abi.decode(performData, (uint256[]));
+        if (msg.sender != owner() && !keepers[msg.sender]) revert Unauthorized();
+        (uint256[] memory orderIds, uint256[] memory amountOutMins) = abi.decode(performData, (uint256[], uint256[]));
+        if (orderIds.length != amountOutMins.length) revert InvalidPerformData();
         
         for (uint256 i = 0; i < orderIds.length; i++) {
             // Use external call (this.) to enable try-catch error handling
             // This allows one failed order to not block execution of other orders
-            try this.executeDCAOrder(orderIds[i]) {
-                // Order executed successfully - event emitted in executeDCAOrder
+            try this.executeDCAOrderWithMinOut(orderIds[i], amountOutMins[i]) {
+                // Order executed or its interval skipped - event emitted in _executeDCAOrder
             } catch {
                 // Silently continue - failed order will be retried in next upkeep cycle
                 // This prevents one failed order from blocking batch execution
@@ -477,6 +657,19 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         return dcaOrders[orderId];
     }
 
+    /**
+     * @notice Quote an order's next interval on the current router
+     * @param orderId Order ID
+     * @return expectedAmountOut Target token amount the next interval would buy now
+     * @return amountOutMin That amount less the order's maxSlippageBps, for executeDCAOrderWithMinOut
+     */
+    function getOrderQuote(uint256 orderId) external view returns (uint256 expectedAmountOut, uint256 amountOutMin) {
+        DCAOrder storage order = dcaOrders[orderId];
+        if (!order.exists) revert OrderNotFound();
+        expectedAmountOut = _quote(order.amountPerInterval, order.path);
+        amountOutMin = _amountOutMin(order, expectedAmountOut);
+    }
+
     /**
      * @notice Get stored swap path for an order
      * @param orderId Order ID
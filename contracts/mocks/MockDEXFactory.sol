@@ -0,0 +1,171 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title MockDEXPair
+ * @notice Uniswap V2-style constant-product pool (0.3% fee) for a local Hardhat node
+ * @dev Tokens are sent to the pair before mint() / swap(), as with Uniswap V2. No flash
+ *      swaps, protocol fee or price oracle.
+ */
+contract MockDEXPair is ERC20, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    uint256 public constant MINIMUM_LIQUIDITY = 1000;
+    address private constant BURN_ADDRESS = 0x000000000000000000000000000000000000dEaD;
+
+    address public immutable factory;
+    address public immutable token0;
+    address public immutable token1;
+
+    uint112 private reserve0;
+    uint112 private reserve1;
+    uint32 private blockTimestampLast;
+
+    event Mint(address indexed sender, uint256 amount0, uint256 amount1);
+    event Swap(
+        address indexed sender,
+        uint256 amount0In,
+        uint256 amount1In,
+        uint256 amount0Out,
+        uint256 amount1Out,
+        address indexed to
+    );
+    event Sync(uint112 reserve0, uint112 reserve1);
+
+    error InsufficientLiquidityMinted();
+    error InsufficientOutputAmount();
+    error InsufficientInputAmount();
+    error InsufficientLiquidity();
+    error InvalidTo();
+    error ConstantProductViolated();
+    error ReserveOverflow();
+
+    constructor(address _token0, address _token1) ERC20("Tayeb Mock LP", "TAYEB-LP") {
+        factory = msg.sender;
+        token0 = _token0;
+        token1 = _token1;
+    }
+
+    function getReserves() public view returns (uint112 _reserve0, uint112 _reserve1, uint32 _blockTimestampLast) {
+        return (reserve0, reserve1, blockTimestampLast);
+    }
+
+    /**
+     * @notice Mint LP tokens for the tokens sent to the pair since the last update
+     * @param to Recipient of the LP tokens
+     * @return liquidity LP tokens minted
+     */
+    function mint(address to) external nonReentrant returns (uint256 liquidity) {
+        (uint112 _reserve0, uint112 _reserve1, ) = getReserves();
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0 = balance0 - _reserve0;
+        uint256 amount1 = balance1 - _reserve1;
+
+        uint256 supply = totalSupply();
+        if (supply == 0) {
+            uint256 root = Math.sqrt(amount0 * amount1);
+            if (root <= MINIMUM_LIQUIDITY) revert InsufficientLiquidityMinted();
+            liquidity = root - MINIMUM_LIQUIDITY;
+            _mint(BURN_ADDRESS, MINIMUM_LIQUIDITY);
+        } else {
+            liquidity = Math.min((amount0 * supply) / _reserve0, (amount1 * supply) / _reserve1);
+        }
+        if (liquidity == 0) revert InsufficientLiquidityMinted();
+
+        _mint(to, liquidity);
+        _update(balance0, balance1);
+        emit Mint(msg.sender, amount0, amount1);
+    }
+
+    /**
+     * @notice Send out `amount0Out` / `amount1Out`, requiring enough input was sent in first
+     * @param amount0Out Amount of token0 to send
+     * @param amount1Out Amount of token1 to send
+     * @param to Recipient
+     */
+    function swap(uint256 amount0Out, uint256 amount1Out, address to) external nonReentrant {
+        if (amount0Out == 0 && amount1Out == 0) revert InsufficientOutputAmount();
+        (uint112 _reserve0, uint112 _reserve1, ) = getReserves();
+        if (amount0Out >= _reserve0 || amount1Out >= _reserve1) revert InsufficientLiquidity();
+        if (to == token0 || to == token1) revert InvalidTo();
+
+        if (amount0Out > 0) IERC20(token0).safeTransfer(to, amount0Out);
+        if (amount1Out > 0) IERC20(token1).safeTransfer(to, amount1Out);
+
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0In = balance0 > _reserve0 - amount0Out ? balance0 - (_reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > _reserve1 - amount1Out ? balance1 - (_reserve1 - amount1Out) : 0;
+        if (amount0In == 0 && amount1In == 0) revert InsufficientInputAmount();
+
+        // 0.3% of the input stays in the pool
+        uint256 adjusted0 = balance0 * 1000 - amount0In * 3;
+        uint256 adjusted1 = balance1 * 1000 - amount1In * 3;
+        if (adjusted0 * adjusted1 < uint256(_reserve0) * _reserve1 * 1_000_000) revert ConstantProductViolated();
+
+        _update(balance0, balance1);
+        emit Swap(msg.sender, amount0In, amount1In, amount0Out, amount1Out, to);
+    }
+
+    /**
+     * @notice Match the reserves to the balances (e.g. after tokens were sent by mistake)
+     */
+    function sync() external nonReentrant {
+        _update(IERC20(token0).balanceOf(address(this)), IERC20(token1).balanceOf(address(this)));
+    }
+
+    function _update(uint256 balance0, uint256 balance1) private {
+        if (balance0 > type(uint112).max || balance1 > type(uint112).max) revert ReserveOverflow();
+        reserve0 = uint112(balance0);
+        reserve1 = uint112(balance1);
+        blockTimestampLast = uint32(block.timestamp);
+        emit Sync(reserve0, reserve1);
+    }
+}
+
+/**
+ * @title MockDEXFactory
+ * @notice Uniswap V2-style pair factory for a local Hardhat node
+ */
+contract MockDEXFactory {
+    /// @notice Pair for two tokens, in either order (zero address if none)
+    mapping(address => mapping(address => address)) public getPair;
+
+    address[] public allPairs;
+
+    event PairCreated(address indexed token0, address indexed token1, address pair, uint256 pairCount);
+
+    error IdenticalAddresses();
+    error ZeroAddress();
+    error PairExists();
+
+    function allPairsLength() external view returns (uint256) {
+        return allPairs.length;
+    }
+
+    /**
+     * @notice Create the pool for two tokens
+     * @param tokenA One token
+     * @param tokenB The other token
+     * @return pair The new pair's address
+     */
+    function createPair(address tokenA, address tokenB) external returns (address pair) {
+        if (tokenA == tokenB) revert IdenticalAddresses();
+        (address token0, address token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        if (token0 == address(0)) revert ZeroAddress();
+        if (getPair[token0][token1] != address(0)) revert PairExists();
+
+        pair = address(new MockDEXPair(token0, token1));
+        getPair[token0][token1] = pair;
+        getPair[token1][token0] = pair;
+        allPairs.push(pair);
+        emit PairCreated(token0, token1, pair, allPairs.length);
+    }
+}
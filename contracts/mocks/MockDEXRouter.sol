@@ -0,0 +1,190 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IDEXRouter.sol";
+import "./MockDEXFactory.sol";
+
+/**
+ * @title MockDEXRouter
+ * @notice Uniswap V2-style router over MockDEXFactory pairs, standing in for StellaSwap
+ *         on a local Hardhat node
+ * @dev Implements IDEXRouter plus factory(), WETH() and addLiquidity(); pairs are created
+ *      on first addLiquidity
+ */
+contract MockDEXRouter is IDEXRouter {
+    using SafeERC20 for IERC20;
+
+    address public immutable factory;
+    address public immutable WETH;
+
+    error Expired();
+    error InvalidPath();
+    error PairNotFound();
+    error InsufficientAmount();
+    error InsufficientLiquidity();
+    error InsufficientAAmount();
+    error InsufficientBAmount();
+    error InsufficientOutputAmount();
+    error ExcessiveInputAmount();
+
+    modifier ensure(uint256 deadline) {
+        if (deadline < block.timestamp) revert Expired();
+        _;
+    }
+
+    /**
+     * @param _factory MockDEXFactory address
+     * @param _weth MockWETH address (Wrapped GLMR)
+     */
+    constructor(address _factory, address _weth) {
+        factory = _factory;
+        WETH = _weth;
+    }
+
+    // ============================================================================
+    // LIQUIDITY
+    // ============================================================================
+
+    /**
+     * @notice Add liquidity at the pool's current ratio (or set the ratio of an empty pool)
+     * @return amountA Amount of tokenA deposited
+     * @return amountB Amount of tokenB deposited
+     * @return liquidity LP tokens minted to `to`
+     */
+    function addLiquidity(
+        address tokenA,
+        address tokenB,
+        uint256 amountADesired,
+        uint256 amountBDesired,
+        uint256 amountAMin,
+        uint256 amountBMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountA, uint256 amountB, uint256 liquidity) {
+        address pair = MockDEXFactory(factory).getPair(tokenA, tokenB);
+        if (pair == address(0)) {
+            pair = MockDEXFactory(factory).createPair(tokenA, tokenB);
+        }
+
+        (uint256 reserveA, uint256 reserveB) = _getReserves(tokenA, tokenB);
+        if (reserveA == 0 && reserveB == 0) {
+            (amountA, amountB) = (amountADesired, amountBDesired);
+        } else {
+            uint256 amountBOptimal = quote(amountADesired, reserveA, reserveB);
+            if (amountBOptimal <= amountBDesired) {
+                if (amountBOptimal < amountBMin) revert InsufficientBAmount();
+                (amountA, amountB) = (amountADesired, amountBOptimal);
+            } else {
+                uint256 amountAOptimal = quote(amountBDesired, reserveB, reserveA);
+                if (amountAOptimal < amountAMin) revert InsufficientAAmount();
+                (amountA, amountB) = (amountAOptimal, amountBDesired);
+            }
+        }
+
+        IERC20(tokenA).safeTransferFrom(msg.sender, pair, amountA);
+        IERC20(tokenB).safeTransferFrom(msg.sender, pair, amountB);
+        liquidity = MockDEXPair(pair).mint(to);
+    }
+
+    // ============================================================================
+    // SWAPS
+    // ============================================================================
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256[] memory amounts) {
+        amounts = getAmountsOut(amountIn, path);
+        if (amounts[amounts.length - 1] < amountOutMin) revert InsufficientOutputAmount();
+        IERC20(path[0]).safeTransferFrom(msg.sender, _pairFor(path[0], path[1]), amounts[0]);
+        _swap(amounts, path, to);
+    }
+
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256[] memory amounts) {
+        amounts = getAmountsIn(amountOut, path);
+        if (amounts[0] > amountInMax) revert ExcessiveInputAmount();
+        IERC20(path[0]).safeTransferFrom(msg.sender, _pairFor(path[0], path[1]), amounts[0]);
+        _swap(amounts, path, to);
+    }
+
+    // ============================================================================
+    // QUOTES
+    // ============================================================================
+
+    function getAmountsOut(uint256 amountIn, address[] calldata path) public view returns (uint256[] memory amounts) {
+        if (path.length < 2) revert InvalidPath();
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            (uint256 reserveIn, uint256 reserveOut) = _getReserves(path[i], path[i + 1]);
+            amounts[i + 1] = getAmountOut(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    function getAmountsIn(uint256 amountOut, address[] calldata path) public view returns (uint256[] memory amounts) {
+        if (path.length < 2) revert InvalidPath();
+        amounts = new uint256[](path.length);
+        amounts[amounts.length - 1] = amountOut;
+        for (uint256 i = path.length - 1; i > 0; i--) {
+            (uint256 reserveIn, uint256 reserveOut) = _getReserves(path[i - 1], path[i]);
+            amounts[i - 1] = getAmountIn(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    function quote(uint256 amountA, uint256 reserveA, uint256 reserveB) public pure returns (uint256) {
+        if (amountA == 0) revert InsufficientAmount();
+        if (reserveA == 0 || reserveB == 0) revert InsufficientLiquidity();
+        return (amountA * reserveB) / reserveA;
+    }
+
+    function getAmountOut(uint256 amountIn, uint256 reserveIn, uint256 reserveOut) public pure returns (uint256) {
+        if (amountIn == 0) revert InsufficientAmount();
+        if (reserveIn == 0 || reserveOut == 0) revert InsufficientLiquidity();
+        uint256 amountInWithFee = amountIn * 997;
+        return (amountInWithFee * reserveOut) / (reserveIn * 1000 + amountInWithFee);
+    }
+
+    function getAmountIn(uint256 amountOut, uint256 reserveIn, uint256 reserveOut) public pure returns (uint256) {
+        if (amountOut == 0) revert InsufficientAmount();
+        if (reserveIn == 0 || amountOut >= reserveOut) revert InsufficientLiquidity();
+        return (reserveIn * amountOut * 1000) / ((reserveOut - amountOut) * 997) + 1;
+    }
+
+    // ============================================================================
+    // INTERNAL
+    // ============================================================================
+
+    function _pairFor(address tokenA, address tokenB) private view returns (address pair) {
+        pair = MockDEXFactory(factory).getPair(tokenA, tokenB);
+        if (pair == address(0)) revert PairNotFound();
+    }
+
+    function _getReserves(address tokenA, address tokenB) private view returns (uint256 reserveA, uint256 reserveB) {
+        MockDEXPair pair = MockDEXPair(_pairFor(tokenA, tokenB));
+        (uint112 reserve0, uint112 reserve1, ) = pair.getReserves();
+        (reserveA, reserveB) = tokenA == pair.token0() ? (reserve0, reserve1) : (reserve1, reserve0);
+    }
+
+    function _swap(uint256[] memory amounts, address[] calldata path, address to) private {
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            MockDEXPair pair = MockDEXPair(_pairFor(path[i], path[i + 1]));
+            uint256 amountOut = amounts[i + 1];
+            (uint256 amount0Out, uint256 amount1Out) = path[i] == pair.token0()
+                ? (uint256(0), amountOut)
+                : (amountOut, uint256(0));
+            address recipient = i < path.length - 2 ? _pairFor(path[i + 1], path[i + 2]) : to;
+            pair.swap(amount0Out, amount1Out, recipient);
+        }
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @notice Stand-in for a Tayeb coin on a local Hardhat node
+ * @dev Anyone can mint, so wallets can fund themselves for testing. Never deploy outside a local network.
+ */
+contract MockERC20 is ERC20 {
+    uint8 private immutable _tokenDecimals;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_
+    ) ERC20(name_, symbol_) {
+        _tokenDecimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _tokenDecimals;
+    }
+
+    /**
+     * @notice Mint tokens to any address
+     * @param to Recipient
+     * @param amount Amount in the token's smallest unit
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
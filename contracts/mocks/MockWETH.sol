@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "../interfaces/IWETH.sol";
+
+/**
+ * @title MockWETH
+ * @notice Wrapped GLMR for a local Hardhat node
+ * @dev WETH9 behaviour: deposit() or a plain transfer wraps, withdraw() unwraps
+ */
+contract MockWETH is ERC20, IWETH {
+    event Deposit(address indexed dst, uint256 wad);
+    event Withdrawal(address indexed src, uint256 wad);
+
+    error WithdrawFailed();
+
+    constructor() ERC20("Wrapped GLMR", "WGLMR") {}
+
+    receive() external payable {
+        deposit();
+    }
+
+    function deposit() public payable {
+        _mint(msg.sender, msg.value);
+        emit Deposit(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 wad) external {
+        _burn(msg.sender, wad);
+        (bool success, ) = msg.sender.call{value: wad}("");
+        if (!success) revert WithdrawFailed();
+        emit Withdrawal(msg.sender, wad);
+    }
+
+    function approve(address guy, uint256 wad) public override(ERC20, IWETH) returns (bool) {
+        return super.approve(guy, wad);
+    }
+
+    function transfer(address dst, uint256 wad) public override(ERC20, IWETH) returns (bool) {
+        return super.transfer(dst, wad);
+    }
+
+    function transferFrom(address src, address dst, uint256 wad) public override(ERC20, IWETH) returns (bool) {
+        return super.transferFrom(src, dst, wad);
+    }
+
+    function balanceOf(address owner) public view override(ERC20, IWETH) returns (uint256) {
+        return super.balanceOf(owner);
+    }
+}
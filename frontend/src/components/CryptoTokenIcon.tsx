@@ -1,39 +1,13 @@
+import { TOKEN_LOGOS, normalizeTokenSymbol } from "../../../sdk";
+import { tokenResolver } from "../config/sdk";
+
 interface CryptoTokenIconProps {
 	symbol?: string;
 	className?: string;
+	/** Used when there's no bundled logo for the symbol, e.g. for tokens imported from a token list */
+	logoURI?: string;
 }
 
-// Token logo URLs - using CoinGecko API for reliable token images
-const TOKEN_LOGOS: Record<string, string> = {
-	ETH: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
-	WETH: "https://assets.coingecko.com/coins/images/2518/small/weth.png",
-	USDT: "https://assets.coingecko.com/coins/images/325/small/Tether.png",
-	USDC: "https://assets.coingecko.com/coins/images/6319/small/usdc.png",
-	WBTC: "https://assets.coingecko.com/coins/images/7598/small/wrapped_bitcoin_wbtc.png",
-	BTC: "https://assets.coingecko.com/coins/images/1/small/bitcoin.png",
-	DAI: "https://assets.coingecko.com/coins/images/9956/small/Badge_Dai.png",
-	HDX: "https://assets.coingecko.com/coins/images/18185/small/hydradx.png",
-	GLMR: "https://assets.coingecko.com/coins/images/22459/small/glmr.png",
-	DEV: "https://assets.coingecko.com/coins/images/22459/small/glmr.png",
-	XRP: "https://assets.coingecko.com/coins/images/44/small/xrp-symbol-white-128.png",
-	BNB: "https://assets.coingecko.com/coins/images/825/small/bnb-icon2_2x.png",
-	SOL: "https://assets.coingecko.com/coins/images/4128/small/solana.png",
-	TRX: "https://assets.coingecko.com/coins/images/1094/small/tron-logo.png",
-	ADA: "https://assets.coingecko.com/coins/images/975/small/cardano.png",
-	LINK: "https://assets.coingecko.com/coins/images/877/small/chainlink-new-logo.png",
-	BCH: "https://assets.coingecko.com/coins/images/780/small/bitcoin-cash-circle.png",
-	LEO: "https://assets.coingecko.com/coins/images/8418/small/leo-token.png",
-	XLM: "https://assets.coingecko.com/coins/images/100/small/Stellar_symbol_black_RGB.png",
-	SUI: "https://assets.coingecko.com/coins/images/26375/small/sui_asset.jpeg",
-	HBAR: "https://assets.coingecko.com/coins/images/3688/small/hbar.png",
-	AVAX: "https://assets.coingecko.com/coins/images/12559/small/Avalanche_Circle_RedWhite_Trans.png",
-	DOT: "https://assets.coingecko.com/coins/images/12171/small/polkadot.png",
-	FIL: "https://assets.coingecko.com/coins/images/12817/small/filecoin.png",
-	// Fallback for custom tokens
-	SHARIA: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
-	TAYEB: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
-};
-
 // Fallback colors for tokens without images
 const TOKEN_COLORS: Record<string, string> = {
 	ETH: "#627EEA",
@@ -67,53 +41,25 @@ const TOKEN_COLORS: Record<string, string> = {
 };
 
 /**
- * Extract base symbol from variant symbols like "WBTC.wh" -> "BTC", "iBTC.xc" -> "BTC"
- * This ensures variants show the base coin's icon (Bitcoin icon for all BTC variants, etc.)
+ * Icon symbol for a token: variants like "WBTC.wh" or "iBTC.xc" resolve to their base
+ * coin in tayebCoins.json, so every BTC variant shows the Bitcoin icon
  */
 function getBaseSymbolForIcon(symbol: string): string {
-	const upperSymbol = symbol.toUpperCase();
-	let basePart = upperSymbol;
-	
-	// Extract base part before dot or underscore
-	if (upperSymbol.includes('.')) {
-		basePart = upperSymbol.split('.')[0];
-	} else if (upperSymbol.includes('_')) {
-		basePart = upperSymbol.split('_')[0];
-	}
-	
-	// Map wrapped variants to their base coins
-	// WBTC -> BTC, WETH -> ETH, wBTC -> BTC
-	if (basePart.startsWith('W') && basePart.length > 1) {
-		const unwrapped = basePart.substring(1);
-		if (TOKEN_LOGOS[unwrapped]) {
-			return unwrapped;
-		}
-	}
-	
-	// Map Interlay variants to base coins
-	// IBTC -> BTC, iBTC -> BTC
-	if (basePart.startsWith('I') && basePart.length > 1) {
-		const withoutI = basePart.substring(1);
-		if (TOKEN_LOGOS[withoutI]) {
-			return withoutI;
-		}
-	}
-	
-	// If base part itself exists in logos, use it
-	if (TOKEN_LOGOS[basePart]) {
-		return basePart;
+	const token = tokenResolver.resolve(symbol);
+	if (token) {
+		return token.baseSymbol.toUpperCase();
 	}
-	
-	// Default fallback
-	return basePart;
+	// Unknown tokens: use the part before the variant suffix
+	return normalizeTokenSymbol(symbol).split("_")[0];
 }
 
 export function CryptoTokenIcon({
 	symbol = "ETH",
 	className = "w-8 h-8",
+	logoURI,
 }: CryptoTokenIconProps) {
 	const baseSymbol = getBaseSymbolForIcon(symbol);
-	const logoUrl = TOKEN_LOGOS[baseSymbol];
+	const logoUrl = TOKEN_LOGOS[baseSymbol] ?? logoURI;
 	const color = TOKEN_COLORS[baseSymbol] || "#4ADE80";
 
 	// If we have a logo URL, use it as an image
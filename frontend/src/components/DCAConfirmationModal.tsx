@@ -25,8 +25,18 @@ export function DCAConfirmationModal({
 		remainder,
 		totalIntervals,
 		interval,
+		maxSlippageBps,
+		missedIntervals,
 	} = data;
 
+	// Describe what happens to slots that pass without an execution
+	const missedIntervalsLabel =
+		missedIntervals.mode === "skip-missed"
+			? "Skip to the latest"
+			: missedIntervals.mode === "cap"
+			? `Catch up at most ${missedIntervals.maxCatchUp}`
+			: "Catch up all";
+
 	// Format interval label
 	const intervalLabel = totalIntervals > 1 
 		? `${totalIntervals} ${interval}s`
@@ -112,6 +122,22 @@ export function DCAConfirmationModal({
 								{actualTotalUsed} {formatTokenSymbolForDisplay(sourceToken.symbol)}
 							</span>
 						</div>
+
+						{/* Max Slippage */}
+						<div className='flex items-center justify-between text-sm'>
+							<span className='text-white/70'>Max slippage</span>
+							<span className='text-white font-medium'>
+								{maxSlippageBps / 100}% per interval
+							</span>
+						</div>
+
+						{/* Missed Intervals */}
+						<div className='flex items-center justify-between text-sm'>
+							<span className='text-white/70'>Missed intervals</span>
+							<span className='text-white font-medium'>
+								{missedIntervalsLabel}
+							</span>
+						</div>
 					</div>
 
 					{/* Remainder Info */}
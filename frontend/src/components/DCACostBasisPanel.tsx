@@ -0,0 +1,142 @@
+import { useMemo } from "react";
+import type { Token } from "../types";
+import { useTokenPrices } from "../hooks/useTokenPrices";
+import { useTayeb } from "../hooks/useTayeb";
+import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
+import { buildDCACostBasisReport, isSameAddress } from "../../../sdk";
+import type { DCAPosition } from "../../../sdk";
+
+interface DCACostBasisPanelProps {
+	positions: DCAPosition[];
+	tokens: Token[];
+	isLoading: boolean;
+	error: Error | null;
+}
+
+const formatUsd = (value: number | null) =>
+	value === null ? "—" : `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatTokenAmount = (value: number) => value.toLocaleString("en-US", { maximumFractionDigits: 6 });
+
+const gainClassName = (value: number | null) =>
+	value === null ? "text-white/70" : value >= 0 ? "text-green-400" : "text-red-400";
+
+const formatGain = (value: number | null, percent: number | null) => {
+	if (value === null) return "—";
+	const sign = value >= 0 ? "+" : "-";
+	const percentStr = percent === null ? "" : ` (${sign}${Math.abs(percent).toFixed(2)}%)`;
+	return `${sign}${formatUsd(Math.abs(value))}${percentStr}`;
+};
+
+/**
+ * Cost basis of the user's DCA orders: spent, received, average entry price, and both sides
+ * in USD at today's prices
+ */
+export function DCACostBasisPanel({ positions, tokens, isLoading, error }: DCACostBasisPanelProps) {
+	const tayeb = useTayeb();
+
+	const tokenInfo = useMemo(
+		() => (address: string) => {
+			const known = tayeb.tokens.resolve(address);
+			if (known) return { symbol: known.symbol, decimals: known.decimals };
+			const listed = tokens.find((token) => isSameAddress(token.addresses.moonbeam, address));
+			return listed && { symbol: listed.symbol, decimals: listed.decimals };
+		},
+		[tayeb, tokens]
+	);
+
+	// Variants are priced as their base coin (WBTC_WH as WBTC), which is what CoinGecko lists
+	const priceSymbol = useMemo(
+		() => (symbol: string) => tayeb.tokens.resolve(symbol)?.baseSymbol ?? symbol,
+		[tayeb]
+	);
+
+	const executed = useMemo(() => positions.filter((position) => position.executions > 0), [positions]);
+
+	const priceSymbols = useMemo(() => {
+		const { positions: unpriced } = buildDCACostBasisReport(executed, tokenInfo);
+		const symbols = unpriced.flatMap((position) => [position.source.symbol, position.target.symbol]);
+		return [...new Set(symbols.map(priceSymbol))];
+	}, [executed, tokenInfo, priceSymbol]);
+
+	const { getPrice } = useTokenPrices(priceSymbols);
+	const report = buildDCACostBasisReport(executed, tokenInfo, (symbol) => getPrice(priceSymbol(symbol)));
+	const summary = report.users[0];
+
+	return (
+		<div className="bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg mt-6">
+			<div className="flex items-center justify-between px-6 py-4 border-b border-[#23483c]">
+				<h2 className="text-white text-lg font-bold">Cost basis</h2>
+				{summary && (
+					<div className="text-right text-sm">
+						<div className="text-white/60">
+							At today&apos;s prices: spent {formatUsd(summary.spentValueToday)} · received{" "}
+							{formatUsd(summary.receivedValueToday)}
+						</div>
+						<div className={gainClassName(summary.gainVsHolding)}>
+							{formatGain(
+								summary.gainVsHolding,
+								summary.gainVsHolding !== null && summary.spentValueToday
+									? (summary.gainVsHolding / summary.spentValueToday) * 100
+									: null
+							)}{" "}
+							vs. holding
+						</div>
+					</div>
+				)}
+			</div>
+
+			{error ? (
+				<div className="px-6 py-4 text-red-400 text-sm">Could not load executions: {error.message}</div>
+			) : isLoading && report.positions.length === 0 ? (
+				<div className="px-6 py-4 text-white/60 text-sm">Loading executions...</div>
+			) : report.positions.length === 0 ? (
+				<div className="px-6 py-4 text-white/60 text-sm">No executions yet.</div>
+			) : (
+				<div className="overflow-auto">
+					<table className="w-full">
+						<thead className="bg-[#23483c]/50 text-white/60 text-xs uppercase">
+							<tr>
+								<th className="text-left py-3 px-6 font-medium">ORDER</th>
+								<th className="text-left py-3 px-6 font-medium">SPENT</th>
+								<th className="text-left py-3 px-6 font-medium">RECEIVED</th>
+								<th className="text-left py-3 px-6 font-medium">AVG PRICE</th>
+								<th className="text-left py-3 px-6 font-medium">VALUE TODAY</th>
+								<th className="text-left py-3 px-6 font-medium">VS. HOLDING</th>
+							</tr>
+						</thead>
+						<tbody>
+							{report.positions.map((position) => {
+								const source = formatTokenSymbolForDisplay(position.source.symbol);
+								const target = formatTokenSymbolForDisplay(position.target.symbol);
+								return (
+									<tr key={position.orderId.toString()} className="border-t border-[#23483c]/50 text-sm">
+										<td className="py-3 px-6 text-white font-medium">
+											#{position.orderId.toString()} {source} → {target}
+											<div className="text-white/50 text-xs">
+												{position.executions} execution{position.executions === 1 ? "" : "s"} · {position.status}
+											</div>
+										</td>
+										<td className="py-3 px-6 text-white/70">
+											{formatTokenAmount(position.spent)} {source}
+										</td>
+										<td className="py-3 px-6 text-white/70">
+											{formatTokenAmount(position.received)} {target}
+										</td>
+										<td className="py-3 px-6 text-white/70">
+											{position.averagePrice === null ? "—" : `${formatTokenAmount(position.averagePrice)} ${source}/${target}`}
+										</td>
+										<td className="py-3 px-6 text-white/70">{formatUsd(position.receivedValueToday)}</td>
+										<td className={`py-3 px-6 ${gainClassName(position.gainVsHolding)}`}>
+											{formatGain(position.gainVsHolding, position.gainVsHoldingPercent)}
+										</td>
+									</tr>
+								);
+							})}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</div>
+	);
+}
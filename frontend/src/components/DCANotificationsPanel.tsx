@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useDCANotifications } from "../hooks/useDCANotifications";
+import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
+import { DCA_NOTIFICATION_TYPES } from "../../../sdk";
+import type { DCADeliveryStatus, DCANotificationType } from "../../../sdk";
+
+const EVENT_LABELS: Record<DCANotificationType, string> = {
+	"dca.order.executed": "Executed",
+	"dca.order.completed": "Completed",
+	"dca.order.cancelled": "Cancelled",
+	"dca.keeper.failed": "Keeper failures",
+};
+
+const STATUS_CLASS_NAMES: Record<DCADeliveryStatus, string> = {
+	pending: "text-yellow-400",
+	delivered: "text-green-400",
+	failed: "text-red-400",
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+/**
+ * Webhook endpoints for the user's DCA orders: register and remove them, and see what the
+ * notifier delivered
+ */
+export function DCANotificationsPanel() {
+	const {
+		notifierUrl,
+		isSignedIn,
+		isSigning,
+		signIn,
+		subscriptions,
+		deliveries,
+		isLoading,
+		error,
+		addEndpoint,
+		removeEndpoint,
+	} = useDCANotifications();
+	const [url, setUrl] = useState("");
+	const [events, setEvents] = useState<DCANotificationType[]>([...DCA_NOTIFICATION_TYPES]);
+	const [secret, setSecret] = useState<string | null>(null);
+	const [actionError, setActionError] = useState<string | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const run = async (action: () => Promise<void>) => {
+		setActionError(null);
+		setIsSaving(true);
+		try {
+			await action();
+		} catch (err) {
+			if (!isUserRejection(err)) setActionError(getFriendlyErrorMessage(err));
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const toggleEvent = (type: DCANotificationType) =>
+		setEvents((current) => (current.includes(type) ? current.filter((event) => event !== type) : [...current, type]));
+
+	const handleAdd = () =>
+		run(async () => {
+			setSecret(await addEndpoint(url.trim(), events));
+			setUrl("");
+		});
+
+	return (
+		<div className="bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg mt-6">
+			<div className="flex items-center justify-between px-6 py-4 border-b border-[#23483c]">
+				<h2 className="text-white text-lg font-bold">Notifications</h2>
+				<span className="text-white/40 text-xs">{notifierUrl}</span>
+			</div>
+
+			{!isSignedIn ? (
+				<div className="px-6 py-4 flex items-center justify-between gap-4">
+					<p className="text-white/60 text-sm">
+						Get a signed webhook when an order executes, completes, is cancelled or the keeper fails to execute it.
+						Sign a message with your wallet to manage your endpoints.
+					</p>
+					<button
+						onClick={() => run(signIn)}
+						disabled={isSigning}
+						className="shrink-0 px-4 py-2 rounded-lg bg-primary text-background-dark text-sm font-bold hover:opacity-90 disabled:opacity-50"
+					>
+						{isSigning ? "Signing..." : "Sign in"}
+					</button>
+				</div>
+			) : (
+				<div className="px-6 py-4 space-y-4">
+					{error && <div className="text-red-400 text-sm">Could not reach the notifier: {error.message}</div>}
+
+					{subscriptions.length === 0 ? (
+						<div className="text-white/60 text-sm">{isLoading ? "Loading endpoints..." : "No endpoints yet."}</div>
+					) : (
+						<ul className="space-y-2">
+							{subscriptions.map((subscription) => (
+								<li key={subscription.id} className="flex items-center justify-between gap-4 bg-[#23483c] rounded-lg px-4 py-3">
+									<div className="min-w-0">
+										<div className="text-white text-sm font-medium truncate">{subscription.url}</div>
+										<div className="text-white/50 text-xs">
+											{subscription.events.map((type) => EVENT_LABELS[type]).join(" · ")}
+										</div>
+									</div>
+									<button
+										onClick={() => run(() => removeEndpoint(subscription.id))}
+										disabled={isSaving}
+										className="text-red-400 text-sm hover:text-red-300 disabled:opacity-50"
+									>
+										Remove
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+
+					<div className="space-y-2">
+						<div className="flex gap-2">
+							<input
+								type="url"
+								value={url}
+								onChange={(event) => setUrl(event.target.value)}
+								placeholder="https://example.com/webhooks/tayeb"
+								className="flex-1 bg-[#23483c] text-white text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary/50"
+							/>
+							<button
+								onClick={handleAdd}
+								disabled={isSaving || !url.trim() || events.length === 0}
+								className="px-4 py-2 rounded-lg bg-primary text-background-dark text-sm font-bold hover:opacity-90 disabled:opacity-50"
+							>
+								Add endpoint
+							</button>
+						</div>
+						<div className="flex flex-wrap gap-4">
+							{DCA_NOTIFICATION_TYPES.map((type) => (
+								<label key={type} className="flex items-center gap-2 text-white/70 text-sm">
+									<input type="checkbox" checked={events.includes(type)} onChange={() => toggleEvent(type)} />
+									{EVENT_LABELS[type]}
+								</label>
+							))}
+						</div>
+						{actionError && <div className="text-red-400 text-sm">{actionError}</div>}
+						{secret && (
+							<div className="p-3 bg-yellow-500/10 border border-yellow-500 rounded-lg text-sm">
+								<div className="text-yellow-500">
+									Copy this signing secret now, it won&apos;t be shown again. Check each request&apos;s
+									X-Tayeb-Signature with it.
+								</div>
+								<code className="block mt-2 text-white break-all">{secret}</code>
+								<button onClick={() => setSecret(null)} className="mt-2 text-white/60 text-xs hover:text-white">
+									Done
+								</button>
+							</div>
+						)}
+					</div>
+
+					{deliveries.length > 0 && (
+						<div className="overflow-auto">
+							<table className="w-full">
+								<thead className="bg-[#23483c]/50 text-white/60 text-xs uppercase">
+									<tr>
+										<th className="text-left py-2 px-3 font-medium">TIME</th>
+										<th className="text-left py-2 px-3 font-medium">EVENT</th>
+										<th className="text-left py-2 px-3 font-medium">ENDPOINT</th>
+										<th className="text-left py-2 px-3 font-medium">STATUS</th>
+									</tr>
+								</thead>
+								<tbody>
+									{deliveries.map((delivery) => {
+										const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+										return (
+											<tr key={delivery.id} className="border-t border-[#23483c]/50 text-sm">
+												<td className="py-2 px-3 text-white/70">{formatTime(delivery.createdAt)}</td>
+												<td className="py-2 px-3 text-white">{delivery.notification.subject}</td>
+												<td className="py-2 px-3 text-white/70 max-w-[12rem] truncate">{delivery.url}</td>
+												<td className={`py-2 px-3 ${STATUS_CLASS_NAMES[delivery.status]}`}>
+													{delivery.status}
+													<div className="text-white/50 text-xs">
+														{delivery.attempts.length} attempt{delivery.attempts.length === 1 ? "" : "s"}
+														{lastAttempt?.error ? ` · ${lastAttempt.error}` : ""}
+														{delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts.length > 0
+															? ` · retry ${formatTime(delivery.nextAttemptAt)}`
+															: ""}
+													</div>
+												</td>
+											</tr>
+										);
+									})}
+								</tbody>
+							</table>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,18 +1,13 @@
 import { useState, useMemo } from "react";
 import { formatUnits } from "viem";
-import { useBlockNumber, useReadContract } from "wagmi";
+import { useBlockNumber } from "wagmi";
 import type { DCAOrder } from "../hooks/useShariaDCA";
 import type { Token } from "../types";
-import { ShariaDCAABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-import type { Address } from "viem";
 import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
+import { getDCASchedule, getMissedIntervalPolicy } from "../../../sdk";
 
-const SHARIA_DCA_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaDCA: string } }
-).main.shariaDCA as Address;
-
-const HOUR_IN_SECONDS = 3600;
+// Display-only estimate (ShariaDCA does not expose block timing): Moonbeam block time in seconds
+const BLOCK_TIME = 6;
 
 interface DCAOrdersListProps {
 	orders: DCAOrder[];
@@ -24,23 +19,6 @@ interface DCAOrdersListProps {
 export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAOrdersListProps) {
 	const [activeTab, setActiveTab] = useState<"all" | "open" | "history">("all");
 	const { data: currentBlockNumber } = useBlockNumber();
-	
-	// Read blockTime and blocksBeforeHour from contract to stay in sync
-	const { data: blockTime } = useReadContract({
-		address: SHARIA_DCA_ADDRESS,
-		abi: ShariaDCAABI,
-		functionName: "blockTime",
-	});
-	
-	const { data: blocksBeforeHour } = useReadContract({
-		address: SHARIA_DCA_ADDRESS,
-		abi: ShariaDCAABI,
-		functionName: "blocksBeforeHour",
-	});
-	
-	// Use contract values with fallback to defaults (Moonbeam: 12s blocks, 2 blocks before hour)
-	const BLOCK_TIME = blockTime ? Number(blockTime) : 6;
-	const BLOCKS_BEFORE_HOUR = blocksBeforeHour ? Number(blocksBeforeHour) : 2;
 
 	// Filter and sort orders based on active tab (newest first)
 	const filteredOrders = useMemo(() => {
@@ -121,9 +99,36 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 		return `${parseFloat(amountStr).toFixed(4)} ${symbol}`;
 	};
 
-	// Helper to format progress display
-	const formatProgress = (intervalsCompleted: bigint, totalIntervals: bigint): string => {
-		return `${intervalsCompleted.toString()} / ${totalIntervals.toString()}`;
+	// Helper to format progress display, noting intervals skipped for slippage and slots
+	// dropped by the order's missed-interval policy
+	const formatProgress = (order: DCAOrder): string => {
+		const progress = `${order.intervalsCompleted.toString()} / ${order.totalIntervals.toString()}`;
+		const notes = [
+			order.skippedIntervals > 0n ? `${order.skippedIntervals.toString()} skipped` : null,
+			order.missedIntervals > 0n ? `${order.missedIntervals.toString()} missed` : null,
+		].filter(Boolean);
+		return notes.length > 0 ? `${progress} (${notes.join(", ")})` : progress;
+	};
+
+	// Helper to describe what happens to slots that pass without an execution
+	const formatMissedIntervalPolicy = (order: DCAOrder): string => {
+		const policy = getMissedIntervalPolicy(order);
+		if (policy.mode === "skip-missed") return "Skip missed";
+		if (policy.mode === "cap") return `Catch up ${policy.maxCatchUp}`;
+		return "Catch up";
+	};
+
+	// Helper to note slots that are overdue and those the policy will drop
+	const formatOverdue = (order: DCAOrder): string | null => {
+		const schedule = getDCASchedule(order);
+		if (schedule.dueSlots <= 1) return null;
+		const dropping = schedule.droppingSlots > 0 ? `, ${schedule.droppingSlots} will be dropped` : "";
+		return `${schedule.dueSlots} slots due${dropping}`;
+	};
+
+	// Helper to format the order's max slippage (basis points) as a percentage
+	const formatSlippage = (maxSlippageBps: bigint): string => {
+		return `${Number(maxSlippageBps) / 100}%`;
 	};
 
 	// Helper to get tab button className
@@ -147,18 +152,10 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 		return Number(order.nextExecutionTime) <= now;
 	};
 
-	// Helper to get first execution time - use contract's nextExecutionTime directly
-	// When intervalsCompleted === 0, nextExecutionTime is the first execution time
-	// For executed orders, we can't get the original first execution time from contract,
-	// so we calculate it from startTime as a fallback (though it won't account for 5-min skip for old orders)
+	// Helper to get first execution time: slots are anchored to startTime, the first
+	// one interval after the order was created
 	const getFirstExecutionTime = (order: DCAOrder): bigint => {
-		// For orders that haven't executed yet, use nextExecutionTime (contract's calculated value)
-		if (order.intervalsCompleted === 0n) {
-			return order.nextExecutionTime;
-		}
-		// For executed orders, calculate from startTime (fallback - won't match contract logic for old orders)
-		const startTimestamp = Number(order.startTime);
-		return BigInt(((Math.floor(startTimestamp / HOUR_IN_SECONDS) + 1) * HOUR_IN_SECONDS) - (BLOCKS_BEFORE_HOUR * BLOCK_TIME));
+		return order.startTime + order.interval;
 	};
 
 	// Helper to calculate estimated block number from timestamp
@@ -169,7 +166,7 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 		const now = Math.floor(Date.now() / 1000);
 		const diffSeconds = timestampNum - now;
 		
-		// Calculate blocks difference using contract's blockTime
+		// Calculate blocks difference using the estimated block time
 		const blocksDiff = BigInt(Math.floor(diffSeconds / BLOCK_TIME));
 		
 		// Return estimated block number
@@ -178,22 +175,13 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 
 	// Helper to format execution time with block
 	const formatExecutionTimeWithBlock = (executionTime: bigint): string => {
-		// Round UP to the next hour for display (the buffer is internal only)
-		// This matches the contract's behavior: rounds to next hour, then subtracts blocks
-		// Add buffer back to get the hour boundary (using contract values)
-		const timeWithBuffer = Number(executionTime) + (BLOCKS_BEFORE_HOUR * BLOCK_TIME);
-		
-		// Round UP to next hour (matching contract's rounding logic)
-		const roundedToHour = Math.ceil(timeWithBuffer / HOUR_IN_SECONDS) * HOUR_IN_SECONDS;
-		
-		const timestamp = roundedToHour * 1000;
+		const timestamp = Number(executionTime) * 1000;
 		const now = Date.now();
 		const date = new Date(timestamp);
 		
 		// Check if it's in the past
 		const isPast = timestamp < now;
 		
-		// Show clean hour time (e.g., 3:00:00)
 		const timeStr = date.toLocaleString(undefined, {
 			month: "short",
 			day: "numeric",
@@ -202,10 +190,7 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 			second: "2-digit",
 		});
 		
-		// Calculate block number based on the rounded hour time (not the actual execution time)
-		// This ensures orders with the same displayed hour show the same block number
-		const roundedExecutionTime = BigInt(roundedToHour - (BLOCKS_BEFORE_HOUR * BLOCK_TIME));
-		const estimatedBlock = calculateBlockNumber(roundedExecutionTime);
+		const estimatedBlock = calculateBlockNumber(executionTime);
 		
 		if (isPast) {
 			// For past executions, show "Past" or the date
@@ -306,6 +291,8 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 											INTERVAL
 										</th>
 										<th className="text-left py-4 px-6 font-medium">AMOUNT</th>
+										<th className="text-left py-4 px-6 font-medium">SLIPPAGE</th>
+										<th className="text-left py-4 px-6 font-medium">MISSED SLOTS</th>
 										<th className="text-left py-4 px-6 font-medium">PROGRESS</th>
 										<th className="text-left py-4 px-6 font-medium">FIRST EXECUTION</th>
 										<th className="text-left py-4 px-6 font-medium">NEXT EXECUTION</th>
@@ -322,6 +309,7 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 										const firstExecutionTime = getFirstExecutionTime(order);
 										const firstExecutionStr = formatExecutionTimeWithBlock(firstExecutionTime);
 										const nextExecutionWithBlockStr = formatExecutionTimeWithBlock(order.nextExecutionTime);
+										const overdueStr = formatOverdue(order);
 
 										return (
 											<tr
@@ -338,7 +326,13 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 													{formatAmount(amountStr, sourceToken)}
 												</td>
 												<td className="py-4 px-6 text-white/70">
-													{formatProgress(order.intervalsCompleted, order.totalIntervals)}
+													{formatSlippage(order.maxSlippageBps)}
+												</td>
+												<td className="py-4 px-6 text-white/70">
+													{formatMissedIntervalPolicy(order)}
+												</td>
+												<td className="py-4 px-6 text-white/70">
+													{formatProgress(order)}
 												</td>
 												<td className="py-4 px-6 text-white/70 text-xs">
 													{order.isActive ? (
@@ -349,9 +343,12 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 												</td>
 												<td className="py-4 px-6 text-white/70 text-xs">
 													{order.isActive ? (
-														<span className={ready ? "text-green-400 font-semibold" : ""}>
-															{nextExecutionWithBlockStr}
-														</span>
+														<>
+															<span className={ready ? "text-green-400 font-semibold" : ""}>
+																{nextExecutionWithBlockStr}
+															</span>
+															{overdueStr && <div className="text-yellow-400/80">{overdueStr}</div>}
+														</>
 													) : (
 														renderInactivePlaceholder()
 													)}
@@ -414,10 +411,18 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 												{formatAmount(amountStr, sourceToken)}
 											</span>
 										</div>
+										<div className="flex justify-between text-sm">
+											<span className="text-white/60">Max slippage:</span>
+											<span className="text-white/80">{formatSlippage(order.maxSlippageBps)}</span>
+										</div>
+										<div className="flex justify-between text-sm">
+											<span className="text-white/60">Missed slots:</span>
+											<span className="text-white/80">{formatMissedIntervalPolicy(order)}</span>
+										</div>
 										<div className="flex justify-between text-sm">
 											<span className="text-white/60">Progress:</span>
 											<span className="text-white/80">
-												{formatProgress(order.intervalsCompleted, order.totalIntervals)}
+												{formatProgress(order)}
 											</span>
 										</div>
 										{order.isActive && (
@@ -434,6 +439,12 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 														{formatExecutionTimeWithBlock(order.nextExecutionTime)}
 													</span>
 												</div>
+												{formatOverdue(order) && (
+													<div className="flex justify-between text-sm">
+														<span className="text-white/60">Overdue:</span>
+														<span className="text-yellow-400/80 text-xs">{formatOverdue(order)}</span>
+													</div>
+												)}
 												<button
 													onClick={() => onCancelOrder(order.id)}
 													className="w-full mt-2 px-3 py-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-sm font-semibold transition-colors"
@@ -3,17 +3,13 @@ import { parseUnits, formatUnits } from "viem";
 import type { Address } from "viem";
 import { usePublicClient, useAccount } from "wagmi";
 import type { Token, DCAConfirmationData } from "../types";
+import type { DCAMissedIntervalMode, DCAMissedIntervalPolicy } from "../../../sdk";
 import { TokenSelector } from "./TokenSelector";
 import { useTokenBalance } from "../hooks/useTokenBalance";
-import { ERC20_ABI } from "../config/abis";
-import { CONTRACTS } from "../config/contracts";
-import deployedContracts from "../../../config/deployedContracts.json";
+import { isSameAddress } from "../../../sdk";
+import { useTayeb } from "../hooks/useTayeb";
 import { DCAConfirmationModal } from "./DCAConfirmationModal";
 
-const SHARIA_DCA_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaDCA: string } }
-).main.shariaDCA as Address;
-
 interface DCATradeFormProps {
 	tokens: Token[];
 	isCreating?: boolean;
@@ -25,6 +21,8 @@ interface DCATradeFormProps {
 		amount: string;
 		interval: "hour" | "day" | "week";
 		duration: string;
+		maxSlippageBps: number;
+		missedIntervals: DCAMissedIntervalPolicy;
 	}) => void;
 	onApprove?: (token: Token, amount: bigint) => void;
 }
@@ -39,12 +37,22 @@ export function DCATradeForm({
 }: DCATradeFormProps) {
 	const { address } = useAccount();
 	const publicClient = usePublicClient();
+	const tayeb = useTayeb();
 	
 	// Constants (must be defined before use in state initializers)
 	const DEFAULT_DURATION = "1";
 	const INTERVAL_STORAGE_KEY = "dca-interval";
 	const DEFAULT_INTERVAL: "hour" | "day" | "week" = "day";
 	const VALID_INTERVALS: ("hour" | "day" | "week")[] = ["hour", "day", "week"];
+	const SLIPPAGE_STORAGE_KEY = "dca-max-slippage-bps";
+	const DEFAULT_SLIPPAGE_BPS = 100;
+	const SLIPPAGE_PRESETS_BPS = [50, 100, 300];
+	const MISSED_INTERVAL_OPTIONS: { mode: DCAMissedIntervalMode; label: string }[] = [
+		{ mode: "catch-up", label: "CATCH UP" },
+		{ mode: "skip-missed", label: "SKIP" },
+		{ mode: "cap", label: "CAP" },
+	];
+	const DEFAULT_MAX_CATCH_UP = "1";
 	const MAX_APPROVAL = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
 	const APPROVAL_CHECK_DELAY_MS = 1500;
 	const ALLOWANCE_POLL_INTERVAL_MS = 2000;
@@ -83,8 +91,34 @@ export function DCATradeForm({
 		}
 	}, [interval]);
 	
+	// Max slippage per interval in basis points, remembered like the interval
+	const [maxSlippageBps, setMaxSlippageBps] = useState<number>(() => {
+		if (isWindowAvailable()) {
+			const saved = Number(localStorage.getItem(SLIPPAGE_STORAGE_KEY));
+			return SLIPPAGE_PRESETS_BPS.includes(saved) ? saved : DEFAULT_SLIPPAGE_BPS;
+		}
+		return DEFAULT_SLIPPAGE_BPS;
+	});
+	
+	useEffect(() => {
+		if (isWindowAvailable()) {
+			localStorage.setItem(SLIPPAGE_STORAGE_KEY, String(maxSlippageBps));
+		}
+	}, [maxSlippageBps]);
+	
 	const [duration, setDuration] = useState<string>(DEFAULT_DURATION);
 	
+	// What executions do with slots that passed while no keeper ran
+	const [missedIntervalMode, setMissedIntervalMode] = useState<DCAMissedIntervalMode>("catch-up");
+	const [maxCatchUp, setMaxCatchUp] = useState<string>(DEFAULT_MAX_CATCH_UP);
+	
+	// Helper to build the missed-interval policy from the form
+	const getMissedIntervalPolicy = (): DCAMissedIntervalPolicy => {
+		return missedIntervalMode === "cap"
+			? { mode: "cap", maxCatchUp: parseInt(maxCatchUp) || 0 }
+			: { mode: missedIntervalMode };
+	};
+	
 	const [showConfirmationModal, setShowConfirmationModal] = useState(false);
 	const [confirmationData, setConfirmationData] = useState<DCAConfirmationData | null>(null);
 	
@@ -131,6 +165,24 @@ export function DCATradeForm({
 		}`;
 	};
 	
+	// Helper to get slippage preset button className
+	const getSlippageButtonClassName = (slippageBps: number): string => {
+		return `flex-1 py-2 rounded-lg font-bold text-sm transition-colors ${
+			maxSlippageBps === slippageBps
+				? "bg-primary text-background-dark"
+				: "bg-[#23483c] text-white/70 hover:bg-[#2c5a4b]"
+		}`;
+	};
+	
+	// Helper to get missed-interval option button className
+	const getMissedIntervalButtonClassName = (mode: DCAMissedIntervalMode): string => {
+		return `flex-1 py-2 rounded-lg font-bold text-sm transition-colors ${
+			missedIntervalMode === mode
+				? "bg-primary text-background-dark"
+				: "bg-[#23483c] text-white/70 hover:bg-[#2c5a4b]"
+		}`;
+	};
+	
 	// Helper to get button base className
 	const getButtonBaseClassName = (): string => {
 		return "w-full py-4 rounded-xl bg-primary hover:opacity-90 text-background-dark font-bold text-lg transition-opacity disabled:opacity-50 disabled:cursor-not-allowed";
@@ -206,7 +258,7 @@ export function DCATradeForm({
 			
 			// Native DEV doesn't need approval - skip check
 			const isNativeGLMR = sourceToken.symbol === "GLMR" && 
-				sourceToken.addresses.moonbeam?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+				isSameAddress(sourceToken.addresses.moonbeam, tayeb.contracts.weth);
 
 			if (isNativeGLMR) {
 				setNeedsApproval(false);
@@ -227,12 +279,7 @@ export function DCATradeForm({
 				return;
 			}
 			
-			const allowance = await publicClient.readContract({
-				address: tokenAddress,
-				abi: ERC20_ABI,
-				functionName: "allowance",
-				args: [address, SHARIA_DCA_ADDRESS],
-			}) as bigint;
+			const allowance = await publicClient.readContract(tayeb.dca.allowance(tokenAddress, address));
 
 			setNeedsApproval(allowance < totalAmount);
 		} catch (err) {
@@ -246,7 +293,7 @@ export function DCATradeForm({
 	useEffect(() => {
 		checkAllowance();
 		// eslint-disable-next-line react-hooks/exhaustive-deps
-	}, [sourceToken, amount, duration, address, publicClient]);
+	}, [sourceToken, amount, duration, address, publicClient, tayeb]);
 
 	// Immediately re-check allowance when approval is confirmed
 	useEffect(() => {
@@ -331,6 +378,8 @@ export function DCATradeForm({
 			totalIntervals: precisionInfo.totalIntervals,
 			interval,
 			intervalSeconds,
+			maxSlippageBps,
+			missedIntervals: getMissedIntervalPolicy(),
 		};
 
 		setConfirmationData(data);
@@ -349,6 +398,8 @@ export function DCATradeForm({
 			amount,
 			interval,
 			duration,
+			maxSlippageBps,
+			missedIntervals: getMissedIntervalPolicy(),
 		});
 	};
 
@@ -555,6 +606,57 @@ export function DCATradeForm({
 					</div>
 				</div>
 
+				{/* Max Slippage Section */}
+				<div className="mb-6">
+					<p className="text-white/60 text-sm mb-3">Max slippage per interval</p>
+					<div className="flex gap-2">
+						{SLIPPAGE_PRESETS_BPS.map((slippageBps) => (
+							<button
+								key={slippageBps}
+								onClick={() => setMaxSlippageBps(slippageBps)}
+								className={getSlippageButtonClassName(slippageBps)}
+							>
+								{slippageBps / 100}%
+							</button>
+						))}
+					</div>
+					<p className="text-white/40 text-xs mt-2">
+						An interval whose quote drops further than this is skipped and retried next interval.
+					</p>
+				</div>
+
+				{/* Missed Intervals Section */}
+				<div className="mb-6">
+					<p className="text-white/60 text-sm mb-3">If intervals are missed</p>
+					<div className="flex gap-2">
+						{MISSED_INTERVAL_OPTIONS.map(({ mode, label }) => (
+							<button
+								key={mode}
+								onClick={() => setMissedIntervalMode(mode)}
+								className={getMissedIntervalButtonClassName(mode)}
+							>
+								{label}
+							</button>
+						))}
+					</div>
+					{missedIntervalMode === "cap" && (
+						<div className="flex items-center gap-3 mt-3">
+							<span className="text-white/60 text-sm">Catch up at most</span>
+							<input
+								type="number"
+								value={maxCatchUp}
+								onChange={(e) => setMaxCatchUp(e.target.value)}
+								min="0"
+								className={`w-20 bg-[#23483c] text-white font-medium rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary/50 ${getNumberInputClassName()}`}
+							/>
+							<span className="text-white/60 text-sm">intervals</span>
+						</div>
+					)}
+					<p className="text-white/40 text-xs mt-2">
+						Executions follow the original schedule. Catch up buys every missed interval, skip buys only the latest.
+					</p>
+				</div>
+
 				{/* Schedule/Approve Button */}
 				<div className="pt-4">
 					{needsApproval ? (
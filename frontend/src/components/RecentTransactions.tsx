@@ -1,17 +1,10 @@
 import { useMemo } from "react";
 import { formatUnits } from "viem";
 import { useAccount, useReadContract } from "wagmi";
-import { ShariaSwapABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-import type { Address } from "viem";
+import { useTayeb } from "../hooks/useTayeb";
+import { getRecentSwaps } from "../../../sdk";
 import type { SwapRecord, Token } from "../types";
 
-const SHARIA_SWAP_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaSwap: string } }
-).main.shariaSwap as Address;
-
-const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
-
 interface RecentTransactionsProps {
 	tokens: Token[];
 	maxItems?: number; // Optional: limit number of items shown (default: 5)
@@ -19,13 +12,11 @@ interface RecentTransactionsProps {
 
 export function RecentTransactions({ tokens, maxItems = 5 }: RecentTransactionsProps) {
 	const { address } = useAccount();
+	const { swap } = useTayeb();
 
 	// Fetch swap history from contract
 	const { data: swapHistory, isLoading } = useReadContract({
-		address: SHARIA_SWAP_ADDRESS,
-		abi: ShariaSwapABI,
-		functionName: "getUserSwapHistory",
-		args: [address!],
+		...swap.getUserSwapHistory(address!),
 		query: {
 			enabled: !!address,
 			refetchInterval: 30000, // Refetch every 30 seconds for recent tx updates
@@ -39,17 +30,8 @@ export function RecentTransactions({ tokens, maxItems = 5 }: RecentTransactionsP
 	const recentSwaps = useMemo(() => {
 		if (!swapHistory || swapHistory.length === 0) return [];
 
-		const now = Date.now();
-		const twentyFourHoursAgo = now - TWENTY_FOUR_HOURS_MS;
-
-		// Filter swaps from last 24 hours and sort by timestamp (newest first)
-		return swapHistory
-			.filter((swap) => {
-				const swapTimeMs = Number(swap.timestamp) * 1000;
-				return swapTimeMs >= twentyFourHoursAgo;
-			})
-			.sort((a, b) => Number(b.timestamp - a.timestamp)) // Newest first
-			.slice(0, maxItems); // Limit to maxItems
+		// Swaps from the last 24 hours, newest first, limited to maxItems
+		return getRecentSwaps(swapHistory, maxItems);
 	}, [swapHistory, maxItems]);
 
 	// Helper to find token by address
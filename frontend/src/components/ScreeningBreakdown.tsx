@@ -0,0 +1,53 @@
+import type { ScreeningResult, ScreeningStatus } from "../../../sdk";
+
+interface ScreeningBreakdownProps {
+	result: ScreeningResult;
+	showExplanation?: boolean;
+}
+
+const STATUS_STYLES: Record<ScreeningStatus, { badge: string; icon: string; label: string }> = {
+	compliant: { badge: "bg-green-500/10 text-green-400", icon: "verified", label: "Screened compliant" },
+	"non-compliant": { badge: "bg-red-500/10 text-red-400", icon: "cancel", label: "Fails screening" },
+	"needs-review": { badge: "bg-yellow-500/10 text-yellow-400", icon: "help", label: "Needs review" },
+	unscreened: { badge: "bg-white/10 text-white/60", icon: "remove", label: "Not screened" },
+};
+
+/**
+ * Screening status and the pass/fail of each criterion; hover a criterion for its detail
+ */
+export function ScreeningBreakdown({ result, showExplanation = false }: ScreeningBreakdownProps) {
+	const status = STATUS_STYLES[result.status];
+
+	return (
+		<div className='flex flex-col gap-1.5' title={`${result.methodology}: ${result.explanation}`}>
+			<div className={`flex items-center gap-1 text-xs font-medium rounded-full px-2 py-0.5 w-fit ${status.badge}`}>
+				<span className='material-symbols-outlined text-xs'>{status.icon}</span>
+				<span>{status.label}</span>
+			</div>
+			{result.criteria.length > 0 && (
+				<ul className='flex flex-col gap-0.5'>
+					{result.criteria.map((criterion) => (
+						<li key={criterion.id} className='flex items-center gap-1 text-xs' title={criterion.detail}>
+							<span
+								className={`material-symbols-outlined text-xs ${
+									criterion.passed === null
+										? "text-yellow-400"
+										: criterion.passed
+										? "text-green-400"
+										: "text-red-400"
+								}`}
+							>
+								{criterion.passed === null ? "help" : criterion.passed ? "check_circle" : "cancel"}
+							</span>
+							<span className='text-white/80'>{criterion.label}</span>
+						</li>
+					))}
+				</ul>
+			)}
+			{showExplanation && <p className='text-[#92c9b7] text-xs'>{result.explanation}</p>}
+			{showExplanation && result.governanceNotes && (
+				<p className='text-white/60 text-xs'>{result.governanceNotes}</p>
+			)}
+		</div>
+	);
+}
@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect, useMemo } from "react";
 import type { Token } from "../types";
+import type { ImportedToken } from "../../../sdk";
 import { CryptoTokenIcon } from "./CryptoTokenIcon";
 import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
+import { useImportedTokenLists } from "../hooks/useImportedTokenLists";
 
 interface TokenSelectorProps {
 	selectedToken: Token | null;
@@ -18,7 +20,26 @@ export function TokenSelector({
 }: TokenSelectorProps) {
 	const [isOpen, setIsOpen] = useState(false);
 	const [searchQuery, setSearchQuery] = useState("");
+	const [showListManager, setShowListManager] = useState(false);
+	const [listSource, setListSource] = useState("");
+	const [importing, setImporting] = useState(false);
+	const [importError, setImportError] = useState<string | null>(null);
 	const dropdownRef = useRef<HTMLDivElement>(null);
+	const importedLists = useImportedTokenLists();
+
+	// Imported tokens come after the registry's; a registry token wins when both list an address
+	const allTokens = useMemo<(Token | ImportedToken)[]>(() => {
+		const known = new Set(tokens.map((token) => token.addresses.moonbeam.toLowerCase()));
+		const imported = importedLists.tokens.filter((token) => {
+			const address = token.addresses.moonbeam.toLowerCase();
+			if (known.has(address)) {
+				return false;
+			}
+			known.add(address);
+			return true;
+		});
+		return [...tokens, ...imported];
+	}, [tokens, importedLists.tokens]);
 
 	// Close dropdown when clicking outside
 	useEffect(() => {
@@ -29,6 +50,7 @@ export function TokenSelector({
 			) {
 				setIsOpen(false);
 				setSearchQuery(""); // Clear search when closing
+				setShowListManager(false);
 			}
 		};
 
@@ -41,15 +63,15 @@ export function TokenSelector({
 	// Filter tokens based on search query
 	const filteredTokens = useMemo(() => {
 		if (!searchQuery.trim()) {
-			return tokens;
+			return allTokens;
 		}
 		const query = searchQuery.toLowerCase().trim();
-		return tokens.filter(
+		return allTokens.filter(
 			(token) =>
 				token.symbol.toLowerCase().includes(query) ||
 				token.name.toLowerCase().includes(query)
 		);
-	}, [tokens, searchQuery]);
+	}, [allTokens, searchQuery]);
 
 	const handleTokenSelect = (token: Token) => {
 		onTokenChange(token);
@@ -57,6 +79,28 @@ export function TokenSelector({
 		setSearchQuery(""); // Clear search after selection
 	};
 
+	// A URL is fetched; anything else is parsed as the list's JSON
+	const handleImportList = async () => {
+		const source = listSource.trim();
+		if (!source) {
+			return;
+		}
+		setImporting(true);
+		setImportError(null);
+		try {
+			if (/^https?:\/\//i.test(source)) {
+				await importedLists.importFromUrl(source);
+			} else {
+				importedLists.importFromJson(source);
+			}
+			setListSource("");
+		} catch (error) {
+			setImportError(error instanceof Error ? error.message : String(error));
+		} finally {
+			setImporting(false);
+		}
+	};
+
 	return (
 		<div className="relative" ref={dropdownRef}>
 			{/* Dropdown Button */}
@@ -131,11 +175,24 @@ export function TokenSelector({
 								>
 									<CryptoTokenIcon
 										symbol={token.symbol}
+										logoURI={"logoURI" in token ? token.logoURI : undefined}
 										className="size-8"
 									/>
 									<div className="flex-1 text-left">
-										<div className="text-white font-bold text-sm">
+										<div className="flex items-center gap-1.5 text-white font-bold text-sm">
 											{formatTokenSymbolForDisplay(token.symbol)}
+											{"listName" in token && (
+												<span
+													className={`text-[10px] font-medium rounded-full px-1.5 py-0.5 ${
+														token.permissible
+															? "bg-white/10 text-white/60"
+															: "bg-yellow-500/10 text-yellow-400"
+													}`}
+													title={`Imported from ${token.listName}; not in the Tayeb registry, so swaps may be rejected`}
+												>
+													{token.permissible ? "Imported" : "Imported · unscreened"}
+												</span>
+											)}
 										</div>
 										<div className="text-white/60 text-xs truncate">
 											{token.name}
@@ -163,6 +220,60 @@ export function TokenSelector({
 								</div>
 							)}
 						</div>
+						{/* Token list import */}
+						<div className="border-t border-[#23483c] mt-2 pt-2 px-3">
+							<button
+								type="button"
+								onClick={() => setShowListManager(!showListManager)}
+								className="flex items-center gap-1 text-white/60 hover:text-white text-xs py-1"
+							>
+								<span className="material-symbols-outlined text-sm">playlist_add</span>
+								Manage token lists
+							</button>
+							{showListManager && (
+								<div className="flex flex-col gap-2 py-2">
+									<div className="flex gap-2">
+										<input
+											type="text"
+											value={listSource}
+											onChange={(e) => setListSource(e.target.value)}
+											placeholder="Token list URL or JSON"
+											className="flex-1 min-w-0 bg-[#23483c] border border-[#2c5a4b] rounded-lg px-3 py-1.5 text-white text-xs placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-primary/50"
+										/>
+										<button
+											type="button"
+											onClick={handleImportList}
+											disabled={importing || !listSource.trim()}
+											className="bg-primary text-background-dark rounded-lg px-3 py-1.5 text-xs font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+										>
+											{importing ? "Importing..." : "Import"}
+										</button>
+									</div>
+									{importError && (
+										<p className="text-red-400 text-xs whitespace-pre-line">{importError}</p>
+									)}
+									{importedLists.lists.map((list) => (
+										<div key={list.name} className="flex items-center justify-between text-xs">
+											<span className="text-white/80 truncate">
+												{list.name}{" "}
+												<span className="text-white/40">
+													v{list.version.major}.{list.version.minor}.{list.version.patch} ·{" "}
+													{list.tokens.length} tokens
+												</span>
+											</span>
+											<button
+												type="button"
+												onClick={() => importedLists.removeList(list.name)}
+												className="text-white/40 hover:text-red-400"
+												title="Remove list"
+											>
+												<span className="material-symbols-outlined text-sm">delete</span>
+											</button>
+										</div>
+									))}
+								</div>
+							)}
+						</div>
 					</div>
 				</div>
 			)}
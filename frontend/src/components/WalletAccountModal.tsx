@@ -2,12 +2,10 @@ import { useEffect, useMemo, useState } from "react";
 import { FaExternalLinkAlt, FaCopy, FaCheck, FaWallet } from "react-icons/fa";
 import { formatUnits } from "viem";
 import { useAccount, useReadContract, useBlockNumber } from "wagmi";
-import { ShariaSwapABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-import tayebCoinsData from "../../../config/tayebCoins.json";
+import { useTayeb } from "../hooks/useTayeb";
+import { getRecentSwaps } from "../../../sdk";
 import { useShariaCompliance } from "../hooks/useShariaCompliance";
 import { useWallet } from "../hooks/useWallet";
-import type { Address } from "viem";
 import type { SwapRecord, Token } from "../types";
 
 interface WalletAccountModalProps {
@@ -15,54 +13,22 @@ interface WalletAccountModalProps {
 	onClose: () => void;
 }
 
-const SHARIA_SWAP_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaSwap: string } }
-).main.shariaSwap as Address;
-
-const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
-
 export function WalletAccountModal({ isOpen, onClose }: WalletAccountModalProps) {
 	const { address, disconnectWallet, chain } = useWallet();
 	const { address: accountAddress } = useAccount();
 	const { coins, coinsLoading } = useShariaCompliance();
+	const tayeb = useTayeb();
 	const [copied, setCopied] = useState(false);
 	
 	// Format tokens: merge smart contract data with tayebCoins.json metadata
-	const tokens: Token[] = useMemo(() => {
-		return (coins || []).map((coin) => {
-			const tayebCoins = (
-				tayebCoinsData as {
-					coins: Array<{
-						symbol: string;
-						decimals: number;
-						avgSlippagePercent: number;
-					}>;
-				}
-			).coins;
-			const coinMetadata = tayebCoins.find(
-				(c: { symbol: string; decimals: number; avgSlippagePercent: number }) =>
-					c.symbol.toLowerCase() === coin.symbol.toLowerCase()
-			);
-
-			return {
-				symbol: coin.symbol,
-				name: coin.name,
-				decimals: coinMetadata?.decimals ?? 18,
-				description: coin.complianceReason,
-				complianceReason: coin.complianceReason,
-				addresses: { moonbeam: coin.tokenAddress },
-				permissible: coin.verified,
-				avgSlippagePercent: coinMetadata?.avgSlippagePercent,
-			};
-		});
-	}, [coins]);
+	const tokens: Token[] = useMemo(
+		() => (coins || []).map((coin) => tayeb.tokens.fromShariaCoin(coin)),
+		[coins, tayeb]
+	);
 
 	// Fetch swap history from contract
 	const { data: swapHistory, isLoading: swapHistoryLoading, refetch: refetchSwapHistory } = useReadContract({
-		address: SHARIA_SWAP_ADDRESS,
-		abi: ShariaSwapABI,
-		functionName: "getUserSwapHistory",
-		args: [accountAddress!],
+		...tayeb.swap.getUserSwapHistory(accountAddress!),
 		query: {
 			enabled: !!accountAddress && isOpen,
 			refetchInterval: 5000, // Refetch every 5 seconds for near real-time updates
@@ -94,18 +60,8 @@ export function WalletAccountModal({ isOpen, onClose }: WalletAccountModalProps)
 	const recentSwaps = useMemo(() => {
 		if (!swapHistory || swapHistory.length === 0) return [];
 
-		const now = Date.now();
-		const twentyFourHoursAgo = now - TWENTY_FOUR_HOURS_MS;
-
-		// Filter swaps from last 24 hours and sort by timestamp (newest first)
-		// Only show the most recent transaction
-		return swapHistory
-			.filter((swap) => {
-				const swapTimeMs = Number(swap.timestamp) * 1000;
-				return swapTimeMs >= twentyFourHoursAgo;
-			})
-			.sort((a, b) => Number(b.timestamp - a.timestamp)) // Newest first
-			.slice(0, 1); // Limit to only the most recent transaction
+		// Only show the most recent transaction from the last 24 hours
+		return getRecentSwaps(swapHistory, 1);
 	}, [swapHistory]);
 
 	// Handle ESC key to close
@@ -1,92 +1,65 @@
 /**
  * Contract Addresses and Configuration
- * Auto-imported from deployed contracts configuration
+ * Resolved through the shared Tayeb SDK from each chain's entry in the deployed contracts configuration
  */
 
 import type { Address } from "viem";
-import deployedContracts from "../../../config/deployedContracts.json";
-import tayebCoinsData from "../../../config/tayebCoins.json";
+import { getDeployment } from "../../../sdk";
+import { DEFAULT_CHAIN_ID, deploymentRegistry, getTayebSdk } from "./sdk";
 
-// Type-safe contract addresses
-export const CONTRACTS = {
-	// Main Protocol Contracts
-	SHARIA_COMPLIANCE: deployedContracts.main.shariaCompliance as Address,
-	SHARIA_SWAP: deployedContracts.main.shariaSwap as Address,
-	SHARIA_DCA: deployedContracts.main.shariaDCA as Address,
+// Type-safe contract addresses for a chain's deployment
+export function getContracts(chainId: number = DEFAULT_CHAIN_ID) {
+	const tayeb = getTayebSdk(chainId);
+	const deployment = getDeployment(deploymentRegistry, tayeb.chainId);
 
-	// AMM Contracts
-	FACTORY: deployedContracts.amm.factory as Address,
-	ROUTER: deployedContracts.amm.router as Address,
-	WETH: deployedContracts.amm.weth as Address,
+	return {
+		// Main Protocol Contracts
+		SHARIA_COMPLIANCE: tayeb.contracts.shariaCompliance,
+		SHARIA_LOCAL_SWAP: tayeb.contracts.shariaLocalSwap,
+		SHARIA_DCA: tayeb.contracts.shariaDCA,
 
-	// Token Addresses
-	TOKENS: deployedContracts.tokens as Record<string, Address>,
+		// AMM Contracts
+		FACTORY: deployment.amm.factory as Address | null,
+		ROUTER: tayeb.contracts.router,
+		WETH: tayeb.contracts.weth,
 
-	// Liquidity Pairs
-	PAIRS: deployedContracts.pairs as Record<string, Address>,
-} as const;
+		// Token Addresses
+		TOKENS: deployment.tokens as Record<string, Address>,
+
+		// Liquidity Pairs
+		PAIRS: deployment.pairs as Record<string, Address>,
+	} as const;
+}
 
 // Network Information
-export const NETWORK_INFO = {
-	network: deployedContracts.network,
-	version: deployedContracts.version,
-	lastDeployed: deployedContracts.lastDeployed,
-	deployer: deployedContracts.metadata?.deployer,
-} as const;
+export function getNetworkInfo(chainId: number = DEFAULT_CHAIN_ID) {
+	const deployment = getDeployment(deploymentRegistry, getTayebSdk(chainId).chainId);
 
-// Token Metadata
-export const TOKEN_METADATA = tayebCoinsData.coins.reduce(
-	(acc, coin) => {
-		acc[coin.symbol] = {
-			symbol: coin.symbol,
-			name: coin.name,
-			decimals: coin.decimals,
-			avgSlippagePercent: coin.avgSlippagePercent,
-			complianceReason: coin.complianceReason,
-			description: coin.description,
-			address: coin.addresses.moonbeam as Address,
-			permissible: coin.permissible,
-		};
-		return acc;
-	},
-	{} as Record<
-		string,
-		{
-			symbol: string;
-			name: string;
-			decimals: number;
-			avgSlippagePercent: number;
-			complianceReason: string;
-			description: string;
-			address: Address;
-			permissible: boolean;
-		}
-	>
-);
+	return {
+		network: deployment.network,
+		chainId: deployment.chainId,
+		version: deployment.version,
+		lastDeployed: deployment.lastDeployed,
+		deployer: deployment.metadata?.deployer,
+	} as const;
+}
 
 // Get token address by symbol
-export function getTokenAddress(symbol: string): Address | undefined {
-	const token = TOKEN_METADATA[symbol.toUpperCase()];
-	return token?.address;
+export function getTokenAddress(symbol: string, chainId: number = DEFAULT_CHAIN_ID): Address | undefined {
+	return getTayebSdk(chainId).tokens.findToken(symbol)?.addresses.moonbeam;
 }
 
 // Get token decimals by symbol
-export function getTokenDecimalsBySymbol(symbol: string): number {
-	const token = TOKEN_METADATA[symbol.toUpperCase()];
-	return token?.decimals ?? 18;
+export function getTokenDecimalsBySymbol(symbol: string, chainId: number = DEFAULT_CHAIN_ID): number {
+	return getTayebSdk(chainId).tokens.findToken(symbol)?.decimals ?? 18;
 }
 
 // Get all token symbols
-export function getAllTokenSymbols(): string[] {
-	return Object.keys(TOKEN_METADATA);
+export function getAllTokenSymbols(chainId: number = DEFAULT_CHAIN_ID): string[] {
+	return getTayebSdk(chainId).tokens.tokens.map((token) => token.symbol);
 }
 
 // Check if token is permissible
-export function isTokenPermissible(symbol: string): boolean {
-	const token = TOKEN_METADATA[symbol.toUpperCase()];
-	return token?.permissible ?? false;
+export function isTokenPermissible(symbol: string, chainId: number = DEFAULT_CHAIN_ID): boolean {
+	return getTayebSdk(chainId).tokens.findToken(symbol)?.permissible ?? false;
 }
-
-// Export for convenience
-export default CONTRACTS;
-
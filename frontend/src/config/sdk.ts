@@ -0,0 +1,54 @@
+/**
+ * The frontend's Tayeb SDK instances, one per deployed chain, built from the validated config files
+ */
+
+import { getAddress } from "viem";
+import deployedContractsData from "../../../config/deployedContracts.json";
+import tayebCoinsData from "../../../config/tayebCoins.json";
+import xcmConfigData from "../../../config/xcmConfig.json";
+import { parseDeployedContracts, parseTayebCoinsConfig, parseXcmConfig } from "../../../config/validation";
+import {
+	TAYEB_CHAIN_IDS,
+	createTayebSdk,
+	createTokenResolver,
+	findDeployment,
+	getDeployedChainIds,
+	getDeployment,
+	type TayebSdk,
+} from "../../../sdk";
+
+const validationOptions = { checksumAddress: (address: string) => getAddress(address) };
+
+// Malformed config files throw a ConfigValidationError at load time, and files on another
+// schema version an UnsupportedConfigVersionError (run `npm run migrate:config` at the repo root)
+export const tayebCoinsConfig = parseTayebCoinsConfig(tayebCoinsData, validationOptions);
+export const deploymentRegistry = parseDeployedContracts(deployedContractsData, validationOptions);
+export const xcmConfig = parseXcmConfig(xcmConfigData, validationOptions, tayebCoinsConfig);
+
+// Chain-independent token lookups (symbols, decimals, icons); addresses are Moonbeam's
+export const tokenResolver = createTokenResolver(tayebCoinsConfig, { xcmConfig });
+
+// Used until a wallet connects, and whenever it sits on a chain Tayeb isn't deployed to
+export const DEFAULT_CHAIN_ID = TAYEB_CHAIN_IDS.moonbeam;
+
+export const SUPPORTED_CHAIN_IDS = getDeployedChainIds(deploymentRegistry);
+
+export function isSupportedChain(chainId: number | undefined): chainId is number {
+	return chainId !== undefined && findDeployment(deploymentRegistry, chainId) !== undefined;
+}
+
+const sdkByChain = new Map<number, TayebSdk>();
+
+/**
+ * SDK for `chainId`'s deployment (the default chain's when `chainId` has none).
+ * Instances are cached so hooks can depend on them without re-rendering.
+ */
+export function getTayebSdk(chainId: number | undefined): TayebSdk {
+	const resolvedChainId = isSupportedChain(chainId) ? chainId : DEFAULT_CHAIN_ID;
+	let sdk = sdkByChain.get(resolvedChainId);
+	if (!sdk) {
+		sdk = createTayebSdk(getDeployment(deploymentRegistry, resolvedChainId), tayebCoinsConfig, xcmConfig);
+		sdkByChain.set(resolvedChainId, sdk);
+	}
+	return sdk;
+}
@@ -1,53 +1,30 @@
 // Token decimals configuration
-// Maps token symbols to their decimal places
+// Resolved from tayebCoins.json through the shared token resolver (variants inherit their base coin's decimals)
 
-import tayebCoinsData from "../../../config/tayebCoins.json";
+import { normalizeTokenSymbol } from "../../../sdk";
+import { tokenResolver } from "./sdk";
 
 type TokenDecimalsMap = { [symbol: string]: number };
 
-// Build decimals map from tayebCoins.json (including variants)
-const tokenDecimalsMap: TokenDecimalsMap = {};
-const tayebCoinsTyped = tayebCoinsData as {
-	coins: Array<{
-		symbol: string;
-		decimals: number;
-		variants?: Array<{
-			symbol: string;
-			decimals: number;
-		}>;
-	}>;
-};
-
-tayebCoinsTyped.coins.forEach((coin) => {
-	// Add main coin
-	tokenDecimalsMap[coin.symbol.toUpperCase()] = coin.decimals;
-	
-	// Add variants if they exist
-	if (coin.variants) {
-		coin.variants.forEach((variant) => {
-			tokenDecimalsMap[variant.symbol.toUpperCase()] = variant.decimals ?? coin.decimals;
-		});
-	}
-});
-
 /**
- * Get decimals for a token symbol
- * @param symbol Token symbol (e.g. "BTC", "ETH", "USDC")
+ * Get decimals for a token
+ * @param symbol Token symbol in either variant form (e.g. "BTC", "WBTC_WH", "WBTC.wh"), address or Hydration asset ID
  * @returns Number of decimals (defaults to 18 if not found)
  */
 export function getTokenDecimals(symbol: string): number {
-	const decimals = tokenDecimalsMap[symbol.toUpperCase()];
-	if (decimals === undefined) {
+	const token = tokenResolver.resolve(symbol);
+	if (!token) {
 		console.warn(`⚠️ Decimals not found for ${symbol}, defaulting to 18`);
 		return 18;
 	}
-	return decimals;
+	return token.decimals;
 }
 
 /**
- * Get all token decimals
+ * Get all token decimals, keyed by upper-case symbol
  */
 export function getAllTokenDecimals(): TokenDecimalsMap {
-	return { ...tokenDecimalsMap };
+	return Object.fromEntries(
+		tokenResolver.entries.map((token) => [normalizeTokenSymbol(token.symbol), token.decimals])
+	);
 }
-
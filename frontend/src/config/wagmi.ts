@@ -1,20 +1,35 @@
 import { getDefaultConfig } from "@rainbow-me/rainbowkit";
-import { http } from "viem";
-import { moonbeam } from "wagmi/chains";
+import { http, type Chain } from "viem";
+import { localhost, moonbaseAlpha, moonbeam } from "wagmi/chains";
+import { DEFAULT_CHAIN_ID, SUPPORTED_CHAIN_IDS } from "./sdk";
+
+// Chains Tayeb can be deployed to, keyed by chain ID (see config/deployedContracts.json)
+const KNOWN_CHAINS: Record<number, { chain: Chain; rpcUrl: string }> = {
+	[moonbeam.id]: { chain: moonbeam, rpcUrl: "https://rpc.api.moonbeam.network" },
+	[moonbaseAlpha.id]: { chain: moonbaseAlpha, rpcUrl: "https://rpc.api.moonbase.moonbeam.network" },
+	[localhost.id]: { chain: localhost, rpcUrl: "http://127.0.0.1:8545" },
+};
+
+// CRITICAL: Moonbeam Mainnet (Chain ID: 1284) is the default network - transactions will cost real GLMR!
+// Moonbase Alpha and a local Hardhat node are offered only when they have a deployment entry.
+const [defaultChain, ...otherChains] = [
+	KNOWN_CHAINS[DEFAULT_CHAIN_ID],
+	...SUPPORTED_CHAIN_IDS.filter((chainId) => chainId !== DEFAULT_CHAIN_ID && chainId in KNOWN_CHAINS).map(
+		(chainId) => KNOWN_CHAINS[chainId]
+	),
+];
 
-// CRITICAL: This app is configured for Moonbeam Mainnet (Chain ID: 1284)
-// This is the production network - transactions will cost real GLMR!
 export const wagmiConfig = getDefaultConfig({
 	appName: "Tayeb Sharia DeFi",
 	projectId: "your-walletconnect-project-id", // Get from WalletConnect Cloud
-	chains: [moonbeam], // Chain ID: 1284 - MAINNET
-	transports: {
-		[moonbeam.id]: http("https://rpc.api.moonbeam.network"),
-	},
+	chains: [defaultChain.chain, ...otherChains.map(({ chain }) => chain)],
+	transports: Object.fromEntries(
+		[defaultChain, ...otherChains].map(({ chain, rpcUrl }) => [chain.id, http(rpcUrl)])
+	),
 	ssr: false, 
 });
 
-// Export the mainnet chain and chain ID for validation
+// Export the mainnet chain and the default chain ID for validation
 export { moonbeam };
 export const REQUIRED_CHAIN_ID = moonbeam.id; // 1284
 export const REQUIRED_CHAIN_NAME = moonbeam.name; // "Moonbeam"
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { dcaNotifierAuthMessage, isSameAddress } from "../../../sdk";
+import type { DCADelivery, DCANotificationType, DCAWebhookSubscription } from "../../../sdk";
+
+const NOTIFIER_URL = (import.meta.env.VITE_NOTIFIER_URL || "http://localhost:8788").replace(/\/$/, "");
+
+interface NotifierAuth {
+	owner: string;
+	token: string;
+}
+
+/**
+ * Webhook endpoints the connected owner registered with the DCA notifier
+ * (scripts/automation/dca-notifier.ts) and their delivery log. The notifier only answers
+ * the owner's session, so nothing loads until signIn() has signed the notifier's nonce.
+ */
+export function useDCANotifications() {
+	const { address, chainId } = useAccount();
+	const { signMessageAsync, isPending: isSigning } = useSignMessage();
+	const [auth, setAuth] = useState<NotifierAuth | null>(null);
+	const [subscriptions, setSubscriptions] = useState<DCAWebhookSubscription[]>([]);
+	const [deliveries, setDeliveries] = useState<DCADelivery[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<Error | null>(null);
+
+	// A signature only speaks for the account that made it
+	const activeAuth = auth && address && isSameAddress(auth.owner, address) ? auth : null;
+
+	const request = useCallback(
+		async <T>(route: string, init: RequestInit = {}): Promise<T> => {
+			if (!activeAuth) {
+				throw new Error("Sign in to the notifier first");
+			}
+			const response = await fetch(`${NOTIFIER_URL}${route}`, {
+				...init,
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${activeAuth.token}`,
+				},
+			});
+			const body = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+			if (response.status === 401) {
+				setAuth(null);
+				throw new Error(body?.error ?? "Session expired, sign in again");
+			}
+			if (!response.ok) {
+				throw new Error(body?.error ?? `Notifier answered ${response.status}`);
+			}
+			return body as T;
+		},
+		[activeAuth]
+	);
+
+	const refresh = useCallback(async () => {
+		if (!activeAuth) {
+			setSubscriptions([]);
+			setDeliveries([]);
+			return;
+		}
+		setIsLoading(true);
+		setError(null);
+		try {
+			const [subscriptionList, deliveryLog] = await Promise.all([
+				request<{ subscriptions: DCAWebhookSubscription[] }>("/subscriptions"),
+				request<{ deliveries: DCADelivery[] }>("/deliveries"),
+			]);
+			setSubscriptions(subscriptionList.subscriptions);
+			setDeliveries(deliveryLog.deliveries);
+		} catch (err) {
+			setError(err instanceof Error ? err : new Error(String(err)));
+		} finally {
+			setIsLoading(false);
+		}
+	}, [activeAuth, request]);
+
+	useEffect(() => {
+		refresh();
+	}, [refresh]);
+
+	const signIn = useCallback(async () => {
+		if (!address || !chainId) return;
+		const nonceResponse = await fetch(`${NOTIFIER_URL}/nonce`);
+		if (!nonceResponse.ok) {
+			throw new Error(`Notifier answered ${nonceResponse.status}`);
+		}
+		const { nonce } = (await nonceResponse.json()) as { nonce: string };
+		const issuedAt = new Date().toISOString();
+		const message = dcaNotifierAuthMessage({ domain: new URL(NOTIFIER_URL).host, chainId, owner: address, nonce, issuedAt });
+		const signature = await signMessageAsync({ message });
+		const response = await fetch(`${NOTIFIER_URL}/session`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ owner: address, issuedAt, nonce, signature }),
+		});
+		const body = await response.json().catch(() => undefined);
+		if (!response.ok) {
+			throw new Error(body?.error ?? `Notifier answered ${response.status}`);
+		}
+		setAuth({ owner: address, token: body.token });
+	}, [address, chainId, signMessageAsync]);
+
+	/**
+	 * Register an endpoint; resolves to its signing secret, which the notifier never shows again
+	 */
+	const addEndpoint = useCallback(
+		async (url: string, events: DCANotificationType[]): Promise<string> => {
+			const { secret } = await request<{ subscription: DCAWebhookSubscription; secret: string }>("/subscriptions", {
+				method: "POST",
+				body: JSON.stringify({ url, events }),
+			});
+			await refresh();
+			return secret;
+		},
+		[request, refresh]
+	);
+
+	const removeEndpoint = useCallback(
+		async (subscriptionId: string) => {
+			await request<void>(`/subscriptions/${encodeURIComponent(subscriptionId)}`, { method: "DELETE" });
+			await refresh();
+		},
+		[request, refresh]
+	);
+
+	return {
+		notifierUrl: NOTIFIER_URL,
+		isSignedIn: activeAuth !== null,
+		isSigning,
+		signIn,
+		subscriptions,
+		deliveries,
+		isLoading,
+		error,
+		addEndpoint,
+		removeEndpoint,
+		refresh,
+	};
+}
@@ -0,0 +1,93 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useChainId } from "wagmi";
+import { parseTokenList, tokenListToTokens, type ImportedToken, type TokenList } from "../../../sdk";
+
+const STORAGE_KEY = "tayeb.importedTokenLists";
+
+const isWindowAvailable = () => typeof window !== "undefined";
+
+function readStoredLists(): TokenList[] {
+	if (!isWindowAvailable()) {
+		return [];
+	}
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+		return Array.isArray(stored) ? stored.map((list) => parseTokenList(list)) : [];
+	} catch {
+		// Drop lists that no longer parse rather than breaking every token selector
+		return [];
+	}
+}
+
+// Shared by every TokenSelector, so a list imported in one shows up in all of them
+let lists = readStoredLists();
+const listeners = new Set<() => void>();
+
+function setLists(next: TokenList[]) {
+	lists = next;
+	if (isWindowAvailable()) {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+	}
+	listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Token lists the user imported (by URL or pasted JSON), persisted in localStorage, and
+ * their tokens on the connected chain
+ */
+export function useImportedTokenLists() {
+	const chainId = useChainId();
+	const importedLists = useSyncExternalStore(subscribe, () => lists);
+
+	const tokens = useMemo<ImportedToken[]>(
+		() => importedLists.flatMap((list) => tokenListToTokens(list, chainId)),
+		[importedLists, chainId]
+	);
+
+	/**
+	 * Parse and store a list, replacing any imported list with the same name. Throws a
+	 * TokenListError when the JSON isn't a valid token list.
+	 */
+	const importList = useCallback((data: unknown): TokenList => {
+		const list = parseTokenList(data);
+		setLists([...lists.filter((existing) => existing.name !== list.name), list]);
+		return list;
+	}, []);
+
+	const importFromJson = useCallback(
+		(text: string) => {
+			let data: unknown;
+			try {
+				data = JSON.parse(text);
+			} catch {
+				throw new Error("Not valid JSON");
+			}
+			return importList(data);
+		},
+		[importList]
+	);
+
+	const importFromUrl = useCallback(
+		async (url: string) => {
+			const response = await fetch(url);
+			if (!response.ok) {
+				throw new Error(`Failed to fetch token list (HTTP ${response.status})`);
+			}
+			return importList(await response.json());
+		},
+		[importList]
+	);
+
+	const removeList = useCallback((name: string) => {
+		setLists(lists.filter((list) => list.name !== name));
+	}, []);
+
+	return { lists: importedLists, tokens, importFromJson, importFromUrl, removeList };
+}
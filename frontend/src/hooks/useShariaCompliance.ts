@@ -1,41 +1,27 @@
 import { useMemo } from "react";
-import type { Address } from "viem";
+import type { ContractFunctionReturnType } from "viem";
 import { useReadContract } from "wagmi";
-import { ShariaComplianceABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-
-const SHARIA_COMPLIANCE_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaCompliance: string } }
-).main.shariaCompliance as Address;
+import type { ShariaComplianceABI } from "../config/abis";
+import { useTayeb } from "./useTayeb";
 
 /**
- * Type matching the smart contract's ShariaCoin struct
+ * The contract's ShariaCoin struct, inferred from the generated ABI
  */
-export interface ShariaCoin {
-	id: string;
-	name: string;
-	symbol: string;
-	tokenAddress: Address;
-	verified: boolean;
-	complianceReason: string;
-	exists: boolean;
-}
+export type ShariaCoin = ContractFunctionReturnType<typeof ShariaComplianceABI, "view", "getShariaCoin">;
 
 /**
  * Refactored compliance hook using Wagmi v2 + Viem
  * Replaces the old useShariaCompliance hook
  */
 export function useShariaCompliance() {
+	const { compliance } = useTayeb();
+
 	// Get all Sharia-compliant coins
 	const {
 		data: coinsRaw,
 		isLoading: coinsLoading,
 		error: coinsError,
-	} = useReadContract({
-		address: SHARIA_COMPLIANCE_ADDRESS,
-		abi: ShariaComplianceABI,
-		functionName: "getAllShariaCoins",
-	});
+	} = useReadContract(compliance.getAllShariaCoins());
 
 	// Type-safe coins data
 	const coins = useMemo(() => {
@@ -44,18 +30,14 @@ export function useShariaCompliance() {
 	}, [coinsRaw]);
 
 	// Get total number of coins
-	const { data: totalCoins } = useReadContract({
-		address: SHARIA_COMPLIANCE_ADDRESS,
-		abi: ShariaComplianceABI,
-		functionName: "getTotalCoins",
-	});
+	const { data: totalCoins } = useReadContract(compliance.getTotalCoins());
 
 	return {
 		coins,
 		coinsLoading,
 		coinsError,
 		totalCoins: totalCoins ? Number(totalCoins) : 0,
-		SHARIA_COMPLIANCE_ADDRESS,
+		SHARIA_COMPLIANCE_ADDRESS: compliance.address,
 	};
 }
 
@@ -63,11 +45,9 @@ export function useShariaCompliance() {
  * Hook to check if a specific symbol is Sharia compliant
  */
 export function useIsShariaCompliant(symbol: string | undefined) {
+	const { compliance } = useTayeb();
 	const { data: isCompliant, isLoading } = useReadContract({
-		address: SHARIA_COMPLIANCE_ADDRESS,
-		abi: ShariaComplianceABI,
-		functionName: "isShariaCompliant",
-		args: symbol ? [symbol] : undefined,
+		...compliance.isShariaCompliant(symbol!),
 		query: {
 			enabled: !!symbol,
 		},
@@ -80,11 +60,9 @@ export function useIsShariaCompliant(symbol: string | undefined) {
  * Hook to get coin details by symbol
  */
 export function useCoinBySymbol(symbol: string | undefined) {
+	const { compliance } = useTayeb();
 	const { data: coin, isLoading } = useReadContract({
-		address: SHARIA_COMPLIANCE_ADDRESS,
-		abi: ShariaComplianceABI,
-		functionName: "getCoinBySymbol",
-		args: symbol ? [symbol] : undefined,
+		...compliance.getCoinBySymbol(symbol!),
 		query: {
 			enabled: !!symbol,
 		},
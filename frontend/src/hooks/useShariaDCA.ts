@@ -1,40 +1,36 @@
-import { useMemo } from "react";
-import type { Address } from "viem";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Address, ContractFunctionReturnType } from "viem";
 import {
 	useAccount,
 	useChainId,
 	useReadContract,
 	useReadContracts,
+	usePublicClient,
 	useWriteContract,
 	useWaitForTransactionReceipt,
 	useSwitchChain,
 } from "wagmi";
 import { moonbeam } from "wagmi/chains";
-import { ERC20_ABI, ShariaDCAABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
+import { ShariaDCAABI } from "../config/abis";
+import { deploymentRegistry, isSupportedChain } from "../config/sdk";
+import {
+	DCA_COST_BASIS_EVENTS,
+	dcaLogRanges,
+	findDeployment,
+	indexDCAEvents,
+	isSameAddress,
+	toDCAEvent,
+	type DCAEvent,
+	type DCAMissedIntervalPolicy,
+	type DCAPosition,
+} from "../../../sdk";
 import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
-
-const SHARIA_DCA_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaDCA: string } }
-).main.shariaDCA as Address;
+import { useTayeb } from "./useTayeb";
 
 /**
- * Type matching the smart contract's DCAOrder struct
+ * The contract's DCAOrder struct, inferred from the generated ABI
  */
-export interface DCAOrder {
-	id: bigint;
-	owner: Address;
-	sourceToken: Address;
-	targetToken: Address;
-	amountPerInterval: bigint;
-	interval: bigint;
-	intervalsCompleted: bigint;
-	totalIntervals: bigint;
-	nextExecutionTime: bigint;
-	startTime: bigint;
-	isActive: boolean;
-	exists: boolean;
-}
+export type DCAOrder = ContractFunctionReturnType<typeof ShariaDCAABI, "view", "getDCAOrder">;
 
 /**
  * Hook for ShariaDCA contract interactions using Wagmi v2
@@ -42,6 +38,8 @@ export interface DCAOrder {
 export function useShariaDCA() {
 	const { address: userAddress, chainId: accountChainId } = useAccount();
 	const chainId = useChainId();
+	const { dca } = useTayeb();
+	const publicClient = usePublicClient();
 	const { switchChain } = useSwitchChain();
 	const { 
 		writeContract, 
@@ -55,7 +53,7 @@ export function useShariaDCA() {
 	// Use accountChainId if available (more reliable), fallback to chainId
 	const validateNetwork = async () => {
 		const currentChainId = accountChainId || chainId;
-		if (!currentChainId || currentChainId !== REQUIRED_CHAIN_ID) {
+		if (!isSupportedChain(currentChainId)) {
 			// Try to automatically switch to the correct network
 			if (switchChain) {
 				try {
@@ -64,7 +62,7 @@ export function useShariaDCA() {
 					await new Promise(resolve => setTimeout(resolve, 500));
 					// Re-check after switch attempt
 					const newChainId = accountChainId || chainId;
-					if (newChainId !== REQUIRED_CHAIN_ID) {
+					if (!isSupportedChain(newChainId)) {
 						throw new Error(
 							`Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) in your wallet. If the network is not added, MetaMask will prompt you to add it.`
 						);
@@ -106,10 +104,7 @@ export function useShariaDCA() {
 
 	// Get user's order IDs
 	const { data: userOrderIds, isLoading: loadingOrderIds, refetch: refetchUserOrders } = useReadContract({
-		address: SHARIA_DCA_ADDRESS,
-		abi: ShariaDCAABI,
-		functionName: "getUserOrders",
-		args: userAddress ? [userAddress] : undefined,
+		...dca.getUserOrders(userAddress!),
 		query: {
 			enabled: !!userAddress,
 		},
@@ -121,18 +116,26 @@ export function useShariaDCA() {
 		amountPerInterval: bigint,
 		intervalSeconds: bigint,
 		totalIntervals: bigint,
-		totalValue: bigint
+		maxSlippageBps: number, // Basis points below the quote each interval accepts
+		missedIntervals: DCAMissedIntervalPolicy, // What executions do with slots that passed unexecuted
+		totalValue: bigint,
+		path?: Address[] // Optional path, must start with WGLMR and end with targetToken
 	) => {
 		if (!userAddress) throw new Error("Wallet not connected");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
 
-		writeContract({
-			address: SHARIA_DCA_ADDRESS,
-			abi: ShariaDCAABI,
-			functionName: "createDCAOrderWithDEV",
-			args: [targetToken, amountPerInterval, intervalSeconds, totalIntervals],
-			value: totalValue, // Total amount to be locked
-		});
+		writeContract(
+			dca.createDCAOrderWithDEV(
+				targetToken,
+				amountPerInterval,
+				intervalSeconds,
+				totalIntervals,
+				maxSlippageBps,
+				missedIntervals,
+				totalValue, // Total amount to be locked
+				path
+			)
+		);
 	};
 
 	// Create DCA order with ERC20 token
@@ -141,23 +144,26 @@ export function useShariaDCA() {
 		targetToken: Address,
 		amountPerInterval: bigint,
 		intervalSeconds: bigint,
-		totalIntervals: bigint
+		totalIntervals: bigint,
+		maxSlippageBps: number, // Basis points below the quote each interval accepts
+		missedIntervals: DCAMissedIntervalPolicy, // What executions do with slots that passed unexecuted
+		path?: Address[] // Optional path, will be built if not provided
 	) => {
 		if (!userAddress) throw new Error("Wallet not connected");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
 
-		writeContract({
-			address: SHARIA_DCA_ADDRESS,
-			abi: ShariaDCAABI,
-			functionName: "createDCAOrderWithToken",
-			args: [
+		writeContract(
+			dca.createDCAOrderWithToken(
 				sourceToken,
 				targetToken,
 				amountPerInterval,
 				intervalSeconds,
 				totalIntervals,
-			],
-		});
+				maxSlippageBps,
+				missedIntervals,
+				path
+			)
+		);
 	};
 
 	// Approve token for DCA contract
@@ -165,23 +171,18 @@ export function useShariaDCA() {
 		if (!userAddress) throw new Error("Wallet not connected");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
 
-		writeContract({
-			address: tokenAddress,
-			abi: ERC20_ABI,
-			functionName: "approve",
-			args: [SHARIA_DCA_ADDRESS, amount],
-		});
+		writeContract(dca.approve(tokenAddress, amount));
 	};
 
-	// Execute DCA order
+	// Execute the next interval of one of the user's orders, held to the order's slippage
+	// against a quote read before sending
 	const executeDCAOrder = async (orderId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		if (!publicClient || !dca.address) throw new Error("ShariaDCA isn't deployed on this network");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
-		writeContract({
-			address: SHARIA_DCA_ADDRESS,
-			abi: ShariaDCAABI,
-			functionName: "executeDCAOrder",
-			args: [orderId],
-		});
+
+		const [, amountOutMin] = await publicClient.readContract({ ...dca.getOrderQuote(orderId), address: dca.address });
+		writeContract(dca.executeDCAOrderWithMinOut(orderId, amountOutMin));
 	};
 
 	// Cancel DCA order
@@ -189,12 +190,7 @@ export function useShariaDCA() {
 		if (!userAddress) throw new Error("Wallet not connected");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
 
-		writeContract({
-			address: SHARIA_DCA_ADDRESS,
-			abi: ShariaDCAABI,
-			functionName: "cancelDCAOrder",
-			args: [orderId],
-		});
+		writeContract(dca.cancelDCAOrder(orderId));
 	};
 
 	return {
@@ -216,7 +212,7 @@ export function useShariaDCA() {
 		writeError,
 		confirmError,
 		resetWrite,
-		SHARIA_DCA_ADDRESS,
+		SHARIA_DCA_ADDRESS: dca.address,
 	};
 }
 
@@ -224,11 +220,9 @@ export function useShariaDCA() {
  * Hook to get details for a specific DCA order
  */
 export function useDCAOrder(orderId: bigint | undefined) {
+	const { dca } = useTayeb();
 	const { data: order, isLoading } = useReadContract({
-		address: SHARIA_DCA_ADDRESS,
-		abi: ShariaDCAABI,
-		functionName: "getDCAOrder",
-		args: orderId ? [orderId] : undefined,
+		...dca.getDCAOrder(orderId!),
 		query: {
 			enabled: orderId !== undefined,
 		},
@@ -244,17 +238,13 @@ export function useDCAOrder(orderId: bigint | undefined) {
  * Hook to get multiple DCA orders at once
  */
 export function useDCAOrders(orderIds: bigint[] | undefined) {
+	const { dca } = useTayeb();
 	// Create contract calls for all order IDs
 	const contracts = useMemo(() => {
 		if (!orderIds || orderIds.length === 0) return [];
 
-		return orderIds.map((id) => ({
-			address: SHARIA_DCA_ADDRESS,
-			abi: ShariaDCAABI,
-			functionName: "getDCAOrder" as const,
-			args: [id],
-		}));
-	}, [orderIds]);
+		return orderIds.map((id) => dca.getDCAOrder(id));
+	}, [dca, orderIds]);
 
 	const { data: ordersData, isLoading, refetch: refetchOrders } = useReadContracts({
 		contracts,
@@ -284,3 +274,96 @@ export function useDCAOrders(orderIds: bigint[] | undefined) {
 	};
 }
 
+
+// Only the events the index reads; ShariaDCA's admin events have no orderId
+const costBasisEvents = ShariaDCAABI.filter(
+	(item): item is Extract<(typeof ShariaDCAABI)[number], { type: "event" }> =>
+		item.type === "event" && (DCA_COST_BASIS_EVENTS as readonly string[]).includes(item.name)
+);
+
+/**
+ * Cost basis of the given orders, replayed from ShariaDCA's execution, completion and
+ * cancellation events since its deployment block. Owner and tokens come from the orders;
+ * the events are read again whenever one of them executes or closes.
+ */
+export function useDCACostBasis(orders: DCAOrder[]) {
+	const chainId = useChainId();
+	const { dca } = useTayeb();
+	const publicClient = usePublicClient();
+	const [positions, setPositions] = useState<DCAPosition[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<Error | null>(null);
+
+	// `orders` is a new array on every read; only reload when one has executed or closed since
+	const ordersRef = useRef(orders);
+	ordersRef.current = orders;
+	const ordersKey = orders.map((order) => `${order.id}:${order.intervalsCompleted}:${order.isActive}`).join(",");
+
+	useEffect(() => {
+		const shariaDCA = dca.address;
+		const orders = ordersRef.current;
+		if (!publicClient || !shariaDCA || orders.length === 0) {
+			setPositions([]);
+			return;
+		}
+
+		let cancelled = false;
+		const loadPositions = async () => {
+			setIsLoading(true);
+			setError(null);
+			try {
+				const record = findDeployment(deploymentRegistry, chainId)?.metadata.contracts?.shariaDCA;
+				const fromBlock = BigInt(record && isSameAddress(record.address, shariaDCA) ? record.blockNumber : 0);
+				const toBlock = await publicClient.getBlockNumber();
+				const orderIds = new Set(orders.map((order) => order.id));
+
+				const events: DCAEvent[] = [];
+				for (const [start, end] of dcaLogRanges(fromBlock, toBlock)) {
+					const logs = await publicClient.getLogs({
+						address: shariaDCA,
+						events: costBasisEvents,
+						fromBlock: start,
+						toBlock: end,
+					});
+					for (const log of logs) {
+						const event = toDCAEvent(log.eventName, log.args as Record<string, unknown>);
+						// Created events are left out: the orders already say whose they are
+						if (event && event.type !== "created" && orderIds.has(event.orderId)) {
+							events.push(event);
+						}
+					}
+				}
+
+				if (!cancelled) {
+					setPositions(
+						indexDCAEvents(
+							events,
+							orders.map((order) => ({
+								orderId: order.id,
+								owner: order.owner,
+								sourceToken: order.sourceToken,
+								targetToken: order.targetToken,
+							}))
+						)
+					);
+				}
+			} catch (err) {
+				console.error("Error loading DCA executions:", err);
+				if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+			} finally {
+				if (!cancelled) setIsLoading(false);
+			}
+		};
+
+		loadPositions();
+		return () => {
+			cancelled = true;
+		};
+	}, [publicClient, dca.address, chainId, ordersKey]);
+
+	return {
+		positions,
+		isLoading,
+		error,
+	};
+}
@@ -10,39 +10,20 @@ import {
 	useSwitchChain,
 } from "wagmi";
 import { moonbeam } from "wagmi/chains";
-import { ERC20_ABI, ShariaSwapABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
+import { isSupportedChain } from "../config/sdk";
 import type { TransactionStatus } from "../types";
 import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
 import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import { useTayeb } from "./useTayeb";
 import stellaSwap from "@stellaswap/swap-sdk";
-import type { Address } from "viem";
-
-const SHARIA_SWAP_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaSwap: string } }
-).main.shariaSwap as Address;
-
-// Helper function to build swap path
-function buildSwapPath(
-	tokenIn: Address,
-	tokenOut: Address,
-	tryDirect: boolean = true
-): Address[] {
-	const WETH_ADDRESS = (deployedContracts as unknown as { amm: { weth: string } }).amm.weth as Address;
-	
-	// If one of the tokens is WETH, use direct path
-	if (tokenIn.toLowerCase() === WETH_ADDRESS.toLowerCase() || 
-		tokenOut.toLowerCase() === WETH_ADDRESS.toLowerCase()) {
-		return [tokenIn, tokenOut];
-	}
-	
-	// Try direct path first if requested, otherwise go through WETH
-	if (tryDirect) {
-		return [tokenIn, tokenOut];
-	} else {
-		return [tokenIn, WETH_ADDRESS, tokenOut];
-	}
-}
+import {
+	getStellaSwapErrorResponse,
+	getStellaSwapPayload,
+	parseStellaSwapQuote,
+	requireContract,
+	swapDeadline,
+	toStellaSwapToken,
+} from "../../../sdk";
 
 /**
  * Refactored swap hook using Wagmi v2 + Viem with transaction tracking
@@ -50,6 +31,7 @@ function buildSwapPath(
 export function useShariaSwap() {
 	const { address: userAddress, chainId: accountChainId } = useAccount();
 	const chainId = useChainId();
+	const { swap } = useTayeb();
 	const publicClient = usePublicClient();
 	const { switchChain } = useSwitchChain();
 	const { 
@@ -64,7 +46,7 @@ export function useShariaSwap() {
 	// Use accountChainId if available (more reliable), fallback to chainId
 	const validateNetwork = async () => {
 		const currentChainId = accountChainId || chainId;
-		if (!currentChainId || currentChainId !== REQUIRED_CHAIN_ID) {
+		if (!isSupportedChain(currentChainId)) {
 			// Try to automatically switch to the correct network
 			if (switchChain) {
 				try {
@@ -73,7 +55,7 @@ export function useShariaSwap() {
 					await new Promise(resolve => setTimeout(resolve, 500));
 					// Re-check after switch attempt
 					const newChainId = accountChainId || chainId;
-					if (newChainId !== REQUIRED_CHAIN_ID) {
+					if (!isSupportedChain(newChainId)) {
 						throw new Error(
 							`Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) in your wallet. If the network is not added, MetaMask will prompt you to add it.`
 						);
@@ -133,14 +115,10 @@ export function useShariaSwap() {
 		if (!publicClient || !userAddress) return null;
 
 		try {
-			const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
-			const swapPath = path || buildSwapPath(tokenIn, tokenOut, true);
+			const swapPath = path || swap.buildPath(tokenIn, tokenOut, true);
 			
 			const gasEstimate = await publicClient.estimateContractGas({
-				address: SHARIA_SWAP_ADDRESS,
-				abi: ShariaSwapABI,
-				functionName: "swapShariaCompliant",
-				args: [swapPath, amountIn, minAmountOut, deadline],
+				...swap.swapShariaCompliant(swapPath, amountIn, minAmountOut, swapDeadline()),
 				account: userAddress,
 			});
 
@@ -156,12 +134,7 @@ export function useShariaSwap() {
 		if (!userAddress) throw new Error("Wallet not connected");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
 
-		return writeContract({
-			address: tokenAddress,
-			abi: ERC20_ABI,
-			functionName: "approve",
-			args: [SHARIA_SWAP_ADDRESS, amount],
-		});
+		return writeContract(swap.approve(tokenAddress, amount));
 	};
 
 	// Execute swap token for token
@@ -173,17 +146,11 @@ export function useShariaSwap() {
 		path?: Address[] // Optional path, will be built if not provided
 	) => {
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
-		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
 		
 		// Build path if not provided (try direct first)
-		const swapPath = path || buildSwapPath(tokenIn, tokenOut, true);
-
-		return writeContract({
-			address: SHARIA_SWAP_ADDRESS,
-			abi: ShariaSwapABI,
-			functionName: "swapShariaCompliant",
-			args: [swapPath, amountIn, minAmountOut, deadline],
-		});
+		const swapPath = path || swap.buildPath(tokenIn, tokenOut, true);
+
+		return writeContract(swap.swapShariaCompliant(swapPath, amountIn, minAmountOut, swapDeadline()));
 	};
 
 	// Swap GLMR for token
@@ -194,19 +161,11 @@ export function useShariaSwap() {
 		path?: Address[] // Optional path, will be built if not provided
 	) => {
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
-		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
 		
-		const WETH_ADDRESS = (deployedContracts as unknown as { amm: { weth: string } }).amm.weth as Address;
 		// Build path: [WETH, tokenOut] or use provided path
-		const swapPath = path || [WETH_ADDRESS, tokenOut];
-
-		return writeContract({
-			address: SHARIA_SWAP_ADDRESS,
-			abi: ShariaSwapABI,
-			functionName: "swapGLMRForToken",
-			args: [swapPath, minAmountOut, deadline],
-			value: amountIn,
-		});
+		const swapPath = path || swap.buildNativePath(tokenOut);
+
+		return writeContract(swap.swapGLMRForToken(swapPath, minAmountOut, swapDeadline(), amountIn));
 	};
 
 	// Get friendly error message
@@ -230,7 +189,7 @@ export function useShariaSwap() {
 		errorMessage: friendlyErrorMessage,
 		isUserRejection: isRejection,
 		reset: resetWrite,
-		SHARIA_SWAP_ADDRESS,
+		SHARIA_SWAP_ADDRESS: swap.address,
 	};
 }
 
@@ -243,18 +202,14 @@ export function useSwapQuote(
 	tokenOut: Address | `0x${string}` | undefined,
 	amountIn: bigint | undefined
 ) {
-	const WETH_ADDRESS = (deployedContracts as unknown as { amm: { weth: string } }).amm.weth as Address;
-	
+	const { swap } = useTayeb();
 	// Build path (try direct first)
 	const path = tokenIn && tokenOut 
-		? buildSwapPath(tokenIn as Address, tokenOut as Address, true)
+		? swap.buildPath(tokenIn as Address, tokenOut as Address, true)
 		: undefined;
 	
 	const { data: quote, isLoading } = useReadContract({
-		address: SHARIA_SWAP_ADDRESS,
-		abi: ShariaSwapABI,
-		functionName: "getSwapQuote",
-		args: path && amountIn ? [path, amountIn] : undefined,
+		...swap.getSwapQuote(path!, amountIn!),
 		query: {
 			enabled: !!(tokenIn && tokenOut && amountIn && path),
 		},
@@ -267,6 +222,7 @@ export function useSwapQuote(
  * Manual quote fetching hook - Fixed version
  */
 export function useManualSwapQuote() {
+	const tayeb = useTayeb();
 	const publicClient = usePublicClient();
 	const [isLoading, setIsLoading] = useState(false);
 
@@ -297,11 +253,9 @@ export function useManualSwapQuote() {
 
 			// According to StellaSwap docs: For native asset pass "ETH" as token0Addr or token1Addr
 			// Also, account can be null if user is not connected
-			const WETH_ADDRESS = (deployedContracts as unknown as { amm: { weth: string } }).amm.weth as Address;
-			
-			// Convert native GLMR (WETH) to "ETH" for StellaSwap API
-			const tokenInForAPI = tokenIn.toLowerCase() === WETH_ADDRESS.toLowerCase() ? "ETH" : tokenIn;
-			const tokenOutForAPI = tokenOut.toLowerCase() === WETH_ADDRESS.toLowerCase() ? "ETH" : tokenOut;
+			const wethAddress = requireContract(tayeb.contracts, "weth");
+			const tokenInForAPI = toStellaSwapToken(tokenIn, wethAddress);
+			const tokenOutForAPI = toStellaSwapToken(tokenOut, wethAddress);
 
 			console.log("📝 Fetching quote from StellaSwap SDK:", {
 				tokenIn,
@@ -344,10 +298,9 @@ export function useManualSwapQuote() {
 
 			// IMPORTANT: The SDK returns AxiosError objects instead of throwing
 			// Check if the SDK returned an error object
-			if (quoteResult && typeof quoteResult === 'object' && quoteResult.name === 'AxiosError') {
-				const statusCode = quoteResult.response?.status ?? quoteResult.status;
-				const responseData = quoteResult.response?.data;
-				const errorMessage = responseData?.message || quoteResult.message || "Request failed";
+			const errorResponse = getStellaSwapErrorResponse(quoteResult);
+			if (errorResponse) {
+				const { message: errorMessage, status: statusCode, data: responseData } = errorResponse;
 				
 				if (statusCode === 500) {
 					// Check if it's a 404 inside the 500 response (StellaSwap API issue)
@@ -362,136 +315,13 @@ export function useManualSwapQuote() {
 				throw new Error(`StellaSwap API error: ${errorMessage}${statusCode ? ` (HTTP ${statusCode})` : ''}`);
 			}
 
-			const payload = quoteResult?.result ?? quoteResult;
-
-			// Check if the quote indicates failure
-			if (!payload || quoteResult?.isSuccess === false) {
-				const errorMessage = quoteResult?.message ?? quoteResult?.error ?? "Unknown error from StellaSwap router API";
-				throw new Error(errorMessage);
-			}
-
-			// Extract path from the quote result
-			const extractPath = (result: any): Address[] | null => {
-				if (!result) return null;
-
-				// New format: path from trades array
-				if (Array.isArray(result?.trades) && result.trades.length > 0) {
-					const path: Address[] = [];
-					const fromToken = result.fromToken;
-					const toToken = result.toToken;
-					
-					// Start with the fromToken if available
-					if (fromToken) {
-						path.push(typeof fromToken === "string" ? fromToken : fromToken.address);
-					}
-					
-					// Build path from trades sequentially
-					for (const trade of result.trades) {
-						if (Array.isArray(trade?.path) && trade.path.length > 0) {
-							// Determine start index: skip first token if it matches the last token in our path
-							let startIdx = 0;
-							if (path.length > 0) {
-								const lastPathToken = path[path.length - 1].toLowerCase();
-								const firstTradeToken = typeof trade.path[0] === "string" 
-									? trade.path[0].toLowerCase() 
-									: (trade.path[0]?.address?.toLowerCase() ?? "");
-								if (firstTradeToken === lastPathToken) {
-									startIdx = 1;
-								}
-							}
-							
-							// Add tokens from this trade's path
-							for (let i = startIdx; i < trade.path.length; i++) {
-								const token = trade.path[i];
-								const address = typeof token === "string" ? token : token?.address;
-								if (address && typeof address === "string" && address.startsWith("0x")) {
-									const addrLower = address.toLowerCase();
-									// Avoid duplicates (case-insensitive check)
-									if (!path.some(p => p.toLowerCase() === addrLower)) {
-										path.push(address as Address);
-									}
-								}
-							}
-						}
-					}
-					
-					// Ensure we end with the toToken
-					if (toToken) {
-						const toTokenAddress = typeof toToken === "string" ? toToken : toToken.address;
-						const toTokenLower = toTokenAddress.toLowerCase();
-						const lastToken = path.length > 0 ? path[path.length - 1].toLowerCase() : null;
-						
-						if (lastToken !== toTokenLower) {
-							// Remove toToken if it exists elsewhere in path
-							const filtered = path.filter(p => p.toLowerCase() !== toTokenLower);
-							filtered.push(toTokenAddress as Address);
-							if (filtered.length > 1) {
-								return filtered;
-							}
-						} else if (path.length > 1) {
-							return path;
-						}
-					}
-					
-					if (path.length > 1) {
-						return path;
-					}
-				}
-
-				// Fallback to other path formats
-				const candidates = [result.path, result?.route?.path, result?.bestRoute?.path];
-				for (const candidate of candidates) {
-					if (Array.isArray(candidate) && candidate.length > 1) {
-						if (typeof candidate[0] === "string") {
-							return candidate as Address[];
-						}
-						if (candidate[0] && typeof candidate[0].address === "string") {
-							return candidate.map((node: any) => node.address) as Address[];
-						}
-					}
-				}
-
-				return null;
-			};
-
-			// Extract amountOut
-			const extractAmountOut = (result: any): string | null => {
-				if (!result) return null;
-				const candidates = [
-					result.amountOut,
-					result?.route?.amountOut,
-					result?.bestRoute?.amountOut,
-					result?.routes?.[0]?.amountOut,
-					result?.execution?.amountOut,
-				];
-
-				for (const candidate of candidates) {
-					if (candidate !== null && candidate !== undefined) {
-						if (typeof candidate === "string") return candidate;
-						if (typeof candidate === "number") return candidate.toString();
-						if (typeof candidate === "bigint") return candidate.toString();
-					}
-				}
-
-				return null;
-			};
-
-			let path = extractPath(payload);
-			const amountOutStr = extractAmountOut(payload);
+			// Path and amountOut come back with "ETH" already mapped to the WETH address our contract needs
+			const { path, amountOut: amountOutStr } = parseStellaSwapQuote(getStellaSwapPayload(quoteResult), wethAddress);
 
 			if (!path || path.length < 2) {
 				throw new Error("StellaSwap SDK did not return a valid path");
 			}
 
-			// Convert "ETH" back to WETH address in the path
-			// StellaSwap API returns "ETH" for native tokens, but we need the actual WETH address for our contract
-			path = path.map((addr) => {
-				if (typeof addr === "string" && addr.toUpperCase() === "ETH") {
-					return WETH_ADDRESS;
-				}
-				return addr;
-			}) as Address[];
-
 			if (!amountOutStr) {
 				throw new Error("StellaSwap SDK did not return an amountOut");
 			}
@@ -503,8 +333,7 @@ export function useManualSwapQuote() {
 			}
 
 			console.log("✅ Quote fetched successfully from StellaSwap SDK:", {
-				originalPath: extractPath(payload)?.map(p => p),
-				convertedPath: path.map(p => p),
+				path,
 				amountOut: amountOut.toString(),
 			});
 
@@ -0,0 +1,10 @@
+import { useChainId } from "wagmi";
+import { getTayebSdk } from "../config/sdk";
+import type { TayebSdk } from "../../../sdk";
+
+/**
+ * Tayeb SDK for the connected chain's deployment
+ */
+export function useTayeb(): TayebSdk {
+	return getTayebSdk(useChainId());
+}
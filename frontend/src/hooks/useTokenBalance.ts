@@ -1,15 +1,17 @@
 import { useAccount, useBalance, useReadContract } from "wagmi";
 import { formatUnits, isAddress } from "viem";
 import { ERC20_ABI } from "../config/abis";
-import { CONTRACTS } from "../config/contracts";
+import { isSameAddress } from "../../../sdk";
 import type { Token } from "../types";
+import { useTayeb } from "./useTayeb";
 
 export function useTokenBalance(token: Token | null) {
 	const { address } = useAccount();
+	const { contracts } = useTayeb();
 
 	// Check if this is GLMR/WETH (native token or wrapped native token)
 	// GLMR token uses the WETH contract address, so we check by address
-	const isNativeToken = token?.addresses.moonbeam?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+	const isNativeToken = token !== null && isSameAddress(token.addresses.moonbeam, contracts.weth);
 
 	// Get native balance for GLMR/WETH
 	const { data: nativeBalance, refetch: refetchNative } = useBalance({
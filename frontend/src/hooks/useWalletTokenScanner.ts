@@ -4,13 +4,10 @@ import { formatUnits, isAddress, getAddress } from "viem";
 import type { Address } from "viem";
 import { ERC20_ABI } from "../config/abis";
 import { useShariaCompliance } from "./useShariaCompliance";
-import { moonbeam } from "wagmi/chains";
-import deployedContracts from "../../../config/deployedContracts.json";
-
-const WETH_ADDRESS = (
-	deployedContracts as unknown as { amm: { weth: string } }
-).amm.weth as Address;
-
+import { isSameAddress, screenCoin, type ScreeningResult } from "../../../sdk";
+import { isSupportedChain } from "../config/sdk";
+import { REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import { useTayeb } from "./useTayeb";
 
 export interface ScannedToken {
 	address: string;
@@ -22,6 +19,7 @@ export interface ScannedToken {
 	status: "compliant" | "non-compliant" | "unknown";
 	complianceReason?: string;
 	verified?: boolean;
+	screening: ScreeningResult;
 }
 
 interface UseWalletTokenScannerReturn {
@@ -44,6 +42,7 @@ interface UseWalletTokenScannerReturn {
 export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScannerReturn {
 	const { address: connectedAddress } = useAccount();
 	const chainId = useChainId();
+	const { contracts, tokens: tokenResolver } = useTayeb();
 	const { coins } = useShariaCompliance();
 	const publicClient = usePublicClient();
 	const [scannedTokens, setScannedTokens] = useState<ScannedToken[]>([]);
@@ -75,9 +74,9 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 			return;
 		}
 
-		// Check if on Moonbeam
-		if (chainId !== moonbeam.id) {
-			setError(new Error("Please switch to Moonbeam network to scan"));
+		// Check the wallet is on a chain Tayeb is deployed to
+		if (!isSupportedChain(chainId)) {
+			setError(new Error(`Please switch to ${REQUIRED_CHAIN_NAME} network to scan`));
 			return;
 		}
 
@@ -101,17 +100,21 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 
 			// Get token addresses and prepare balance checks
 			const tokenAddresses: Address[] = [];
-			const coinMap = new Map<string, { symbol: string; name: string; address: Address; verified: boolean; complianceReason: string }>();
+			const coinMap = new Map<string, { symbol: string; name: string; address: Address; decimals: number; verified: boolean; complianceReason: string; screening: ScreeningResult }>();
 
 			for (const coin of coins) {
 				if (coin.tokenAddress && coin.tokenAddress !== "0x0000000000000000000000000000000000000000") {
 					try {
 						const address = getAddress(coin.tokenAddress);
+						// Config metadata (canonical symbol, decimals) for coins listed in tayebCoins.json
+						const known = tokenResolver.resolve(address) ?? tokenResolver.resolve(coin.id);
 						tokenAddresses.push(address);
 						coinMap.set(address.toLowerCase(), {
-							symbol: coin.symbol || "UNKNOWN",
-							name: coin.name || "Unknown Token",
+							symbol: known?.symbol ?? (coin.symbol || "UNKNOWN"),
+							name: coin.name || known?.name || "Unknown Token",
 							address: address,
+							decimals: known?.decimals ?? 18,
+							screening: tokenResolver.screen(known?.symbol ?? address) ?? screenCoin(null),
 							verified: coin.verified,
 							complianceReason: coin.complianceReason || "",
 						});
@@ -135,7 +138,7 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 					args: [addressToScan] as const,
 				}));
 
-				// Also fetch decimals in case we don't have it
+				// Also fetch decimals for coins missing from tayebCoins.json
 				const decimalsContracts = tokenAddresses.map((tokenAddress) => ({
 					address: tokenAddress,
 					abi: ERC20_ABI,
@@ -173,11 +176,11 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 
 						const decimals = decimalsResult?.status === "success" && decimalsResult.result 
 							? Number(decimalsResult.result) 
-							: 18;
+							: coin.decimals;
 
 						// If this is WETH (wrapped DEV), also check native DEV balance
 						// Native DEV balance should be included since DEV is the native token
-						if (tokenAddressLower === WETH_ADDRESS.toLowerCase() && nativeBalance && nativeBalance.value > 0n) {
+						if (isSameAddress(tokenAddressLower, contracts.weth) && nativeBalance && nativeBalance.value > 0n) {
 							// Add native DEV balance to wrapped DEV balance
 							balance = balance + nativeBalance.value;
 							console.log(`  📊 DEV: Wrapped=${formatUnits(balance - nativeBalance.value, decimals)}, Native=${formatUnits(nativeBalance.value, 18)}, Total=${formatUnits(balance, decimals)}`);
@@ -204,6 +207,7 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 								status,
 								complianceReason: coin.complianceReason || undefined,
 								verified: coin.verified,
+								screening: coin.screening,
 							});
 						}
 					}
@@ -236,7 +240,9 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 		addressToScan,
 		chainId,
 		coins,
+		contracts.weth,
 		nativeBalance,
+		tokenResolver,
 		publicClient,
 	]);
 
@@ -2,21 +2,25 @@ import { useMemo, useState, useEffect } from "react";
 import { parseUnits, formatUnits } from "viem";
 import type { Address } from "viem";
 import { DCAOrdersList } from "../components/DCAOrdersList";
+import { DCACostBasisPanel } from "../components/DCACostBasisPanel";
+import { DCANotificationsPanel } from "../components/DCANotificationsPanel";
 import { DCATradeForm } from "../components/DCATradeForm";
 import { useShariaCompliance } from "../hooks/useShariaCompliance";
 import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
-import { useShariaDCA, useDCAOrders } from "../hooks/useShariaDCA";
+import { useShariaDCA, useDCAOrders, useDCACostBasis } from "../hooks/useShariaDCA";
 import { useWallet } from "../hooks/useWallet";
 import { TransactionNotificationList } from "../components/TransactionNotification";
 import { ConfirmModal } from "../components/ConfirmModal";
 import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
-import { CONTRACTS } from "../config/contracts";
-import tayebCoinsData from "../../../config/tayebCoins.json";
+import { isSameAddress } from "../../../sdk";
+import type { DCAMissedIntervalPolicy } from "../../../sdk";
+import { useTayeb } from "../hooks/useTayeb";
 import type { Token, TransactionNotification } from "../types";
 
 export const DCAOrdersPage: React.FC = () => {
 	const { coins, coinsLoading, coinsError } = useShariaCompliance();
 	const { address, isConnected } = useWallet();
+	const tayeb = useTayeb();
 	
 	// DCA hooks
 	const {
@@ -38,6 +42,7 @@ export const DCAOrdersPage: React.FC = () => {
 	} = useShariaDCA();
 	
 	const { orders, isLoading: loadingOrders, refetchOrders } = useDCAOrders(userOrderIds);
+	const { positions, isLoading: loadingPositions, error: positionsError } = useDCACostBasis(orders);
 
 	// State management
 	const [notifications, setNotifications] = useState<TransactionNotification[]>([]);
@@ -54,34 +59,10 @@ export const DCAOrdersPage: React.FC = () => {
 	}, [isApproving, isConfirming, currentTxId]);
 
 	// Format tokens: merge smart contract data with tayebCoins.json metadata
-	const tokens: Token[] = useMemo(() => {
-		return (coins || []).map((coin) => {
-			const tayebCoins = (
-				tayebCoinsData as {
-					coins: Array<{
-						symbol: string;
-						decimals: number;
-						avgSlippagePercent: number;
-					}>;
-				}
-			).coins;
-			const coinMetadata = tayebCoins.find(
-				(c: { symbol: string; decimals: number; avgSlippagePercent: number }) =>
-					c.symbol.toLowerCase() === coin.symbol.toLowerCase()
-			);
-
-			return {
-				symbol: coin.symbol,
-				name: coin.name,
-				decimals: coinMetadata?.decimals ?? 18,
-				description: coin.complianceReason,
-				complianceReason: coin.complianceReason,
-				addresses: { moonbeam: coin.tokenAddress },
-				permissible: coin.verified,
-				avgSlippagePercent: coinMetadata?.avgSlippagePercent,
-			};
-		});
-	}, [coins]);
+	const tokens: Token[] = useMemo(
+		() => (coins || []).map((coin) => tayeb.tokens.fromShariaCoin(coin)),
+		[coins, tayeb]
+	);
 
 	// Handle DCA scheduling (called when user clicks schedule button)
 	const handleScheduleDCA = async (data: {
@@ -90,6 +71,8 @@ export const DCAOrdersPage: React.FC = () => {
 		amount: string;
 		interval: "hour" | "day" | "week";
 		duration: string;
+		maxSlippageBps: number;
+		missedIntervals: DCAMissedIntervalPolicy;
 	}) => {
 		if (!isConnected || !address) {
 			alert("Please connect your wallet first");
@@ -160,6 +143,8 @@ export const DCAOrdersPage: React.FC = () => {
 		amount: string;
 		interval: "hour" | "day" | "week";
 		duration: string;
+		maxSlippageBps: number;
+		missedIntervals: DCAMissedIntervalPolicy;
 	}) => {
 		const txId = `dca-create-${Date.now()}`;
 		setCurrentTxId(txId);
@@ -201,7 +186,7 @@ export const DCAOrdersPage: React.FC = () => {
 
 		// Check if source token is native GLMR
 		const isNativeGLMR = data.sourceToken.symbol === "GLMR" && 
-			data.sourceToken.addresses.moonbeam?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+			isSameAddress(data.sourceToken.addresses.moonbeam, tayeb.contracts.weth);
 
 		try {
 			// Create order (will prompt to switch network if needed)
@@ -213,6 +198,8 @@ export const DCAOrdersPage: React.FC = () => {
 					amountPerInterval,
 					intervalSeconds,
 					totalIntervals,
+					data.maxSlippageBps,
+					data.missedIntervals,
 					totalBudget // Contract refunds remainder automatically
 				);
 			} else {
@@ -224,7 +211,9 @@ export const DCAOrdersPage: React.FC = () => {
 					data.targetToken.addresses.moonbeam as Address,
 					amountPerInterval,
 					intervalSeconds,
-					totalIntervals
+					totalIntervals,
+					data.maxSlippageBps,
+					data.missedIntervals
 				);
 			}
 		} catch (error: any) {
@@ -433,6 +422,15 @@ export const DCAOrdersPage: React.FC = () => {
 								isLoading={loadingOrders || loadingOrderIds}
 								onCancelOrder={handleCancelOrder}
 							/>
+							{isConnected && orders.length > 0 && (
+								<DCACostBasisPanel
+									positions={positions}
+									tokens={tokens}
+									isLoading={loadingPositions}
+									error={positionsError}
+								/>
+							)}
+							{isConnected && <DCANotificationsPanel />}
 						</div>
 
 						{/* Right Column: DCA Trade Form */}
@@ -2,10 +2,12 @@ import { useState } from "react";
 import { useWallet } from "../hooks/useWallet";
 import { useWalletTokenScanner } from "../hooks/useWalletTokenScanner";
 import { CryptoTokenIcon } from "../components/CryptoTokenIcon";
+import { ScreeningBreakdown } from "../components/ScreeningBreakdown";
 import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
 import { isAddress } from "viem";
 import type { Address } from "viem";
 import { moonbeam } from "wagmi/chains";
+import type { ScreeningResult } from "../../../sdk";
 
 type ScanMode = "connected" | "other";
 
@@ -380,6 +382,7 @@ interface TokenCardProps {
 		balance: string;
 		status: "compliant" | "non-compliant" | "unknown";
 		complianceReason?: string;
+		screening: ScreeningResult;
 	};
 }
 
@@ -445,6 +448,11 @@ function TokenCard({ token }: TokenCardProps) {
 					</div>
 				)}
 
+				<div>
+					<p className='text-[#92c9b7] text-xs mb-0.5'>Screening</p>
+					<ScreeningBreakdown result={token.screening} showExplanation />
+				</div>
+
 				<div>
 					<p className='text-[#92c9b7] text-xs mb-0.5'>Address</p>
 					<p className='text-white text-xs font-mono truncate' title={token.address}>
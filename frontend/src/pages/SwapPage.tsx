@@ -3,7 +3,6 @@ import { useSearchParams } from "react-router";
 import { formatUnits, parseUnits, type Address } from "viem";
 import { usePublicClient } from "wagmi";
 import { FaTimes } from "react-icons/fa";
-import tayebCoinsData from "../../../config/tayebCoins.json";
 import { TokenInput } from "../components/TokenInput";
 import { SwapConfirmationModal } from "../components/SwapConfirmationModal";
 import { TransactionNotificationList } from "../components/TransactionNotification";
@@ -13,8 +12,8 @@ import { useTokenPrices } from "../hooks/useTokenPrices";
 import { useTokenBalance } from "../hooks/useTokenBalance";
 import { useWallet } from "../hooks/useWallet";
 import type { Token, TransactionNotification, SwapConfirmationData } from "../types";
-import { ERC20_ABI } from "../config/abis";
-import { CONTRACTS } from "../config/contracts";
+import { isSameAddress } from "../../../sdk";
+import { useTayeb } from "../hooks/useTayeb";
 import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
 import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
 
@@ -35,9 +34,9 @@ export function SwapPage() {
 		errorMessage: swapErrorMessage,
 		isUserRejection: isSwapRejection,
 		reset: resetSwap,
-		SHARIA_SWAP_ADDRESS,
 	} = useShariaSwap();
 	const publicClient = usePublicClient();
+	const tayeb = useTayeb();
 
 	// Auto-prompt to switch network on page load if on wrong network
 	useEffect(() => {
@@ -121,61 +120,8 @@ export function SwapPage() {
 
 
 
-	// Format tokens: merge smart contract data with tayebCoins.json metadata
-	const tokens: Token[] = (coins || []).map((coin) => {
-		// Find matching coin metadata from tayebCoins.json
-		// Check both main coins array and variants array
-		const tayebCoinsDataTyped = tayebCoinsData as {
-			coins: Array<{
-				symbol: string;
-				decimals: number;
-				avgSlippagePercent: number;
-				variants?: Array<{
-					symbol: string;
-					decimals: number;
-					avgSlippagePercent?: number;
-				}>;
-			}>;
-		};
-		
-		// First, try to find in main coins array
-		let coinMetadata = tayebCoinsDataTyped.coins.find(
-			(c: { symbol: string; decimals: number; avgSlippagePercent: number }) =>
-				c.symbol.toLowerCase() === coin.symbol.toLowerCase()
-		);
-		
-		// If not found, search in variants
-		if (!coinMetadata) {
-			for (const baseCoin of tayebCoinsDataTyped.coins) {
-				if (baseCoin.variants) {
-					const variant = baseCoin.variants.find(
-						(v: { symbol: string }) => v.symbol.toLowerCase() === coin.symbol.toLowerCase()
-					);
-					if (variant) {
-						coinMetadata = {
-							symbol: variant.symbol,
-							decimals: variant.decimals ?? baseCoin.decimals,
-							avgSlippagePercent: variant.avgSlippagePercent ?? baseCoin.avgSlippagePercent,
-						};
-						break;
-					}
-				}
-			}
-		}
-
-		return {
-			symbol: coin.symbol,
-			name: coin.name,
-			// Use decimals from tayebCoins.json; default to 18
-			decimals: coinMetadata?.decimals ?? 18,
-			description: coin.complianceReason,
-			complianceReason: coin.complianceReason,
-			addresses: { moonbeam: coin.tokenAddress },
-			permissible: coin.verified,
-			// Include avgSlippagePercent from tayebCoins.json
-			avgSlippagePercent: coinMetadata?.avgSlippagePercent,
-		};
-	});
+	// Format tokens: merge smart contract data with tayebCoins.json metadata (coins and variants)
+	const tokens: Token[] = (coins || []).map((coin) => tayeb.tokens.fromShariaCoin(coin));
 
 	// Initialize token selections when tokens load
 	useEffect(() => {
@@ -246,7 +192,7 @@ export function SwapPage() {
 
 		// Native GLMR doesn't need approval - skip check
 		const isNativeGLMR = tokenIn.symbol === "GLMR" && 
-			tokenIn.addresses.moonbeam?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+			isSameAddress(tokenIn.addresses.moonbeam, tayeb.contracts.weth);
 		
 		if (isNativeGLMR) {
 			setNeedsApproval(false);
@@ -257,12 +203,9 @@ export function SwapPage() {
 			setCheckingAllowance(true);
 			const amountInWei = parseUnits(amountIn, tokenIn.decimals);
 			
-			const allowance = await publicClient.readContract({
-				address: tokenIn.addresses.moonbeam as `0x${string}`,
-				abi: ERC20_ABI,
-				functionName: "allowance",
-				args: [address, SHARIA_SWAP_ADDRESS],
-			}) as bigint;
+			const allowance = await publicClient.readContract(
+				tayeb.swap.allowance(tokenIn.addresses.moonbeam, address)
+			);
 
 			console.log("🔍 Allowance check:", {
 				token: tokenIn.symbol,
@@ -345,7 +288,7 @@ export function SwapPage() {
 					setError("StellaSwap API is temporarily unavailable. Please try again in a few moments.");
 				} else if (errorMsg.includes("HTTP 404") || errorMsg.includes("No route found")) {
 					setError("No route found for this token pair. The pair may not have sufficient liquidity.");
-				} else if (errorMsg.includes("QuoteAmountTooSmall") || errorMsg.includes("amount too small")) {
+				} else if (errorMsg.includes("InvalidAmount") || errorMsg.includes("amount too small")) {
 					setError("Amount too small for swap. Please try a larger amount.");
 				} else if (errorMsg.includes("InvalidPath") || errorMsg.includes("invalid path")) {
 					setError("No direct pair found. The swap path may not exist.");
@@ -472,7 +415,7 @@ export function SwapPage() {
 
 			// Check if swapping native GLMR - use swapGLMRForToken instead
 			const isNativeGLMR = tokenIn.symbol === "GLMR" && 
-				tokenIn.addresses.moonbeam?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+				isSameAddress(tokenIn.addresses.moonbeam, tayeb.contracts.weth);
 
 			// Use the path from StellaSwap SDK if available
 			const path = swapPath as Address[] | undefined;
@@ -1,10 +1,13 @@
 import { useMemo, useState } from "react";
 import { useNavigate } from "react-router";
 import { CryptoTokenIcon } from "../components/CryptoTokenIcon";
+import { ScreeningBreakdown } from "../components/ScreeningBreakdown";
 import { formatTokenSymbolForDisplay } from "../utils/formatTokenSymbol";
 import { useShariaCompliance } from "../hooks/useShariaCompliance";
 import { useWallet } from "../hooks/useWallet";
 import { useTokenPrices } from "../hooks/useTokenPrices";
+import { useTayeb } from "../hooks/useTayeb";
+import { screenCoin, type ScreeningResult } from "../../../sdk";
 
 interface ShariaCoin {
 	id: string;
@@ -14,6 +17,7 @@ interface ShariaCoin {
 	verified: boolean;
 	complianceReason: string;
 	exists: boolean;
+	screening: ScreeningResult;
 }
 
 export function TokensPage() {
@@ -21,6 +25,7 @@ export function TokensPage() {
 	useWallet(); // Just to ensure wallet context
 
 	const { coins, coinsLoading } = useShariaCompliance();
+	const { tokens } = useTayeb();
 
 	const [searchTerm, setSearchTerm] = useState("");
 	const [sortBy, setSortBy] = useState<"name" | "price" | "marketcap">("name");
@@ -36,8 +41,10 @@ export function TokensPage() {
 				verified: coin.verified,
 				complianceReason: coin.complianceReason,
 				exists: true,
+				// Criteria from tayebCoins.json; coins missing there show as unscreened
+				screening: tokens.screen(coin.symbol) ?? tokens.screen(coin.tokenAddress) ?? screenCoin(null),
 			})),
-		[coins]
+		[coins, tokens]
 	);
 
 	// Get all token symbols for price fetching
@@ -228,6 +235,9 @@ export function TokensPage() {
 											<th className='px-4 py-3 text-left text-white text-sm font-medium leading-normal'>
 												Compliance
 											</th>
+											<th className='px-4 py-3 text-left text-white text-sm font-medium leading-normal'>
+												Screening
+											</th>
 											<th className='px-4 py-3 text-left text-white text-sm font-medium leading-normal'>
 												Reason
 											</th>
@@ -295,6 +305,9 @@ export function TokensPage() {
 															</div>
 														)}
 													</td>
+													<td className='h-[72px] px-4 py-2 text-sm font-normal leading-normal'>
+														<ScreeningBreakdown result={token.screening} />
+													</td>
 													<td className='h-[72px] px-4 py-2 text-sm font-normal leading-normal'>
 														{token.complianceReason}
 													</td>
@@ -346,6 +359,7 @@ export function TokensPage() {
 												<span>Compliant</span>
 											</div>
 										</div>
+										<ScreeningBreakdown result={token.screening} showExplanation />
 										<div className='flex justify-between items-center'>
 											<div>
 												<p className='text-[#92c9b7] text-sm'>Price</p>
@@ -1,42 +1,7 @@
-export interface Token {
-	symbol: string;
-	name: string;
-	decimals: number;
-	description: string;
-	complianceReason: string;
-	addresses: {
-		moonbeam: string;
-	};
-	permissible: boolean;
-	avgSlippagePercent?: number;
-}
-
-export interface TayebCoin {
-	coins: Token[];
-}
+import type { DCAMissedIntervalPolicy, Token } from "../../../sdk";
 
-// Legacy alias for backwards compatibility
-/** @deprecated Use TayebCoin instead */
-export type HalaCoin = TayebCoin;
-
-export interface DeployedContracts {
-	network: string;
-	version: string;
-	lastDeployed: string;
-	amm: {
-		factory: string;
-		router: string;
-		weth: string;
-	};
-	main: {
-		shariaCompliance: string;
-		shariaSwap: string;
-		shariaDCA: string;
-	};
-	tokens: {
-		[key: string]: string;
-	};
-}
+// Shared with the scripts through the Tayeb SDK
+export type { Token, SwapRecord } from "../../../sdk";
 
 export interface SwapState {
 	tokenIn: Token | null;
@@ -86,16 +51,6 @@ export interface TransactionNotification {
 	txHash?: string;
 }
 
-export interface SwapRecord {
-	tokenIn: string;
-	tokenOut: string;
-	amountIn: bigint;
-	amountOut: bigint;
-	timestamp: bigint;
-	tokenInSymbol: string;
-	tokenOutSymbol: string;
-}
-
 export interface DCAConfirmationData {
 	sourceToken: Token;
 	targetToken: Token;
@@ -106,4 +61,7 @@ export interface DCAConfirmationData {
 	totalIntervals: number;
 	interval: "hour" | "day" | "week";
 	intervalSeconds: number;
+	/** Max slippage per interval in basis points */
+	maxSlippageBps: number;
+	missedIntervals: DCAMissedIntervalPolicy;
 }
\ No newline at end of file
@@ -1,18 +1,10 @@
-import type { Address } from "viem";
 import { createPublicClient, http, parseUnits } from "viem";
 import { moonbeam } from "viem/chains";
-import { ShariaSwapABI } from "../config/abis";
+import { getTayebSdk } from "../config/sdk";
+import { requireContract } from "../../../sdk";
 
-// Token addresses from deployment
-const TOKEN_ADDRESSES: Record<string, Address> = {
-	USDC: "0x1fc1F3961ed7E9118aBeFDE142362D6Fc885319a",
-	BTC: "0x9C8262260A1Cfcca24a36a2d894c2b836Cb1b4E1",
-	ETH: "0xf99a0892CF3ddDCD93F0428BC5BAaCC0604856f6",
-	USDT: "0x884924C7Ef93081a34bCD4C057434e21A27Dd263",
-};
-
-const SHARIA_SWAP_ADDRESS: Address =
-	"0x5baCC410De85c721EdCB99Ce4886f9F2f7B2D21d";
+// The debugger always quotes against the Moonbeam mainnet deployment
+const tayeb = getTayebSdk(moonbeam.id);
 
 const publicClient = createPublicClient({
 	chain: moonbeam,
@@ -27,8 +19,8 @@ export async function testTokenPairLiquidity(
 	tokenOutSymbol: string,
 	amount: string = "1"
 ) {
-	const tokenIn = TOKEN_ADDRESSES[tokenInSymbol];
-	const tokenOut = TOKEN_ADDRESSES[tokenOutSymbol];
+	const tokenIn = tayeb.tokens.findToken(tokenInSymbol)?.addresses.moonbeam;
+	const tokenOut = tayeb.tokens.findToken(tokenOutSymbol)?.addresses.moonbeam;
 
 	try {
 		if (!tokenIn || !tokenOut) {
@@ -42,15 +34,13 @@ export async function testTokenPairLiquidity(
 		console.log(`   TokenIn:  ${tokenIn}`);
 		console.log(`   TokenOut: ${tokenOut}`);
 
-		const amountInWei = parseUnits(amount, 18);
+		const amountInWei = parseUnits(amount, tayeb.tokens.getToken(tokenInSymbol).decimals);
 		console.log(`   Amount:   ${amount} = ${amountInWei.toString()} wei`);
 
-		const result = (await publicClient.readContract({
-			address: SHARIA_SWAP_ADDRESS,
-			abi: ShariaSwapABI,
-			functionName: "getSwapQuote",
-			args: [tokenIn, tokenOut, amountInWei],
-		})) as bigint;
+		const result = await publicClient.readContract({
+			...tayeb.swap.getSwapQuote([tokenIn, tokenOut], amountInWei),
+			address: requireContract(tayeb.contracts, "shariaLocalSwap"),
+		});
 
 		console.log(`✅ SUCCESS: ${tokenInSymbol} → ${tokenOutSymbol}`);
 		console.log(`   Quote: ${result.toString()}`);
@@ -61,12 +51,6 @@ export async function testTokenPairLiquidity(
 		console.error(`   Error: ${errorMsg}`);
 
 		// Provide helpful hints
-		if (errorMsg.includes("QuoteAmountTooSmall")) {
-			console.error(
-				`   💡 Reason: No liquidity for this pair or amount too small`
-			);
-			return { success: false, reason: "No liquidity or amount too small" };
-		}
 		if (errorMsg.includes("0xbb55fd27")) {
 			console.error(
 				`   💡 Reason: Contract revert with signature 0xbb55fd27 (insufficient liquidity)`
@@ -1,4 +1,5 @@
 import { HardhatUserConfig } from "hardhat/config";
+import type { HardhatNetworkUserConfig, NetworksUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import * as dotenv from "dotenv";
 
@@ -26,10 +27,22 @@ const config: HardhatUserConfig = {
       gasPrice: 1000000000, // 1 Gwei
       timeout: 300000, // 5 minutes
     },
+    // Moonbase Alpha (Testnet)
+    moonbaseAlpha: {
+      url: process.env.MOONBASE_RPC_URL || "https://rpc.api.moonbase.moonbeam.network",
+      chainId: 1287,
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+      timeout: 300000,
+    },
     // Local Hardhat network
     hardhat: {
       chainId: 1337,
     },
+    // Standalone local node (`npx hardhat node`), same chain ID as the in-process network
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 1337,
+    },
   },
   // Cross-chain XCM configuration
   // Hydration (parachain 2034) is a Substrate chain, not EVM-compatible
@@ -52,6 +65,14 @@ const config: HardhatUserConfig = {
           browserURL: "https://moonscan.io",
         },
       },
+      {
+        network: "moonbaseAlpha",
+        chainId: 1287,
+        urls: {
+          apiURL: "https://api-moonbase.moonscan.io/api",
+          browserURL: "https://moonbase.moonscan.io",
+        },
+      },
     ],
   },
   sourcify: {
@@ -59,5 +80,32 @@ const config: HardhatUserConfig = {
   },
 };
 
+/**
+ * In-process network for a deploy plan (`npm run plan:deploy`): a fork of the
+ * DEPLOY_PLAN_NETWORK network with its chain ID, so the deploy scripts pick that
+ * network's deployedContracts.json entry and find its existing contracts. PRIVATE_KEY,
+ * when set, is funded on the fork so ownership checks see the real deployer.
+ */
+function deployPlanNetwork(networks: NetworksUserConfig, target: string): HardhatNetworkUserConfig {
+  const targetConfig = networks[target];
+  if (!targetConfig) {
+    throw new Error(`DEPLOY_PLAN_NETWORK "${target}" is not a network in hardhat.config.ts`);
+  }
+  const chainId = targetConfig.chainId ?? networks.hardhat?.chainId ?? 31337;
+  return {
+    chainId,
+    forking: "url" in targetConfig ? { url: targetConfig.url } : undefined,
+    // Hardhat only knows the hardfork history of Ethereum chains; the contracts target london
+    chains: { [chainId]: { hardforkHistory: { london: 0 } } },
+    accounts: process.env.PRIVATE_KEY
+      ? [{ privateKey: process.env.PRIVATE_KEY, balance: "1000000000000000000000000" }]
+      : undefined,
+  };
+}
+
+if (process.env.DEPLOY_PLAN_NETWORK) {
+  config.networks!.hardhat = deployPlanNetwork(config.networks!, process.env.DEPLOY_PLAN_NETWORK);
+}
+
 export default config;
 
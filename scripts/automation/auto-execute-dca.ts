@@ -1,30 +1,291 @@
 import hre from "hardhat";
 import * as dotenv from "dotenv";
-import deployedContracts from "../../config/deployedContracts.json";
+import { ContractTransactionResponse, TransactionReceipt } from "ethers";
+import {
+  Address,
+  ContractCall,
+  DCAOrderData,
+  ShariaDCAABI,
+  decodeUpkeepOrders,
+  getDCASchedule,
+  KeeperOutcome,
+  KeeperState,
+  getKeeperOrder,
+  isSameAddress,
+  keeperGasSpentToday,
+  keeperSkipReason,
+  listInFlightOrders,
+  planKeeperGas,
+  recordKeeperOutcome,
+  recordKeeperSubmission,
+  releaseKeeperQuarantine,
+  requireContract,
+  shouldBatchKeeperPlan,
+} from "../../sdk";
+import { getNetworkChainId } from "../utils/network";
+import {
+  KeeperGasEstimate,
+  describeKeeperDeferral,
+  estimateBatchCostWei,
+  estimateOrderGas,
+  keeperGasPrice,
+  loadKeeperGasPolicy,
+} from "../utils/keeperGas";
+import { loadKeeperLeaseBackend } from "../utils/keeperLease";
+import { createKeeperMetrics, exposeKeeperMetrics } from "../utils/keeperMetrics";
+import {
+  chargeKeeperGas,
+  keeperGasLedgerPath,
+  keeperStatePath,
+  loadKeeperGasLedger,
+  loadKeeperState,
+  saveKeeperState,
+} from "../utils/keeperStore";
+import { describeRevert, loadTayebSdk, parseContractLogs, readContract, writeContract } from "../utils/sdkContracts";
 
 dotenv.config();
 
 const { ethers } = hre;
 
-async function main() {
-  const shariaDCAAddress = deployedContracts.main.shariaDCA;
-  if (!shariaDCAAddress) {
-    throw new Error(
-      "ShariaDCA address not found in config/deployedContracts.json. Deploy the contract first."
-    );
-  }
+/**
+ * DCA keeper: polls checkUpkeep every 60 seconds and executes ready orders
+ *
+ * Every attempt is written to deployments/keeper-<chainId>.json (KEEPER_STATE_PATH to
+ * override) before and after its transaction, so a restart resumes transactions still in
+ * flight instead of sending duplicates. Failed orders back off exponentially (1 minute
+ * doubling up to an hour); orders that revert with SwapFailed or InvalidPath three times
+ * in a row are quarantined and skipped until released with KEEPER_RELEASE_ORDERS=<id,id>.
+ *
+ * Slots are anchored to the order's start time: an order that fell behind stays ready and
+ * is executed again on each following check until its overdue slots are caught up (or
+ * dropped, as its missed-interval policy decides).
+ *
+ * Each execution sends the order's getOrderQuote minimum, so an interval whose price moved
+ * past the order's max slippage before mining is skipped on-chain rather than filled badly.
+ *
+ * Before sending, each ready order's gas is estimated and priced in GLMR. Orders worth less
+ * than KEEPER_MIN_VALUE_TO_GAS_RATIO times their gas, and any that would take the day's
+ * spend past KEEPER_DAILY_GAS_BUDGET_GLMR, are deferred and logged. When one performUpkeep
+ * is estimated cheaper than the orders sent one by one, they go as that batch instead,
+ * each order still carrying its own minimum (utils/keeperGas.ts).
+ *
+ * Several keepers can run side by side: each claims the ready orders it is about to send
+ * from a shared lease backend (KEEPER_LEASE_BACKEND=file or http, see utils/keeperLease.ts)
+ * and leaves the rest to the peers holding them. KEEPER_SHARD=index/count splits the order
+ * IDs between keepers; a keeper that stops checking in loses its leases and its shard to
+ * the others once KEEPER_LEASE_TTL_SECONDS passes. Each settled order is logged in the
+ * lease table with the keeper that sent it (npm run report:keepers).
+ *
+ * With KEEPER_METRICS_PORT set, Prometheus metrics are served on /metrics and /healthz
+ * fails once no loop has succeeded for three check intervals (see utils/keeperMetrics.ts).
+ *
+ * Usage: npx hardhat run scripts/automation/auto-execute-dca.ts --network moonbeam
+ */
 
-  const shariaDCA = await ethers.getContractAt("ShariaDCA", shariaDCAAddress);
+const CHECK_INTERVAL_MS = 60000;
+// How long one cycle waits on a sent transaction before leaving it for the next cycle
+const TX_WAIT_TIMEOUT_MS = 5 * 60000;
+
+type ExecutionResult = "executed" | "skipped" | "failed";
+
+async function main() {
+  const chainId = await getNetworkChainId();
+  const sdk = loadTayebSdk(chainId);
+  const { contracts, dca } = sdk;
+  const shariaDCAAddress = requireContract(contracts, "shariaDCA");
+  const [signer] = await ethers.getSigners();
 
   console.log("🤖 DCA Auto-Executor Started");
   console.log("Contract:", shariaDCAAddress);
-  console.log("Network: Moonbeam");
+  console.log("Network:", hre.network.name);
   console.log("Mode: Local Automation Script");
 
-  const checkInterval = 60000; // Check every 60 seconds
-  
-  // Track orders currently being processed to prevent duplicate executions
-  const pendingOrders = new Set<string>();
+  // ShariaDCA only takes other owners' orders from keepers added with setKeeper
+  const isKeeper = await readContract<boolean>(signer, dca.keepers(signer.address as Address));
+  if (!isKeeper && !isSameAddress(await readContract<string>(signer, dca.owner()), signer.address)) {
+    throw new Error(`${signer.address} isn't a ShariaDCA keeper; the contract owner must call setKeeper(${signer.address}, true)`);
+  }
+
+  const statePath = keeperStatePath(chainId);
+  let state = loadKeeperState(statePath, chainId, shariaDCAAddress);
+  const update = (next: KeeperState) => {
+    state = next;
+    saveKeeperState(statePath, state);
+  };
+  console.log("State:", statePath);
+  // Shared with execute-ready-orders, so it's read from disk for every decision
+  const gasLedgerPath = keeperGasLedgerPath(chainId);
+  console.log("Gas ledger:", gasLedgerPath);
+
+  const metrics = createKeeperMetrics();
+  const { flush: flushMetrics } = exposeKeeperMetrics(metrics, (3 * CHECK_INTERVAL_MS) / 1000);
+
+  const gasPolicy = loadKeeperGasPolicy();
+  console.log(
+    `Gas policy: ${gasPolicy.dailyBudgetWei === null ? "no daily budget" : `${ethers.formatEther(gasPolicy.dailyBudgetWei)} GLMR per day`}, ` +
+      `value ≥ ${gasPolicy.minValueToGasRatio}x gas, batching ${gasPolicy.batch ? "on" : "off"}`
+  );
+
+  const leases = loadKeeperLeaseBackend(chainId);
+  const shard = leases.shard ? `, shard ${leases.shard.index}/${leases.shard.count}` : "";
+  console.log(`Leases: ${leases.description} as ${leases.keeperId}${shard}`);
+
+  for (const orderId of (process.env.KEEPER_RELEASE_ORDERS ?? "").split(",").map((id) => id.trim()).filter(Boolean)) {
+    update(releaseKeeperQuarantine(state, orderId));
+    console.log(`🔓 Released Order #${orderId} from quarantine`);
+  }
+  const quarantined = Object.values(state.orders).filter((order) => order.quarantine);
+  for (const order of quarantined) {
+    console.log(`🚫 Order #${order.orderId} is quarantined (${order.quarantine!.reason})`);
+  }
+  console.log();
+
+  const recordOutcome = (orderId: bigint | string, outcome: KeeperOutcome) => {
+    update(recordKeeperOutcome(state, orderId, outcome));
+    const order = getKeeperOrder(state, orderId);
+    if (outcome.status === "reverted" || outcome.status === "failed") {
+      metrics.recordRevert(outcome.error);
+      console.error(`❌ Order #${orderId} ${outcome.status}: ${outcome.error}`);
+      if (order.quarantine) {
+        console.error(`🚫 Quarantined after ${order.consecutiveFailures} failures; release with KEEPER_RELEASE_ORDERS=${orderId}\n`);
+      } else {
+        console.error(`   Retrying after ${order.retryAt} (failure ${order.consecutiveFailures})\n`);
+      }
+    }
+  };
+
+  /**
+   * Record a mined transaction for each order it carried (one, or a performUpkeep batch) and
+   * charge its gas to the day's budget. A revert receipt carries no reason and performUpkeep
+   * swallows each order's revert, so an order without an event of its own is simulated
+   * again to name the error.
+   */
+  const settleReceipt = async (
+    orderIds: Array<bigint | string>,
+    receipt: TransactionReceipt
+  ): Promise<Map<string, ExecutionResult>> => {
+    const costWei = receipt.gasUsed * receipt.gasPrice;
+    metrics.recordGas(receipt.gasUsed, Number(ethers.formatEther(costWei)));
+    const ledger = await chargeKeeperGas(gasLedgerPath, costWei);
+    metrics.setGasSpentToday(Number(ethers.formatEther(keeperGasSpentToday(ledger))));
+
+    const events = receipt.status === 1 ? parseContractLogs(receipt, shariaDCAAddress, ShariaDCAABI) : [];
+    const results = new Map<string, ExecutionResult>();
+    for (const orderId of orderIds) {
+      const own = events.filter((event) => event.args.orderId?.toString() === orderId.toString());
+      const skipped = own.find((event) => event.name === "DCAIntervalSkipped");
+      if (skipped || own.some((event) => event.name === "DCAOrderExecuted")) {
+        recordOutcome(orderId, { status: "confirmed" });
+        if (skipped) {
+          metrics.recordSkip();
+          console.log(`⏭️  Order #${orderId}: interval skipped, the quote fell below the minimum output`);
+          console.log(`   Next attempt after ${new Date(Number(skipped.args.nextExecutionTime) * 1000).toLocaleString()}\n`);
+        } else {
+          metrics.recordExecution();
+        }
+        results.set(orderId.toString(), skipped ? "skipped" : "executed");
+        continue;
+      }
+      let error = "reverted";
+      try {
+        const [, amountOutMin] = await readContract<[bigint, bigint]>(signer, dca.getOrderQuote(BigInt(orderId)));
+        await readContract(signer, dca.executeDCAOrderWithMinOut(BigInt(orderId), amountOutMin));
+      } catch (simulated) {
+        error = describeRevert(simulated, ShariaDCAABI);
+      }
+      recordOutcome(orderId, { status: "reverted", error });
+      results.set(orderId.toString(), "failed");
+    }
+    await leases.release(
+      orderIds,
+      orderIds.map((orderId) => ({ orderId: orderId.toString(), status: results.get(orderId.toString())!, txHash: receipt.hash }))
+    );
+    return results;
+  };
+
+  /**
+   * Settle transactions left in flight by this or an earlier run; a batch is one
+   * transaction shared by several orders
+   */
+  const resumeInFlight = async () => {
+    const byTx = new Map<string, string[]>();
+    for (const order of listInFlightOrders(state)) {
+      byTx.set(order.lastTxHash!, [...(byTx.get(order.lastTxHash!) ?? []), order.orderId]);
+    }
+    for (const [txHash, orderIds] of byTx) {
+      const label = `Order ${orderIds.map((id) => `#${id}`).join(", ")}`;
+      const receipt = await ethers.provider.getTransactionReceipt(txHash);
+      if (receipt) {
+        console.log(`🔁 ${label}: ${txHash} was mined (block ${receipt.blockNumber})`);
+        await settleReceipt(orderIds, receipt);
+      } else if (await ethers.provider.getTransaction(txHash)) {
+        console.log(`⏳ ${label}: waiting for ${txHash}`);
+        const mined = await ethers.provider.waitForTransaction(txHash, 1, TX_WAIT_TIMEOUT_MS).catch(() => null);
+        if (mined) {
+          await settleReceipt(orderIds, mined);
+        }
+      } else {
+        console.warn(`⚠️  ${label}: ${txHash} is unknown to the node, treating it as dropped`);
+        orderIds.forEach((orderId) => recordOutcome(orderId, { status: "dropped" }));
+        await leases.release(orderIds);
+      }
+    }
+  };
+
+  /**
+   * Send one transaction for the orders and settle it once mined; null when it was rejected
+   * before broadcast or is still in flight after TX_WAIT_TIMEOUT_MS
+   */
+  const submit = async (
+    orderIds: bigint[],
+    call: ContractCall
+  ): Promise<{ receipt: TransactionReceipt; results: Map<string, ExecutionResult> } | null> => {
+    let tx: ContractTransactionResponse;
+    try {
+      tx = await writeContract(signer, call);
+    } catch (error: any) {
+      // Rejected before broadcast, usually a revert during gas estimation
+      const reason = describeRevert(error, ShariaDCAABI);
+      orderIds.forEach((orderId) => recordOutcome(orderId, { status: "failed", error: reason }));
+      await leases.release(
+        orderIds,
+        orderIds.map((orderId) => ({ orderId: orderId.toString(), status: "failed" as const, txHash: null }))
+      );
+      return null;
+    }
+    orderIds.forEach((orderId) => update(recordKeeperSubmission(state, orderId, tx.hash)));
+    console.log(`   Transaction sent: ${tx.hash}`);
+
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await tx.wait(1, TX_WAIT_TIMEOUT_MS);
+    } catch (error: any) {
+      // A mined revert carries its receipt; anything else stays in flight for the next cycle
+      receipt = error.receipt ?? null;
+      if (!receipt) {
+        console.warn(`⚠️  ${tx.hash}: ${error.message}; checking it again next cycle\n`);
+        return null;
+      }
+    }
+    if (!receipt) {
+      return null;
+    }
+    return { receipt, results: await settleReceipt(orderIds, receipt) };
+  };
+
+  /**
+   * Claim the orders and renew the leases on transactions still in flight, which doubles as
+   * this keeper's heartbeat; returns the orders this keeper now holds
+   */
+  const claimOrders = async (orderIds: bigint[]): Promise<bigint[]> => {
+    const inFlight = listInFlightOrders(state).map((order) => order.orderId);
+    const { claimed, heldBy } = await leases.claim([...orderIds, ...inFlight]);
+    for (const [orderId, keeperId] of Object.entries(heldBy)) {
+      console.log(`👥 Order #${orderId} is with keeper ${keeperId}`);
+    }
+    return orderIds.filter((id) => claimed.includes(id.toString()));
+  };
+
   let isProcessing = false;
 
   const checkAndExecute = async () => {
@@ -32,122 +293,139 @@ async function main() {
     if (isProcessing) {
       return;
     }
-    
+
     isProcessing = true;
-    
+    let completed = false;
+
     try {
+      await resumeInFlight();
+      metrics.setBalance(Number(ethers.formatEther(await ethers.provider.getBalance(signer.address))));
+
       // Check for ready orders using contract's checkUpkeep function
-      const [upkeepNeeded, performData] = await shariaDCA.checkUpkeep("0x");
-      
+      const [upkeepNeeded, performData] = await readContract(signer, dca.checkUpkeep());
+
       if (upkeepNeeded) {
-        const orderIds = ethers.AbiCoder.defaultAbiCoder().decode(
-          ["uint256[]"],
-          performData
-        )[0];
-        
-        // Filter out orders that are already being processed
-        const ordersToExecute = orderIds.filter((id: bigint) => {
-          const orderIdStr = id.toString();
-          return !pendingOrders.has(orderIdStr);
-        });
-        
+        const orderIds = decodeUpkeepOrders(performData).map((order) => order.orderId);
+        metrics.setReadyOrders(orderIds.length);
+
+        // Leave out quarantined orders, those still in flight and those backing off, then
+        // those a peer keeper holds
+        const ordersToExecute = await claimOrders(orderIds.filter((id: bigint) => keeperSkipReason(state, id) === null));
+
         if (ordersToExecute.length === 0) {
-          isProcessing = false;
+          completed = true;
           return;
         }
-        
+
         // Fetch order details to show interval progress
         const orderDetails = await Promise.all(
           ordersToExecute.map(async (id: bigint) => {
             try {
-              const order = await shariaDCA.getDCAOrder(id);
+              const order = await readContract<DCAOrderData>(signer, dca.getDCAOrder(id));
+              const schedule = getDCASchedule(order);
               return {
                 id,
                 intervalsCompleted: Number(order.intervalsCompleted),
-                totalIntervals: Number(order.totalIntervals)
+                totalIntervals: Number(order.totalIntervals),
+                dueSlots: schedule.dueSlots,
+                droppingSlots: schedule.droppingSlots
               };
             } catch {
               return {
                 id,
                 intervalsCompleted: 0,
-                totalIntervals: 0
+                totalIntervals: 0,
+                dueSlots: 0,
+                droppingSlots: 0
               };
             }
           })
         );
-        
+
         const timestamp = new Date().toLocaleTimeString();
         console.log(`[${timestamp}] ✅ Found ${ordersToExecute.length} order(s) ready for execution:`);
-        orderDetails.forEach((order: { id: bigint; intervalsCompleted: number; totalIntervals: number }) => {
+        orderDetails.forEach((order) => {
           const currentInterval = order.intervalsCompleted + 1;
-          console.log(`  - Order #${order.id} (Interval ${currentInterval}/${order.totalIntervals})`);
+          const behind =
+            order.dueSlots > 1 ? `, ${order.dueSlots} slots due${order.droppingSlots > 0 ? `, ${order.droppingSlots} to be dropped` : ""}` : "";
+          console.log(`  - Order #${order.id} (Interval ${currentInterval}/${order.totalIntervals}${behind})`);
         });
-        
-        // Execute each order
-        const executionPromises = ordersToExecute.map(async (orderId: bigint) => {
-          const orderIdStr = orderId.toString();
-          
-          // Get order details for this specific order
-          let orderInfo = orderDetails.find((o: { id: bigint; intervalsCompleted: number; totalIntervals: number }) => o.id === orderId);
-          if (!orderInfo) {
-            try {
-              const order = await shariaDCA.getDCAOrder(orderId);
-              orderInfo = {
-                id: orderId,
-                intervalsCompleted: Number(order.intervalsCompleted),
-                totalIntervals: Number(order.totalIntervals)
-              };
-            } catch {
-              orderInfo = { id: orderId, intervalsCompleted: 0, totalIntervals: 0 };
-            }
-          }
-          
-          // Mark as pending
-          pendingOrders.add(orderIdStr);
-          
+
+        // Price each interval's gas and leave out what the gas policy won't pay for
+        const gasPrice = await keeperGasPrice(ethers.provider);
+        const estimates: KeeperGasEstimate[] = [];
+        for (const { id } of orderDetails) {
           try {
+            estimates.push(await estimateOrderGas(signer, sdk, id, gasPrice));
+          } catch (error: any) {
+            // The estimate reverted, as the execution would have
+            recordOutcome(id, { status: "failed", error: describeRevert(error, ShariaDCAABI) });
+          }
+        }
+        const spentToday = keeperGasSpentToday(loadKeeperGasLedger(gasLedgerPath));
+        metrics.setGasSpentToday(Number(ethers.formatEther(spentToday)));
+        const plan = planKeeperGas(estimates, spentToday, gasPolicy);
+        for (const deferral of plan.deferred) {
+          metrics.recordDeferral(deferral.reason);
+          console.log(`⏸️  ${describeKeeperDeferral(deferral, spentToday, gasPolicy)}`);
+        }
+
+        const planIds = plan.execute.map((estimate) => estimate.orderId);
+        const unsent = ordersToExecute.filter((id: bigint) => !planIds.includes(id));
+        if (unsent.length > 0) {
+          await leases.release(unsent);
+        }
+        const batchCostWei =
+          gasPolicy.batch && planIds.length > 1 ? await estimateBatchCostWei(signer, sdk, plan.execute, gasPrice) : null;
+
+        if (shouldBatchKeeperPlan(plan, batchCostWei, gasPolicy)) {
+          console.log(
+            `\n📦 Executing ${planIds.length} orders in one performUpkeep ` +
+              `(~${ethers.formatEther(batchCostWei!)} GLMR, ~${ethers.formatEther(plan.costWei)} GLMR one by one)...`
+          );
+          const settled = await submit(planIds, dca.performUpkeep(plan.execute));
+          if (settled) {
+            const executed = planIds.filter((id) => settled.results.get(id.toString()) === "executed");
+            console.log(`✅ Batch mined in block ${settled.receipt.blockNumber}: ${executed.length}/${planIds.length} executed`);
+            console.log(`   Gas used: ${settled.receipt.gasUsed.toString()}\n`);
+          }
+        } else {
+          const executionPromises = plan.execute.map(async (estimate) => {
+            const orderId = estimate.orderId;
+            const orderInfo = orderDetails.find((order) => order.id === orderId)!;
             const currentInterval = orderInfo.intervalsCompleted + 1;
             console.log(`\n🔄 Executing Order #${orderId} (Interval ${currentInterval}/${orderInfo.totalIntervals})...`);
-            const tx = await shariaDCA.executeDCAOrder(orderId);
-            console.log(`   Transaction sent: ${tx.hash}`);
-            
-            const receipt = await tx.wait();
-            if (!receipt) {
-              throw new Error("Transaction receipt unavailable");
-            }
-            console.log(`✅ Order #${orderId} executed successfully! (Interval ${currentInterval}/${orderInfo.totalIntervals})`);
-            console.log(`   Block: ${receipt.blockNumber}`);
-            console.log(`   Gas used: ${receipt.gasUsed.toString()}\n`);
-            
-            // Remove from pending after successful execution
-            pendingOrders.delete(orderIdStr);
-          } catch (error: any) {
-            console.error(`❌ Failed to execute Order #${orderId}:`);
-            console.error(`   Error: ${error.message}`);
-            
-            // Don't crash on individual order failures
-            if (error.reason) {
-              console.error(`   Reason: ${error.reason}`);
+
+            const settled = await submit([orderId], dca.executeDCAOrderWithMinOut(orderId, estimate.amountOutMin));
+            if (settled?.results.get(orderId.toString()) === "executed") {
+              console.log(`✅ Order #${orderId} executed successfully! (Interval ${currentInterval}/${orderInfo.totalIntervals})`);
+              console.log(`   Block: ${settled.receipt.blockNumber}`);
+              console.log(`   Gas used: ${settled.receipt.gasUsed.toString()}\n`);
             }
-            console.log();
-            
-            // Remove from pending after failure (order may have been executed by another tx)
-            pendingOrders.delete(orderIdStr);
-          }
-        });
-        
-        // Wait for all executions to complete
-        await Promise.all(executionPromises);
+          });
+
+          // Wait for all executions to complete
+          await Promise.all(executionPromises);
+        }
+      } else {
+        metrics.setReadyOrders(0);
+        await claimOrders([]);
       }
+      completed = true;
     } catch (error: any) {
       const timestamp = new Date().toLocaleTimeString();
       console.error(`[${timestamp}] ❌ Error checking upkeep:`, error.message);
-      
+
       // Continue running even if there's an error
       if (error.reason) {
         console.error(`   Reason: ${error.reason}`);
       }
     } finally {
+      if (completed) {
+        metrics.markLoopSuccess();
+      }
+      metrics.setQuarantinedOrders(Object.values(state.orders).filter((order) => order.quarantine).length);
+      flushMetrics();
       isProcessing = false;
     }
   };
@@ -157,12 +435,12 @@ async function main() {
   await checkAndExecute();
 
   // Set up periodic checking
-  console.log(`⏰ Will check every ${checkInterval / 1000} seconds`);
+  console.log(`⏰ Will check every ${CHECK_INTERVAL_MS / 1000} seconds`);
   console.log("Press Ctrl+C to stop\n");
   console.log("=".repeat(60));
   console.log();
 
-  setInterval(checkAndExecute, checkInterval);
+  setInterval(checkAndExecute, CHECK_INTERVAL_MS);
 
   // Keep process alive
   process.on('SIGINT', () => {
@@ -175,4 +453,3 @@ main().catch((error) => {
   console.error("❌ Fatal error:", error);
   process.exit(1);
 });
-
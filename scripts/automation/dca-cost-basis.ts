@@ -0,0 +1,135 @@
+import hre from "hardhat";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { Interface, InterfaceAbi } from "ethers";
+import {
+  Address,
+  DCAEvent,
+  DCA_COST_BASIS_EVENTS,
+  ShariaDCAABI,
+  buildDCACostBasisReport,
+  buildSwapPath,
+  dcaLogRanges,
+  formatDCACostBasisReport,
+  indexDCAEvents,
+  isSameAddress,
+  normalizeTokenSymbol,
+  requireContract,
+  toDCAEvent,
+} from "../../sdk";
+import { getNetworkName, loadNetworkDeployment } from "../utils/network";
+import { loadTayebSdk, readContract } from "../utils/sdkContracts";
+
+dotenv.config();
+
+const { ethers } = hre;
+
+/**
+ * DCA cost-basis report
+ *
+ * Replays ShariaDCA's DCAOrderCreated, DCAOrderExecuted, DCAOrderCompleted and
+ * DCAOrderCancelled events from its deployment block (metadata.contracts.shariaDCA) and
+ * prints, per order and per owner, what was spent and received, the average entry price,
+ * and both sides valued in DCA_REPORT_QUOTE (default USDC_WH) at today's prices, with the
+ * gain over holding the source tokens. Prices are getSwapQuote of one whole token into the
+ * quote token through ShariaLocalSwap now, not at each execution; tokens without a route
+ * are left unvalued.
+ *
+ * DCA_REPORT_OWNER=<address> limits the report to one owner, DCA_REPORT_FROM_BLOCK
+ * overrides the start block and DCA_REPORT_JSON=<path> also writes the report as JSON.
+ *
+ * Usage: npm run report:dca (or npx hardhat run scripts/automation/dca-cost-basis.ts --network <name>)
+ */
+
+async function main() {
+  const deployment = await loadNetworkDeployment();
+  const { contracts, tokens, swap } = loadTayebSdk(deployment.chainId);
+  const shariaDCAAddress = requireContract(contracts, "shariaDCA");
+  const provider = ethers.provider;
+
+  const record = deployment.metadata.contracts?.shariaDCA;
+  const deployedAt = record && isSameAddress(record.address, shariaDCAAddress) ? record.blockNumber : 0;
+  const fromBlock = BigInt(process.env.DCA_REPORT_FROM_BLOCK || deployedAt);
+  const toBlock = BigInt(await provider.getBlockNumber());
+  const owner = process.env.DCA_REPORT_OWNER;
+  const quote = tokens.resolveOrThrow(process.env.DCA_REPORT_QUOTE || "USDC_WH");
+  if (!quote.address) {
+    throw new Error(`${quote.symbol} has no address on chain ${deployment.chainId}, pick another DCA_REPORT_QUOTE`);
+  }
+  const quoteAddress = quote.address;
+
+  console.log(`📊 DCA cost basis on ${getNetworkName()} (chain ${deployment.chainId})`);
+  console.log("Contract:", shariaDCAAddress);
+  console.log(`Blocks: ${fromBlock} → ${toBlock}`);
+  if (owner) console.log("Owner:", owner);
+  console.log();
+
+  const contractInterface = new Interface(ShariaDCAABI as InterfaceAbi);
+  const topics = DCA_COST_BASIS_EVENTS.map((name) => contractInterface.getEvent(name)!.topicHash);
+  const events: DCAEvent[] = [];
+  for (const [start, end] of dcaLogRanges(fromBlock, toBlock)) {
+    const logs = await provider.getLogs({ address: shariaDCAAddress, topics: [topics], fromBlock: start, toBlock: end });
+    for (const log of logs) {
+      const parsed = contractInterface.parseLog(log);
+      const event = parsed && toDCAEvent(parsed.name, parsed.args);
+      if (event) events.push(event);
+    }
+  }
+
+  const positions = indexDCAEvents(events).filter((position) => !owner || isSameAddress(position.owner, owner));
+  if (positions.length === 0) {
+    console.log("_No DCA orders found_\n");
+    return;
+  }
+
+  // One whole token quoted into the quote token; GLMR is quoted as WGLMR
+  const weth = requireContract(contracts, "weth");
+  const prices = new Map<string, number | null>([[normalizeTokenSymbol(quote.symbol), 1]]);
+  const tokenAddresses = [...new Set(positions.flatMap((position) => [position.sourceToken, position.targetToken]))];
+  for (const address of tokenAddresses) {
+    const native = isSameAddress(address, ethers.ZeroAddress);
+    const token = native ? tokens.resolve(weth) : tokens.resolve(address);
+    const symbol = native ? "GLMR" : token?.symbol;
+    if (!symbol || prices.has(normalizeTokenSymbol(symbol))) continue;
+    const decimals = token?.decimals ?? 18;
+    const path = buildSwapPath(weth, native ? weth : (address as Address), quoteAddress, false);
+    try {
+      const amountOut = await readContract<bigint>(provider, swap.getSwapQuote(path, 10n ** BigInt(decimals)));
+      prices.set(normalizeTokenSymbol(symbol), Number(ethers.formatUnits(amountOut, quote.decimals)));
+    } catch {
+      console.warn(`⚠️  No ${symbol} → ${quote.symbol} quote, leaving ${symbol} unvalued`);
+      prices.set(normalizeTokenSymbol(symbol), null);
+    }
+  }
+
+  const report = buildDCACostBasisReport(
+    positions,
+    (address) => {
+      const token = tokens.resolve(address);
+      return token && { symbol: token.symbol, decimals: token.decimals };
+    },
+    (symbol) => prices.get(normalizeTokenSymbol(symbol))
+  );
+
+  console.log(`### DCA cost basis: ${getNetworkName()} (${new Date().toISOString()})\n`);
+  console.log(formatDCACostBasisReport(report, quote.symbol));
+  console.log();
+
+  const jsonPath = process.env.DCA_REPORT_JSON;
+  if (jsonPath) {
+    const json = JSON.stringify(
+      { chainId: deployment.chainId, shariaDCA: shariaDCAAddress, quote: quote.symbol, fromBlock, toBlock, ...report },
+      (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    );
+    fs.writeFileSync(jsonPath, json + "\n");
+    console.log(`💾 Wrote ${jsonPath}\n`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,228 @@
+import hre from "hardhat";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { Interface, InterfaceAbi } from "ethers";
+import {
+  DCANotification,
+  DCANotifierState,
+  DCAOrderData,
+  DCA_NOTIFIER_EVENTS,
+  DEFAULT_DCA_NOTIFIER_POLICY,
+  KeeperState,
+  ShariaDCAABI,
+  dcaEventNotification,
+  dcaLogRanges,
+  dueDCADeliveries,
+  isSameAddress,
+  keeperFailureNotification,
+  listKeeperFailuresSince,
+  queueDCANotification,
+  recordDCADeliveryAttempt,
+  requireContract,
+  toDCAEvent,
+} from "../../sdk";
+import { createDCANotifierServer, loadNotifierState, notifierStatePath, saveNotifierState, sendWebhook } from "../utils/dcaNotifier";
+import { keeperStatePath } from "../utils/keeperStore";
+import { getNetworkChainId } from "../utils/network";
+import { loadTayebSdk, readContract } from "../utils/sdkContracts";
+
+dotenv.config();
+
+const { ethers } = hre;
+
+/**
+ * DCA notifier: webhooks for DCA lifecycle events
+ *
+ * Every NOTIFIER_POLL_SECONDS (default 30) it scans ShariaDCA for DCAOrderExecuted,
+ * DCAOrderCompleted and DCAOrderCancelled, NOTIFIER_CONFIRMATIONS blocks behind the head
+ * (default 2), and reads the keeper state (NOTIFIER_KEEPER_STATE=<path,path>, default the
+ * keeper's own file) for attempts that reverted or failed. Each event is queued for the
+ * order owner's registered endpoints and POSTed as signed JSON (see utils/dcaNotifier.ts).
+ * Failed deliveries are retried from 30 seconds, doubling up to an hour, eight attempts
+ * in all; the log is kept in deployments/notifier-<chainId>.json (NOTIFIER_STATE_PATH to
+ * override).
+ *
+ * A first run starts at the current block and the keeper's current failures;
+ * NOTIFIER_FROM_BLOCK replays from an earlier block. Owners register endpoints through
+ * the API on NOTIFIER_PORT (default 8788), which the orders page uses; set
+ * NOTIFIER_CORS_ORIGIN to the frontend's origin in production, and NOTIFIER_DOMAIN to the
+ * host[:port] the frontend reaches the API at (default localhost:<NOTIFIER_PORT>); sign-ins
+ * made for any other host are refused. Endpoints must be https on
+ * hosts that resolve to public addresses; NOTIFIER_ALLOW_INSECURE=true lifts both rules for
+ * local sinks.
+ *
+ * Usage: npm run notify:dca (or npx hardhat run scripts/automation/dca-notifier.ts --network <name>)
+ */
+
+const POLL_INTERVAL_MS = Number(process.env.NOTIFIER_POLL_SECONDS || 30) * 1000;
+
+async function main() {
+  const chainId = await getNetworkChainId();
+  const { contracts, tokens, dca } = loadTayebSdk(chainId);
+  const shariaDCAAddress = requireContract(contracts, "shariaDCA");
+  const provider = ethers.provider;
+  const confirmations = BigInt(process.env.NOTIFIER_CONFIRMATIONS || 2);
+  const keeperPaths = (process.env.NOTIFIER_KEEPER_STATE || keeperStatePath(chainId))
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  console.log("📣 DCA Notifier Started");
+  console.log("Contract:", shariaDCAAddress);
+  console.log("Network:", hre.network.name);
+
+  const statePath = notifierStatePath(chainId);
+  let state = loadNotifierState(statePath, chainId, shariaDCAAddress);
+  const update = (next: DCANotifierState) => {
+    state = next;
+    saveNotifierState(statePath, state);
+  };
+  console.log("State:", statePath);
+  console.log("Keeper state:", keeperPaths.join(", "));
+
+  const port = Number(process.env.NOTIFIER_PORT || 8788);
+  const allowInsecure = process.env.NOTIFIER_ALLOW_INSECURE === "true";
+  const domain = process.env.NOTIFIER_DOMAIN || `localhost:${port}`;
+  const server = createDCANotifierServer(
+    { get: () => state, update },
+    { allowInsecure, corsOrigin: process.env.NOTIFIER_CORS_ORIGIN, domain }
+  );
+  server.listen(port, () => console.log(`🔗 Endpoint API on http://localhost:${port} (health: /healthz)`));
+  console.log("Sign-in domain:", domain);
+  console.log();
+
+  // Owners and tokens never change once an order exists
+  const orderCache = new Map<string, DCAOrderData>();
+  const getOrder = async (orderId: bigint | string) => {
+    const key = orderId.toString();
+    if (!orderCache.has(key)) {
+      orderCache.set(key, await readContract<DCAOrderData>(provider, dca.getDCAOrder(BigInt(orderId))));
+    }
+    return orderCache.get(key)!;
+  };
+
+  const formatAmount = (amount: bigint, tokenAddress: string) => {
+    if (isSameAddress(tokenAddress, ethers.ZeroAddress)) return `${ethers.formatEther(amount)} GLMR`;
+    const token = tokens.resolve(tokenAddress);
+    return token ? `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}` : `${amount} units of ${tokenAddress}`;
+  };
+
+  const queue = (notification: DCANotification) => {
+    const known = new Set(state.deliveries.map((delivery) => delivery.id));
+    update(queueDCANotification(state, notification));
+    const queued = state.deliveries.filter((delivery) => !known.has(delivery.id)).length;
+    if (queued > 0) {
+      console.log(`📬 ${notification.subject}: queued for ${queued} endpoint(s)`);
+    }
+  };
+
+  const contractInterface = new Interface(ShariaDCAABI as InterfaceAbi);
+  const topics = DCA_NOTIFIER_EVENTS.map((name) => contractInterface.getEvent(name)!.topicHash);
+
+  const scanEvents = async () => {
+    const head = BigInt(await provider.getBlockNumber()) - confirmations;
+    if (state.nextBlock === null) {
+      update({ ...state, nextBlock: (process.env.NOTIFIER_FROM_BLOCK ? BigInt(process.env.NOTIFIER_FROM_BLOCK) : head + 1n).toString() });
+    }
+    const fromBlock = BigInt(state.nextBlock!);
+    if (fromBlock > head) return;
+
+    for (const [start, end] of dcaLogRanges(fromBlock, head)) {
+      const logs = await provider.getLogs({ address: shariaDCAAddress, topics: [topics], fromBlock: start, toBlock: end });
+      for (const log of logs) {
+        const parsed = contractInterface.parseLog(log);
+        const event = parsed && toDCAEvent(parsed.name, parsed.args);
+        if (!event) continue;
+        const order = await getOrder(event.orderId);
+        const block = await provider.getBlock(log.blockNumber);
+        const notification = dcaEventNotification(event, {
+          chainId,
+          owner: order.owner,
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          occurredAt: new Date(Number(block?.timestamp ?? 0) * 1000).toISOString(),
+          amounts:
+            event.type === "executed"
+              ? { amountIn: formatAmount(event.amountIn, order.sourceToken), amountOut: formatAmount(event.amountOut, order.targetToken) }
+              : undefined,
+        });
+        if (notification) queue(notification);
+      }
+      update({ ...state, nextBlock: (end + 1n).toString() });
+    }
+  };
+
+  const scanKeeperFailures = async () => {
+    for (const keeperPath of keeperPaths) {
+      if (!fs.existsSync(keeperPath)) continue;
+      const keeper = JSON.parse(fs.readFileSync(keeperPath, "utf-8")) as KeeperState;
+      if (keeper.chainId !== chainId || !isSameAddress(keeper.shariaDCA, shariaDCAAddress)) continue;
+
+      const watermark = state.keeperWatermarks[keeperPath];
+      if (watermark === undefined) {
+        // Failures from before the notifier first saw this file aren't news
+        update({ ...state, keeperWatermarks: { ...state.keeperWatermarks, [keeperPath]: new Date().toISOString() } });
+        continue;
+      }
+      for (const { order, attempt } of listKeeperFailuresSince(keeper.orders, watermark)) {
+        const { owner } = await getOrder(order.orderId);
+        queue(keeperFailureNotification(chainId, owner, order, attempt));
+        update({ ...state, keeperWatermarks: { ...state.keeperWatermarks, [keeperPath]: attempt.finishedAt! } });
+      }
+    }
+  };
+
+  const deliver = async () => {
+    for (const delivery of dueDCADeliveries(state)) {
+      const subscription = state.subscriptions.find((existing) => existing.id === delivery.subscriptionId);
+      if (!subscription) continue;
+      const result = await sendWebhook(delivery, subscription.secret, { allowInsecure });
+      update(recordDCADeliveryAttempt(state, delivery.id, result));
+      const settled = state.deliveries.find((existing) => existing.id === delivery.id);
+      const label = `${delivery.notification.type} for order #${delivery.notification.orderId} to ${delivery.url}`;
+      if (settled?.status === "delivered") {
+        console.log(`📨 Delivered ${label}`);
+      } else if (settled?.status === "failed") {
+        console.error(`❌ Gave up on ${label} after ${settled.attempts.length} attempts (${result.error})`);
+      } else {
+        console.warn(`⚠️  ${label} failed (${result.error}), retrying after ${settled?.nextAttemptAt}`);
+      }
+    }
+  };
+
+  let isProcessing = false;
+
+  const poll = async () => {
+    if (isProcessing) {
+      return;
+    }
+    isProcessing = true;
+    try {
+      await scanEvents();
+      await scanKeeperFailures();
+      await deliver();
+    } catch (error: any) {
+      console.error(`[${new Date().toLocaleTimeString()}] ❌ Notifier error:`, error.message);
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  await poll();
+  console.log(`⏰ Will check every ${POLL_INTERVAL_MS / 1000} seconds`);
+  console.log(`Retries: up to ${DEFAULT_DCA_NOTIFIER_POLICY.maxAttempts} attempts per delivery`);
+  console.log("Press Ctrl+C to stop\n");
+
+  setInterval(poll, POLL_INTERVAL_MS);
+
+  process.on("SIGINT", () => {
+    console.log("\n\n👋 Shutting down DCA Notifier...");
+    server.close();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", error);
+  process.exit(1);
+});
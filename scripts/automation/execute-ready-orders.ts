@@ -1,6 +1,34 @@
 import hre from "hardhat";
 import * as dotenv from "dotenv";
-import deployedContracts from "../../config/deployedContracts.json";
+import { ContractRunner, TransactionReceipt } from "ethers";
+import {
+  Address,
+  DCAClient,
+  DCAOrderData,
+  KeeperDeferReason,
+  ShariaDCAABI,
+  decodeUpkeepOrders,
+  getDCASchedule,
+  getMissedIntervalPolicy,
+  isOrderReady,
+  isSameAddress,
+  keeperGasSpentToday,
+  planKeeperGas,
+  requireContract,
+  shouldBatchKeeperPlan,
+} from "../../sdk";
+import { getNetworkChainId } from "../utils/network";
+import {
+  KeeperGasEstimate,
+  describeKeeperDeferral,
+  estimateBatchCostWei,
+  estimateOrderGas,
+  keeperGasPrice,
+  loadKeeperGasPolicy,
+} from "../utils/keeperGas";
+import { createKeeperMetrics, exposeKeeperMetrics } from "../utils/keeperMetrics";
+import { chargeKeeperGas, keeperGasLedgerPath, loadKeeperGasLedger } from "../utils/keeperStore";
+import { describeRevert, loadTayebSdk, parseContractLogs, readContract, writeContract } from "../utils/sdkContracts";
 
 dotenv.config();
 
@@ -9,17 +37,10 @@ const { ethers } = hre;
 /**
  * Helper function to check if a specific order is ready for execution
  */
-async function isOrderReady(shariaDCA: any, orderId: bigint): Promise<boolean> {
+async function isOrderReadyOnChain(runner: ContractRunner, dca: DCAClient, orderId: bigint): Promise<boolean> {
   try {
-    const order = await shariaDCA.getDCAOrder(orderId);
-    const currentTime = Math.floor(Date.now() / 1000);
-    
-    return (
-      order.exists &&
-      order.isActive &&
-      currentTime >= Number(order.nextExecutionTime) &&
-      order.intervalsCompleted < order.totalIntervals
-    );
+    const order = await readContract<DCAOrderData>(runner, dca.getDCAOrder(orderId));
+    return isOrderReady(order);
   } catch {
     return false;
   }
@@ -28,43 +49,126 @@ async function isOrderReady(shariaDCA: any, orderId: bigint): Promise<boolean> {
 /**
  * One-time execution script for ready DCA orders
  * Useful for cron jobs, GitHub Actions, or manual execution
- * Automatically catches up on multiple missed intervals per order
+ * Automatically catches up on multiple missed intervals per order. Slots are anchored to
+ * the order's start time, so each execution fills the next overdue slot until the order's
+ * missed-interval policy says the rest are dropped; an interval the contract skips because
+ * its quote fell below the order's minimum output ends the catch-up
+ *
+ * KEEPER_METRICS_FILE writes Prometheus metrics for the run once it completes; a failed
+ * run leaves the previous file, so alert on tayeb_keeper_last_success_timestamp_seconds
+ *
+ * Every interval passes the keepers' gas policy first (see utils/keeperGas.ts): orders not
+ * worth their gas or past the daily budget are deferred, the day's spend is charged to the
+ * gas ledger both keepers share, and the first intervals of all ready orders go as one
+ * performUpkeep when that is estimated cheaper
  */
 async function main() {
   const startTime = Date.now();
   const maxCatchUpPerOrder = 10; // Prevent infinite loops
   
-  const shariaDCAAddress = deployedContracts.main.shariaDCA;
-  if (!shariaDCAAddress) {
-    throw new Error(
-      "ShariaDCA address not found in config/deployedContracts.json. Deploy the contract first."
-    );
-  }
+  const chainId = await getNetworkChainId();
+  const sdk = loadTayebSdk(chainId);
+  const { contracts, dca } = sdk;
+  const shariaDCAAddress = requireContract(contracts, "shariaDCA");
+  const [signer] = await ethers.getSigners();
+  const metrics = createKeeperMetrics();
+  const { flush: flushMetrics } = exposeKeeperMetrics(metrics);
+  const gasPolicy = loadKeeperGasPolicy();
 
-  const shariaDCA = await ethers.getContractAt("ShariaDCA", shariaDCAAddress);
+  // Only the gas ledger is shared here; the keeper state file is the auto-executor's alone.
+  // Each read picks up what a running auto-executor has spent since.
+  const gasLedgerPath = keeperGasLedgerPath(chainId);
+  const spentToday = () => keeperGasSpentToday(loadKeeperGasLedger(gasLedgerPath));
+  const chargeGas = async (receipt: TransactionReceipt) => {
+    const costWei = receipt.gasUsed * receipt.gasPrice;
+    metrics.recordGas(receipt.gasUsed, Number(ethers.formatEther(costWei)));
+    const ledger = await chargeKeeperGas(gasLedgerPath, costWei);
+    metrics.setGasSpentToday(Number(ethers.formatEther(keeperGasSpentToday(ledger))));
+  };
 
   console.log("🔍 Checking for ready DCA orders...");
   console.log("Contract:", shariaDCAAddress);
   console.log("Max catch-up per order:", maxCatchUpPerOrder);
+  console.log(
+    "Daily gas budget:",
+    gasPolicy.dailyBudgetWei === null ? "none" : `${ethers.formatEther(gasPolicy.dailyBudgetWei)} GLMR`,
+    `(${ethers.formatEther(spentToday())} spent today)`
+  );
   console.log();
 
+  // ShariaDCA only takes other owners' orders from keepers added with setKeeper
+  const isKeeper = await readContract<boolean>(signer, dca.keepers(signer.address as Address));
+  if (!isKeeper && !isSameAddress(await readContract<string>(signer, dca.owner()), signer.address)) {
+    throw new Error(`${signer.address} isn't a ShariaDCA keeper; the contract owner must call setKeeper(${signer.address}, true)`);
+  }
+
   try {
-    const [upkeepNeeded, performData] = await shariaDCA.checkUpkeep("0x");
+    metrics.setBalance(Number(ethers.formatEther(await ethers.provider.getBalance(signer.address))));
+    const [upkeepNeeded, performData] = await readContract(signer, dca.checkUpkeep());
     
     if (!upkeepNeeded) {
       console.log("✅ No orders ready for execution");
+      metrics.markLoopSuccess();
+      flushMetrics();
       process.exit(0);
     }
 
-    const orderIds = ethers.AbiCoder.defaultAbiCoder().decode(
-      ["uint256[]"],
-      performData
-    )[0];
+    const orderIds = decodeUpkeepOrders(performData).map((order) => order.orderId);
+    metrics.setReadyOrders(orderIds.length);
 
     console.log(`✅ Found ${orderIds.length} order(s) ready for execution:\n`);
     orderIds.forEach((id: bigint) => console.log(`  - Order #${id}`));
     console.log();
 
+    // First intervals: price every ready order's gas and defer what the policy won't pay for
+    const gasPrice = await keeperGasPrice(ethers.provider);
+    const estimates: KeeperGasEstimate[] = [];
+    for (const orderId of orderIds) {
+      // An order whose estimate reverts is left to the loop below to report
+      await estimateOrderGas(signer, sdk, orderId, gasPrice).then((estimate) => estimates.push(estimate), () => undefined);
+    }
+    const spentBeforePlan = spentToday();
+    metrics.setGasSpentToday(Number(ethers.formatEther(spentBeforePlan)));
+    const plan = planKeeperGas(estimates, spentBeforePlan, gasPolicy);
+    const deferredOrders = new Map<bigint, KeeperDeferReason>();
+    for (const deferral of plan.deferred) {
+      metrics.recordDeferral(deferral.reason);
+      deferredOrders.set(deferral.candidate.orderId, deferral.reason);
+      console.log(`⏸️  ${describeKeeperDeferral(deferral, spentBeforePlan, gasPolicy)}`);
+    }
+
+    // One performUpkeep for the rest when it's cheaper; catch-up intervals still go one by one
+    const batched = new Map<bigint, "executed" | "skipped" | "failed">();
+    const planIds = plan.execute.map((estimate) => estimate.orderId);
+    const batchCostWei =
+      gasPolicy.batch && planIds.length > 1 ? await estimateBatchCostWei(signer, sdk, plan.execute, gasPrice) : null;
+    if (shouldBatchKeeperPlan(plan, batchCostWei, gasPolicy)) {
+      console.log(
+        `📦 Executing ${planIds.length} orders in one performUpkeep ` +
+          `(~${ethers.formatEther(batchCostWei!)} GLMR, ~${ethers.formatEther(plan.costWei)} GLMR one by one)`
+      );
+      const tx = await writeContract(signer, dca.performUpkeep(plan.execute));
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error("Transaction receipt unavailable");
+      }
+      await chargeGas(receipt);
+      const events = parseContractLogs(receipt, shariaDCAAddress, ShariaDCAABI);
+      for (const orderId of planIds) {
+        const own = events.filter((event) => event.args.orderId?.toString() === orderId.toString());
+        batched.set(
+          orderId,
+          own.some((event) => event.name === "DCAOrderExecuted")
+            ? "executed"
+            : own.some((event) => event.name === "DCAIntervalSkipped")
+              ? "skipped"
+              : "failed"
+        );
+      }
+      console.log(`   Mined in block ${receipt.blockNumber} (tx: ${receipt.hash.slice(0, 10)}...)\n`);
+    }
+    console.log();
+
     // Execute all ready orders with catch-up logic
     const results = [];
     let totalIntervalsCaughtUp = 0;
@@ -73,30 +177,88 @@ async function main() {
       let catchUpCount = 0;
       let orderSuccess = true;
       let lastError = null;
+      let deferred = deferredOrders.get(orderId) ?? null;
       const orderStartTime = Date.now();
       
       console.log(`🔄 Processing Order #${orderId}...`);
+      const order = await readContract<DCAOrderData>(signer, dca.getDCAOrder(orderId)).catch(() => null);
+      if (order) {
+        const schedule = getDCASchedule(order, Math.floor(Date.now() / 1000));
+        const policy = getMissedIntervalPolicy(order);
+        console.log(
+          `   Slot ${schedule.nextSlot} was due ${new Date(schedule.nextSlotTime * 1000).toLocaleString()}; ` +
+            `${schedule.dueSlots} slot(s) due, ${schedule.droppingSlots} dropped by policy ${policy.mode}` +
+            (policy.mode === "cap" ? ` (max ${policy.maxCatchUp})` : "")
+        );
+      }
       
+      const batchResult = batched.get(orderId);
+      if (batchResult === "executed") {
+        metrics.recordExecution();
+        catchUpCount++;
+        totalIntervalsCaughtUp++;
+        console.log(`   ✅ Interval 1 executed in the batch`);
+      } else if (batchResult === "skipped") {
+        metrics.recordSkip();
+        console.log(`   ⏭️  Interval skipped in the batch, the quote fell below the minimum output`);
+      } else if (batchResult === "failed") {
+        // performUpkeep swallows the revert; simulating the order names it
+        const error = await readContract<[bigint, bigint]>(signer, dca.getOrderQuote(orderId))
+          .then(([, amountOutMin]) => readContract(signer, dca.executeDCAOrderWithMinOut(orderId, amountOutMin)))
+          .then(
+            () => "reverted in performUpkeep",
+            (simulated) => describeRevert(simulated, ShariaDCAABI)
+          );
+        metrics.recordRevert(error);
+        console.error(`   ❌ Failed in the batch: ${error}`);
+        orderSuccess = false;
+        lastError = error;
+      }
+
       // Keep executing until order is no longer ready or max retries reached
-      while (catchUpCount < maxCatchUpPerOrder) {
+      while (orderSuccess && !deferred && batchResult !== "skipped" && catchUpCount < maxCatchUpPerOrder) {
         try {
           // Check if order is still ready
-          const isReady = await isOrderReady(shariaDCA, orderId);
+          const isReady = await isOrderReadyOnChain(signer, dca, orderId);
           if (!isReady) {
             break;
           }
           
-          const tx = await shariaDCA.executeDCAOrder(orderId);
+          const estimate = await estimateOrderGas(signer, sdk, orderId, gasPrice);
+          const spent = spentToday();
+          const [deferral] = planKeeperGas([estimate], spent, gasPolicy).deferred;
+          if (deferral) {
+            metrics.recordDeferral(deferral.reason);
+            console.log(`   ⏸️  ${describeKeeperDeferral(deferral, spent, gasPolicy)}`);
+            deferred = deferral.reason;
+            break;
+          }
+          const tx = await writeContract(signer, dca.executeDCAOrderWithMinOut(orderId, estimate.amountOutMin));
           const receipt = await tx.wait();
           if (!receipt) {
             throw new Error("Transaction receipt unavailable");
           }
+          await chargeGas(receipt);
+          const skipped = parseContractLogs(receipt, shariaDCAAddress, ShariaDCAABI).some(
+            (event) => event.name === "DCAIntervalSkipped"
+          );
+          if (skipped) {
+            // The contract already moved the order to its next interval
+            metrics.recordSkip();
+            console.log(`   ⏭️  Interval skipped, the quote fell below the minimum output (tx: ${receipt.hash.slice(0, 10)}...)`);
+            break;
+          }
+          metrics.recordExecution();
           catchUpCount++;
           totalIntervalsCaughtUp++;
           
           console.log(`   ✅ Interval ${catchUpCount} executed (tx: ${receipt.hash.slice(0, 10)}...)`);
           
         } catch (error: any) {
+          if (error.receipt) {
+            await chargeGas(error.receipt);
+          }
+          metrics.recordRevert(describeRevert(error, ShariaDCAABI));
           console.error(`   ❌ Failed on interval ${catchUpCount + 1}: ${error.message}`);
           orderSuccess = false;
           lastError = error.message;
@@ -107,7 +269,9 @@ async function main() {
       const orderDuration = ((Date.now() - orderStartTime) / 1000).toFixed(1);
       
       // Log order completion
-      if (catchUpCount === 0) {
+      if (deferred) {
+        console.log(`   ⏸️  ${catchUpCount} interval(s) executed, the rest deferred (${deferred})\n`);
+      } else if (catchUpCount === 0) {
         console.log(`   ⚠️  No intervals executed (order may not be ready)\n`);
       } else if (catchUpCount >= maxCatchUpPerOrder) {
         console.log(`   ⚠️  Max catch-up limit reached (${maxCatchUpPerOrder})`);
@@ -129,6 +293,7 @@ async function main() {
         intervalsCaughtUp: catchUpCount,
         duration: orderDuration,
         error: lastError,
+        deferred,
         hitMaxLimit: catchUpCount >= maxCatchUpPerOrder
       });
     }
@@ -138,12 +303,16 @@ async function main() {
     const successful = results.filter(r => r.success && r.intervalsCaughtUp > 0).length;
     const failed = results.filter(r => !r.success).length;
     const hitLimit = results.filter(r => r.hitMaxLimit).length;
+    const deferredCount = results.filter(r => r.deferred).length;
     
     console.log("=".repeat(60));
     console.log("📊 Execution Summary:");
     console.log(`   Orders processed: ${orderIds.length}`);
     console.log(`   Successful: ${successful}`);
     console.log(`   Failed: ${failed}`);
+    if (deferredCount > 0) {
+      console.log(`   ⏸️  Deferred by the gas policy: ${deferredCount}`);
+    }
     if (hitLimit > 0) {
       console.log(`   ⚠️  Hit catch-up limit: ${hitLimit}`);
     }
@@ -156,11 +325,15 @@ async function main() {
       console.log("\n📋 Per-Order Details:");
       results.forEach(r => {
         const status = r.success ? "✅" : "❌";
-        const limit = r.hitMaxLimit ? " (limit reached)" : "";
+        const limit = r.hitMaxLimit ? " (limit reached)" : r.deferred ? ` (deferred: ${r.deferred})` : "";
         console.log(`   ${status} Order #${r.orderId}: ${r.intervalsCaughtUp} interval(s) in ${r.duration}s${limit}`);
       });
     }
 
+    metrics.setBalance(Number(ethers.formatEther(await ethers.provider.getBalance(signer.address))));
+    metrics.markLoopSuccess();
+    flushMetrics();
+
     // Exit with error code if any failed (useful for CI/CD)
     if (failed > 0) {
       process.exit(1);
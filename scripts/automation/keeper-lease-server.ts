@@ -0,0 +1,32 @@
+import * as dotenv from "dotenv";
+import { DEFAULT_KEEPER_LEASE_POLICY } from "../../sdk";
+import { createKeeperLeaseServer } from "../utils/keeperLease";
+
+dotenv.config();
+
+/**
+ * Lock service for redundant DCA keepers
+ *
+ * Keepers started with KEEPER_LEASE_BACKEND=http and KEEPER_LEASE_URL=http://<host>:<port>
+ * claim ready orders here before sending, so only one of them executes each order. Leases
+ * are held in memory; restarting the service drops them and keepers claim again on their
+ * next check. While it is unreachable, keepers execute nothing.
+ *
+ * KEEPER_LEASE_PORT sets the port (default 9465) and KEEPER_LEASE_HISTORY how many
+ * executions GET /leases keeps (default 200).
+ *
+ * Usage: npm run keeper:lease-server
+ */
+
+const port = Number(process.env.KEEPER_LEASE_PORT || 9465);
+const historyLimit = Number(process.env.KEEPER_LEASE_HISTORY || DEFAULT_KEEPER_LEASE_POLICY.historyLimit);
+
+const server = createKeeperLeaseServer({ ...DEFAULT_KEEPER_LEASE_POLICY, historyLimit });
+server.listen(port, () => {
+  console.log(`🔐 Keeper lease service on http://localhost:${port} (leases: /leases, health: /healthz)`);
+});
+
+process.on("SIGINT", () => {
+  console.log("\n👋 Shutting down the keeper lease service...");
+  server.close(() => process.exit(0));
+});
@@ -0,0 +1,35 @@
+import * as dotenv from "dotenv";
+import { formatKeeperLeaseReport } from "../../sdk";
+import { getNetworkChainId, getNetworkName } from "../utils/network";
+import { loadKeeperLeaseBackend } from "../utils/keeperLease";
+
+dotenv.config();
+
+/**
+ * Keeper lease report
+ *
+ * Reads the lease table from the backend the keepers use (KEEPER_LEASE_BACKEND, see
+ * utils/keeperLease.ts) and prints which keepers are live, the orders each holds and the
+ * recent executions with the keeper that sent them. KEEPER_REPORT_LIMIT sets how many
+ * executions to show (default 20).
+ *
+ * Usage: npm run report:keepers (or npx hardhat run scripts/automation/keeper-leases.ts --network <name>)
+ */
+
+async function main() {
+  if (!process.env.KEEPER_LEASE_BACKEND) {
+    throw new Error("Set KEEPER_LEASE_BACKEND (and KEEPER_LEASE_FILE or KEEPER_LEASE_URL) to the keepers' backend");
+  }
+  const leases = loadKeeperLeaseBackend(await getNetworkChainId());
+
+  console.log(`### DCA keepers: ${getNetworkName()} via ${leases.description} (${new Date().toISOString()})\n`);
+  console.log(formatKeeperLeaseReport(await leases.table(), undefined, Number(process.env.KEEPER_REPORT_LIMIT || 20)));
+  console.log();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
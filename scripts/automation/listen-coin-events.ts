@@ -1,9 +1,11 @@
 import hre from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
-import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { TayebCoinsConfig, DeployedContracts, TayebCoin } from "../../config/types";
+import { TayebCoinsConfig, TayebCoin } from "../../config/types";
+import { createTokenResolver } from "../../sdk";
+import {
+  loadTayebCoinsConfig,
+  saveTayebCoinsConfig,
+} from "../utils/configLoader";
+import { loadNetworkDeployment } from "../utils/network";
 
 const { ethers } = hre;
 
@@ -18,7 +20,7 @@ const { ethers } = hre;
  * This script runs continuously. Press Ctrl+C to stop.
  */
 async function main() {
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const contractsConfig = await loadNetworkDeployment();
 
   console.log("👂 Starting event listener for ShariaCompliance...\n");
 
@@ -47,17 +49,15 @@ async function main() {
     
     try {
       // Import and run sync script logic
-      const config = tayebCoinsConfig as TayebCoinsConfig;
+      const config = loadTayebCoinsConfig();
       const contractCoins = await shariaCompliance.getAllShariaCoins();
-      
+      const tokens = createTokenResolver(config, { addressOverrides: contractsConfig.tokens });
+      // Variants are registered on-chain as e.g. "WBTC.wh"; map them back to their config symbol
+      const resolveCoin = (coin: any) => tokens.resolve(coin.id) ?? tokens.resolve(coin.tokenAddress);
+
       const contractCoinsMap = new Map<string, any>();
       for (const coin of contractCoins) {
-        contractCoinsMap.set(coin.id, coin);
-      }
-
-      const jsonCoinsMap = new Map<string, TayebCoin>();
-      for (const coin of config.coins) {
-        jsonCoinsMap.set(coin.symbol, coin);
+        contractCoinsMap.set(resolveCoin(coin)?.symbol ?? coin.id, coin);
       }
 
       const contractSymbols = new Set<string>();
@@ -84,7 +84,7 @@ async function main() {
 
       // Add new coins from contract
       for (const contractCoin of contractCoins) {
-        if (!jsonCoinsMap.has(contractCoin.id)) {
+        if (!resolveCoin(contractCoin)) {
           const newCoin: TayebCoin = {
             symbol: contractCoin.id,
             name: contractCoin.name,
@@ -109,8 +109,7 @@ async function main() {
         },
       };
 
-      const configPath = path.join(__dirname, "..", "..", "config", "tayebCoins.json");
-      fs.writeFileSync(configPath, JSON.stringify(updatedConfig, null, 2) + "\n");
+      saveTayebCoinsConfig(updatedConfig);
       
       console.log("✅ JSON config updated successfully!\n");
     } catch (error: any) {
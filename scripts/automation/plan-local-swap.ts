@@ -1,7 +1,15 @@
 import stellaSwap from "@stellaswap/swap-sdk";
 import { ethers } from "ethers";
-import tayebCoinsConfig from "../../config/tayebCoins.json";
-import { TayebCoinsConfig } from "../../config/types";
+import {
+  Address,
+  RegistryToken,
+  TAYEB_CHAIN_IDS,
+  getStellaSwapErrorResponse,
+  getStellaSwapPayload,
+  parseStellaSwapQuote,
+  requireContract,
+} from "../../sdk";
+import { loadTayebSdk } from "../utils/sdkContracts";
 
 interface CliOptions {
   tokenIn?: string;
@@ -13,15 +21,6 @@ interface CliOptions {
   dumpRaw: boolean;
 }
 
-interface TokenLookupResult {
-  symbol: string;
-  name: string;
-  decimals: number;
-  address: string;
-  isVariant: boolean;
-  baseSymbol: string;
-}
-
 interface QuoteSummary {
   path: string[] | null;
   router: string | null;
@@ -107,249 +106,13 @@ function parseArgs(): CliOptions {
   return options;
 }
 
-function normaliseSymbol(symbol: string): string {
-  return symbol.trim().toUpperCase();
-}
-
-function lookupToken(symbol: string, config: TayebCoinsConfig): TokenLookupResult {
-  const normalized = normaliseSymbol(symbol);
-
-  for (const coin of config.coins) {
-    if (normaliseSymbol(coin.symbol) === normalized) {
-      const address = coin.addresses?.moonbeam ?? null;
-      if (!address) {
-        throw new Error(`Token ${coin.symbol} is missing a Moonbeam address in tayebCoins.json`);
-      }
-      return {
-        symbol: coin.symbol,
-        name: coin.name,
-        decimals: coin.decimals,
-        address,
-        isVariant: false,
-        baseSymbol: coin.symbol,
-      };
-    }
-
-    if (coin.variants) {
-      for (const variant of coin.variants) {
-        if (normaliseSymbol(variant.symbol) === normalized) {
-          const address = variant.addresses?.moonbeam ?? null;
-          if (!address) {
-            throw new Error(`Variant ${variant.symbol} is missing a Moonbeam address in tayebCoins.json`);
-          }
-          const decimals = variant.decimals ?? coin.decimals;
-          return {
-            symbol: variant.symbol,
-            name: variant.name ?? `${coin.name} (${variant.symbol})`,
-            decimals,
-            address,
-            isVariant: true,
-            baseSymbol: coin.symbol,
-          };
-        }
-      }
-    }
-  }
-
-  throw new Error(`Unable to find token symbol '${symbol}' in tayebCoins.json`);
-}
-
-function resolveSymbolByAddress(address: string, config: TayebCoinsConfig): string | null {
-  const target = address.toLowerCase();
-  for (const coin of config.coins) {
-    const coinAddress = coin.addresses?.moonbeam;
-    if (coinAddress && coinAddress.toLowerCase() === target) {
-      return coin.symbol;
-    }
-
-    if (coin.variants) {
-      for (const variant of coin.variants) {
-        const variantAddress = variant.addresses?.moonbeam;
-        if (variantAddress && variantAddress.toLowerCase() === target) {
-          return variant.symbol;
-        }
-      }
-    }
-  }
-  return null;
-}
-
-function extractRouter(result: any): string | null {
-  if (!result) return null;
-
-  const candidates: Array<unknown> = [
-    result.routerAddress,
-    result.router,
-    result?.execution?.router,
-    result?.execution?.routerAddress,
-    result?.route?.router,
-    result?.bestRoute?.router,
-  ];
-
-  for (const candidate of candidates) {
-    if (typeof candidate === "string" && candidate.startsWith("0x")) {
-      return candidate;
-    }
-  }
-
-  if (Array.isArray(result?.routes)) {
-    for (const route of result.routes) {
-      if (typeof route?.routerAddress === "string" && route.routerAddress.startsWith("0x")) {
-        return route.routerAddress;
-      }
-      if (typeof route?.router === "string" && route.router.startsWith("0x")) {
-        return route.router;
-      }
-    }
-  }
-
-  // Fallback: StellaSwap hybrid router on Moonbeam (if no router found in response)
-  // This is the default router address for StellaSwap on Moonbeam mainnet
-  if (result?.trades && Array.isArray(result.trades) && result.trades.length > 0) {
-    return "0x70085a09d30d6f8c4ecf6ee10120d1847383bb57";
-  }
-
-  return null;
-}
-
-function extractPath(result: any): string[] | null {
-  if (!result) return null;
-
-  // New format: path from trades array
-  if (Array.isArray(result?.trades) && result.trades.length > 0) {
-    const path: string[] = [];
-    const fromToken = result.fromToken && typeof result.fromToken === "string" ? result.fromToken.toLowerCase() : null;
-    const toToken = result.toToken && typeof result.toToken === "string" ? result.toToken : null;
-    
-    // Start with the fromToken if available
-    if (fromToken) {
-      path.push(result.fromToken as string);
-    }
-    
-    // Build path from trades sequentially
-    for (let tradeIdx = 0; tradeIdx < result.trades.length; tradeIdx++) {
-      const trade = result.trades[tradeIdx];
-      if (Array.isArray(trade?.path) && trade.path.length > 0) {
-        // Determine start index: skip first token if it matches the last token in our path
-        let startIdx = 0;
-        if (path.length > 0) {
-          const lastPathToken = path[path.length - 1].toLowerCase();
-          const firstTradeToken = typeof trade.path[0] === "string" 
-            ? trade.path[0].toLowerCase() 
-            : (trade.path[0]?.address?.toLowerCase() ?? "");
-          if (firstTradeToken === lastPathToken) {
-            startIdx = 1;
-          }
-        }
-        
-        // Add tokens from this trade's path
-        for (let i = startIdx; i < trade.path.length; i++) {
-          const token = trade.path[i];
-          const address = typeof token === "string" ? token : token?.address;
-          if (address && typeof address === "string" && address.startsWith("0x")) {
-            const addrLower = address.toLowerCase();
-            // Avoid duplicates (case-insensitive check)
-            if (!path.some(p => p.toLowerCase() === addrLower)) {
-              path.push(address);
-            }
-          }
-        }
-      }
-    }
-    
-    // Ensure we end with the toToken
-    if (toToken) {
-      const toTokenLower = toToken.toLowerCase();
-      const lastToken = path.length > 0 ? path[path.length - 1].toLowerCase() : null;
-      
-      if (lastToken !== toTokenLower) {
-        // Remove toToken if it exists elsewhere in path
-        const filtered = path.filter(p => p.toLowerCase() !== toTokenLower);
-        filtered.push(toToken);
-        if (filtered.length > 1) {
-          return filtered;
-        }
-      } else if (path.length > 1) {
-        // toToken is already at the end
-        return path;
-      }
-    }
-    
-    if (path.length > 1) {
-      return path;
-    }
-  }
-
-  const rawCandidates = [
-    result.path,
-    result?.route?.path,
-    result?.bestRoute?.path,
-  ];
-
-  for (const candidate of rawCandidates) {
-    if (Array.isArray(candidate) && candidate.length > 1) {
-      if (typeof candidate[0] === "string") {
-        return candidate as string[];
-      }
-      if (candidate[0] && typeof candidate[0].address === "string") {
-        return candidate.map((node: any) => node.address);
-      }
-    }
-  }
-
-  if (Array.isArray(result?.routes)) {
-    for (const route of result.routes) {
-      if (Array.isArray(route?.path) && route.path.length > 1) {
-        if (typeof route.path[0] === "string") {
-          return route.path as string[];
-        }
-        if (route.path[0] && typeof route.path[0].address === "string") {
-          return route.path.map((node: any) => node.address);
-        }
-      }
-      if (Array.isArray(route?.steps)) {
-        for (const step of route.steps) {
-          if (Array.isArray(step?.path) && step.path.length > 1) {
-            if (typeof step.path[0] === "string") {
-              return step.path as string[];
-            }
-            if (step.path[0] && typeof step.path[0].address === "string") {
-              return step.path.map((node: any) => node.address);
-            }
-          }
-        }
-      }
-    }
-  }
-
-  return null;
-}
-
-function extractAmountOut(result: any): string | null {
-  if (!result) return null;
-  const candidates: Array<unknown> = [
-    result.amountOut,
-    result?.route?.amountOut,
-    result?.bestRoute?.amountOut,
-    result?.routes?.[0]?.amountOut,
-    result?.execution?.amountOut,
-  ];
-
-  for (const candidate of candidates) {
-    if (!candidate && candidate !== 0) continue;
-    if (typeof candidate === "string") return candidate;
-    if (typeof candidate === "number") return candidate.toString();
-  }
-
-  return null;
-}
-
 async function fetchQuote(
-  tokenIn: TokenLookupResult,
-  tokenOut: TokenLookupResult,
+  tokenIn: RegistryToken,
+  tokenOut: RegistryToken,
   amountInRaw: string,
   account: string,
-  slippageBps: number
+  slippageBps: number,
+  weth: Address
 ): Promise<QuoteSummary> {
   const originalConsoleError = console.error;
   const suppressedErrors: string[] = [];
@@ -359,8 +122,8 @@ async function fetchQuote(
 
   try {
     const quote = await stellaSwap.getQuote(
-      tokenIn.address,
-      tokenOut.address,
+      tokenIn.addresses.moonbeam,
+      tokenOut.addresses.moonbeam,
       amountInRaw,
       account,
       slippageBps.toString()
@@ -368,11 +131,10 @@ async function fetchQuote(
 
     // Check if the SDK returned an error object instead of a quote
     // The SDK sometimes returns AxiosError objects directly instead of throwing
-    if (quote && typeof quote === 'object' && quote.name === 'AxiosError') {
-      const errorMessage = quote.message ?? "Request failed with status code 500";
-      const statusCode = quote.response?.status ?? quote.status;
+    const errorResponse = getStellaSwapErrorResponse(quote);
+    if (errorResponse) {
+      const { message: errorMessage, status: statusCode, data: responseData } = errorResponse;
       const statusText = quote.response?.statusText;
-      const responseData = quote.response?.data;
       
       console.warn("⚠️  StellaSwap API returned an error:");
       console.warn("   Error:", errorMessage);
@@ -385,20 +147,16 @@ async function fetchQuote(
       throw new Error(`StellaSwap API error: ${errorMessage}${statusCode ? ` (HTTP ${statusCode})` : ''}`);
     }
 
-    const payload = quote?.result ?? quote;
-
     // Check if the quote indicates failure
-    if (!payload || quote?.isSuccess === false) {
-      const errorMessage = quote?.message ?? quote?.error ?? "Unknown error from StellaSwap router API";
-      const errorCode = quote?.code;
-      const errorDetails = quote?.errors;
-      
+    let payload: any;
+    try {
+      payload = getStellaSwapPayload(quote);
+    } catch (error: any) {
       console.warn("⚠️  Quote indicates failure:");
-      console.warn("   Message:", errorMessage);
-      if (errorCode) console.warn("   Code:", errorCode);
-      if (errorDetails) console.warn("   Errors:", JSON.stringify(errorDetails, null, 2));
-      
-      throw new Error(errorMessage);
+      console.warn("   Message:", error.message);
+      if (quote?.code) console.warn("   Code:", quote.code);
+      if (quote?.errors) console.warn("   Errors:", JSON.stringify(quote.errors, null, 2));
+      throw error;
     }
 
     if (suppressedErrors.length > 0) {
@@ -407,9 +165,7 @@ async function fetchQuote(
       });
     }
 
-    const path = extractPath(payload);
-    const router = extractRouter(payload);
-    const amountOut = extractAmountOut(payload);
+    const { path, router, amountOut } = parseStellaSwapQuote(payload, weth);
     
     // Validate that path starts with fromToken and ends with toToken
     if (path && path.length > 0) {
@@ -476,14 +232,15 @@ async function fetchQuote(
 async function main() {
   const options = parseArgs();
 
-  const config = tayebCoinsConfig as TayebCoinsConfig;
+  // The StellaSwap aggregator only quotes Moonbeam mainnet
+  const sdk = loadTayebSdk(TAYEB_CHAIN_IDS.moonbeam);
 
-  let tokenIn: TokenLookupResult;
-  let tokenOut: TokenLookupResult;
+  let tokenIn: RegistryToken;
+  let tokenOut: RegistryToken;
 
   try {
-    tokenIn = lookupToken(options.tokenIn!, config);
-    tokenOut = lookupToken(options.tokenOut!, config);
+    tokenIn = sdk.tokens.getToken(options.tokenIn!);
+    tokenOut = sdk.tokens.getToken(options.tokenOut!);
   } catch (error: any) {
     console.error("❌", error.message ?? error);
     process.exit(1);
@@ -509,13 +266,13 @@ async function main() {
   console.log("Input token:");
   console.log(`  Symbol:       ${tokenIn.symbol}${tokenIn.isVariant ? ` (variant of ${tokenIn.baseSymbol})` : ""}`);
   console.log(`  Name:         ${tokenIn.name}`);
-  console.log(`  Address:      ${tokenIn.address}`);
+  console.log(`  Address:      ${tokenIn.addresses.moonbeam}`);
   console.log(`  Decimals:     ${tokenIn.decimals}`);
 
   console.log("\nOutput token:");
   console.log(`  Symbol:       ${tokenOut.symbol}${tokenOut.isVariant ? ` (variant of ${tokenOut.baseSymbol})` : ""}`);
   console.log(`  Name:         ${tokenOut.name}`);
-  console.log(`  Address:      ${tokenOut.address}`);
+  console.log(`  Address:      ${tokenOut.addresses.moonbeam}`);
   console.log(`  Decimals:     ${tokenOut.decimals}`);
 
   console.log("\nQuote parameters:");
@@ -529,7 +286,8 @@ async function main() {
     tokenOut,
     amountInRaw,
     options.account,
-    options.slippageBps
+    options.slippageBps,
+    requireContract(sdk.contracts, "weth")
   );
 
   if (!quoteSummary.router || !quoteSummary.path || quoteSummary.path.length < 2) {
@@ -544,7 +302,7 @@ async function main() {
   if (quoteSummary.path && quoteSummary.path.length > 1) {
     console.log("\n🛣️  Suggested swap path:");
     quoteSummary.path.forEach((address, index) => {
-      const symbol = resolveSymbolByAddress(address, config);
+      const symbol = sdk.tokens.findTokenByAddress(address)?.symbol;
       console.log(`  [${index}] ${address}${symbol ? ` (${symbol})` : ""}`);
     });
   }
@@ -0,0 +1,231 @@
+import hre from "hardhat";
+import * as readline from "readline";
+import {
+  ReconcilePlan,
+  ReconcileReceipt,
+  ShariaCoinData,
+  createReconcileReceipt,
+  describeReconcileAction,
+  planReconciliation,
+  reconcileActionCall,
+  resumeReconcileReceipt,
+} from "../../sdk";
+import { buildTxOverrides } from "../utils/deployHelpers";
+import { encodeContractCall, getCalldataExportPath, writeCalldataExport } from "../utils/multisig";
+import { getNetworkChainId } from "../utils/network";
+import { loadReceipt, receiptPath, saveReceipt } from "../utils/receipts";
+import { loadTayebSdk, readContract, writeContract } from "../utils/sdkContracts";
+
+const { ethers } = hre;
+
+/**
+ * Two-way reconcile between tayebCoins.json and the ShariaCompliance registry
+ *
+ * Diffs the config against getAllShariaCoins() and prints the plan: coins to register,
+ * update (verified flag / compliance reason) or remove. Nothing is sent unless
+ * RECONCILE_EXECUTE is set; each transaction is then confirmed interactively
+ * (RECONCILE_YES skips the prompts).
+ *
+ * Every step's outcome is written to deployments/reconcile-<chainId>.json as it happens.
+ * Execution stops at the first failure; rerun with RECONCILE_RESUME to continue that
+ * receipt, retrying failed and declined steps still needed against the current chain.
+ *
+ * Once a multisig owns ShariaCompliance, --export-calldata [file] (or EXPORT_CALLDATA)
+ * writes the whole plan as one unsigned batch for the multisig instead; no receipt is kept.
+ *
+ * Usage:
+ *   npx hardhat run scripts/automation/reconcile-coins.ts --network moonbeam
+ *   RECONCILE_EXECUTE=true npx hardhat run scripts/automation/reconcile-coins.ts --network moonbeam
+ *   RECONCILE_EXECUTE=true RECONCILE_RESUME=true npx hardhat run scripts/automation/reconcile-coins.ts --network moonbeam
+ */
+
+function isEnabled(name: string): boolean {
+  return ["1", "true", "yes"].includes((process.env[name] ?? "").toLowerCase());
+}
+
+function printPlan(plan: ReconcilePlan): void {
+  console.log(`✅ In sync: ${plan.inSync.length} coin(s)`);
+  if (plan.actions.length === 0) {
+    console.log("✅ Registry matches tayebCoins.json, nothing to do");
+    return;
+  }
+  console.log(`📋 Plan (${plan.actions.length} action(s)):`);
+  plan.actions.forEach((action, index) => {
+    console.log(`   ${index + 1}. ${describeReconcileAction(action)}`);
+  });
+}
+
+type Confirmation = "yes" | "no" | "all" | "quit";
+
+function createConfirm(autoApprove: boolean) {
+  if (autoApprove) {
+    return { ask: async (): Promise<Confirmation> => "yes", close: () => {} };
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error("Confirmations need an interactive terminal; set RECONCILE_YES=true to approve every step");
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  let approveAll = false;
+  const ask = (question: string): Promise<Confirmation> => {
+    if (approveAll) {
+      return Promise.resolve("yes");
+    }
+    return new Promise((resolve) => {
+      rl.question(`${question} [y]es / [n]o / [a]ll / [q]uit: `, (answer) => {
+        const choice = answer.trim().toLowerCase();
+        if (choice === "a" || choice === "all") {
+          approveAll = true;
+          resolve("all");
+        } else if (choice === "y" || choice === "yes") {
+          resolve("yes");
+        } else if (choice === "q" || choice === "quit") {
+          resolve("quit");
+        } else {
+          resolve("no");
+        }
+      });
+    });
+  };
+  return { ask, close: () => rl.close() };
+}
+
+async function main() {
+  const chainId = await getNetworkChainId();
+  const { compliance, tokens } = loadTayebSdk(chainId);
+  const execute = isEnabled("RECONCILE_EXECUTE");
+  const resume = isEnabled("RECONCILE_RESUME");
+
+  console.log("🔄 Reconciling tayebCoins.json with ShariaCompliance...\n");
+
+  if (!compliance.address) {
+    console.error("❌ Error: ShariaCompliance contract not found in deployedContracts.json!");
+    console.log("\n📝 Please deploy contracts first:");
+    console.log("   npx hardhat run scripts/deploy/deploy-sharia-compliance.ts --network moonbeam\n");
+    process.exit(1);
+  }
+
+  console.log("📖 Registry:", compliance.address);
+  const onChainCoins = await readContract<ShariaCoinData[]>(ethers.provider, compliance.getAllShariaCoins());
+  console.log(`📊 ${onChainCoins.length} coin(s) on-chain, ${tokens.entries.length} coin(s)/variant(s) in config\n`);
+
+  const plan = planReconciliation(tokens, onChainCoins);
+  printPlan(plan);
+  console.log();
+
+  const exportPath = getCalldataExportPath("reconcile-coins", chainId);
+  if (exportPath) {
+    if (plan.actions.length > 0) {
+      writeCalldataExport(exportPath, {
+        chainId,
+        name: "Reconcile ShariaCompliance with tayebCoins.json",
+        safe: await readContract<string>(ethers.provider, compliance.owner()),
+        transactions: plan.actions.map((action) =>
+          encodeContractCall(reconcileActionCall(compliance, action), describeReconcileAction(action))
+        ),
+      });
+    }
+    return;
+  }
+
+  if (!execute) {
+    if (plan.actions.length > 0) {
+      console.log("ℹ️  Dry run. Set RECONCILE_EXECUTE=true to send these transactions.\n");
+    }
+    return;
+  }
+
+  const receiptFile = receiptPath("reconcile", chainId);
+  let receipt: ReconcileReceipt;
+  const previous = loadReceipt(receiptFile);
+  if (resume) {
+    if (!previous) {
+      throw new Error(`No receipt to resume at ${receiptFile}`);
+    }
+    if (previous.shariaCompliance.toLowerCase() !== compliance.address.toLowerCase()) {
+      throw new Error(
+        `Receipt ${receiptFile} is for ShariaCompliance ${previous.shariaCompliance}, not ${compliance.address}`
+      );
+    }
+    receipt = resumeReconcileReceipt(previous, plan);
+    console.log(`↩️  Resuming receipt from ${previous.createdAt}`);
+  } else {
+    if (previous?.steps.some((step) => step.status !== "confirmed" && step.status !== "superseded")) {
+      console.warn(`⚠️  ${receiptFile} has unfinished steps; it is replaced (set RECONCILE_RESUME=true to continue it instead)`);
+    }
+    receipt = createReconcileReceipt(chainId, hre.network.name, compliance.address, plan);
+  }
+  saveReceipt(receiptFile, receipt);
+
+  const [signer] = await ethers.getSigners();
+  console.log("👤 Signer:", signer.address, "\n");
+
+  const confirm = createConfirm(isEnabled("RECONCILE_YES"));
+  try {
+    for (const step of receipt.steps) {
+      if (step.status !== "pending") {
+        continue;
+      }
+
+      const answer = await confirm.ask(`➡️  ${describeReconcileAction(step.action)}?`);
+      if (answer === "quit") {
+        console.log("🛑 Stopped; remaining steps stay pending");
+        break;
+      }
+      if (answer === "no") {
+        step.status = "declined";
+        step.updatedAt = new Date().toISOString();
+        saveReceipt(receiptFile, receipt);
+        console.log("⏭️  Declined");
+        continue;
+      }
+
+      try {
+        const tx = await writeContract(signer, reconcileActionCall(compliance, step.action), await buildTxOverrides());
+        step.txHash = tx.hash;
+        saveReceipt(receiptFile, receipt);
+        await tx.wait();
+        step.status = "confirmed";
+        console.log(`✅ Confirmed: ${tx.hash}`);
+      } catch (error: any) {
+        step.status = "failed";
+        step.error = error.shortMessage ?? error.message;
+        console.error(`❌ Failed: ${step.error}`);
+      }
+      step.updatedAt = new Date().toISOString();
+      receipt.updatedAt = step.updatedAt;
+      saveReceipt(receiptFile, receipt);
+
+      if (step.status === "failed") {
+        break;
+      }
+    }
+  } finally {
+    confirm.close();
+  }
+
+  const count = (status: string) => receipt.steps.filter((step) => step.status === status).length;
+  console.log();
+  console.log("=".repeat(60));
+  console.log("📋 RECONCILE SUMMARY");
+  console.log("=".repeat(60));
+  console.log(`Confirmed: ${count("confirmed")}`);
+  console.log(`Failed: ${count("failed")}`);
+  console.log(`Declined: ${count("declined")}`);
+  console.log(`Pending: ${count("pending")}`);
+  console.log(`Superseded: ${count("superseded")}`);
+  console.log(`Receipt: ${receiptFile}`);
+  console.log("=".repeat(60));
+
+  if (count("failed") > 0 || count("pending") > 0) {
+    console.log("\n↩️  Rerun with RECONCILE_EXECUTE=true RECONCILE_RESUME=true to continue\n");
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
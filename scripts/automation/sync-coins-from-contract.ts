@@ -1,14 +1,16 @@
 import hre from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
-import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
 import {
   TayebCoinsConfig,
-  DeployedContracts,
   TayebCoin,
-  TayebCoinVariant,
 } from "../../config/types";
+import { UnsupportedConfigVersionError } from "../../config/migrations";
+import { ShariaCoinData } from "../../sdk";
+import {
+  loadTayebCoinsConfig,
+  saveTayebCoinsConfig,
+} from "../utils/configLoader";
+import { getNetworkChainId } from "../utils/network";
+import { loadTayebSdk, readContract } from "../utils/sdkContracts";
 
 const { ethers } = hre;
 
@@ -28,7 +30,7 @@ const { ethers } = hre;
  * Usage: npx hardhat run scripts/automation/sync-coins-from-contract.ts --network moonbeam
  */
 async function main() {
-  const config = tayebCoinsConfig as TayebCoinsConfig;
+  const config = loadTayebCoinsConfig();
   const clonedCoins: TayebCoin[] = config.coins.map((coin) => ({
     ...coin,
     addresses: {
@@ -43,12 +45,15 @@ async function main() {
         }))
       : undefined,
   }));
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const { compliance, tokens } = loadTayebSdk(await getNetworkChainId());
+  // Variants are registered on-chain as e.g. "WBTC.wh"; map them back to their config symbol
+  const configSymbol = (coin: ShariaCoinData) =>
+    (tokens.resolve(coin.id) ?? tokens.resolve(coin.tokenAddress))?.symbol ?? coin.id;
 
   console.log("🔄 Syncing coins from contract to JSON config...\n");
 
   // Check if contract is deployed
-  const shariaComplianceAddress = contractsConfig.main.shariaCompliance;
+  const shariaComplianceAddress = compliance.address;
   if (!shariaComplianceAddress) {
     console.error("❌ Error: ShariaCompliance contract not found in deployedContracts.json!");
     console.log("\n📝 Please deploy contracts first:");
@@ -59,18 +64,15 @@ async function main() {
   console.log("📖 Reading from contract:", shariaComplianceAddress);
   console.log();
 
-  // Connect to contract
-  const shariaCompliance = await ethers.getContractAt("ShariaCompliance", shariaComplianceAddress);
-
   // Get all coins from contract
-  const contractCoins = await shariaCompliance.getAllShariaCoins();
+  const contractCoins = await readContract<ShariaCoinData[]>(ethers.provider, compliance.getAllShariaCoins());
   console.log(`📊 Found ${contractCoins.length} coins in contract`);
   console.log();
 
   // Create map of contract coins by symbol
-  const contractCoinsMap = new Map<string, any>();
+  const contractCoinsMap = new Map<string, ShariaCoinData>();
   for (const coin of contractCoins) {
-    contractCoinsMap.set(coin.id, coin);
+    contractCoinsMap.set(configSymbol(coin), coin);
   }
 
   // Create map from symbol to coin/variant reference
@@ -135,7 +137,7 @@ async function main() {
   let newCoinsCount = 0;
   
   for (const contractCoin of contractCoins) {
-    if (!symbolIndexMap.has(contractCoin.id)) {
+    if (!symbolIndexMap.has(configSymbol(contractCoin))) {
       // New coin from contract - add to JSON
       const newCoin: TayebCoin = {
         symbol: contractCoin.id,
@@ -172,8 +174,7 @@ async function main() {
     },
   };
 
-  const configPath = path.join(__dirname, "..", "..", "config", "tayebCoins.json");
-  fs.writeFileSync(configPath, JSON.stringify(updatedConfig, null, 2) + "\n");
+  saveTayebCoinsConfig(updatedConfig);
 
   console.log("=".repeat(60));
   console.log("📋 SYNC SUMMARY");
@@ -202,7 +203,12 @@ async function main() {
 main()
   .then(() => process.exit(0))
   .catch((error) => {
-    console.error(error);
+    // Never rewrite a file this build can't read: ask for a migration instead
+    if (error instanceof UnsupportedConfigVersionError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error(error);
+    }
     process.exit(1);
   });
 
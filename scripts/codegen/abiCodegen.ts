@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Shared logic for generating and drift-checking the SDK ABI bindings.
+ *
+ * Each contract gets one file exporting its ABI `as const`, which gives wagmi/viem
+ * full type inference for function names, args and return values. The files live
+ * in sdk/abis so scripts and the frontend read the same copy.
+ */
+
+export const GENERATED_ABI_DIR = path.join(__dirname, "..", "..", "sdk", "abis");
+
+export const ABI_CONTRACTS = ["ShariaCompliance", "ShariaLocalSwap", "ShariaDCA"] as const;
+
+export interface GeneratedAbiFile {
+  contractName: string;
+  filePath: string;
+  content: string;
+}
+
+/**
+ * Render the TypeScript source for one contract ABI
+ */
+export function renderAbiModule(contractName: string, abi: unknown[]): string {
+  return [
+    "// Generated by scripts/codegen/generate-abis.ts from the Hardhat artifacts. Do not edit by hand.",
+    "// Regenerate with `npm run generate:abis`; `npm run check:abis` fails when this file is stale.",
+    "",
+    `export const ${contractName}ABI = ${JSON.stringify(abi, null, 2)} as const;`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build the expected contents of every generated ABI file from the compiled artifacts
+ */
+export async function buildAbiFiles(hre: HardhatRuntimeEnvironment): Promise<GeneratedAbiFile[]> {
+  const files: GeneratedAbiFile[] = [];
+  for (const contractName of ABI_CONTRACTS) {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    files.push({
+      contractName,
+      filePath: path.join(GENERATED_ABI_DIR, `${contractName}.ts`),
+      content: renderAbiModule(contractName, artifact.abi),
+    });
+  }
+  return files;
+}
+
+/**
+ * Return the generated files whose checked-in content differs from the artifacts
+ */
+export function findStaleAbiFiles(files: GeneratedAbiFile[]): GeneratedAbiFile[] {
+  return files.filter((file) => {
+    if (!fs.existsSync(file.filePath)) return true;
+    return fs.readFileSync(file.filePath, "utf-8") !== file.content;
+  });
+}
@@ -0,0 +1,37 @@
+import hre from "hardhat";
+import * as path from "path";
+import { buildAbiFiles, findStaleAbiFiles } from "./abiCodegen";
+
+/**
+ * Fail if the checked-in SDK ABI bindings no longer match the compiled artifacts
+ *
+ * Usage: npm run check:abis
+ */
+async function main() {
+  await hre.run("compile");
+
+  console.log("🔍 Checking ABI bindings against artifacts...\n");
+
+  const files = await buildAbiFiles(hre);
+  const stale = findStaleAbiFiles(files);
+
+  for (const file of files) {
+    const isStale = stale.includes(file);
+    console.log(`${isStale ? "❌" : "✅"} ${file.contractName} (${path.relative(process.cwd(), file.filePath)})`);
+  }
+
+  if (stale.length > 0) {
+    throw new Error(
+      `${stale.length} ABI file(s) are out of date with the contracts. Run \`npm run generate:abis\` and commit the result.`
+    );
+  }
+
+  console.log("\n✅ ABI bindings are up to date");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`\n❌ ${error.message}`);
+    process.exit(1);
+  });
@@ -0,0 +1,34 @@
+import hre from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { buildAbiFiles, GENERATED_ABI_DIR } from "./abiCodegen";
+
+/**
+ * Generate SDK ABI bindings from the Hardhat artifacts
+ *
+ * Writes one `as const` ABI module per contract to sdk/abis.
+ * Run after changing any contract interface and commit the result.
+ *
+ * Usage: npm run generate:abis
+ */
+async function main() {
+  await hre.run("compile");
+
+  console.log("🔧 Generating ABI bindings...\n");
+  fs.mkdirSync(GENERATED_ABI_DIR, { recursive: true });
+
+  const files = await buildAbiFiles(hre);
+  for (const file of files) {
+    fs.writeFileSync(file.filePath, file.content);
+    console.log(`✅ ${file.contractName} → ${path.relative(process.cwd(), file.filePath)}`);
+  }
+
+  console.log(`\n✅ Generated ${files.length} ABI files`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  TAYEB_CHAIN_IDS,
+  TokenList,
+  buildTokenList,
+  createTokenResolver,
+  findDeployment,
+  nextTokenListVersion,
+  parseTokenList,
+} from "../../sdk";
+import { loadDeploymentRegistry, loadTayebCoinsConfig, loadXcmConfig, readJsonFile } from "../utils/configLoader";
+
+/**
+ * Export tayebCoins.json as a Uniswap token list
+ *
+ * Lists every permissible coin and variant with an address on the chosen chain (a
+ * deployment's token overrides replace the Moonbeam addresses). The version is bumped
+ * against the file already at the output path: major when a token is removed, minor
+ * when one is added, patch when one changes. An unchanged list keeps its version and
+ * timestamp, so rerunning the export doesn't dirty the tree.
+ *
+ * The default output is served by the frontend at /tayeb.tokenlist.json.
+ *
+ * Usage: npm run export:token-list [-- --chain-id 1284 --out path --include-non-permissible]
+ */
+
+const DEFAULT_OUT = path.join(__dirname, "..", "..", "frontend", "public", "tayeb.tokenlist.json");
+
+interface CliOptions {
+  chainId: number;
+  out: string;
+  includeNonPermissible: boolean;
+}
+
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = { chainId: TAYEB_CHAIN_IDS.moonbeam, out: DEFAULT_OUT, includeNonPermissible: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--chain-id":
+        options.chainId = Number(args[++i]);
+        if (!Number.isInteger(options.chainId)) {
+          throw new Error("--chain-id must be an integer");
+        }
+        break;
+      case "--out":
+        options.out = path.resolve(args[++i] ?? "");
+        break;
+      case "--include-non-permissible":
+        options.includeNonPermissible = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+  return options;
+}
+
+function loadPreviousList(filePath: string): TokenList | null {
+  return fs.existsSync(filePath) ? parseTokenList(readJsonFile(filePath)) : null;
+}
+
+async function main() {
+  const options = parseArgs();
+  const deployment = findDeployment(loadDeploymentRegistry(), options.chainId);
+  if (!deployment && options.chainId !== TAYEB_CHAIN_IDS.moonbeam) {
+    throw new Error(`No deployment for chain ${options.chainId} in deployedContracts.json`);
+  }
+
+  const resolver = createTokenResolver(loadTayebCoinsConfig(), {
+    addressOverrides: deployment?.tokens,
+    xcmConfig: loadXcmConfig(),
+  });
+  const previous = loadPreviousList(options.out);
+  const draft = buildTokenList(resolver, {
+    chainId: options.chainId,
+    version: { major: 1, minor: 0, patch: 0 },
+    timestamp: "",
+    includeNonPermissible: options.includeNonPermissible,
+  });
+  const version = nextTokenListVersion(previous, draft.tokens);
+  const unchanged = previous !== null && version === previous.version;
+  const list: TokenList = {
+    ...draft,
+    version,
+    timestamp: unchanged ? previous.timestamp : new Date().toISOString(),
+  };
+
+  const relativeOut = path.relative(process.cwd(), options.out);
+  const versionLabel = `${version.major}.${version.minor}.${version.patch}`;
+  if (unchanged) {
+    console.log(`✅ ${relativeOut} is up to date (v${versionLabel}, ${list.tokens.length} tokens)`);
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(options.out), { recursive: true });
+  fs.writeFileSync(options.out, JSON.stringify(list, null, 2) + "\n");
+  console.log(`📝 Wrote ${list.tokens.length} tokens for chain ${options.chainId} to ${relativeOut} (v${versionLabel})`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
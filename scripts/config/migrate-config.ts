@@ -0,0 +1,94 @@
+import * as path from "path";
+import { MigrationResult, migrateTayebCoinsConfig, migrateXcmConfig } from "../../config/migrations";
+import { checkTayebCoinsConfig, checkXcmConfig } from "../../config/validation";
+import { TayebCoinsConfig, XcmConfig } from "../../config/types";
+import {
+  TAYEB_COINS_PATH,
+  XCM_CONFIG_PATH,
+  backupConfigFile,
+  loadTayebCoinsConfig,
+  readJsonFile,
+  saveTayebCoinsConfig,
+  saveXcmConfig,
+  validationOptions,
+} from "../utils/configLoader";
+
+/**
+ * Upgrade config files to the schema version this build supports
+ *
+ * Applies the migrations in config/migrations.ts one version at a time, validates the
+ * result, backs the original up to config/backups/ and writes the upgraded file.
+ * tayebCoins.json goes first because xcmConfig.json is cross-checked against it.
+ *
+ * Usage: npm run migrate:config [-- --dry-run]
+ */
+
+function migrateFile(
+  filePath: string,
+  migrate: (data: unknown) => MigrationResult,
+  check: (data: unknown) => string[],
+  save: (data: MigrationResult["data"]) => void,
+  dryRun: boolean
+): void {
+  const name = path.basename(filePath);
+  const result = migrate(readJsonFile(filePath));
+
+  if (result.applied.length === 0) {
+    console.log(`✅ ${name} is already at version ${result.to}`);
+    return;
+  }
+
+  console.log(`📝 ${name}: ${result.from} → ${result.to}`);
+  for (const step of result.applied) {
+    console.log(`   ${step.from} → ${step.to}: ${step.description}`);
+  }
+
+  const issues = check(result.data);
+  if (issues.length > 0) {
+    throw new Error(`${name} is still invalid after migrating:\n  - ${issues.join("\n  - ")}\nFix these by hand, then rerun.`);
+  }
+  if (dryRun) {
+    console.log("   (dry run, not written)");
+    return;
+  }
+
+  console.log(`   💾 Backup: ${path.relative(process.cwd(), backupConfigFile(filePath, result.from))}`);
+  save(result.data);
+  console.log(`   ✅ Written`);
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(`🔄 Migrating config files${dryRun ? " (dry run)" : ""}...\n`);
+
+  migrateFile(
+    TAYEB_COINS_PATH,
+    migrateTayebCoinsConfig,
+    (data) => checkTayebCoinsConfig(data, validationOptions),
+    (data) => saveTayebCoinsConfig(data as TayebCoinsConfig),
+    dryRun
+  );
+
+  // In a dry run tayebCoins.json may still be on an old version, so cross-check the migrated copy
+  const tayebCoins = dryRun
+    ? (migrateTayebCoinsConfig(readJsonFile(TAYEB_COINS_PATH)).data as TayebCoinsConfig)
+    : loadTayebCoinsConfig();
+
+  migrateFile(
+    XCM_CONFIG_PATH,
+    migrateXcmConfig,
+    (data) => checkXcmConfig(data, validationOptions, tayebCoins),
+    (data) => saveXcmConfig(data as XcmConfig),
+    dryRun
+  );
+
+  console.log();
+  console.log(dryRun ? "ℹ️  Dry run: no files written" : "✅ Config files are at the supported schema versions");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
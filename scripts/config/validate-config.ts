@@ -0,0 +1,85 @@
+import * as path from "path";
+import {
+  checkTayebCoinsConfig,
+  checkXcmConfig,
+  checkDeployedContracts,
+} from "../../config/validation";
+import { TayebCoinsConfig } from "../../config/types";
+import {
+  TAYEB_COINS_PATH,
+  XCM_CONFIG_PATH,
+  DEPLOYED_CONTRACTS_PATH,
+  readJsonFile,
+  validationOptions,
+} from "../utils/configLoader";
+
+/**
+ * Validate all config files
+ *
+ * Checks tayebCoins.json, xcmConfig.json and deployedContracts.json against
+ * their schemas and cross-checks XCM token mappings against tayebCoins.json.
+ * Prints every issue found and exits non-zero if any file is invalid.
+ *
+ * Usage: npm run validate:config
+ */
+
+function report(filePath: string, check: () => string[]): number {
+  const name = path.basename(filePath);
+  let issues: string[];
+  try {
+    issues = check();
+  } catch (error: any) {
+    issues = [error.message];
+  }
+
+  if (issues.length === 0) {
+    console.log(`✅ ${name}`);
+  } else {
+    console.log(`❌ ${name} (${issues.length} issue${issues.length === 1 ? "" : "s"})`);
+    for (const issue of issues) {
+      console.log(`   - ${issue}`);
+    }
+  }
+  return issues.length;
+}
+
+async function main() {
+  console.log("🔍 Validating config files...\n");
+
+  let tayebCoins: TayebCoinsConfig | undefined;
+  let totalIssues = 0;
+
+  totalIssues += report(TAYEB_COINS_PATH, () => {
+    const data = readJsonFile(TAYEB_COINS_PATH);
+    const issues = checkTayebCoinsConfig(data, validationOptions);
+    if (issues.length === 0) {
+      tayebCoins = data as TayebCoinsConfig;
+    }
+    return issues;
+  });
+
+  totalIssues += report(XCM_CONFIG_PATH, () => {
+    const issues = checkXcmConfig(readJsonFile(XCM_CONFIG_PATH), validationOptions, tayebCoins);
+    if (!tayebCoins) {
+      console.log("⚠️  Skipping xcmConfig.json token mapping cross-check (tayebCoins.json is invalid)");
+    }
+    return issues;
+  });
+
+  totalIssues += report(DEPLOYED_CONTRACTS_PATH, () =>
+    checkDeployedContracts(readJsonFile(DEPLOYED_CONTRACTS_PATH), validationOptions)
+  );
+
+  console.log();
+  if (totalIssues > 0) {
+    throw new Error(`Config validation failed with ${totalIssues} issue(s)`);
+  }
+  console.log("✅ All config files are valid");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
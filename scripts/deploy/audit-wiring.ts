@@ -0,0 +1,132 @@
+import hre from "hardhat";
+import * as dotenv from "dotenv";
+import { Contract, InterfaceAbi } from "ethers";
+import { DeployedMain } from "../../config/types";
+import {
+  ContractWiring,
+  OnChainWiring,
+  ShariaComplianceABI,
+  ShariaDCAABI,
+  ShariaLocalSwapABI,
+  auditWiring,
+  createTokenResolver,
+  formatWiringChecklist,
+  resolvePairKey,
+} from "../../sdk";
+import { loadTayebCoinsConfig } from "../utils/configLoader";
+import { getNetworkName, loadNetworkDeployment } from "../utils/network";
+
+dotenv.config();
+
+/**
+ * Post-deployment wiring audit
+ *
+ * Checks that every contract in `main` has code and the expected owner, that
+ * ShariaLocalSwap and ShariaDCA point at the ShariaCompliance, router and WGLMR
+ * recorded in deployedContracts.json, that the router's factory() and WETH() match
+ * `amm`, and that every `pairs` entry is the factory's pair for its tokens. Prints a
+ * Markdown checklist for MAINNET_DEPLOYMENT_CHECKLIST.md and exits non-zero on any failure.
+ *
+ * The expected owner is the multisig for contracts handed over by transfer-ownership.ts,
+ * else each contract's recorded deployer; AUDIT_EXPECTED_OWNER overrides both.
+ *
+ * Usage: npm run audit:wiring (or npx hardhat run scripts/deploy/audit-wiring.ts --network <name>)
+ */
+
+const { ethers } = hre;
+
+const OWNABLE_ABI = ["function owner() view returns (address)"];
+const ROUTER_ABI = ["function factory() view returns (address)", "function WETH() view returns (address)"];
+const FACTORY_ABI = ["function getPair(address tokenA, address tokenB) view returns (address)"];
+
+const MAIN_ABIS: Record<keyof DeployedMain, InterfaceAbi> = {
+  shariaCompliance: ShariaComplianceABI as InterfaceAbi,
+  shariaLocalSwap: ShariaLocalSwapABI as InterfaceAbi,
+  shariaDCA: ShariaDCAABI as InterfaceAbi,
+  crosschainSwapInitiator: OWNABLE_ABI,
+  crosschainSwapInitiatorNoSdk: OWNABLE_ABI,
+};
+
+/**
+ * A view call's result, or undefined when the contract doesn't have it or it reverts
+ */
+async function tryRead(contract: Contract, functionName: string, ...args: unknown[]): Promise<string | undefined> {
+  try {
+    return await contract.getFunction(functionName).staticCall(...args);
+  } catch {
+    return undefined;
+  }
+}
+
+async function hasCode(address: string): Promise<boolean> {
+  const code = await ethers.provider.getCode(address);
+  return code !== "0x";
+}
+
+async function main() {
+  const deployment = await loadNetworkDeployment();
+  const tokens = createTokenResolver(loadTayebCoinsConfig(), { addressOverrides: deployment.tokens });
+
+  console.log(`🔎 Auditing contract wiring on ${getNetworkName()} (chain ${deployment.chainId})...\n`);
+
+  const onChain: OnChainWiring = { contracts: {}, pairs: {} };
+
+  for (const [key, address] of Object.entries(deployment.main) as Array<[keyof DeployedMain, string | null]>) {
+    if (!address) continue;
+    const wiring: ContractWiring = { hasCode: await hasCode(address) };
+    if (wiring.hasCode) {
+      const contract = new Contract(address, MAIN_ABIS[key], ethers.provider);
+      wiring.owner = await tryRead(contract, "owner");
+      if (key === "shariaLocalSwap" || key === "shariaDCA") {
+        wiring.shariaCompliance = await tryRead(contract, "shariaCompliance");
+        wiring.dexRouter = await tryRead(contract, "dexRouter");
+        wiring.weth = await tryRead(contract, "WETH");
+      }
+    }
+    onChain.contracts[key] = wiring;
+  }
+
+  let factoryAddress = deployment.amm.factory;
+  if (deployment.amm.router) {
+    const routerHasCode = await hasCode(deployment.amm.router);
+    onChain.router = { hasCode: routerHasCode };
+    if (routerHasCode) {
+      const router = new Contract(deployment.amm.router, ROUTER_ABI, ethers.provider);
+      onChain.router.factory = await tryRead(router, "factory");
+      onChain.router.weth = await tryRead(router, "WETH");
+      factoryAddress = factoryAddress ?? onChain.router.factory ?? null;
+    }
+  }
+
+  if (factoryAddress) {
+    const factory = new Contract(factoryAddress, FACTORY_ABI, ethers.provider);
+    for (const [key, pair] of Object.entries(deployment.pairs)) {
+      const pairTokens = pair ? resolvePairKey(key, tokens) : null;
+      if (!pairTokens) continue;
+      const actual = await tryRead(factory, "getPair", pairTokens[0].address, pairTokens[1].address);
+      if (actual !== undefined) {
+        onChain.pairs[key] = actual;
+      }
+    }
+  }
+
+  const audit = auditWiring(deployment, onChain, tokens, { expectedOwner: process.env.AUDIT_EXPECTED_OWNER });
+
+  console.log(`### Wiring audit: ${getNetworkName()} (${new Date().toISOString()})\n`);
+  console.log(audit.checks.length > 0 ? formatWiringChecklist(audit) : "_Nothing deployed to audit_");
+  console.log();
+
+  if (audit.failed > 0) {
+    console.log(`❌ ${audit.failed} of ${audit.checks.length} checks failed\n`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ All ${audit.checks.length} checks passed\n`);
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,8 +1,28 @@
 import { execSync } from "child_process";
 import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEPLOYED_CONTRACTS_PATH } from "../utils/configLoader";
 
 dotenv.config();
 
+/**
+ * Deploy every Tayeb contract to HARDHAT_NETWORK (or `--network`)
+ *
+ * With `--plan` (or DEPLOY_PLAN=true), nothing is sent to the network: the pipeline
+ * runs on a fork of it in the in-process Hardhat network against a scratch copy of
+ * deployedContracts.json, and scripts/deploy/plan-deploy.ts prints what would be
+ * deployed, reused or re-wired, gas used, and the deployedContracts.json diff.
+ *
+ * Usage: npm run plan:deploy -- --network moonbeam
+ */
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
 function runSubScript(name: string, script: string, network: string, timeout = 120000) {
   console.log(`📦 Deploying ${name}...`);
   console.log("=".repeat(60));
@@ -25,7 +45,34 @@ function runSubScript(name: string, script: string, network: string, timeout = 1
   }
 }
 
+function runPlan(network: string) {
+  const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), "tayeb-deploy-plan-"));
+  const scratchPath = path.join(scratchDir, "deployedContracts.json");
+  fs.copyFileSync(DEPLOYED_CONTRACTS_PATH, scratchPath);
+
+  console.log(`🧪 Planning deployment to ${network} (dry run, nothing is broadcast)\n`);
+  try {
+    execSync("npx hardhat run scripts/deploy/plan-deploy.ts --network hardhat", {
+      stdio: "inherit",
+      timeout: 600000,
+      env: { ...process.env, DEPLOY_PLAN_NETWORK: network, DEPLOYED_CONTRACTS_PATH: scratchPath },
+    });
+  } catch {
+    // plan-deploy has already printed the failing steps
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
+
 async function main() {
+  const network = argValue("--network") || process.env.HARDHAT_NETWORK || "moonbeam";
+
+  if (process.argv.includes("--plan") || process.env.DEPLOY_PLAN === "true") {
+    runPlan(network);
+    return;
+  }
+
   console.log("🚀 Tayeb Mainnet Deployment\n");
   console.log("This script will deploy:\n");
   console.log("1. ShariaCompliance");
@@ -33,7 +80,6 @@ async function main() {
   console.log("3. ShariaLocalSwap");
   console.log("4. ShariaDCA\n");
 
-  const network = process.env.HARDHAT_NETWORK || "moonbeam";
   console.log(`📡 Target Network: ${network}\n`);
 
   if (network === "moonbeam") {
@@ -59,7 +105,7 @@ async function main() {
 }
 
 main()
-  .then(() => process.exit(0))
+  .then(() => process.exit(process.exitCode ?? 0))
   .catch((error) => {
     console.error(error);
     process.exit(1);
@@ -1,37 +1,31 @@
 import hre from "hardhat";
 import * as dotenv from "dotenv";
-import * as fs from "fs";
-import * as path from "path";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import xcmRawConfig from "../../config/xcmConfig.json";
 import { DeployedContracts } from "../../config/types";
-import { buildTxOverrides, deployOrVerifyContract } from "../utils/deployHelpers";
+import { loadXcmConfig, saveDeployedContracts } from "../utils/configLoader";
+import { buildTxOverrides, deployOrVerifyContract, withDeploymentRecord } from "../utils/deployHelpers";
+import { getNetworkName, loadNetworkDeployment } from "../utils/network";
 
 dotenv.config();
 
 const { ethers } = hre;
 
-interface XcmConfig {
-  moonbeam: {
-    xcmTransactorPrecompile: string;
-  };
-  hydration: {
-    parachainId: number;
-    omnipoolPalletIndex: number;
-    sellCallIndex: number;
-  };
-}
-
-async function main() {
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
-  const xcmConfig = xcmRawConfig as XcmConfig;
+export async function deployCrosschainInitiator() {
+  const contractsConfig = await loadNetworkDeployment();
+  const xcmConfig = loadXcmConfig();
 
   const shariaComplianceAddress = contractsConfig.main.shariaCompliance;
   if (!shariaComplianceAddress) {
     throw new Error("ShariaCompliance address not found. Deploy it first.");
   }
 
-  if (!xcmConfig?.moonbeam?.xcmTransactorPrecompile || !xcmConfig?.hydration) {
+  const xcmTransactorPrecompile = xcmConfig.moonbeam?.xcmTransactorPrecompile;
+  const { parachainId, omnipoolPalletIndex, sellCallIndex } = xcmConfig.hydration;
+  if (
+    !xcmTransactorPrecompile ||
+    parachainId === undefined ||
+    omnipoolPalletIndex === undefined ||
+    sellCallIndex === undefined
+  ) {
     throw new Error("Missing XCM configuration. Check config/xcmConfig.json.");
   }
 
@@ -42,36 +36,34 @@ async function main() {
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "GLMR\n");
 
   console.log("📖 XCM configuration:");
-  console.log("   XCM Transactor:", xcmConfig.moonbeam.xcmTransactorPrecompile);
-  console.log("   Hydration Parachain ID:", xcmConfig.hydration.parachainId);
-  console.log("   Omnipool Pallet Index:", xcmConfig.hydration.omnipoolPalletIndex);
-  console.log("   Sell Call Index:", xcmConfig.hydration.sellCallIndex);
+  console.log("   XCM Transactor:", xcmTransactorPrecompile);
+  console.log("   Hydration Parachain ID:", parachainId);
+  console.log("   Omnipool Pallet Index:", omnipoolPalletIndex);
+  console.log("   Sell Call Index:", sellCallIndex);
   console.log();
 
   const txOverrides = await buildTxOverrides();
 
-  const crosschainSwapInitiatorAddress = await deployOrVerifyContract(
+  const { address: crosschainSwapInitiatorAddress, record: crosschainSwapInitiatorRecord } = await deployOrVerifyContract(
     "CrosschainSwapInitiator",
     contractsConfig.main.crosschainSwapInitiator,
     async () => {
       const CrosschainSwapInitiator = await ethers.getContractFactory("CrosschainSwapInitiator");
       return await CrosschainSwapInitiator.deploy(
         shariaComplianceAddress,
-        xcmConfig.moonbeam.xcmTransactorPrecompile,
-        xcmConfig.hydration.parachainId,
-        xcmConfig.hydration.omnipoolPalletIndex,
-        xcmConfig.hydration.sellCallIndex,
+        xcmTransactorPrecompile,
+        parachainId,
+        omnipoolPalletIndex,
+        sellCallIndex,
         txOverrides
       );
     }
   );
 
   console.log("\n📝 Updating deployedContracts.json...");
-  const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-
   const updatedContracts: DeployedContracts = {
     ...contractsConfig,
-    network: "moonbeam",
+    network: getNetworkName(),
     lastDeployed: new Date().toISOString(),
     main: {
       ...contractsConfig.main,
@@ -82,10 +74,11 @@ async function main() {
       ...contractsConfig.metadata,
       deploymentDate: new Date().toISOString(),
       deployer: deployer.address,
+      contracts: withDeploymentRecord(contractsConfig.metadata.contracts, "crosschainSwapInitiator", crosschainSwapInitiatorRecord),
     },
   };
 
-  fs.writeFileSync(contractsPath, JSON.stringify(updatedContracts, null, 2) + "\n");
+  saveDeployedContracts(updatedContracts);
   console.log("✅ deployedContracts.json updated\n");
 
   console.log("=".repeat(60));
@@ -97,11 +90,14 @@ async function main() {
   console.log();
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+// Run if called directly (scripts/deploy/plan-deploy.ts imports it)
+if (require.main === module) {
+  deployCrosschainInitiator()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
 
 
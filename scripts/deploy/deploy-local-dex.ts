@@ -0,0 +1,193 @@
+import hre from "hardhat";
+import * as dotenv from "dotenv";
+import { DeployedContracts } from "../../config/types";
+import { ResolvedToken, TAYEB_CHAIN_IDS, createTokenResolver, formatVariantSymbol, isSameAddress } from "../../sdk";
+import { loadTayebCoinsConfig, saveDeployedContracts } from "../utils/configLoader";
+import { buildTxOverrides, deployOrVerifyContract } from "../utils/deployHelpers";
+import { getNetworkChainId, getNetworkName, loadOrCreateNetworkDeployment } from "../utils/network";
+
+dotenv.config();
+
+const { ethers } = hre;
+
+/**
+ * Offline DEX for a local Hardhat node
+ *
+ * Stands up MockWETH (WGLMR), a Uniswap V2-style MockDEXFactory / MockDEXRouter and a
+ * MockERC20 for every coin and variant in tayebCoins.json, then seeds a WGLMR pool for
+ * each token. The addresses go into the chain 1337 entry of deployedContracts.json
+ * (`amm`, `tokens` keyed by config symbol, `pairs` as GLMR_<symbol>), so the deploy
+ * scripts, automation and frontend run against `hardhat node` without StellaSwap.
+ * Reruns reuse contracts that still have code and only fund empty pools.
+ *
+ * Each pool gets LOCAL_DEX_GLMR_PER_POOL (default 100) WGLMR against
+ * LOCAL_DEX_TOKENS_PER_POOL (default 10000) whole tokens. Anyone can mint the mock
+ * tokens, so test wallets fund themselves with MockERC20.mint.
+ *
+ * Usage:
+ *   npx hardhat node
+ *   npm run deploy:local-dex
+ *   npx hardhat run scripts/deploy/deploy-sharia-compliance.ts --network localhost
+ *   (then deploy-sharia-local-swap.ts and deploy-sharia-dca.ts the same way)
+ */
+
+/** tayebCoins.json symbol of the native coin; locally it resolves to MockWETH */
+const NATIVE_SYMBOL = "GLMR";
+
+function poolSize(name: string, fallback: string): string {
+  const value = process.env[name] || fallback;
+  if (!/^\d+(\.\d+)?$/.test(value) || Number(value) === 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Symbol the mock token reports: the on-chain registry symbol (WBTC_WH → WBTC.wh)
+ */
+function mockSymbol(token: ResolvedToken): string {
+  return token.isVariant ? formatVariantSymbol(token.symbol) : token.symbol;
+}
+
+export async function deployLocalDex() {
+  const chainId = await getNetworkChainId();
+  if (chainId !== TAYEB_CHAIN_IDS.local) {
+    throw new Error(`The mock DEX is for local Hardhat nodes (chain ${TAYEB_CHAIN_IDS.local}), not chain ${chainId}`);
+  }
+
+  const contractsConfig = await loadOrCreateNetworkDeployment();
+  const config = loadTayebCoinsConfig();
+  const glmrPerPool = ethers.parseEther(poolSize("LOCAL_DEX_GLMR_PER_POOL", "100"));
+  const tokensPerPool = poolSize("LOCAL_DEX_TOKENS_PER_POOL", "10000");
+
+  const [deployer] = await ethers.getSigners();
+
+  console.log("🚀 Deploying local DEX fixture...\n");
+  console.log("Account:", deployer.address);
+  console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "GLMR\n");
+
+  const txOverrides = await buildTxOverrides();
+
+  const { address: wethAddress } = await deployOrVerifyContract("MockWETH", contractsConfig.amm.weth, async () => {
+    const MockWETH = await ethers.getContractFactory("MockWETH");
+    return await MockWETH.deploy(txOverrides);
+  });
+  const { address: factoryAddress } = await deployOrVerifyContract(
+    "MockDEXFactory",
+    contractsConfig.amm.factory,
+    async () => {
+      const MockDEXFactory = await ethers.getContractFactory("MockDEXFactory");
+      return await MockDEXFactory.deploy(txOverrides);
+    }
+  );
+
+  // A router over another factory or WETH would quote pools this run doesn't seed
+  let existingRouter = contractsConfig.amm.router;
+  if (existingRouter && (await ethers.provider.getCode(existingRouter)) !== "0x") {
+    const router = await ethers.getContractAt("MockDEXRouter", existingRouter);
+    const [wiredFactory, wiredWeth] = await Promise.all([router.factory(), router.WETH()]).catch(() => []);
+    if (!isSameAddress(wiredFactory, factoryAddress) || !isSameAddress(wiredWeth, wethAddress)) {
+      console.log(`⚠️  Router at ${existingRouter} isn't wired to this factory and WETH, redeploying...`);
+      existingRouter = null;
+    }
+  }
+  const { address: routerAddress } = await deployOrVerifyContract("MockDEXRouter", existingRouter, async () => {
+    const MockDEXRouter = await ethers.getContractFactory("MockDEXRouter");
+    return await MockDEXRouter.deploy(factoryAddress, wethAddress, txOverrides);
+  });
+  console.log();
+
+  const weth = await ethers.getContractAt("MockWETH", wethAddress);
+  const factory = await ethers.getContractAt("MockDEXFactory", factoryAddress);
+  const router = await ethers.getContractAt("MockDEXRouter", routerAddress);
+
+  // Config addresses are Moonbeam's, so every mock is matched to its entry by symbol
+  const resolver = createTokenResolver(config);
+  const tokens: DeployedContracts["tokens"] = { ...contractsConfig.tokens, [NATIVE_SYMBOL]: wethAddress };
+  const pairs: DeployedContracts["pairs"] = { ...contractsConfig.pairs };
+  let seeded = 0;
+
+  console.log("🪙 Deploying mock tokens and seeding WGLMR pools...");
+  for (const entry of resolver.entries) {
+    if (entry.symbol === NATIVE_SYMBOL) continue;
+
+    const { address: tokenAddress } = await deployOrVerifyContract(
+      "MockERC20",
+      contractsConfig.tokens[entry.symbol],
+      async () => {
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        return await MockERC20.deploy(entry.name, mockSymbol(entry), entry.decimals, txOverrides);
+      }
+    );
+    tokens[entry.symbol] = tokenAddress;
+
+    const pairKey = `${NATIVE_SYMBOL}_${entry.symbol}`;
+    let pairAddress = await factory.getPair(wethAddress, tokenAddress);
+    if (pairAddress !== ethers.ZeroAddress) {
+      const pair = await ethers.getContractAt("MockDEXPair", pairAddress);
+      const [reserve0] = await pair.getReserves();
+      if (reserve0 > 0n) {
+        pairs[pairKey] = pairAddress;
+        continue;
+      }
+    }
+
+    const tokenAmount = ethers.parseUnits(tokensPerPool, entry.decimals);
+    const token = await ethers.getContractAt("MockERC20", tokenAddress);
+    await (await token.mint(deployer.address, tokenAmount, await buildTxOverrides())).wait();
+    await (await token.approve(routerAddress, tokenAmount, await buildTxOverrides())).wait();
+    await (await weth.deposit({ ...(await buildTxOverrides()), value: glmrPerPool })).wait();
+    await (await weth.approve(routerAddress, glmrPerPool, await buildTxOverrides())).wait();
+
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 600;
+    await (
+      await router.addLiquidity(
+        wethAddress,
+        tokenAddress,
+        glmrPerPool,
+        tokenAmount,
+        0,
+        0,
+        deployer.address,
+        deadline,
+        await buildTxOverrides()
+      )
+    ).wait();
+    pairAddress = await factory.getPair(wethAddress, tokenAddress);
+    pairs[pairKey] = pairAddress;
+    seeded++;
+    console.log(`✅ ${pairKey}: ${ethers.formatEther(glmrPerPool)} WGLMR / ${tokensPerPool} ${mockSymbol(entry)} at ${pairAddress}`);
+  }
+
+  console.log("\n📝 Updating deployedContracts.json...");
+  const updatedContracts: DeployedContracts = {
+    ...contractsConfig,
+    network: getNetworkName(),
+    lastDeployed: new Date().toISOString(),
+    amm: { factory: factoryAddress, router: routerAddress, weth: wethAddress },
+    tokens,
+    pairs,
+  };
+  saveDeployedContracts(updatedContracts);
+  console.log("✅ deployedContracts.json updated\n");
+
+  console.log("=".repeat(60));
+  console.log("📋 LOCAL DEX SUMMARY");
+  console.log("=".repeat(60));
+  console.log("WGLMR (MockWETH):", wethAddress);
+  console.log("Factory:", factoryAddress);
+  console.log("Router:", routerAddress);
+  console.log(`Tokens: ${Object.keys(tokens).length}, pools seeded this run: ${seeded}`);
+  console.log("=".repeat(60));
+  console.log("\n💡 Next: deploy ShariaCompliance, ShariaLocalSwap and ShariaDCA with --network localhost\n");
+}
+
+// Run if called directly
+if (require.main === module) {
+  deployLocalDex()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
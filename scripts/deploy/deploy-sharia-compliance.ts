@@ -1,138 +1,139 @@
 import hre from "hardhat";
 import * as dotenv from "dotenv";
-import * as fs from "fs";
-import * as path from "path";
-import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
 import { TayebCoin, TayebCoinVariant, TayebCoinsConfig, DeployedContracts } from "../../config/types";
-import { buildTxOverrides, deployOrVerifyContract } from "../utils/deployHelpers";
+import {
+  Address,
+  ComplianceClient,
+  ReconcileReceipt,
+  ShariaCoinData,
+  TokenResolver,
+  createComplianceClient,
+  createReconcileReceipt,
+  createTokenResolver,
+  describeReconcileAction,
+  getTayebContracts,
+  planSeeding,
+  reconcileActionCall,
+  resumeReconcileReceipt,
+  toCoinRegistration,
+} from "../../sdk";
+import { buildTxOverrides, deployOrVerifyContract, withDeploymentRecord } from "../utils/deployHelpers";
+import { getNetworkName, loadOrCreateNetworkDeployment } from "../utils/network";
+import { loadTayebCoinsConfig, saveDeployedContracts } from "../utils/configLoader";
+import { loadReceipt, receiptPath, saveReceipt } from "../utils/receipts";
+import { readContract, writeContract } from "../utils/sdkContracts";
 
 dotenv.config();
 
 const { ethers } = hre;
 
-function collectEntries(coin: TayebCoin) {
-  const entries: Array<{
-    symbol: string;
-    name: string;
-    complianceReason: string;
-    address: string | null;
-    isVariant: boolean;
-    baseSymbol: string;
-  }> = [];
-
-  if (coin.addresses?.moonbeam) {
-    entries.push({
-      symbol: coin.symbol,
-      name: coin.name,
-      complianceReason: coin.complianceReason,
-      address: coin.addresses.moonbeam,
-      isVariant: false,
-      baseSymbol: coin.symbol,
-    });
-  }
-
-  if (coin.variants && coin.variants.length > 0) {
-    for (const variant of coin.variants) {
-      const moonbeamAddress = variant.addresses?.moonbeam ?? null;
-      if (!moonbeamAddress) continue;
-
-      // Convert variant symbol from WBTC_WH to WBTC.wh format
-      // Extract the suffix (WH, XC, E, etc.) and convert to lowercase with dot
-      const variantSymbol = variant.symbol;
-      const underscoreIndex = variantSymbol.lastIndexOf('_');
-      let formattedSymbol: string;
-      
-      if (underscoreIndex > 0) {
-        const base = variantSymbol.substring(0, underscoreIndex);
-        const suffix = variantSymbol.substring(underscoreIndex + 1).toLowerCase();
-        formattedSymbol = `${base}.${suffix}`;
-      } else {
-        formattedSymbol = variantSymbol;
-      }
-
-      entries.push({
-        symbol: formattedSymbol,
-        name: variant.name ?? `${coin.name} (${formattedSymbol})`,
-        complianceReason: variant.complianceReason ?? coin.complianceReason,
-        address: moonbeamAddress,
-        isVariant: true,
-        baseSymbol: coin.symbol,
-      });
-    }
-  }
+/**
+ * Coins with neither a Moonbeam address nor a variant that has one on this network
+ */
+function coinsWithoutAddresses(config: TayebCoinsConfig, resolver: TokenResolver): TayebCoin[] {
+  return config.coins.filter(
+    (coin) => !resolver.entries.some((entry) => entry.baseSymbol === coin.symbol && toCoinRegistration(entry))
+  );
+}
 
-  return entries;
+interface SeedSummary {
+  registered: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  conflicts: number;
+  checkpoint: string | null;
 }
 
-async function registerCoins(
-  shariaCompliance: any,
-  config: TayebCoinsConfig
-): Promise<{ registered: number; skipped: number }> {
-  const registeredCoins = await shariaCompliance.getAllShariaCoins();
-  const registeredSymbols = new Set(registeredCoins.map((c: any) => c.id));
+/**
+ * Bring the registry up to tayebCoins.json without removing anything: register missing
+ * coins, update the verified flag / compliance reason where they differ, and leave
+ * identical coins alone. Progress is checkpointed to deployments/seed-<chainId>.json;
+ * a rerun resumes it, retrying failed steps and dropping those the chain already shows.
+ */
+async function seedRegistry(
+  compliance: ComplianceClient,
+  config: TayebCoinsConfig,
+  resolver: TokenResolver,
+  chainId: number
+): Promise<SeedSummary> {
+  for (const coin of coinsWithoutAddresses(config, resolver)) {
+    console.warn(`⚠️  ${coin.symbol} has no Moonbeam address or variants with addresses, skipping...`);
+  }
 
-  let registeredCount = 0;
-  let skippedCount = 0;
+  const onChainCoins = await readContract<ShariaCoinData[]>(ethers.provider, compliance.getAllShariaCoins());
+  const plan = planSeeding(resolver, onChainCoins);
+  console.log(`📊 ${onChainCoins.length} coin(s) already registered, ${plan.inSync.length} identical to the config`);
+  for (const conflict of plan.conflicts) {
+    console.warn(`⚠️  Not seeding ${describeReconcileAction(conflict)}; settle it with npm run reconcile:coins`);
+  }
 
-  for (const coin of config.coins) {
-    const entries = collectEntries(coin);
+  // Plans run against a throwaway fork, so they leave the checkpoint alone
+  const checkpoint = process.env.DEPLOY_PLAN_NETWORK ? null : receiptPath("seed", chainId);
+  const save = (receipt: ReconcileReceipt) => {
+    if (checkpoint) {
+      saveReceipt(checkpoint, receipt);
+    }
+  };
+  const address = compliance.address as Address;
+  const fresh = createReconcileReceipt(chainId, getNetworkName(), address, plan);
+  const previous = checkpoint ? loadReceipt(checkpoint) : null;
+
+  let receipt = fresh;
+  if (
+    previous?.shariaCompliance.toLowerCase() === address.toLowerCase() &&
+    previous.steps.some((step) => step.status === "pending" || step.status === "failed")
+  ) {
+    receipt = resumeReconcileReceipt(previous, plan);
+    // Coins added to the config since the checkpoint are seeded in the same run
+    const known = new Set(receipt.steps.map((step) => step.key));
+    receipt.steps.push(...fresh.steps.filter((step) => !known.has(step.key)));
+    console.log(`↩️  Resuming seed checkpoint from ${previous.createdAt}`);
+  }
+  if (receipt.steps.length === 0) {
+    console.log("✅ Registry already matches tayebCoins.json, nothing to seed");
+  } else {
+    // An empty run keeps the last checkpoint as the record of how the registry was seeded
+    save(receipt);
+  }
 
-    if (entries.length === 0) {
-      console.warn(
-        `⚠️  ${coin.symbol} has no Moonbeam address or variants with addresses, skipping...`
-      );
-      skippedCount++;
+  const [signer] = await ethers.getSigners();
+  for (const step of receipt.steps) {
+    if (step.status !== "pending") {
       continue;
     }
-
-    for (const entry of entries) {
-      const displayLabel = entry.isVariant
-        ? `${entry.symbol} (variant of ${entry.baseSymbol})`
-        : entry.symbol;
-
-      if (registeredSymbols.has(entry.symbol)) {
-        console.log(`⏭️  ${displayLabel} already registered, skipping...`);
-        skippedCount++;
-        continue;
-      }
-
-      try {
-        const overrides = await buildTxOverrides();
-        const tx = await shariaCompliance.registerShariaCoin(
-          entry.symbol,
-          entry.name,
-          entry.symbol,
-          entry.address,
-          entry.complianceReason,
-          overrides
-        );
-        await tx.wait();
-        console.log(`✅ Registered ${displayLabel} (${entry.name}) in ShariaCompliance`);
-        registeredCount++;
-      } catch (error: any) {
-        if (
-          error.message?.includes("CoinAlreadyExists") ||
-          error.reason?.includes("CoinAlreadyExists")
-        ) {
-          console.log(`⏭️  ${displayLabel} already exists in ShariaCompliance, skipping...`);
-          skippedCount++;
-        } else {
-          console.warn(
-            `⚠️  Failed to register ${displayLabel} in ShariaCompliance:`,
-            error.message
-          );
-        }
-      }
+    try {
+      const tx = await writeContract(signer, reconcileActionCall(compliance, step.action), await buildTxOverrides());
+      step.txHash = tx.hash;
+      save(receipt);
+      await tx.wait();
+      step.status = "confirmed";
+      console.log(`✅ ${describeReconcileAction(step.action)}`);
+    } catch (error: any) {
+      step.status = "failed";
+      step.error = error.shortMessage ?? error.message;
+      console.warn(`⚠️  Failed: ${describeReconcileAction(step.action)}: ${step.error}`);
     }
+    step.updatedAt = new Date().toISOString();
+    receipt.updatedAt = step.updatedAt;
+    save(receipt);
   }
 
-  return { registered: registeredCount, skipped: skippedCount };
+  const confirmed = (type: string) =>
+    receipt.steps.filter((step) => step.status === "confirmed" && step.action.type === type).length;
+  return {
+    registered: confirmed("register"),
+    updated: confirmed("update"),
+    unchanged: plan.inSync.length,
+    failed: receipt.steps.filter((step) => step.status === "failed").length,
+    conflicts: plan.conflicts.length,
+    checkpoint,
+  };
 }
 
-async function main() {
-  const config = tayebCoinsConfig as TayebCoinsConfig;
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+export async function deployShariaCompliance() {
+  const config = loadTayebCoinsConfig();
+  const contractsConfig = await loadOrCreateNetworkDeployment();
 
   const [deployer] = await ethers.getSigners();
 
@@ -142,7 +143,7 @@ async function main() {
 
   const txOverrides = await buildTxOverrides();
 
-  const shariaComplianceAddress = await deployOrVerifyContract(
+  const { address: shariaComplianceAddress, record: shariaComplianceRecord } = await deployOrVerifyContract(
     "ShariaCompliance",
     contractsConfig.main.shariaCompliance,
     async () => {
@@ -150,7 +151,6 @@ async function main() {
       return await ShariaCompliance.deploy(txOverrides);
     }
   );
-  const shariaCompliance = await ethers.getContractAt("ShariaCompliance", shariaComplianceAddress);
   console.log();
 
   console.log("📝 Registering coins in ShariaCompliance...");
@@ -162,15 +162,31 @@ async function main() {
   }, 0);
   console.log(`📊 Entries with Moonbeam addresses: ${totalEntries}`);
 
-  const { registered, skipped } = await registerCoins(shariaCompliance, config);
-  console.log(`\n📊 Registration summary: ${registered} new, ${skipped} skipped\n`);
+  const compliance = createComplianceClient(
+    getTayebContracts({ ...contractsConfig, main: { ...contractsConfig.main, shariaCompliance: shariaComplianceAddress } })
+  );
+  const seeding = await seedRegistry(
+    compliance,
+    config,
+    createTokenResolver(config, { addressOverrides: contractsConfig.tokens }),
+    contractsConfig.chainId
+  );
+  console.log(
+    `\n📊 Registration summary: ${seeding.registered} registered, ${seeding.updated} updated, ` +
+      `${seeding.unchanged} unchanged, ${seeding.failed} failed, ${seeding.conflicts} conflict(s)`
+  );
+  if (seeding.checkpoint) {
+    console.log(`📝 Seed checkpoint: ${seeding.checkpoint}`);
+  }
+  if (seeding.failed > 0) {
+    console.warn("↩️  Rerun this script to retry the failed registrations; confirmed ones are not sent again");
+  }
+  console.log();
 
   console.log("📝 Updating deployedContracts.json...");
-  const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-
   const updatedContracts: DeployedContracts = {
     ...contractsConfig,
-    network: "moonbeam",
+    network: getNetworkName(),
     lastDeployed: new Date().toISOString(),
     main: {
       ...contractsConfig.main,
@@ -180,10 +196,11 @@ async function main() {
       ...contractsConfig.metadata,
       deploymentDate: new Date().toISOString(),
       deployer: deployer.address,
+      contracts: withDeploymentRecord(contractsConfig.metadata.contracts, "shariaCompliance", shariaComplianceRecord),
     },
   };
 
-  fs.writeFileSync(contractsPath, JSON.stringify(updatedContracts, null, 2) + "\n");
+  saveDeployedContracts(updatedContracts);
   console.log("✅ deployedContracts.json updated\n");
 
   console.log("=".repeat(60));
@@ -194,11 +211,14 @@ async function main() {
   console.log();
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+// Run if called directly (scripts/deploy/plan-deploy.ts imports it)
+if (require.main === module) {
+  deployShariaCompliance()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
 
 
@@ -1,29 +1,35 @@
 import hre from "hardhat";
 import * as dotenv from "dotenv";
-import * as fs from "fs";
-import * as path from "path";
-import deployedContractsConfig from "../../config/deployedContracts.json";
 import { DeployedContracts } from "../../config/types";
-import { buildTxOverrides, deployOrVerifyContract } from "../utils/deployHelpers";
+import { Address } from "../../sdk";
+import { saveDeployedContracts } from "../utils/configLoader";
+import { buildTxOverrides, deployOrVerifyContract, withDeploymentRecord } from "../utils/deployHelpers";
+import { getNetworkName, loadNetworkDeployment } from "../utils/network";
+import { loadTayebSdk, readContract, writeContract } from "../utils/sdkContracts";
 
 dotenv.config();
 
 const { ethers } = hre;
 
-async function main() {
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+/**
+ * Deploy ShariaDCA (or verify the recorded one) and allow the keepers in
+ * DCA_KEEPERS=<address,address> to execute orders. The owner can always execute; any
+ * other keeper account has to be added here or with setKeeper.
+ */
+export async function deployShariaDCA() {
+  const contractsConfig = await loadNetworkDeployment();
 
   if (!contractsConfig.main.shariaCompliance) {
     throw new Error("ShariaCompliance address not found. Deploy it first.");
   }
 
-  const router = contractsConfig.amm.router;
-  const weth =
-    contractsConfig.amm.weth ||
-    "0xAcc15dC74880C9944775448304B263D191c6077F";
+  const { router, weth } = contractsConfig.amm;
 
   if (!router) {
-    throw new Error("DEX router address missing in config/deployedContracts.json.");
+    throw new Error(`DEX router address missing for ${contractsConfig.network} in config/deployedContracts.json.`);
+  }
+  if (!weth) {
+    throw new Error(`WETH address missing for ${contractsConfig.network} in config/deployedContracts.json.`);
   }
 
   const [deployer] = await ethers.getSigners();
@@ -34,7 +40,7 @@ async function main() {
 
   const txOverrides = await buildTxOverrides();
 
-  const shariaDCAAddress = await deployOrVerifyContract(
+  const { address: shariaDCAAddress, record: shariaDCARecord } = await deployOrVerifyContract(
     "ShariaDCA",
     contractsConfig.main.shariaDCA,
     async () => {
@@ -48,10 +54,9 @@ async function main() {
     }
   );
 
-  const configPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
   const updatedContracts: DeployedContracts = {
     ...contractsConfig,
-    network: "moonbeam",
+    network: getNetworkName(),
     lastDeployed: new Date().toISOString(),
     main: {
       ...contractsConfig.main,
@@ -61,10 +66,25 @@ async function main() {
       ...contractsConfig.metadata,
       deploymentDate: new Date().toISOString(),
       deployer: deployer.address,
+      contracts: withDeploymentRecord(contractsConfig.metadata.contracts, "shariaDCA", shariaDCARecord),
     },
   };
 
-  fs.writeFileSync(configPath, JSON.stringify(updatedContracts, null, 2) + "\n");
+  saveDeployedContracts(updatedContracts);
+
+  const keepers = (process.env.DCA_KEEPERS ?? "").split(",").map((entry) => entry.trim()).filter(Boolean);
+  if (keepers.length > 0) {
+    const { dca } = loadTayebSdk(updatedContracts.chainId);
+    for (const keeper of keepers as Address[]) {
+      if (await readContract<boolean>(deployer, dca.keepers(keeper))) {
+        console.log(`✅ Keeper ${keeper} already allowed`);
+        continue;
+      }
+      await (await writeContract(deployer, dca.setKeeper(keeper, true), await buildTxOverrides())).wait();
+      console.log(`✅ Allowed keeper ${keeper}`);
+    }
+    console.log();
+  }
 
   console.log("=".repeat(60));
   console.log("📋 DEPLOYMENT SUMMARY");
@@ -72,15 +92,19 @@ async function main() {
   console.log("ShariaDCA:", shariaDCAAddress);
   console.log("Router:", router);
   console.log("WGLMR:", weth);
+  console.log("Keepers:", keepers.length > 0 ? keepers.join(", ") : "owner only");
   console.log("=".repeat(60));
   console.log();
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+// Run if called directly (scripts/deploy/plan-deploy.ts imports it)
+if (require.main === module) {
+  deployShariaDCA()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
 
 
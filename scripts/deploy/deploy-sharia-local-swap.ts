@@ -1,29 +1,28 @@
 import hre from "hardhat";
 import * as dotenv from "dotenv";
-import * as fs from "fs";
-import * as path from "path";
-import deployedContractsConfig from "../../config/deployedContracts.json";
 import { DeployedContracts } from "../../config/types";
-import { buildTxOverrides, deployOrVerifyContract } from "../utils/deployHelpers";
+import { saveDeployedContracts } from "../utils/configLoader";
+import { buildTxOverrides, deployOrVerifyContract, withDeploymentRecord } from "../utils/deployHelpers";
+import { getNetworkName, loadNetworkDeployment } from "../utils/network";
 
 dotenv.config();
 
 const { ethers } = hre;
 
-async function main() {
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+export async function deployShariaLocalSwap() {
+  const contractsConfig = await loadNetworkDeployment();
 
   if (!contractsConfig.main.shariaCompliance) {
     throw new Error("ShariaCompliance address not found. Deploy it first.");
   }
 
-  const router = contractsConfig.amm.router;
-  const weth =
-    contractsConfig.amm.weth ||
-    "0xAcc15dC74880C9944775448304B263D191c6077F";
+  const { router, weth } = contractsConfig.amm;
 
   if (!router) {
-    throw new Error("DEX router address missing in config/deployedContracts.json.");
+    throw new Error(`DEX router address missing for ${contractsConfig.network} in config/deployedContracts.json.`);
+  }
+  if (!weth) {
+    throw new Error(`WETH address missing for ${contractsConfig.network} in config/deployedContracts.json.`);
   }
 
   const [deployer] = await ethers.getSigners();
@@ -34,7 +33,7 @@ async function main() {
 
   const txOverrides = await buildTxOverrides();
 
-  const shariaLocalSwapAddress = await deployOrVerifyContract(
+  const { address: shariaLocalSwapAddress, record: shariaLocalSwapRecord } = await deployOrVerifyContract(
     "ShariaLocalSwap",
     contractsConfig.main.shariaLocalSwap,
     async () => {
@@ -48,10 +47,9 @@ async function main() {
     }
   );
 
-  const configPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
   const updatedContracts: DeployedContracts = {
     ...contractsConfig,
-    network: "moonbeam",
+    network: getNetworkName(),
     lastDeployed: new Date().toISOString(),
     main: {
       ...contractsConfig.main,
@@ -61,10 +59,11 @@ async function main() {
       ...contractsConfig.metadata,
       deploymentDate: new Date().toISOString(),
       deployer: deployer.address,
+      contracts: withDeploymentRecord(contractsConfig.metadata.contracts, "shariaLocalSwap", shariaLocalSwapRecord),
     },
   };
 
-  fs.writeFileSync(configPath, JSON.stringify(updatedContracts, null, 2) + "\n");
+  saveDeployedContracts(updatedContracts);
 
   console.log("=".repeat(60));
   console.log("📋 DEPLOYMENT SUMMARY");
@@ -76,11 +75,14 @@ async function main() {
   console.log();
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+// Run if called directly (scripts/deploy/plan-deploy.ts imports it)
+if (require.main === module) {
+  deployShariaLocalSwap()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
 
 
@@ -0,0 +1,266 @@
+import hre from "hardhat";
+import * as dotenv from "dotenv";
+import { Contract } from "ethers";
+import {
+  Address,
+  ContractCall,
+  DCAOrderData,
+  DEFAULT_MAX_QUOTE_DEGRADATION_BPS,
+  MigrationPath,
+  collectMigrationPaths,
+  compareRouterQuotes,
+  formatMigrationPath,
+  isSameAddress,
+  resolvePairKey,
+} from "../../sdk";
+import { DeployedContracts } from "../../config/types";
+import { saveDeployedContracts } from "../utils/configLoader";
+import { buildTxOverrides } from "../utils/deployHelpers";
+import { encodeContractCall, getCalldataExportPath, writeCalldataExport } from "../utils/multisig";
+import { getNetworkChainId, loadNetworkDeployment } from "../utils/network";
+import { loadTayebSdk, readContract, writeContract } from "../utils/sdkContracts";
+
+dotenv.config();
+
+const { ethers } = hre;
+
+/**
+ * Move ShariaLocalSwap and ShariaDCA to a new DEX router
+ *
+ * Before anything is sent, every `pairs` entry and every DCA order with intervals left
+ * is quoted with getAmountsOut on the current router (amm.router) and on NEW_DEX_ROUTER.
+ * Paths that revert on the candidate, or whose quote drops by more than
+ * ROUTER_MIGRATION_MAX_DEGRADATION_BPS (default 100), stop the migration unless
+ * ROUTER_MIGRATION_FORCE=true. The candidate's WETH() must also be the WGLMR the
+ * contracts were deployed with, which they can't change.
+ *
+ * Nothing is sent unless ROUTER_MIGRATION_EXECUTE=true. Both contracts are then switched
+ * and checked with dexRouter(); if one switch fails, those already made are switched
+ * back. amm.router, amm.factory and `pairs` in deployedContracts.json are rewritten only
+ * once both contracts use the new router. With --export-calldata (EXPORT_CALLDATA) the
+ * updateDexRouter calls are exported for the owner instead; rerun once they are executed
+ * to record the new router.
+ *
+ * Usage: NEW_DEX_ROUTER=0x… ROUTER_MIGRATION_EXECUTE=true npx hardhat run scripts/deploy/migrate-router.ts --network moonbeam
+ */
+
+const ROUTER_ABI = [
+  "function factory() view returns (address)",
+  "function WETH() view returns (address)",
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+];
+const FACTORY_ABI = ["function getPair(address tokenA, address tokenB) view returns (address)"];
+const OWNABLE_ABI = ["function owner() view returns (address)"];
+
+interface MigrationTarget {
+  name: string;
+  address: string;
+  /** dexRouter() before the migration */
+  router: string;
+  dexRouter: ContractCall;
+  updateDexRouter: (router: Address) => ContractCall;
+}
+
+function isEnabled(name: string): boolean {
+  return ["1", "true", "yes"].includes((process.env[name] ?? "").toLowerCase());
+}
+
+async function tryRead(contract: Contract, functionName: string, ...args: unknown[]): Promise<string | undefined> {
+  try {
+    return await contract.getFunction(functionName).staticCall(...args);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Output amount of getAmountsOut along the path, or null when the router reverts
+ */
+async function quote(router: Contract, entry: MigrationPath): Promise<bigint | null> {
+  try {
+    const amounts: bigint[] = await router.getAmountsOut(entry.amountIn, entry.path);
+    return amounts[amounts.length - 1];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Point amm at the new router and its factory, re-resolving `pairs` on that factory
+ */
+async function recordRouter(deployment: DeployedContracts, router: string, factory: string | undefined) {
+  const pairs = { ...deployment.pairs };
+  if (factory && !isSameAddress(factory, deployment.amm.factory)) {
+    const { tokens } = loadTayebSdk(deployment.chainId);
+    const factoryContract = new Contract(factory, FACTORY_ABI, ethers.provider);
+    for (const key of Object.keys(pairs)) {
+      const pairTokens = resolvePairKey(key, tokens);
+      if (!pairTokens) continue;
+      const pair = await tryRead(factoryContract, "getPair", pairTokens[0].address, pairTokens[1].address);
+      pairs[key] = pair && pair !== ethers.ZeroAddress ? pair : null;
+    }
+  }
+  saveDeployedContracts({
+    ...deployment,
+    amm: { ...deployment.amm, router, factory: factory ?? deployment.amm.factory },
+    pairs,
+  });
+  console.log("📝 Recorded the new router in deployedContracts.json (amm.router, amm.factory, pairs)");
+  console.log("💡 Run npm run audit:wiring to confirm\n");
+}
+
+async function main() {
+  const chainId = await getNetworkChainId();
+  const deployment = await loadNetworkDeployment();
+  const { swap, dca, tokens } = loadTayebSdk(chainId);
+
+  if (!process.env.NEW_DEX_ROUTER) {
+    throw new Error("Set NEW_DEX_ROUTER to the router to migrate to");
+  }
+  const candidate = ethers.getAddress(process.env.NEW_DEX_ROUTER) as Address;
+  const current = deployment.amm.router;
+  if (!current) {
+    throw new Error(`amm.router is not set for ${deployment.network} in config/deployedContracts.json`);
+  }
+
+  const targets: MigrationTarget[] = [];
+  if (swap.address) {
+    const router = await readContract<string>(ethers.provider, swap.dexRouter());
+    targets.push({ name: "ShariaLocalSwap", address: swap.address, router, dexRouter: swap.dexRouter(), updateDexRouter: swap.updateDexRouter });
+  }
+  if (dca.address) {
+    const router = await readContract<string>(ethers.provider, dca.dexRouter());
+    targets.push({ name: "ShariaDCA", address: dca.address, router, dexRouter: dca.dexRouter(), updateDexRouter: dca.updateDexRouter });
+  }
+  if (targets.length === 0) {
+    throw new Error("Neither ShariaLocalSwap nor ShariaDCA is deployed on this network");
+  }
+
+  console.log("🔀 DEX router migration\n");
+  console.log("   Current:  ", current);
+  console.log("   Candidate:", candidate, "\n");
+  for (const target of targets) {
+    const note = isSameAddress(target.router, current) ? "" : isSameAddress(target.router, candidate) ? " (already switched)" : " (not amm.router!)";
+    console.log(`   ${target.name}.dexRouter(): ${target.router}${note}`);
+  }
+  console.log();
+
+  if ((await ethers.provider.getCode(candidate)) === "0x") {
+    throw new Error(`${candidate} has no contract code`);
+  }
+  const candidateRouter = new Contract(candidate, ROUTER_ABI, ethers.provider);
+  const candidateWeth = await tryRead(candidateRouter, "WETH");
+  const candidateFactory = await tryRead(candidateRouter, "factory");
+  if (!isSameAddress(candidateWeth, deployment.amm.weth)) {
+    throw new Error(
+      `The candidate's WETH() is ${candidateWeth ?? "unreadable"}, but the contracts wrap GLMR into ${deployment.amm.weth} and can't change it`
+    );
+  }
+
+  if (targets.every((target) => isSameAddress(target.router, candidate))) {
+    if (isSameAddress(current, candidate)) {
+      console.log("✅ Already migrated and recorded\n");
+    } else {
+      console.log("✅ Both contracts already use the candidate (e.g. a multisig executed the switch)");
+      await recordRouter(deployment, candidate, candidateFactory);
+    }
+    return;
+  }
+
+  const orders: DCAOrderData[] = [];
+  if (dca.address) {
+    const nextOrderId = await readContract<bigint>(ethers.provider, dca.nextOrderId());
+    for (let orderId = 1n; orderId < nextOrderId; orderId++) {
+      orders.push(await readContract<DCAOrderData>(ethers.provider, dca.getDCAOrder(orderId)));
+    }
+  }
+  const paths = collectMigrationPaths(deployment, tokens, orders);
+  const currentRouter = new Contract(current, ROUTER_ABI, ethers.provider);
+  const quotes = [];
+  for (const entry of paths) {
+    quotes.push({ current: await quote(currentRouter, entry), candidate: await quote(candidateRouter, entry) });
+  }
+
+  const maxDegradationBps = Number(process.env.ROUTER_MIGRATION_MAX_DEGRADATION_BPS ?? DEFAULT_MAX_QUOTE_DEGRADATION_BPS);
+  const report = compareRouterQuotes(paths, quotes, maxDegradationBps);
+
+  if (paths.length === 0) {
+    console.warn("⚠️  No pairs or active DCA orders to quote; nothing on-chain vouches for the candidate\n");
+  } else {
+    console.log(`📊 Quotes for ${paths.length} path(s), current → candidate (max drop ${maxDegradationBps} bps):`);
+    for (const entry of report.paths) {
+      console.log(`   - ${formatMigrationPath(entry)}`);
+    }
+    console.log();
+  }
+
+  if (report.blocking.length > 0) {
+    console.log(`❌ ${report.blocking.length} path(s) would fail or degrade on the candidate`);
+    if (!isEnabled("ROUTER_MIGRATION_FORCE")) {
+      console.log("   Fix those routes first, or set ROUTER_MIGRATION_FORCE=true to migrate anyway\n");
+      process.exitCode = 1;
+      return;
+    }
+    console.warn("⚠️  ROUTER_MIGRATION_FORCE is set, continuing\n");
+  } else {
+    console.log("✅ Every path quotes on the candidate\n");
+  }
+
+  const pending = targets.filter((target) => !isSameAddress(target.router, candidate));
+
+  const exportPath = getCalldataExportPath("migrate-router", chainId);
+  if (exportPath) {
+    const owners = new Set<string>();
+    for (const target of pending) {
+      owners.add(await readContract<string>(ethers.provider, { address: target.address as Address, abi: OWNABLE_ABI, functionName: "owner", args: [] }));
+    }
+    writeCalldataExport(exportPath, {
+      chainId,
+      name: "Tayeb DEX router migration",
+      safe: owners.size === 1 ? [...owners][0] : undefined,
+      transactions: pending.map((target) =>
+        encodeContractCall(target.updateDexRouter(candidate), `${target.name}.updateDexRouter(${candidate})`)
+      ),
+    });
+    console.log("💡 Once the batch is executed, rerun with the same NEW_DEX_ROUTER to record the new router\n");
+    return;
+  }
+
+  if (!isEnabled("ROUTER_MIGRATION_EXECUTE")) {
+    console.log("ℹ️  Dry run. Set ROUTER_MIGRATION_EXECUTE=true to switch the contracts.\n");
+    return;
+  }
+
+  const [signer] = await ethers.getSigners();
+  const switched: MigrationTarget[] = [];
+  try {
+    for (const target of pending) {
+      const tx = await writeContract(signer, target.updateDexRouter(candidate), await buildTxOverrides());
+      console.log(`⏳ ${target.name}: ${tx.hash}`);
+      await tx.wait();
+      const router = await readContract<string>(ethers.provider, target.dexRouter);
+      if (!isSameAddress(router, candidate)) {
+        throw new Error(`${target.name} still reports dexRouter ${router} after ${tx.hash}`);
+      }
+      switched.push(target);
+      console.log(`✅ ${target.name} now routes through ${candidate}`);
+    }
+  } catch (error) {
+    // Leave both contracts on one router rather than half-migrated
+    for (const target of switched.reverse()) {
+      console.warn(`↩️  Switching ${target.name} back to ${target.router}`);
+      await (await writeContract(signer, target.updateDexRouter(target.router as Address), await buildTxOverrides())).wait();
+    }
+    throw error;
+  }
+  console.log();
+
+  await recordRouter(deployment, candidate, candidateFactory);
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,226 @@
+import hre from "hardhat";
+import { Interface } from "ethers";
+import type { TransactionReceipt, TransactionResponse } from "ethers";
+import type { HardhatNetworkConfig } from "hardhat/types";
+import { DeployedContracts, DeployedMain } from "../../config/types";
+import { findDeployment } from "../../sdk/deployments";
+import { loadDeploymentRegistry } from "../utils/configLoader";
+import { MAIN_CONTRACT_NAMES } from "../utils/deployHelpers";
+import { getNetworkChainId } from "../utils/network";
+import { deployShariaCompliance } from "./deploy-sharia-compliance";
+import { deployCrosschainInitiator } from "./deploy-crosschain-initiator";
+import { deployShariaLocalSwap } from "./deploy-sharia-local-swap";
+import { deployShariaDCA } from "./deploy-sharia-dca";
+
+/**
+ * Dry run of the deploy-all pipeline on the in-process Hardhat network
+ *
+ * Runs every deploy step against a fork of DEPLOY_PLAN_NETWORK (see hardhat.config.ts),
+ * writing to the scratch copy of deployedContracts.json at DEPLOYED_CONTRACTS_PATH, then
+ * prints which contracts would be deployed or reused, the calls made to existing
+ * contracts, the gas each transaction used and the resulting deployedContracts.json diff.
+ * Deployed addresses match the real run only when PRIVATE_KEY is set and its nonce
+ * doesn't move in between.
+ *
+ * Started by deploy-all: npm run plan:deploy -- --network moonbeam
+ */
+
+const { ethers } = hre;
+
+const STEPS: Array<{ name: string; run: () => Promise<void> }> = [
+  { name: "ShariaCompliance", run: deployShariaCompliance },
+  { name: "CrosschainSwapInitiator", run: deployCrosschainInitiator },
+  { name: "ShariaLocalSwap", run: deployShariaLocalSwap },
+  { name: "ShariaDCA", run: deployShariaDCA },
+];
+
+interface PlannedTransaction {
+  label: string;
+  /** True for calls to contracts that existed before the plan ran */
+  rewiring: boolean;
+  gasUsed: bigint;
+  fee: bigint;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * One line per changed leaf: `+` added, `-` removed, `~` changed. Arrays are compared whole.
+ */
+function diffJson(before: unknown, after: unknown, at: string, lines: string[]): void {
+  if ((isPlainObject(before) || before === undefined) && (isPlainObject(after) || after === undefined)) {
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    for (const key of keys) {
+      diffJson(before?.[key], after?.[key], at ? `${at}.${key}` : key, lines);
+    }
+    return;
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+  if (before === undefined) {
+    lines.push(`+ ${at}: ${JSON.stringify(after)}`);
+  } else if (after === undefined) {
+    lines.push(`- ${at}: ${JSON.stringify(before)}`);
+  } else {
+    lines.push(`~ ${at}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`);
+  }
+}
+
+/**
+ * Contract name for each address in a deployment's `main` section (lowercase keys)
+ */
+function mainContractNames(deployment: DeployedContracts | undefined): Map<string, string> {
+  const names = new Map<string, string>();
+  if (!deployment) {
+    return names;
+  }
+  for (const [key, address] of Object.entries(deployment.main) as Array<[keyof DeployedMain, string | null]>) {
+    if (address) {
+      names.set(address.toLowerCase(), deployment.metadata.contracts?.[key]?.contractName ?? MAIN_CONTRACT_NAMES[key]);
+    }
+  }
+  return names;
+}
+
+async function functionName(contractName: string, tx: TransactionResponse): Promise<string> {
+  try {
+    const { abi } = await hre.artifacts.readArtifact(contractName);
+    return new Interface(abi).parseTransaction({ data: tx.data, value: tx.value })?.name ?? tx.data.slice(0, 10);
+  } catch {
+    return tx.data.slice(0, 10);
+  }
+}
+
+/**
+ * Every transaction mined on the fork after `fromBlock`, labelled by the contract it deployed or called
+ */
+async function collectTransactions(
+  fromBlock: number,
+  before: DeployedContracts | undefined,
+  after: DeployedContracts | undefined
+): Promise<PlannedTransaction[]> {
+  const existing = mainContractNames(before);
+  const known = new Map([...mainContractNames(after), ...existing]);
+  const transactions: PlannedTransaction[] = [];
+
+  const latest = await ethers.provider.getBlockNumber();
+  for (let blockNumber = fromBlock + 1; blockNumber <= latest; blockNumber++) {
+    const block = await ethers.provider.getBlock(blockNumber, true);
+    for (const tx of block?.prefetchedTransactions ?? []) {
+      const receipt = (await ethers.provider.getTransactionReceipt(tx.hash)) as TransactionReceipt;
+      const fee = receipt.gasUsed * receipt.gasPrice;
+      if (!tx.to) {
+        const address = receipt.contractAddress?.toLowerCase() ?? "";
+        transactions.push({ label: `deploy ${known.get(address) ?? address}`, rewiring: false, gasUsed: receipt.gasUsed, fee });
+        continue;
+      }
+      const contractName = known.get(tx.to.toLowerCase());
+      const label = contractName ? `${contractName}.${await functionName(contractName, tx)}` : `${tx.to} ${tx.data.slice(0, 10)}`;
+      transactions.push({ label, rewiring: existing.has(tx.to.toLowerCase()), gasUsed: receipt.gasUsed, fee });
+    }
+  }
+  return transactions;
+}
+
+async function main() {
+  const target = process.env.DEPLOY_PLAN_NETWORK;
+  if (hre.network.name !== "hardhat" || !target || !process.env.DEPLOYED_CONTRACTS_PATH) {
+    throw new Error("Run deploy plans through deploy-all: npm run plan:deploy -- --network <name>");
+  }
+
+  const chainId = await getNetworkChainId();
+  const before = findDeployment(loadDeploymentRegistry(), chainId);
+  const startBlock = await ethers.provider.getBlockNumber();
+  const forking = (hre.network.config as HardhatNetworkConfig).forking;
+  const [deployer] = await ethers.getSigners();
+
+  console.log(`🧪 Deploy plan for ${target} (chain ${chainId})`);
+  console.log(forking?.enabled ? `   Forked at block ${startBlock}` : "   Fresh in-process chain (nothing to fork)");
+  console.log(`   Deployer: ${deployer.address}${process.env.PRIVATE_KEY ? "" : " (Hardhat test account; set PRIVATE_KEY to plan as the real deployer)"}`);
+  console.log("   config/deployedContracts.json is not modified\n");
+
+  const failures: Array<{ name: string; message: string }> = [];
+  for (const step of STEPS) {
+    console.log("=".repeat(60));
+    console.log(`📦 ${step.name}`);
+    console.log("=".repeat(60));
+    try {
+      await step.run();
+    } catch (error: any) {
+      console.error(`❌ ${step.name} would fail: ${error.message}\n`);
+      failures.push({ name: step.name, message: error.message });
+    }
+  }
+
+  const after = findDeployment(loadDeploymentRegistry(), chainId);
+  const transactions = await collectTransactions(startBlock, before, after);
+
+  console.log("=".repeat(60));
+  console.log(`📋 DEPLOY PLAN: ${target}`);
+  console.log("=".repeat(60));
+
+  console.log("\nContracts:");
+  for (const key of Object.keys(MAIN_CONTRACT_NAMES) as Array<keyof DeployedMain>) {
+    const previous = before?.main[key] ?? null;
+    const planned = after?.main[key] ?? null;
+    if (!planned) continue;
+    const name = after?.metadata.contracts?.[key]?.contractName ?? MAIN_CONTRACT_NAMES[key];
+    if (previous && previous.toLowerCase() === planned.toLowerCase()) {
+      console.log(`   ⏭️  reuse   ${name.padEnd(28)} ${planned}`);
+    } else {
+      console.log(`   🆕 deploy  ${name.padEnd(28)} ${planned}${previous ? ` (replaces ${previous})` : ""}`);
+    }
+  }
+
+  const rewiring = transactions.filter((tx) => tx.rewiring);
+  if (rewiring.length > 0) {
+    console.log("\nCalls to existing contracts (re-wiring):");
+    const counts = new Map<string, number>();
+    for (const tx of rewiring) {
+      counts.set(tx.label, (counts.get(tx.label) ?? 0) + 1);
+    }
+    for (const [label, count] of counts) {
+      console.log(`   🔧 ${label}${count > 1 ? ` × ${count}` : ""}`);
+    }
+  }
+
+  console.log("\nGas (at the fork's fee levels):");
+  const gasByLabel = new Map<string, { count: number; gasUsed: bigint; fee: bigint }>();
+  for (const tx of transactions) {
+    const entry = gasByLabel.get(tx.label) ?? { count: 0, gasUsed: 0n, fee: 0n };
+    gasByLabel.set(tx.label, { count: entry.count + 1, gasUsed: entry.gasUsed + tx.gasUsed, fee: entry.fee + tx.fee });
+  }
+  let totalGas = 0n;
+  let totalFee = 0n;
+  for (const [label, { count, gasUsed, fee }] of gasByLabel) {
+    const name = count > 1 ? `${label} × ${count}` : label;
+    console.log(`   ${name.padEnd(50)} ${gasUsed.toLocaleString().padStart(12)} gas  ${ethers.formatEther(fee)} GLMR`);
+    totalGas += gasUsed;
+    totalFee += fee;
+  }
+  console.log(`   ${"Total".padEnd(50)} ${totalGas.toLocaleString().padStart(12)} gas  ${ethers.formatEther(totalFee)} GLMR`);
+
+  const diff: string[] = [];
+  diffJson(before, after, "", diff);
+  console.log(`\ndeployedContracts.json changes (deployments.${chainId}):`);
+  console.log(diff.length > 0 ? diff.map((line) => `   ${line}`).join("\n") : "   (none)");
+
+  if (failures.length > 0) {
+    console.log("\n❌ Failed steps:");
+    for (const failure of failures) {
+      console.log(`   - ${failure.name}: ${failure.message}`);
+    }
+    process.exitCode = 1;
+  }
+  console.log();
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
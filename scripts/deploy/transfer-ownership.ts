@@ -0,0 +1,184 @@
+import hre from "hardhat";
+import * as dotenv from "dotenv";
+import { ContractCall } from "../../sdk";
+import { DeployedContracts, DeployedMain, OwnershipTransferRecord } from "../../config/types";
+import { saveDeployedContracts } from "../utils/configLoader";
+import { MAIN_CONTRACT_NAMES, buildTxOverrides } from "../utils/deployHelpers";
+import { UnsignedTransaction, encodeContractCall, getCalldataExportPath, writeCalldataExport } from "../utils/multisig";
+import { getNetworkChainId, loadNetworkDeployment } from "../utils/network";
+import { readContract, writeContract } from "../utils/sdkContracts";
+
+dotenv.config();
+
+const { ethers } = hre;
+
+/**
+ * Hand ownership of every deployed Ownable contract to a multisig
+ *
+ * The multisig is MULTISIG_ADDRESS, or the one already recorded in
+ * metadata.ownership. For each contract in `main` owned by the PRIVATE_KEY signer this
+ * plans transferOwnership(multisig); nothing is sent unless OWNERSHIP_EXECUTE=true.
+ * Each confirmed transfer is checked with owner() and recorded under
+ * metadata.ownership.transfers in deployedContracts.json straight away, so a rerun
+ * picks up where a failed one stopped.
+ *
+ * Ownable transfers in one step, so the multisig must be a contract (a typo would lose
+ * the contracts for good); OWNERSHIP_ALLOW_EOA=true overrides this for test networks.
+ * With --export-calldata (EXPORT_CALLDATA), transfers of contracts owned by someone
+ * else (e.g. an earlier multisig) are exported for that owner to execute instead.
+ *
+ * Usage: MULTISIG_ADDRESS=0x… OWNERSHIP_EXECUTE=true npx hardhat run scripts/deploy/transfer-ownership.ts --network moonbeam
+ */
+
+const OWNABLE_ABI = ["function owner() view returns (address)", "function transferOwnership(address newOwner)"];
+
+function isEnabled(name: string): boolean {
+  return ["1", "true", "yes"].includes((process.env[name] ?? "").toLowerCase());
+}
+
+function ownableCall(address: string, functionName: string, args: unknown[] = []): ContractCall {
+  return { address: address as ContractCall["address"], abi: OWNABLE_ABI, functionName, args };
+}
+
+async function main() {
+  const chainId = await getNetworkChainId();
+  let deployment: DeployedContracts = await loadNetworkDeployment();
+  const multisigInput = process.env.MULTISIG_ADDRESS || deployment.metadata.ownership?.multisig;
+  if (!multisigInput) {
+    throw new Error("Set MULTISIG_ADDRESS to the multisig that should own the contracts");
+  }
+  const multisig = ethers.getAddress(multisigInput);
+  const recorded = deployment.metadata.ownership;
+  if (recorded && recorded.multisig.toLowerCase() !== multisig.toLowerCase()) {
+    console.warn(`⚠️  Replacing recorded multisig ${recorded.multisig} with ${multisig}`);
+  }
+
+  if ((await ethers.provider.getCode(multisig)) === "0x" && !isEnabled("OWNERSHIP_ALLOW_EOA")) {
+    throw new Error(`${multisig} has no contract code; set OWNERSHIP_ALLOW_EOA=true if it really is an EOA`);
+  }
+
+  const exportPath = getCalldataExportPath("transfer-ownership", chainId);
+  const execute = isEnabled("OWNERSHIP_EXECUTE");
+  const [signer] = await ethers.getSigners();
+
+  console.log("🔐 Ownership handoff\n");
+  console.log("   Multisig:", multisig);
+  console.log("   Signer:  ", signer.address, "\n");
+
+  const exportTransfer = (name: string, address: string) =>
+    encodeContractCall(ownableCall(address, "transferOwnership", [multisig]), `${name}.transferOwnership(${multisig})`);
+
+  const planned: Array<{ key: keyof DeployedMain; name: string; address: string; owner: string }> = [];
+  const exported: UnsignedTransaction[] = [];
+  const exportOwners = new Set<string>();
+
+  for (const [key, address] of Object.entries(deployment.main) as Array<[keyof DeployedMain, string | null]>) {
+    if (!address) continue;
+    const name = deployment.metadata.contracts?.[key]?.contractName ?? MAIN_CONTRACT_NAMES[key];
+    if ((await ethers.provider.getCode(address)) === "0x") {
+      console.log(`⏭️  ${name}: no code at ${address}`);
+      continue;
+    }
+
+    let owner: string;
+    try {
+      owner = await readContract<string>(ethers.provider, ownableCall(address, "owner"));
+    } catch {
+      console.log(`⏭️  ${name}: not Ownable`);
+      continue;
+    }
+
+    if (owner.toLowerCase() === multisig.toLowerCase()) {
+      const transfer = recorded?.multisig.toLowerCase() === multisig.toLowerCase() ? recorded.transfers[key] : undefined;
+      const unrecorded = !transfer || transfer.address.toLowerCase() !== address.toLowerCase();
+      console.log(`✅ ${name}: already owned by the multisig${unrecorded ? " (transferred outside this script, not recorded)" : ""}`);
+    } else if (owner.toLowerCase() === signer.address.toLowerCase()) {
+      console.log(`➡️  ${name}: ${owner} → ${multisig}`);
+      planned.push({ key, name, address, owner });
+    } else if (exportPath) {
+      console.log(`📤 ${name}: owned by ${owner}, exporting the transfer for that owner`);
+      exported.push(exportTransfer(name, address));
+      exportOwners.add(owner);
+    } else {
+      console.warn(`⚠️  ${name}: owned by ${owner}, not the signer; rerun with --export-calldata for that owner`);
+    }
+  }
+  console.log();
+
+  if (exportPath) {
+    // The signer's own transfers are exported too, so the whole handoff is one batch
+    for (const step of planned) {
+      exported.push(exportTransfer(step.name, step.address));
+      exportOwners.add(step.owner);
+    }
+    if (exported.length === 0) {
+      console.log("✅ Nothing to export\n");
+      return;
+    }
+    if (exportOwners.size > 1) {
+      console.warn(`⚠️  The batch mixes owners (${[...exportOwners].join(", ")}); each call must come from its contract's owner\n`);
+    }
+    writeCalldataExport(exportPath, {
+      chainId,
+      name: "Tayeb ownership handoff",
+      safe: exportOwners.size === 1 ? [...exportOwners][0] : undefined,
+      transactions: exported,
+    });
+    return;
+  }
+
+  if (planned.length === 0) {
+    console.log("✅ Nothing to transfer\n");
+    return;
+  }
+  if (!execute) {
+    console.log("ℹ️  Dry run. Set OWNERSHIP_EXECUTE=true to send these transfers.\n");
+    return;
+  }
+
+  for (const step of planned) {
+    const tx = await writeContract(signer, ownableCall(step.address, "transferOwnership", [multisig]), await buildTxOverrides());
+    console.log(`⏳ ${step.name}: ${tx.hash}`);
+    const receipt = await tx.wait();
+    const owner = await readContract<string>(ethers.provider, ownableCall(step.address, "owner"));
+    if (!receipt || owner.toLowerCase() !== multisig.toLowerCase()) {
+      throw new Error(`${step.name} still reports owner ${owner} after ${tx.hash}`);
+    }
+
+    const transfer: OwnershipTransferRecord = {
+      address: step.address,
+      previousOwner: step.owner,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      transferredAt: new Date().toISOString(),
+    };
+    deployment = {
+      ...deployment,
+      metadata: {
+        ...deployment.metadata,
+        ownership: {
+          multisig,
+          // Transfers recorded for a different multisig no longer describe who owns what
+          transfers: {
+            ...(deployment.metadata.ownership?.multisig.toLowerCase() === multisig.toLowerCase()
+              ? deployment.metadata.ownership.transfers
+              : {}),
+            [step.key]: transfer,
+          },
+        },
+      },
+    };
+    saveDeployedContracts(deployment);
+    console.log(`✅ ${step.name}: now owned by ${multisig} (block ${receipt.blockNumber})`);
+  }
+
+  console.log("\n📝 Recorded in deployedContracts.json under metadata.ownership");
+  console.log("💡 Run npm run audit:wiring to confirm every owner\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,31 +1,79 @@
-import { run } from "hardhat";
-import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import xcmConfig from "../../config/xcmConfig.json";
-import { TayebCoinsConfig, DeployedContracts } from "../../config/types";
+import hre, { run } from "hardhat";
+import { DeployedContracts, DeployedMain } from "../../config/types";
+import { ArtifactBytecode, BytecodeMatch, compareRuntimeBytecode, hashRuntimeBytecode, loadArtifactBytecode } from "../utils/bytecode";
+import { loadXcmConfig } from "../utils/configLoader";
+import { MAIN_CONTRACT_NAMES } from "../utils/deployHelpers";
+import { loadNetworkDeployment } from "../utils/network";
 
 /**
  * Verify deployed contracts on Moonbeam mainnet
  *
  * This script verifies:
- * 1. All configured ERC20 tokens (optional mocks)
- * 2. Core Tayeb contracts (ShariaCompliance, ShariaLocalSwap, ShariaDCA)
+ * 1. That the runtime code at each address in `main` matches the compiled artifacts in
+ *    this checkout, and the hash recorded in metadata.contracts when it was deployed
+ * 2. All configured ERC20 tokens (optional mocks)
+ * 3. Core Tayeb contracts (ShariaCompliance, ShariaLocalSwap, ShariaDCA) on Moonscan
  *
- * Requires ETHERSCAN_API_KEY to be set in .env file.
+ * Moonscan verification requires ETHERSCAN_API_KEY to be set in .env file; set
+ * VERIFY_SKIP_EXPLORER=true to only run the bytecode check. Exits non-zero when
+ * on-chain code differs from the artifacts.
  * Checks verification status before attempting to avoid unnecessary API calls.
  */
-async function main() {
-  const config = tayebCoinsConfig as TayebCoinsConfig;
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
 
-  console.log("🔍 Verifying all contracts on Moonbeam...\n");
+const BYTECODE_STATUS: Record<BytecodeMatch | "no-artifact", string> = {
+  match: "✅ matches artifact",
+  "metadata-only": "⚠️  same code, different source metadata",
+  mismatch: "❌ differs from artifact",
+  "no-code": "❌ no code at address",
+  "no-artifact": "⏭️  no artifact in this checkout",
+};
 
-  if (!process.env.ETHERSCAN_API_KEY) {
-    console.error("❌ Error: ETHERSCAN_API_KEY not found in environment variables!");
-    console.log("\n📝 Please add ETHERSCAN_API_KEY to your .env file:");
-    console.log("   Get API key from: https://moonscan.io/myapikey\n");
-    process.exit(1);
+/**
+ * Compare every deployed `main` contract with its artifact and deployment record.
+ * Returns the number of contracts whose code differs or is missing.
+ */
+async function checkOnChainBytecode(contractsConfig: DeployedContracts): Promise<number> {
+  console.log("=".repeat(60));
+  console.log("🧬 CHECKING ON-CHAIN BYTECODE");
+  console.log("=".repeat(60));
+
+  let problems = 0;
+  for (const [key, address] of Object.entries(contractsConfig.main) as Array<[keyof DeployedMain, string | null]>) {
+    if (!address) continue;
+
+    const record = contractsConfig.metadata.contracts?.[key];
+    const contractName = record?.contractName ?? MAIN_CONTRACT_NAMES[key];
+    let artifact: ArtifactBytecode;
+    try {
+      artifact = await loadArtifactBytecode(contractName);
+    } catch {
+      console.log(`${contractName.padEnd(30)} ${BYTECODE_STATUS["no-artifact"]}`);
+      continue;
+    }
+
+    const code = await hre.ethers.provider.getCode(address);
+    const status = compareRuntimeBytecode(code, artifact);
+    console.log(`${contractName.padEnd(30)} ${BYTECODE_STATUS[status]} (${address})`);
+    if (status === "mismatch" || status === "no-code") {
+      problems++;
+    }
+
+    if (!record) {
+      console.log(`${"".padEnd(30)} ℹ️  no deployment record; redeploy or record it to track changes`);
+    } else if (status !== "no-code" && hashRuntimeBytecode(code, artifact) !== record.runtimeBytecodeHash) {
+      console.log(`${"".padEnd(30)} ❌ code changed since deployment in tx ${record.txHash}`);
+      problems++;
+    }
   }
+  console.log();
+  return problems;
+}
+
+async function main() {
+  const contractsConfig = await loadNetworkDeployment();
+  const xcmConfig = loadXcmConfig();
+
+  console.log(`🔍 Verifying all contracts on ${hre.network.name}...\n`);
 
   // Compile contracts first to ensure artifacts are up to date
   console.log("🔨 Compiling contracts...");
@@ -38,6 +86,23 @@ async function main() {
     console.log();
   }
 
+  const bytecodeProblems = await checkOnChainBytecode(contractsConfig);
+  if (bytecodeProblems > 0) {
+    process.exitCode = 1;
+  }
+
+  if (process.env.VERIFY_SKIP_EXPLORER === "true") {
+    console.log(bytecodeProblems > 0 ? `❌ ${bytecodeProblems} contract(s) differ from the artifacts` : "✅ Bytecode check passed");
+    return;
+  }
+
+  if (!process.env.ETHERSCAN_API_KEY) {
+    console.error("❌ Error: ETHERSCAN_API_KEY not found in environment variables!");
+    console.log("\n📝 Please add ETHERSCAN_API_KEY to your .env file:");
+    console.log("   Get API key from: https://moonscan.io/myapikey\n");
+    process.exit(1);
+  }
+
   const results = {
     tokens: { verified: 0, failed: 0 },
     main: { verified: 0, failed: 0 },
@@ -130,7 +195,11 @@ async function main() {
   const routerAddress = contractsConfig.amm?.router;
   const wethAddress = contractsConfig.amm?.weth;
   if (shariaLocalSwapAddress && shariaComplianceAddress && routerAddress && wethAddress) {
-    const swapArgs = [shariaComplianceAddress, routerAddress, wethAddress];
+    const swapArgs = contractsConfig.metadata.contracts?.shariaLocalSwap?.constructorArgs ?? [
+      shariaComplianceAddress,
+      routerAddress,
+      wethAddress,
+    ];
     const result = await verifyContract("main", "ShariaLocalSwap", shariaLocalSwapAddress, swapArgs, "ShariaLocalSwap");
     if (result === "verified") results.main.verified++;
     else results.main.failed++;
@@ -140,7 +209,11 @@ async function main() {
   // ShariaDCA (shariaCompliance, router, weth)
   const shariaDCAAddress = contractsConfig.main?.shariaDCA;
   if (shariaDCAAddress && shariaComplianceAddress && routerAddress && wethAddress) {
-    const dcaArgs = [shariaComplianceAddress, routerAddress, wethAddress];
+    const dcaArgs = contractsConfig.metadata.contracts?.shariaDCA?.constructorArgs ?? [
+      shariaComplianceAddress,
+      routerAddress,
+      wethAddress,
+    ];
     const result = await verifyContract("main", "ShariaDCA", shariaDCAAddress, dcaArgs, "ShariaDCA");
     if (result === "verified") results.main.verified++;
     else results.main.failed++;
@@ -204,12 +277,16 @@ async function main() {
     });
   }
 
+  if (bytecodeProblems > 0) {
+    console.log(`\n❌ ${bytecodeProblems} contract(s) differ from the artifacts (see the bytecode check above)`);
+  }
+
   console.log("\n💡 View verified contracts on Moonscan:");
   console.log("   https://moonscan.io");
 }
 
 main()
-  .then(() => process.exit(0))
+  .then(() => process.exit(process.exitCode ?? 0))
   .catch((error) => {
     console.error(error);
     process.exit(1);
@@ -0,0 +1,108 @@
+import hre from "hardhat";
+import { keccak256 } from "ethers";
+import { CompilerSettings } from "../../config/types";
+
+/**
+ * Compare deployed runtime code with the compiled artifacts in this checkout
+ *
+ * Immutable values are written into the runtime code at deploy time, so they are
+ * zeroed (as in the artifact) before comparing or hashing. The CBOR metadata solc
+ * appends hashes the sources, so code that differs only there was built from
+ * different source text (comments, paths) but compiles to the same instructions.
+ */
+
+export interface ArtifactBytecode {
+  contractName: string;
+  /** Creation code, the prefix of a deployment transaction's data */
+  bytecode: string;
+  /** Runtime code with immutables zeroed */
+  deployedBytecode: string;
+  /** Byte ranges in the runtime code holding immutable values */
+  immutableRanges: Array<{ start: number; length: number }>;
+  compiler: CompilerSettings;
+}
+
+/**
+ * - match: identical to the artifact
+ * - metadata-only: same instructions, different source metadata hash
+ * - mismatch: different code
+ * - no-code: nothing deployed at the address
+ */
+export type BytecodeMatch = "match" | "metadata-only" | "mismatch" | "no-code";
+
+/**
+ * Bytecode, immutable ranges and compiler settings for a Hardhat artifact
+ */
+export async function loadArtifactBytecode(contractName: string): Promise<ArtifactBytecode> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${contractName}; run npx hardhat compile`);
+  }
+
+  const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName];
+  const immutableReferences = output.evm.deployedBytecode.immutableReferences ?? {};
+  const settings = buildInfo.input.settings;
+
+  return {
+    contractName: artifact.contractName,
+    bytecode: artifact.bytecode,
+    deployedBytecode: artifact.deployedBytecode,
+    immutableRanges: Object.values(immutableReferences).flat(),
+    compiler: {
+      version: buildInfo.solcLongVersion,
+      optimizer: {
+        enabled: settings.optimizer?.enabled ?? false,
+        runs: settings.optimizer?.runs ?? 200,
+      },
+      viaIR: settings.viaIR ?? false,
+      evmVersion: settings.evmVersion ?? "default",
+    },
+  };
+}
+
+/**
+ * Runtime code with the artifact's immutable ranges zeroed
+ */
+export function maskImmutables(code: string, artifact: ArtifactBytecode): string {
+  const hex = code.toLowerCase().replace(/^0x/, "").split("");
+  for (const { start, length } of artifact.immutableRanges) {
+    hex.fill("0", start * 2, (start + length) * 2);
+  }
+  return "0x" + hex.join("");
+}
+
+/**
+ * Code without the CBOR metadata solc appends (its length is in the last two bytes)
+ */
+function stripMetadata(code: string): string {
+  const hex = code.replace(/^0x/, "");
+  if (hex.length < 4) {
+    return hex;
+  }
+  const metadataLength = parseInt(hex.slice(-4), 16);
+  const end = hex.length - (metadataLength + 2) * 2;
+  return end > 0 ? hex.slice(0, end) : hex;
+}
+
+/**
+ * The hash recorded as `runtimeBytecodeHash`: keccak256 of the code with immutables zeroed
+ */
+export function hashRuntimeBytecode(code: string, artifact: ArtifactBytecode): string {
+  return keccak256(maskImmutables(code, artifact));
+}
+
+/**
+ * How on-chain runtime code compares with an artifact
+ */
+export function compareRuntimeBytecode(code: string, artifact: ArtifactBytecode): BytecodeMatch {
+  if (!code || code === "0x") {
+    return "no-code";
+  }
+  const onChain = maskImmutables(code, artifact);
+  const expected = artifact.deployedBytecode.toLowerCase();
+  if (onChain === expected) {
+    return "match";
+  }
+  return stripMetadata(onChain) === stripMetadata(expected) ? "metadata-only" : "mismatch";
+}
@@ -0,0 +1,132 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress } from "ethers";
+import {
+  TayebCoinsConfig,
+  DeployedContracts,
+  DeploymentRegistry,
+  HydrationAssetRegistry,
+  XcmConfig,
+} from "../../config/types";
+import { getDeployment, setDeployment } from "../../sdk/deployments";
+import {
+  ValidationOptions,
+  parseTayebCoinsConfig,
+  parseXcmConfig,
+  parseDeployedContracts,
+  parseHydrationAssetRegistry,
+} from "../../config/validation";
+
+/**
+ * Validated access to the JSON files in config/
+ *
+ * Scripts should read and write config only through these helpers so that a
+ * malformed file fails fast with a ConfigValidationError listing every issue,
+ * instead of surfacing later as a bad transaction.
+ */
+
+export const CONFIG_DIR = path.join(__dirname, "..", "..", "config");
+export const TAYEB_COINS_PATH = path.join(CONFIG_DIR, "tayebCoins.json");
+export const XCM_CONFIG_PATH = path.join(CONFIG_DIR, "xcmConfig.json");
+// A deploy plan points DEPLOYED_CONTRACTS_PATH at a scratch copy (see scripts/deploy/plan-deploy.ts)
+export const DEPLOYED_CONTRACTS_PATH =
+  process.env.DEPLOYED_CONTRACTS_PATH || path.join(CONFIG_DIR, "deployedContracts.json");
+export const CONFIG_BACKUP_DIR = path.join(CONFIG_DIR, "backups");
+export const HYDRATION_ASSET_REGISTRY_PATH = path.join(CONFIG_DIR, "..", "hydration-asset-registry.json");
+
+export const validationOptions: ValidationOptions = {
+  checksumAddress: (address) => getAddress(address),
+};
+
+/**
+ * Read and parse a JSON file, naming the file in any error
+ */
+export function readJsonFile(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to parse ${path.basename(filePath)}: ${error.message}`);
+  }
+}
+
+function writeJsonFile(filePath: string, data: unknown): void {
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + "\n");
+}
+
+/**
+ * Load and validate config/tayebCoins.json
+ */
+export function loadTayebCoinsConfig(): TayebCoinsConfig {
+  return parseTayebCoinsConfig(readJsonFile(TAYEB_COINS_PATH), validationOptions);
+}
+
+/**
+ * Load and validate config/xcmConfig.json (token mappings are cross-checked against tayebCoins.json)
+ */
+export function loadXcmConfig(): XcmConfig {
+  return parseXcmConfig(readJsonFile(XCM_CONFIG_PATH), validationOptions, loadTayebCoinsConfig());
+}
+
+/**
+ * Load and validate the Hydration Omnipool snapshot in hydration-asset-registry.json
+ */
+export function loadHydrationAssetRegistry(): HydrationAssetRegistry {
+  return parseHydrationAssetRegistry(readJsonFile(HYDRATION_ASSET_REGISTRY_PATH));
+}
+
+/**
+ * Validate and write hydration-asset-registry.json
+ */
+export function saveHydrationAssetRegistry(registry: HydrationAssetRegistry): void {
+  writeJsonFile(HYDRATION_ASSET_REGISTRY_PATH, parseHydrationAssetRegistry(registry));
+}
+
+/**
+ * Load and validate config/deployedContracts.json (every chain's deployment)
+ */
+export function loadDeploymentRegistry(): DeploymentRegistry {
+  return parseDeployedContracts(readJsonFile(DEPLOYED_CONTRACTS_PATH), validationOptions);
+}
+
+/**
+ * Load the deployment entry for one chain (throws if that chain has none)
+ */
+export function loadDeployedContracts(chainId: number): DeployedContracts {
+  return getDeployment(loadDeploymentRegistry(), chainId);
+}
+
+/**
+ * Validate and write config/tayebCoins.json
+ */
+export function saveTayebCoinsConfig(config: TayebCoinsConfig): void {
+  writeJsonFile(TAYEB_COINS_PATH, parseTayebCoinsConfig(config, validationOptions));
+}
+
+/**
+ * Validate and write config/xcmConfig.json (token mappings are cross-checked against tayebCoins.json)
+ */
+export function saveXcmConfig(config: XcmConfig): void {
+  writeJsonFile(XCM_CONFIG_PATH, parseXcmConfig(config, validationOptions, loadTayebCoinsConfig()));
+}
+
+/**
+ * Copy a config file to config/backups/<name>.v<version>.<timestamp>.json and return the copy's path
+ */
+export function backupConfigFile(filePath: string, version: string): string {
+  fs.mkdirSync(CONFIG_BACKUP_DIR, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(CONFIG_BACKUP_DIR, `${path.basename(filePath, ".json")}.v${version}.${stamp}.json`);
+  fs.copyFileSync(filePath, backupPath);
+  return backupPath;
+}
+
+/**
+ * Store one chain's deployment entry in config/deployedContracts.json, leaving other chains untouched
+ */
+export function saveDeployedContracts(contracts: DeployedContracts): void {
+  const registry = setDeployment(loadDeploymentRegistry(), contracts);
+  writeJsonFile(DEPLOYED_CONTRACTS_PATH, parseDeployedContracts(registry, validationOptions));
+}
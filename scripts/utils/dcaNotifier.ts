@@ -0,0 +1,393 @@
+import * as crypto from "crypto";
+import * as dns from "dns";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as path from "path";
+import { verifyMessage } from "ethers";
+import {
+  Address,
+  DCADelivery,
+  DCANotificationType,
+  DCANotifierPolicy,
+  DCANotifierState,
+  DCA_NOTIFICATION_TYPES,
+  DEFAULT_DCA_NOTIFIER_POLICY,
+  addDCAWebhookSubscription,
+  createDCANotifierState,
+  dcaNotifierAuthMessage,
+  isPrivateIpAddress,
+  isSameAddress,
+  listDCADeliveries,
+  listDCAWebhookSubscriptions,
+  removeDCAWebhookSubscription,
+  validateWebhookUrl,
+} from "../../sdk";
+import { receiptPath } from "./receipts";
+
+/**
+ * DCA notifier plumbing: its state file, HMAC-signed webhook delivery and the HTTP API
+ * owners register endpoints through (sdk/dcaNotifications.ts decides what goes where)
+ *
+ * Every webhook is a JSON DCANotification POSTed with X-Tayeb-Event, X-Tayeb-Delivery and
+ * X-Tayeb-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" keyed with the
+ * endpoint's secret>. Receivers should check it with verifyWebhookSignature (or the same
+ * HMAC in their own stack) and drop timestamps older than five minutes.
+ *
+ * Owners sign in by fetching a one-time nonce from GET /nonce and POSTing a personal_sign of
+ * dcaNotifierAuthMessage (the configured domain, the notifier's chain and that nonce) to
+ * /session. The session token it answers with goes in `Authorization: Bearer <token>` on
+ * every other call; sessions live in memory, so a restart means signing in again.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Tayeb-Signature";
+
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Clock skew allowed on a signed login's issue time
+const AUTH_FUTURE_SKEW_SECONDS = 60;
+// A sign-in nonce must be signed and used within this
+const NONCE_TTL_SECONDS = 300;
+// Outstanding nonces and sessions kept at most; the oldest go first
+const MAX_PENDING_AUTH = 10_000;
+const MAX_BODY_BYTES = 16 * 1024;
+
+export function notifierStatePath(chainId: number): string {
+  return process.env.NOTIFIER_STATE_PATH || receiptPath("notifier", chainId);
+}
+
+/**
+ * Load the state for this ShariaDCA deployment; a file left by an earlier deployment
+ * (or none at all) starts a fresh state
+ */
+export function loadNotifierState(filePath: string, chainId: number, shariaDCA: Address): DCANotifierState {
+  if (fs.existsSync(filePath)) {
+    const state = JSON.parse(fs.readFileSync(filePath, "utf-8")) as DCANotifierState;
+    if (state.chainId === chainId && isSameAddress(state.shariaDCA, shariaDCA)) {
+      return state;
+    }
+    console.warn(`⚠️  ${path.basename(filePath)} belongs to ShariaDCA ${state.shariaDCA} on chain ${state.chainId}, starting fresh`);
+  }
+  return createDCANotifierState(chainId, shariaDCA);
+}
+
+export function saveNotifierState(filePath: string, state: DCANotifierState): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2) + "\n");
+  fs.renameSync(tempPath, filePath);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString("hex")}`;
+}
+
+function webhookHmac(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${webhookHmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Whether a X-Tayeb-Signature header matches the raw body and is recent enough
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Math.floor(Date.now() / 1000),
+  toleranceSeconds: number = WEBHOOK_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(webhookHmac(secret, timestamp, body), "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * dns.lookup for the connection itself that refuses private addresses, so a name that
+ * passed validateWebhookUrl can't be rebound to the notifier's own network between the
+ * check and the connect
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    const blocked = addresses.find((entry) => isPrivateIpAddress(entry.address));
+    if (blocked) {
+      callback(new Error(`${hostname} resolves to private address ${blocked.address}`), "");
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST one delivery. Redirects aren't followed, so an endpoint can't bounce the notifier
+ * to an address it wasn't registered with, and unless `allowInsecure` the URL is checked
+ * again and its host must resolve to public addresses only.
+ */
+export async function sendWebhook(
+  delivery: DCADelivery,
+  secret: string,
+  options: { allowInsecure?: boolean } = {}
+): Promise<{ statusCode: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.notification);
+  try {
+    // Endpoints registered before a rule tightened are held to it too
+    const url = new URL(validateWebhookUrl(delivery.url, options.allowInsecure));
+    const statusCode = await new Promise<number>((resolve, reject) => {
+      const request = (url.protocol === "https:" ? https : http).request(url, {
+        method: "POST",
+        lookup: options.allowInsecure ? undefined : publicOnlyLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+          "User-Agent": "Tayeb-DCA-Notifier",
+          "X-Tayeb-Event": delivery.notification.type,
+          "X-Tayeb-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+        },
+      });
+      request.on("response", (response) => {
+        // Drain the body so the connection is released
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on("error", reject);
+      request.end(body);
+    });
+    const ok = statusCode >= 200 && statusCode < 300;
+    return { statusCode, error: ok ? null : `HTTP ${statusCode}` };
+  } catch (error: any) {
+    return { statusCode: null, error: error?.code ?? error?.message ?? String(error) };
+  }
+}
+
+/**
+ * The notifier state the API reads and changes; `update` persists it
+ */
+export interface DCANotifierStore {
+  get(): DCANotifierState;
+  update(next: DCANotifierState): void;
+}
+
+export interface DCANotifierServerOptions {
+  policy?: DCANotifierPolicy;
+  /** Accept http:// endpoints and loopback or private hosts, for local sinks */
+  allowInsecure?: boolean;
+  /** Access-Control-Allow-Origin for the frontend */
+  corsOrigin?: string;
+  /**
+   * Host (and port) the frontend reaches the API at, which sign-ins must name. Never taken
+   * from a request's Host header, which whoever relays a signature controls.
+   */
+  domain: string;
+}
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function readJsonBody(request: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    request.setEncoding("utf-8");
+    request.on("data", (chunk: string) => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        reject(new ApiError(413, "Body too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new ApiError(400, "Body must be JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Values by key that expire; once full, adding drops the oldest
+ */
+function createExpiringMap<T>() {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  const get = (key: string, now: number): T | undefined => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= now) entries.delete(key);
+    return entry && entry.expiresAt > now ? entry.value : undefined;
+  };
+  return {
+    set(key: string, value: T, expiresAt: number) {
+      if (entries.size >= MAX_PENDING_AUTH) {
+        entries.delete(entries.keys().next().value!);
+      }
+      entries.set(key, { value, expiresAt });
+    },
+    get,
+    /** Remove the key, returning its value if it hadn't expired */
+    take(key: string, now: number): T | undefined {
+      const value = get(key, now);
+      entries.delete(key);
+      return value;
+    },
+  };
+}
+
+/**
+ * The owner a signed sign-in speaks for, or an ApiError(401). The nonce is spent whether or
+ * not the signature checks out.
+ */
+function verifySignIn(
+  body: any,
+  expected: { domain: string; chainId: number; spendNonce: (nonce: string) => boolean },
+  now: number
+): string {
+  const { owner, issuedAt, nonce, signature } = body ?? {};
+  if (typeof owner !== "string" || typeof issuedAt !== "string" || typeof nonce !== "string" || typeof signature !== "string") {
+    throw new ApiError(400, "Sign in with { owner, issuedAt, nonce, signature }");
+  }
+  if (!expected.spendNonce(nonce)) {
+    throw new ApiError(401, "Unknown, expired or used nonce, sign in again");
+  }
+  const age = (now - Date.parse(issuedAt)) / 1000;
+  if (Number.isNaN(age) || age > NONCE_TTL_SECONDS || age < -AUTH_FUTURE_SKEW_SECONDS) {
+    throw new ApiError(401, "Signature expired, sign in again");
+  }
+  let signer: string;
+  try {
+    signer = verifyMessage(dcaNotifierAuthMessage({ domain: expected.domain, chainId: expected.chainId, owner, nonce, issuedAt }), signature);
+  } catch {
+    throw new ApiError(401, "Malformed signature");
+  }
+  if (!isSameAddress(signer, owner)) {
+    throw new ApiError(401, `Signature doesn't match the owner, or wasn't made for ${expected.domain} on chain ${expected.chainId}`);
+  }
+  return signer;
+}
+
+/**
+ * The notifier API:
+ * - GET /nonce: a one-time nonce to sign in with, valid for five minutes
+ * - POST /session { owner, issuedAt, nonce, signature }: sign in; answers 201 with { token, expiresAt }
+ * - GET /subscriptions: the owner's endpoints, without secrets
+ * - POST /subscriptions { url, events? }: register an endpoint; answers 201 with its secret, shown only here
+ * - DELETE /subscriptions/<id>: remove one and fail its pending deliveries
+ * - GET /deliveries: the owner's delivery log, newest first
+ * - GET /healthz
+ */
+export function createDCANotifierServer(store: DCANotifierStore, options: DCANotifierServerOptions): http.Server {
+  if (!options.domain) {
+    throw new Error("The notifier API needs the domain sign-ins are made for");
+  }
+  const policy = options.policy ?? DEFAULT_DCA_NOTIFIER_POLICY;
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": options.corsOrigin ?? "*",
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  };
+  const nonces = createExpiringMap<true>();
+  const sessions = createExpiringMap<string>();
+
+  const send = (response: http.ServerResponse, status: number, body?: unknown) => {
+    response.writeHead(status, body === undefined ? corsHeaders : { ...corsHeaders, "Content-Type": "application/json" });
+    response.end(body === undefined ? undefined : JSON.stringify(body) + "\n");
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+    const route = request.url?.split("?")[0] ?? "/";
+    if (request.method === "OPTIONS") {
+      send(response, 204);
+      return;
+    }
+    if (request.method === "GET" && route === "/healthz") {
+      send(response, 200, { healthy: true });
+      return;
+    }
+    const now = Date.now();
+    if (request.method === "GET" && route === "/nonce") {
+      const nonce = crypto.randomBytes(16).toString("hex");
+      const expiresAt = now + NONCE_TTL_SECONDS * 1000;
+      nonces.set(nonce, true, expiresAt);
+      send(response, 200, { nonce, expiresAt: new Date(expiresAt).toISOString() });
+      return;
+    }
+    if (request.method === "POST" && route === "/session") {
+      const signer = verifySignIn(
+        await readJsonBody(request),
+        { domain: options.domain, chainId: store.get().chainId, spendNonce: (nonce) => nonces.take(nonce, now) !== undefined },
+        now
+      );
+      const token = crypto.randomBytes(32).toString("hex");
+      const expiresAt = now + policy.authMaxAgeSeconds * 1000;
+      sessions.set(token, signer, expiresAt);
+      send(response, 201, { token, owner: signer, expiresAt: new Date(expiresAt).toISOString() });
+      return;
+    }
+
+    const bearer = /^Bearer (\w+)$/.exec(request.headers.authorization ?? "");
+    const owner = bearer && sessions.get(bearer[1], now);
+    if (!owner) {
+      throw new ApiError(401, "Sign in again: the session is missing or expired");
+    }
+    const subscriptionMatch = /^\/subscriptions\/([\w-]+)$/.exec(route);
+
+    if (request.method === "GET" && route === "/subscriptions") {
+      send(response, 200, { subscriptions: listDCAWebhookSubscriptions(store.get(), owner) });
+    } else if (request.method === "POST" && route === "/subscriptions") {
+      const body = await readJsonBody(request);
+      const events: DCANotificationType[] = Array.isArray(body.events) ? body.events : [...DCA_NOTIFICATION_TYPES];
+      const secret = generateWebhookSecret();
+      const subscription = {
+        id: crypto.randomUUID(),
+        owner,
+        url: validateWebhookUrl(String(body.url ?? ""), options.allowInsecure),
+        events,
+        createdAt: new Date().toISOString(),
+      };
+      store.update(addDCAWebhookSubscription(store.get(), { ...subscription, secret }, policy));
+      const { events: registered } = store.get().subscriptions.find((existing) => existing.id === subscription.id)!;
+      send(response, 201, { subscription: { ...subscription, events: registered }, secret });
+    } else if (request.method === "DELETE" && subscriptionMatch) {
+      const current = store.get();
+      const next = removeDCAWebhookSubscription(current, owner, subscriptionMatch[1]);
+      if (next === current) {
+        throw new ApiError(404, "No such endpoint");
+      }
+      store.update(next);
+      send(response, 204);
+    } else if (request.method === "GET" && route === "/deliveries") {
+      send(response, 200, { deliveries: listDCADeliveries(store.get(), owner) });
+    } else {
+      send(response, 404);
+    }
+  };
+
+  return http.createServer((request, response) => {
+    handle(request, response).catch((error: any) => {
+      // Validation errors from the sdk (bad URL, limits) are the caller's to fix
+      send(response, error instanceof ApiError ? error.status : 400, { error: error.message });
+    });
+  });
+}
@@ -1,31 +1,52 @@
 import hre from "hardhat";
-import type { BaseContract, BigNumberish } from "ethers";
+import type { BaseContract, BigNumberish, ContractTransactionResponse } from "ethers";
+import { ConstructorArg, ContractDeploymentRecord, DeployedMain, DeploymentMetadata } from "../../config/types";
+import { hashRuntimeBytecode, loadArtifactBytecode } from "./bytecode";
 
 const { ethers } = hre;
 
+/**
+ * Artifact deployed for each `main` entry (for contracts deployed before
+ * metadata.contracts recorded their name)
+ */
+export const MAIN_CONTRACT_NAMES: Record<keyof DeployedMain, string> = {
+  shariaCompliance: "ShariaCompliance",
+  shariaLocalSwap: "ShariaLocalSwap",
+  shariaDCA: "ShariaDCA",
+  crosschainSwapInitiator: "CrosschainSwapInitiator",
+  crosschainSwapInitiatorNoSdk: "CrosschainSwapInitiatorNoSdk",
+};
+
+export interface DeployOrVerifyResult {
+  address: string;
+  /** Set when a new contract was deployed; undefined when an existing one was kept */
+  record?: ContractDeploymentRecord;
+}
+
 /**
  * Helper function to deploy or verify a contract
  * 
  * Checks if a contract already exists at the given address (on-chain verification).
- * If valid, returns the existing address. Otherwise, deploys a new contract.
+ * If valid, returns the existing address. Otherwise, deploys a new contract and
+ * returns its deployment record for metadata.contracts in deployedContracts.json.
  * 
- * @param contractName - Name of the contract for logging purposes
+ * @param contractName - Hardhat artifact name of the contract (also used for logging)
  * @param existingAddress - Existing contract address from config (can be null/undefined)
  * @param deployFn - Async function that returns a contract instance to deploy
- * @returns The contract address (existing or newly deployed)
+ * @returns The contract address (existing or newly deployed) and, for a new deployment, its record
  */
 export async function deployOrVerifyContract<T extends BaseContract>(
   contractName: string,
   existingAddress: string | null | undefined,
   deployFn: () => Promise<T>
-): Promise<string> {
+): Promise<DeployOrVerifyResult> {
   // Check if contract already exists and is valid
   if (existingAddress && existingAddress !== null && existingAddress !== "null") {
     try {
       const code = await ethers.provider.getCode(existingAddress);
       if (code && code !== "0x") {
         console.log(`⏭️  ${contractName} already deployed at: ${existingAddress}`);
-        return existingAddress;
+        return { address: existingAddress };
       }
     } catch (error) {
       // Verification failed, will deploy below
@@ -38,7 +59,55 @@ export async function deployOrVerifyContract<T extends BaseContract>(
   await contract.waitForDeployment();
   const address = await contract.getAddress();
   console.log(`✅ ${contractName} deployed to: ${address}`);
-  return address;
+
+  const deploymentTx = contract.deploymentTransaction();
+  if (!deploymentTx) {
+    throw new Error(`${contractName} has no deployment transaction to record`);
+  }
+  return { address, record: await buildDeploymentRecord(contractName, address, deploymentTx) };
+}
+
+function toConstructorArg(value: unknown): ConstructorArg {
+  if (Array.isArray(value)) {
+    return value.map(toConstructorArg);
+  }
+  if (typeof value === "boolean" || typeof value === "string") {
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Record how a contract was deployed: transaction, block, decoded constructor
+ * arguments, compiler settings and the hash of the runtime code now at `address`
+ */
+export async function buildDeploymentRecord(
+  contractName: string,
+  address: string,
+  deploymentTx: ContractTransactionResponse
+): Promise<ContractDeploymentRecord> {
+  const receipt = await deploymentTx.wait();
+  if (!receipt) {
+    throw new Error(`${contractName} deployment transaction ${deploymentTx.hash} has no receipt`);
+  }
+  const artifact = await loadArtifactBytecode(contractName);
+  const factory = await ethers.getContractFactory(contractName);
+
+  // The deployment data is the creation code followed by the ABI-encoded arguments
+  const encodedArgs = "0x" + deploymentTx.data.slice(artifact.bytecode.length);
+  const decoded = ethers.AbiCoder.defaultAbiCoder().decode(factory.interface.deploy.inputs, encodedArgs);
+
+  return {
+    contractName,
+    address,
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: ethers.getAddress(deploymentTx.from),
+    deployedAt: new Date().toISOString(),
+    constructorArgs: decoded.toArray(true).map(toConstructorArg),
+    compiler: artifact.compiler,
+    runtimeBytecodeHash: hashRuntimeBytecode(await ethers.provider.getCode(address), artifact),
+  };
 }
 
 type TxOverrides =
@@ -85,3 +154,15 @@ export async function buildTxOverrides(): Promise<TxOverrides> {
   return {};
 }
 
+
+/**
+ * metadata.contracts with `record` stored under `key`, or unchanged when an existing
+ * contract was kept (its earlier record, if any, still describes it)
+ */
+export function withDeploymentRecord(
+  contracts: DeploymentMetadata["contracts"],
+  key: keyof DeployedMain,
+  record: ContractDeploymentRecord | undefined
+): DeploymentMetadata["contracts"] {
+  return record ? { ...contracts, [key]: record } : contracts;
+}
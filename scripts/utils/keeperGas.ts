@@ -0,0 +1,129 @@
+import { ContractRunner, Provider, ZeroAddress, formatEther, parseEther } from "ethers";
+import {
+  Address,
+  DCAOrderData,
+  DCAUpkeepOrder,
+  DEFAULT_KEEPER_GAS_POLICY,
+  KeeperGasCandidate,
+  KeeperGasDeferral,
+  KeeperGasPolicy,
+  TayebSdk,
+  isSameAddress,
+  requireContract,
+} from "../../sdk";
+import { estimateContractGas, readContract } from "./sdkContracts";
+
+/**
+ * Gas estimates and GLMR valuations for the DCA keepers' gas policy (sdk/keeperGas.ts)
+ *
+ * KEEPER_DAILY_GAS_BUDGET_GLMR caps the gas spent per UTC day (unset: no cap).
+ * KEEPER_MIN_VALUE_TO_GAS_RATIO is how many times its gas an interval must be worth
+ * (default 1, 0 to execute regardless). KEEPER_BATCH_UPKEEP=false never batches through
+ * performUpkeep.
+ */
+
+/**
+ * The policy from the environment; throws on a budget or ratio that isn't a non-negative
+ * number, so a typo stops the keeper at startup rather than failing every loop
+ */
+export function loadKeeperGasPolicy(): KeeperGasPolicy {
+  const budget = process.env.KEEPER_DAILY_GAS_BUDGET_GLMR;
+  const ratio = process.env.KEEPER_MIN_VALUE_TO_GAS_RATIO;
+  if (budget && !/^\d+(\.\d{1,18})?$/.test(budget.trim())) {
+    throw new Error(`KEEPER_DAILY_GAS_BUDGET_GLMR must be a non-negative GLMR amount, got "${budget}"`);
+  }
+  const minValueToGasRatio = ratio ? Number(ratio) : DEFAULT_KEEPER_GAS_POLICY.minValueToGasRatio;
+  if (!Number.isFinite(minValueToGasRatio) || minValueToGasRatio < 0) {
+    throw new Error(`KEEPER_MIN_VALUE_TO_GAS_RATIO must be a finite number of at least 0, got "${ratio}"`);
+  }
+  return {
+    dailyBudgetWei: budget ? parseEther(budget.trim()) : DEFAULT_KEEPER_GAS_POLICY.dailyBudgetWei,
+    minValueToGasRatio,
+    batch: process.env.KEEPER_BATCH_UPKEEP ? process.env.KEEPER_BATCH_UPKEEP !== "false" : DEFAULT_KEEPER_GAS_POLICY.batch,
+  };
+}
+
+export interface KeeperGasEstimate extends KeeperGasCandidate {
+  /** getOrderQuote's minimum, sent with executeDCAOrderWithMinOut or performUpkeep */
+  amountOutMin: bigint;
+  gasLimit: bigint;
+}
+
+/**
+ * Price gas is estimated at: the legacy gas price, else the EIP-1559 max fee
+ */
+export async function keeperGasPrice(provider: Provider): Promise<bigint> {
+  const feeData = await provider.getFeeData();
+  return feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+}
+
+/**
+ * amountPerInterval in GLMR wei: as is for GLMR and WGLMR orders, otherwise quoted into
+ * WGLMR through ShariaLocalSwap; null when there is no quote
+ */
+async function orderValueWei(runner: ContractRunner, sdk: TayebSdk, order: DCAOrderData): Promise<bigint | null> {
+  const weth = requireContract(sdk.contracts, "weth");
+  if (isSameAddress(order.sourceToken, ZeroAddress) || isSameAddress(order.sourceToken, weth)) {
+    return order.amountPerInterval;
+  }
+  try {
+    return await readContract<bigint>(runner, sdk.swap.getSwapQuote([order.sourceToken as Address, weth], order.amountPerInterval));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quote, gas and value of an order's next interval. Throws what the gas estimate throws,
+ * usually the revert the execution would hit.
+ */
+export async function estimateOrderGas(
+  runner: ContractRunner,
+  sdk: TayebSdk,
+  orderId: bigint,
+  gasPrice: bigint
+): Promise<KeeperGasEstimate> {
+  const [, amountOutMin] = await readContract<[bigint, bigint]>(runner, sdk.dca.getOrderQuote(orderId));
+  const gasLimit = await estimateContractGas(runner, sdk.dca.executeDCAOrderWithMinOut(orderId, amountOutMin));
+  const order = await readContract<DCAOrderData>(runner, sdk.dca.getDCAOrder(orderId));
+  return { orderId, amountOutMin, gasLimit, gasCostWei: gasLimit * gasPrice, valueWei: await orderValueWei(runner, sdk, order) };
+}
+
+/**
+ * Cost of executing the orders in one performUpkeep, each with its minimum output, or null
+ * when it can't be estimated
+ */
+export async function estimateBatchCostWei(
+  runner: ContractRunner,
+  sdk: TayebSdk,
+  orders: readonly DCAUpkeepOrder[],
+  gasPrice: bigint
+): Promise<bigint | null> {
+  try {
+    return (await estimateContractGas(runner, sdk.dca.performUpkeep(orders))) * gasPrice;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One log line for a deferred order
+ */
+export function describeKeeperDeferral(
+  deferral: KeeperGasDeferral,
+  spentTodayWei: bigint,
+  policy: KeeperGasPolicy
+): string {
+  const { candidate, reason } = deferral;
+  const gas = `gas ~${formatEther(candidate.gasCostWei)} GLMR`;
+  if (reason === "uneconomic") {
+    return (
+      `Order #${candidate.orderId} deferred: interval worth ${formatEther(candidate.valueWei ?? 0n)} GLMR, ${gas} ` +
+      `(below ${policy.minValueToGasRatio}x)`
+    );
+  }
+  return (
+    `Order #${candidate.orderId} deferred: daily gas budget, ${formatEther(spentTodayWei)} of ` +
+    `${formatEther(policy.dailyBudgetWei ?? 0n)} GLMR spent today, ${gas}`
+  );
+}
@@ -0,0 +1,299 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import {
+  DEFAULT_KEEPER_LEASE_POLICY,
+  KeeperClaimRequest,
+  KeeperClaimResult,
+  KeeperExecutionRecord,
+  KeeperLeasePolicy,
+  KeeperLeaseTable,
+  KeeperReleaseRequest,
+  KeeperShard,
+  claimKeeperLeases,
+  createKeeperLeaseTable,
+  isKeeperShard,
+  parseKeeperShard,
+  releaseKeeperLeases,
+} from "../../sdk";
+import { withLockFile } from "./lockFile";
+import { receiptPath } from "./receipts";
+
+/**
+ * Lease backends for running several DCA keepers side by side (sdk/keeperLease.ts)
+ *
+ * KEEPER_LEASE_BACKEND=file keeps the lease table in deployments/keeper-leases-<chainId>.json
+ * (KEEPER_LEASE_FILE to override) behind an exclusive lock file, for keepers sharing a disk.
+ * KEEPER_LEASE_BACKEND=http uses the lock service at KEEPER_LEASE_URL
+ * (automation/keeper-lease-server.ts). Unset, leases only live in this process.
+ *
+ * KEEPER_ID names the keeper in leases and execution records (default <hostname>-<pid>),
+ * KEEPER_SHARD=index/count gives it first call on a share of the order IDs and
+ * KEEPER_LEASE_TTL_SECONDS is how long its claims and heartbeat hold (default 600).
+ */
+
+/** What the keeper did with an order it held; the backend adds who and when */
+export type KeeperExecutionOutcome = Pick<KeeperExecutionRecord, "orderId" | "status" | "txHash">;
+
+export interface KeeperLeaseBackend {
+  readonly keeperId: string;
+  readonly shard: KeeperShard | null;
+  readonly description: string;
+  /** Heartbeat and claim the orders; in-flight orders should be passed again to renew them */
+  claim(orderIds: Array<bigint | string>): Promise<KeeperClaimResult>;
+  release(orderIds: Array<bigint | string>, outcomes?: KeeperExecutionOutcome[]): Promise<void>;
+  table(): Promise<KeeperLeaseTable>;
+}
+
+export interface KeeperLeaseConfig {
+  keeperId: string;
+  shard: KeeperShard | null;
+  ttlSeconds: number;
+}
+
+// Lease service limits on what a request may ask for
+const MAX_LEASE_TTL_SECONDS = 86_400;
+const ORDER_ID_PATTERN = /^\d+$/;
+const EXECUTION_STATUSES: ReadonlyArray<KeeperExecutionRecord["status"]> = ["executed", "skipped", "failed"];
+
+export function loadKeeperLeaseConfig(): KeeperLeaseConfig {
+  const ttl = process.env.KEEPER_LEASE_TTL_SECONDS;
+  const ttlSeconds = ttl ? Number(ttl) : DEFAULT_KEEPER_LEASE_POLICY.ttlSeconds;
+  if (!(ttlSeconds > 0 && ttlSeconds <= MAX_LEASE_TTL_SECONDS)) {
+    throw new Error(`KEEPER_LEASE_TTL_SECONDS must be between 0 and ${MAX_LEASE_TTL_SECONDS}, got "${ttl}"`);
+  }
+  return {
+    keeperId: process.env.KEEPER_ID || `${os.hostname()}-${process.pid}`,
+    shard: process.env.KEEPER_SHARD ? parseKeeperShard(process.env.KEEPER_SHARD) : null,
+    ttlSeconds,
+  };
+}
+
+export function keeperLeasePath(chainId: number): string {
+  return process.env.KEEPER_LEASE_FILE || receiptPath("keeper-leases", chainId);
+}
+
+/**
+ * The backend picked by KEEPER_LEASE_BACKEND
+ */
+export function loadKeeperLeaseBackend(chainId: number, config: KeeperLeaseConfig = loadKeeperLeaseConfig()): KeeperLeaseBackend {
+  const backend = process.env.KEEPER_LEASE_BACKEND;
+  if (backend === "file") {
+    return createFileLeaseBackend(keeperLeasePath(chainId), config);
+  }
+  if (backend === "http") {
+    const url = process.env.KEEPER_LEASE_URL;
+    if (!url) {
+      throw new Error("KEEPER_LEASE_BACKEND=http needs KEEPER_LEASE_URL");
+    }
+    return createHttpLeaseBackend(url, config);
+  }
+  if (backend) {
+    throw new Error(`Unknown KEEPER_LEASE_BACKEND "${backend}", expected file or http`);
+  }
+  return createMemoryLeaseBackend(config);
+}
+
+/**
+ * Claim and release against a table held by `update`, which applies each change atomically
+ */
+function createLeaseBackend(
+  config: KeeperLeaseConfig,
+  description: string,
+  update: <T>(change: (table: KeeperLeaseTable) => { table: KeeperLeaseTable; result: T }) => Promise<T>
+): KeeperLeaseBackend {
+  const { keeperId, shard, ttlSeconds } = config;
+  return {
+    keeperId,
+    shard,
+    description,
+    claim: (orderIds) =>
+      update((table) =>
+        claimKeeperLeases(table, { keeperId, shard, ttlSeconds, orderIds: [...new Set(orderIds.map(String))] })
+      ),
+    release: (orderIds, outcomes = []) => {
+      const at = new Date().toISOString();
+      const executions = outcomes.map((outcome) => ({ ...outcome, keeperId, at }));
+      return update((table) => ({
+        table: releaseKeeperLeases(table, { keeperId, orderIds: orderIds.map(String), executions }, at),
+        result: undefined,
+      }));
+    },
+    table: () => update((table) => ({ table, result: table })),
+  };
+}
+
+export function createMemoryLeaseBackend(config: KeeperLeaseConfig): KeeperLeaseBackend {
+  let current = createKeeperLeaseTable();
+  return createLeaseBackend(config, "in-process (this keeper only)", async (change) => {
+    const { table, result } = change(current);
+    current = table;
+    return result;
+  });
+}
+
+/**
+ * Leases in a JSON file. Each change holds `<file>.lock` (created exclusively) while it
+ * reads, updates and renames the table into place.
+ */
+export function createFileLeaseBackend(filePath: string, config: KeeperLeaseConfig): KeeperLeaseBackend {
+  const lockPath = `${filePath}.lock`;
+  return createLeaseBackend(config, `file ${filePath}`, (change) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    return withLockFile(lockPath, () => {
+      const current = fs.existsSync(filePath)
+        ? (JSON.parse(fs.readFileSync(filePath, "utf-8")) as KeeperLeaseTable)
+        : createKeeperLeaseTable();
+      const { table, result } = change(current);
+      if (table !== current) {
+        fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(table, null, 2) + "\n");
+        fs.renameSync(`${filePath}.tmp`, filePath);
+      }
+      return result;
+    });
+  });
+}
+
+async function requestLeaseService<T>(baseUrl: string, route: string, body?: unknown): Promise<T> {
+  const response = await fetch(new URL(route, baseUrl), {
+    method: body === undefined ? "GET" : "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Lease service ${route} answered ${response.status}: ${await response.text()}`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+/**
+ * Leases held by the lock service at `baseUrl`; every change is one request, applied by
+ * the service in the order received
+ */
+export function createHttpLeaseBackend(baseUrl: string, config: KeeperLeaseConfig): KeeperLeaseBackend {
+  const { keeperId, shard, ttlSeconds } = config;
+  return {
+    keeperId,
+    shard,
+    description: `lock service ${baseUrl}`,
+    claim: (orderIds) => {
+      const body: KeeperClaimRequest = { keeperId, shard, ttlSeconds, orderIds: [...new Set(orderIds.map(String))] };
+      return requestLeaseService<KeeperClaimResult>(baseUrl, "/claim", body);
+    },
+    release: async (orderIds, outcomes = []) => {
+      const at = new Date().toISOString();
+      const body: KeeperReleaseRequest = {
+        keeperId,
+        orderIds: orderIds.map(String),
+        executions: outcomes.map((outcome) => ({ ...outcome, keeperId, at })),
+      };
+      await requestLeaseService<void>(baseUrl, "/release", body);
+    },
+    table: () => requestLeaseService<KeeperLeaseTable>(baseUrl, "/leases"),
+  };
+}
+
+function isOrderIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && ORDER_ID_PATTERN.test(item));
+}
+
+function isExecutionRecord(value: any): value is KeeperExecutionRecord {
+  return (
+    typeof value?.orderId === "string" &&
+    ORDER_ID_PATTERN.test(value.orderId) &&
+    typeof value.keeperId === "string" &&
+    EXECUTION_STATUSES.includes(value.status) &&
+    (value.txHash === null || typeof value.txHash === "string") &&
+    typeof value.at === "string"
+  );
+}
+
+/**
+ * Why a /claim or /release body can't be applied, or null when it can. Shards follow
+ * parseKeeperShard's rules, so a count of 0 never reaches the modulo.
+ */
+function leaseRequestError(route: string, body: any): string | null {
+  if (typeof body?.keeperId !== "string" || !body.keeperId) {
+    return "keeperId must be a non-empty string";
+  }
+  if (!isOrderIdList(body.orderIds)) {
+    return "orderIds must be an array of decimal order ID strings";
+  }
+  if (route === "/claim") {
+    if (body.shard != null && !isKeeperShard(body.shard)) {
+      return "shard must be null or { index, count } whole numbers with 0 <= index < count";
+    }
+    const { ttlSeconds } = body;
+    if (ttlSeconds !== undefined && !(typeof ttlSeconds === "number" && ttlSeconds > 0 && ttlSeconds <= MAX_LEASE_TTL_SECONDS)) {
+      return `ttlSeconds must be a number of seconds between 0 and ${MAX_LEASE_TTL_SECONDS}`;
+    }
+  } else if (body.executions !== undefined && !(Array.isArray(body.executions) && body.executions.every(isExecutionRecord))) {
+    return "executions must be a list of keeper execution records";
+  }
+  return null;
+}
+
+/**
+ * The HTTP lock service: POST /claim and POST /release take the KeeperClaimRequest and
+ * KeeperReleaseRequest bodies (400 when one is malformed), GET /leases returns the table and
+ * GET /healthz answers 200. The table lives in memory; after a restart keepers claim their
+ * orders again.
+ */
+export function createKeeperLeaseServer(policy: KeeperLeasePolicy = DEFAULT_KEEPER_LEASE_POLICY): http.Server {
+  let table = createKeeperLeaseTable();
+
+  const send = (response: http.ServerResponse, status: number, body?: unknown) => {
+    response.writeHead(status, body === undefined ? {} : { "Content-Type": "application/json" });
+    response.end(body === undefined ? undefined : JSON.stringify(body) + "\n");
+  };
+
+  return http.createServer((request, response) => {
+    const route = request.url?.split("?")[0];
+    if (request.method === "GET" && route === "/leases") {
+      send(response, 200, table);
+      return;
+    }
+    if (request.method === "GET" && route === "/healthz") {
+      send(response, 200, { healthy: true });
+      return;
+    }
+    if (request.method !== "POST" || (route !== "/claim" && route !== "/release")) {
+      send(response, 404);
+      return;
+    }
+
+    let raw = "";
+    request.setEncoding("utf-8");
+    request.on("data", (chunk) => (raw += chunk));
+    request.on("end", () => {
+      let body: any;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        send(response, 400, { error: "Body must be JSON" });
+        return;
+      }
+      const invalid = leaseRequestError(route, body);
+      if (invalid) {
+        send(response, 400, { error: invalid });
+        return;
+      }
+      try {
+        if (route === "/claim") {
+          const ttlSeconds = body.ttlSeconds ?? policy.ttlSeconds;
+          const claimed = claimKeeperLeases(table, { keeperId: body.keeperId, shard: body.shard ?? null, orderIds: body.orderIds, ttlSeconds });
+          table = claimed.table;
+          send(response, 200, claimed.result);
+        } else {
+          const executions: KeeperExecutionRecord[] = body.executions ?? [];
+          table = releaseKeeperLeases(table, { keeperId: body.keeperId, orderIds: body.orderIds, executions }, undefined, policy);
+          send(response, 204);
+        }
+      } catch (error: any) {
+        // The table is only replaced once a change succeeds, so it's still consistent
+        send(response, 500, { error: error?.message ?? String(error) });
+      }
+    });
+  });
+}
@@ -0,0 +1,185 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { KeeperDeferReason } from "../../sdk";
+
+/**
+ * Prometheus metrics and a health check for the DCA keepers
+ *
+ * KEEPER_METRICS_PORT serves GET /metrics (Prometheus text format) and GET /healthz while
+ * the keeper runs. /healthz answers 503 once the last successful loop is older than
+ * KEEPER_HEALTH_MAX_AGE_SECONDS. KEEPER_METRICS_FILE writes the same metrics to a file
+ * after every loop, for one-shot runs scraped through node_exporter's textfile collector.
+ */
+
+// Reverts that don't decode to a custom error share one label instead of one per message
+const UNDECODED_REVERT = "unknown";
+
+export interface KeeperMetrics {
+  setReadyOrders(count: number): void;
+  setQuarantinedOrders(count: number): void;
+  setBalance(glmr: number): void;
+  recordExecution(): void;
+  recordSkip(): void;
+  recordDeferral(reason: KeeperDeferReason): void;
+  recordRevert(error: string): void;
+  setGasSpentToday(glmr: number): void;
+  recordGas(gasUsed: bigint, glmrSpent: number): void;
+  markLoopSuccess(now?: number): void;
+  /** Seconds since the last successful loop, or null before the first one */
+  secondsSinceLastSuccess(now?: number): number | null;
+  render(now?: number): string;
+}
+
+export function createKeeperMetrics(): KeeperMetrics {
+  let readyOrders = 0;
+  let quarantinedOrders = 0;
+  let balance = 0;
+  let executions = 0;
+  let skips = 0;
+  let gasSpentToday = 0;
+  let gasUsed = 0n;
+  let glmrSpent = 0;
+  let lastSuccess: number | null = null;
+  const reverts = new Map<string, number>();
+  const deferrals = new Map<KeeperDeferReason, number>();
+
+  const secondsSinceLastSuccess = (now: number = Date.now()) =>
+    lastSuccess === null ? null : Math.max(0, (now - lastSuccess) / 1000);
+
+  const metric = (name: string, type: "gauge" | "counter", help: string, samples: string[]) =>
+    [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples].join("\n");
+
+  return {
+    setReadyOrders: (count) => {
+      readyOrders = count;
+    },
+    setQuarantinedOrders: (count) => {
+      quarantinedOrders = count;
+    },
+    setBalance: (glmr) => {
+      balance = glmr;
+    },
+    recordExecution: () => {
+      executions++;
+    },
+    recordSkip: () => {
+      skips++;
+    },
+    recordDeferral: (reason) => {
+      deferrals.set(reason, (deferrals.get(reason) ?? 0) + 1);
+    },
+    recordRevert: (error) => {
+      const label = /^[A-Za-z_]\w*$/.test(error) ? error : UNDECODED_REVERT;
+      reverts.set(label, (reverts.get(label) ?? 0) + 1);
+    },
+    recordGas: (used, spent) => {
+      gasUsed += used;
+      glmrSpent += spent;
+    },
+    setGasSpentToday: (glmr) => {
+      gasSpentToday = glmr;
+    },
+    markLoopSuccess: (now = Date.now()) => {
+      lastSuccess = now;
+    },
+    secondsSinceLastSuccess,
+    render: (now = Date.now()) => {
+      const sinceSuccess = secondsSinceLastSuccess(now);
+      return (
+        [
+          metric("tayeb_keeper_ready_orders", "gauge", "Orders checkUpkeep reported ready on the last loop", [
+            `tayeb_keeper_ready_orders ${readyOrders}`,
+          ]),
+          metric("tayeb_keeper_quarantined_orders", "gauge", "Orders the keeper skips until released", [
+            `tayeb_keeper_quarantined_orders ${quarantinedOrders}`,
+          ]),
+          metric("tayeb_keeper_executions_total", "counter", "DCA intervals executed, not counting skipped ones", [
+            `tayeb_keeper_executions_total ${executions}`,
+          ]),
+          metric(
+            "tayeb_keeper_skipped_intervals_total",
+            "counter",
+            "Intervals ShariaDCA skipped because the quote fell below the keeper's minimum",
+            [`tayeb_keeper_skipped_intervals_total ${skips}`]
+          ),
+          metric(
+            "tayeb_keeper_deferred_total",
+            "counter",
+            "Ready intervals left for later by the gas policy, by reason",
+            [...deferrals.entries()].map(([reason, count]) => `tayeb_keeper_deferred_total{reason="${reason}"} ${count}`)
+          ),
+          metric(
+            "tayeb_keeper_reverts_total",
+            "counter",
+            "Failed or reverted executions by decoded ShariaDCA error",
+            [...reverts.entries()].map(([error, count]) => `tayeb_keeper_reverts_total{error="${error}"} ${count}`)
+          ),
+          metric("tayeb_keeper_gas_used_total", "counter", "Gas used by mined keeper transactions", [
+            `tayeb_keeper_gas_used_total ${gasUsed}`,
+          ]),
+          metric("tayeb_keeper_gas_spent_glmr_total", "counter", "GLMR paid for gas by mined keeper transactions", [
+            `tayeb_keeper_gas_spent_glmr_total ${glmrSpent}`,
+          ]),
+          metric("tayeb_keeper_gas_spent_today_glmr", "gauge", "GLMR spent on gas this UTC day, against the daily budget", [
+            `tayeb_keeper_gas_spent_today_glmr ${gasSpentToday}`,
+          ]),
+          metric("tayeb_keeper_balance_glmr", "gauge", "Keeper account balance", [`tayeb_keeper_balance_glmr ${balance}`]),
+          metric(
+            "tayeb_keeper_last_success_timestamp_seconds",
+            "gauge",
+            "Unix time the last loop completed without error",
+            lastSuccess === null ? [] : [`tayeb_keeper_last_success_timestamp_seconds ${Math.floor(lastSuccess / 1000)}`]
+          ),
+          metric(
+            "tayeb_keeper_seconds_since_last_success",
+            "gauge",
+            "Seconds since the last loop completed without error",
+            sinceSuccess === null ? [] : [`tayeb_keeper_seconds_since_last_success ${sinceSuccess}`]
+          ),
+        ].join("\n") + "\n"
+      );
+    },
+  };
+}
+
+/**
+ * Serve and/or write the metrics as configured by KEEPER_METRICS_PORT and
+ * KEEPER_METRICS_FILE. Call the returned flush() after each loop.
+ */
+export function exposeKeeperMetrics(metrics: KeeperMetrics, defaultMaxAgeSeconds: number = 180): { flush: () => void } {
+  const maxAgeSeconds = Number(process.env.KEEPER_HEALTH_MAX_AGE_SECONDS || defaultMaxAgeSeconds);
+  const port = process.env.KEEPER_METRICS_PORT;
+  const file = process.env.KEEPER_METRICS_FILE;
+
+  if (port) {
+    const server = http.createServer((request, response) => {
+      const route = request.url?.split("?")[0];
+      if (request.method === "GET" && route === "/metrics") {
+        response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        response.end(metrics.render());
+      } else if (request.method === "GET" && route === "/healthz") {
+        const sinceSuccess = metrics.secondsSinceLastSuccess();
+        const healthy = sinceSuccess !== null && sinceSuccess <= maxAgeSeconds;
+        response.writeHead(healthy ? 200 : 503, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ healthy, secondsSinceLastSuccess: sinceSuccess, maxAgeSeconds }) + "\n");
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    // Never keep a one-shot run alive just for the endpoint
+    server.unref();
+    server.listen(Number(port), () => console.log(`📈 Metrics on http://localhost:${port}/metrics (health: /healthz)`));
+  }
+
+  return {
+    flush: () => {
+      if (!file) return;
+      // Written whole and renamed so the collector never reads half a file
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(`${file}.tmp`, metrics.render());
+      fs.renameSync(`${file}.tmp`, file);
+    },
+  };
+}
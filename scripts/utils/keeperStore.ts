@@ -0,0 +1,68 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Address, KeeperGasLedger, KeeperState, createKeeperState, isSameAddress, recordKeeperGasSpend } from "../../sdk";
+import { withLockFile } from "./lockFile";
+import { receiptPath } from "./receipts";
+
+/**
+ * DCA keeper state, kept in deployments/keeper-<chainId>.json (or KEEPER_STATE_PATH)
+ * so a restarted keeper knows its in-flight transactions, failure counts and quarantine.
+ * Only the auto-executor writes it.
+ *
+ * The day's gas spend is kept apart in deployments/keeper-gas-<chainId>.json (or
+ * KEEPER_GAS_LEDGER_PATH), which the auto-executor and execute-ready-orders both charge.
+ */
+
+export function keeperStatePath(chainId: number): string {
+  return process.env.KEEPER_STATE_PATH || receiptPath("keeper", chainId);
+}
+
+/**
+ * Load the state for this ShariaDCA deployment; a file left by an earlier deployment
+ * (or none at all) starts a fresh state
+ */
+export function loadKeeperState(filePath: string, chainId: number, shariaDCA: Address): KeeperState {
+  if (fs.existsSync(filePath)) {
+    const state = JSON.parse(fs.readFileSync(filePath, "utf-8")) as KeeperState;
+    if (state.chainId === chainId && isSameAddress(state.shariaDCA, shariaDCA)) {
+      return state;
+    }
+    console.warn(`⚠️  ${path.basename(filePath)} belongs to ShariaDCA ${state.shariaDCA} on chain ${state.chainId}, starting fresh`);
+  }
+  return createKeeperState(chainId, shariaDCA);
+}
+
+/**
+ * Write through a temporary file so a crash mid-write never leaves a truncated state
+ */
+export function saveKeeperState(filePath: string, state: KeeperState): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2) + "\n");
+  fs.renameSync(tempPath, filePath);
+}
+
+export function keeperGasLedgerPath(chainId: number): string {
+  return process.env.KEEPER_GAS_LEDGER_PATH || receiptPath("keeper-gas", chainId);
+}
+
+/**
+ * The gas ledger as last written; undefined before the first charge
+ */
+export function loadKeeperGasLedger(filePath: string): KeeperGasLedger | undefined {
+  return fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, "utf-8")) as KeeperGasLedger) : undefined;
+}
+
+/**
+ * Add a mined transaction's cost to the ledger on disk. The ledger is read again under
+ * `<file>.lock`, so charges from keepers running side by side all count.
+ */
+export async function chargeKeeperGas(filePath: string, costWei: bigint): Promise<KeeperGasLedger> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  return withLockFile(`${filePath}.lock`, () => {
+    const ledger = recordKeeperGasSpend(loadKeeperGasLedger(filePath), costWei);
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(ledger, null, 2) + "\n");
+    fs.renameSync(`${filePath}.tmp`, filePath);
+    return ledger;
+  });
+}
@@ -0,0 +1,69 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+
+/**
+ * Exclusive lock files for state shared by keepers on one disk (the lease table, the gas
+ * ledger): a file created exclusively beside the state and removed once the change is written.
+ */
+
+// A lock file older than this was left by a keeper killed mid-update
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10_000;
+
+/**
+ * Move aside a lock file left by a dead keeper. Renaming is atomic, so of the keepers that
+ * found it stale only one takes it; one whose rename caught a fresh lock instead (another
+ * keeper took over and locked first) puts that lock back rather than deleting it.
+ */
+function removeStaleLock(lockPath: string, stale: fs.Stats): void {
+  const takenPath = `${lockPath}.${process.pid}-${crypto.randomUUID()}`;
+  try {
+    fs.renameSync(lockPath, takenPath);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return;
+    throw error;
+  }
+  if (fs.statSync(takenPath).ino !== stale.ino) {
+    try {
+      // link fails rather than replace a lock made since
+      fs.linkSync(takenPath, lockPath);
+    } catch (error: any) {
+      if (error.code !== "EEXIST") throw error;
+    }
+  }
+  fs.rmSync(takenPath, { force: true });
+}
+
+async function acquireLockFile(lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, "wx"));
+      return;
+    } catch (error: any) {
+      if (error.code !== "EEXIST") throw error;
+    }
+    const stat = fs.statSync(lockPath, { throwIfNoEntry: false });
+    if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      removeStaleLock(lockPath, stat);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}; remove it if no keeper is running`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Run `change` while holding the lock at `lockPath`
+ */
+export async function withLockFile<T>(lockPath: string, change: () => T): Promise<T> {
+  await acquireLockFile(lockPath);
+  try {
+    return change();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Interface, InterfaceAbi } from "ethers";
+import { ContractCall } from "../../sdk";
+
+/**
+ * Unsigned transactions for a multisig to execute
+ *
+ * Admin scripts take `--export-calldata [file]` and then write their owner-only
+ * calls as a Safe Transaction Builder batch instead of sending them from the
+ * PRIVATE_KEY signer. `hardhat run` doesn't forward script flags, so
+ * EXPORT_CALLDATA=<file> (or `true` for the default path) does the same.
+ */
+
+export const CALLDATA_EXPORT_DIR = path.join(__dirname, "..", "..", "deployments", "calldata");
+
+export interface UnsignedTransaction {
+  to: string;
+  /** Wei, as a decimal string */
+  value: string;
+  data: string;
+  /** What the call does, e.g. `ShariaCompliance.transferOwnership(0x…)` */
+  description: string;
+}
+
+/**
+ * Transaction Builder JSON, importable in the Safe web app
+ */
+export interface SafeTransactionBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    createdFromSafeAddress?: string;
+  };
+  transactions: Array<{ to: string; value: string; data: string }>;
+}
+
+/**
+ * Where to export calldata, or null to send transactions as usual
+ */
+export function getCalldataExportPath(name: string, chainId: number): string | null {
+  const index = process.argv.indexOf("--export-calldata");
+  let requested: string | undefined;
+  if (index >= 0) {
+    const next = process.argv[index + 1];
+    requested = next && !next.startsWith("--") ? next : "true";
+  } else {
+    requested = process.env.EXPORT_CALLDATA || undefined;
+  }
+  if (!requested) {
+    return null;
+  }
+  if (["1", "true", "yes"].includes(requested.toLowerCase())) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    return path.join(CALLDATA_EXPORT_DIR, `${name}-${chainId}-${stamp}.json`);
+  }
+  return path.resolve(requested);
+}
+
+/**
+ * Encode an SDK call descriptor (or any ABI + function) as an unsigned transaction
+ */
+export function encodeContractCall(call: ContractCall, description: string): UnsignedTransaction {
+  if (!call.address) {
+    throw new Error(`Cannot encode ${call.functionName}: contract address not found in config/deployedContracts.json`);
+  }
+  const data = new Interface(call.abi as InterfaceAbi).encodeFunctionData(call.functionName, [...call.args]);
+  return { to: call.address, value: (call.value ?? 0n).toString(), data, description };
+}
+
+/**
+ * Write `transactions` as a Safe Transaction Builder batch and print what it contains
+ */
+export function writeCalldataExport(
+  filePath: string,
+  batch: { chainId: number; name: string; safe?: string; transactions: UnsignedTransaction[] }
+): SafeTransactionBatch {
+  const exported: SafeTransactionBatch = {
+    version: "1.0",
+    chainId: String(batch.chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: batch.name,
+      description: batch.transactions.map((tx) => tx.description).join("; "),
+      ...(batch.safe ? { createdFromSafeAddress: batch.safe } : {}),
+    },
+    transactions: batch.transactions.map(({ to, value, data }) => ({ to, value, data })),
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(exported, null, 2) + "\n");
+
+  console.log(`📤 Exported ${batch.transactions.length} unsigned transaction(s) to ${path.relative(process.cwd(), filePath)}`);
+  for (const tx of batch.transactions) {
+    console.log(`   - ${tx.description} → ${tx.to}`);
+  }
+  console.log("   Import the file in the Safe Transaction Builder; nothing was sent.\n");
+  return exported;
+}
@@ -0,0 +1,43 @@
+import hre from "hardhat";
+import { DeployedContracts } from "../../config/types";
+import { createEmptyDeployment, findDeployment } from "../../sdk/deployments";
+import { loadDeployedContracts, loadDeploymentRegistry } from "./configLoader";
+
+/**
+ * Resolve the deployment entry for the Hardhat `--network` a script runs against
+ */
+
+/**
+ * Chain ID of the selected network: from hardhat.config.ts, or asked of the RPC when not configured
+ */
+export async function getNetworkChainId(): Promise<number> {
+  const configured = hre.network.config.chainId;
+  if (configured !== undefined) {
+    return configured;
+  }
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return Number(chainId);
+}
+
+/**
+ * Name recorded in the deployment entry: the selected network, or the network a deploy
+ * plan forks (plans run on the in-process `hardhat` network)
+ */
+export function getNetworkName(): string {
+  return process.env.DEPLOY_PLAN_NETWORK || hre.network.name;
+}
+
+/**
+ * Deployment entry for the selected network (throws if nothing is deployed there)
+ */
+export async function loadNetworkDeployment(): Promise<DeployedContracts> {
+  return loadDeployedContracts(await getNetworkChainId());
+}
+
+/**
+ * Deployment entry for the selected network, or an empty one for a first deployment
+ */
+export async function loadOrCreateNetworkDeployment(): Promise<DeployedContracts> {
+  const chainId = await getNetworkChainId();
+  return findDeployment(loadDeploymentRegistry(), chainId) ?? createEmptyDeployment(chainId, getNetworkName());
+}
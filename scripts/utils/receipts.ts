@@ -0,0 +1,23 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ReconcileReceipt } from "../../sdk";
+
+/**
+ * Registry receipts kept under deployments/ (reconcile-<chainId>.json, seed-<chainId>.json)
+ * so a run that stops midway can be resumed
+ */
+
+export const RECEIPTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+export function receiptPath(name: string, chainId: number): string {
+  return path.join(RECEIPTS_DIR, `${name}-${chainId}.json`);
+}
+
+export function saveReceipt(filePath: string, receipt: ReconcileReceipt): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(receipt, null, 2) + "\n");
+}
+
+export function loadReceipt(filePath: string): ReconcileReceipt | null {
+  return fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, "utf-8")) as ReconcileReceipt) : null;
+}
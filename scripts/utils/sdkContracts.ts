@@ -0,0 +1,85 @@
+import { Contract, ContractRunner, ContractTransactionResponse, Interface, InterfaceAbi, LogDescription, TransactionReceipt } from "ethers";
+import { ContractCall, TayebSdk, createTayebSdk } from "../../sdk";
+import { loadDeployedContracts, loadTayebCoinsConfig, loadXcmConfig } from "./configLoader";
+
+/**
+ * Run Tayeb SDK call descriptors through ethers
+ *
+ * The SDK describes every contract interaction as `{ address, abi, functionName, args }`
+ * so the frontend (wagmi) and the scripts share one definition of each call.
+ */
+
+/**
+ * Build the SDK for one chain from the validated config files
+ */
+export function loadTayebSdk(chainId: number): TayebSdk {
+  return createTayebSdk(loadDeployedContracts(chainId), loadTayebCoinsConfig(), loadXcmConfig());
+}
+
+function toContract(call: ContractCall, runner: ContractRunner): Contract {
+  if (!call.address) {
+    throw new Error(`Cannot call ${call.functionName}: contract address not found in config/deployedContracts.json`);
+  }
+  return new Contract(call.address, call.abi as InterfaceAbi, runner);
+}
+
+/**
+ * Execute a view call and return the decoded result
+ */
+export async function readContract<T = any>(runner: ContractRunner, call: ContractCall): Promise<T> {
+  return toContract(call, runner).getFunction(call.functionName).staticCall(...call.args);
+}
+
+/**
+ * Gas estimate for a state-changing call; throws the revert when it would fail
+ */
+export async function estimateContractGas(runner: ContractRunner, call: ContractCall): Promise<bigint> {
+  const overrides = call.value !== undefined ? { value: call.value } : {};
+  return toContract(call, runner).getFunction(call.functionName).estimateGas(...call.args, overrides);
+}
+
+/**
+ * Send a state-changing call (forwarding `value` for payable functions), with optional
+ * gas overrides such as buildTxOverrides()
+ */
+export async function writeContract(
+  runner: ContractRunner,
+  call: ContractCall,
+  txOverrides: Record<string, unknown> = {}
+): Promise<ContractTransactionResponse> {
+  const overrides = call.value !== undefined ? { ...txOverrides, value: call.value } : txOverrides;
+  return toContract(call, runner).getFunction(call.functionName).send(...call.args, overrides);
+}
+
+/**
+ * Custom error name when a failed call's revert data decodes against `abi`, otherwise
+ * the error message. Providers nest the revert data differently (Hardhat puts it in
+ * error.data.data).
+ */
+export function describeRevert(error: any, abi: ContractCall["abi"]): string {
+  if (error?.revert?.name) {
+    return error.revert.name;
+  }
+  const contractInterface = new Interface(abi as InterfaceAbi);
+  for (const data of [error?.data, error?.data?.data, error?.error?.data, error?.info?.error?.data]) {
+    if (typeof data !== "string" || !data.startsWith("0x")) continue;
+    try {
+      const decoded = contractInterface.parseError(data);
+      if (decoded) return decoded.name;
+    } catch {
+      // Not one of this contract's errors
+    }
+  }
+  return error?.reason ?? error?.shortMessage ?? error?.message ?? String(error);
+}
+
+/**
+ * The receipt's events emitted by `address` and decoded against `abi`
+ */
+export function parseContractLogs(receipt: TransactionReceipt, address: string, abi: ContractCall["abi"]): LogDescription[] {
+  const contractInterface = new Interface(abi as InterfaceAbi);
+  return receipt.logs
+    .filter((log) => log.address.toLowerCase() === address.toLowerCase())
+    .map((log) => contractInterface.parseLog(log))
+    .filter((event): event is LogDescription => event !== null);
+}
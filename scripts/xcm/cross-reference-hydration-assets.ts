@@ -0,0 +1,54 @@
+import { HydrationFinding, createTokenResolver, crossReferenceHydrationAssets } from '../../sdk';
+import { loadHydrationAssetRegistry, loadTayebCoinsConfig, loadXcmConfig } from '../utils/configLoader';
+
+/**
+ * Cross-reference hydration-asset-registry.json, xcmConfig.json and tayebCoins.json offline
+ *
+ * Flags asset IDs the Omnipool snapshot doesn't list, symbol and decimals mismatches,
+ * and permissible tokens on Moonbeam that have no Hydration asset ID. Refresh the
+ * snapshot with scripts/xcm/query-hydration-assets.ts.
+ *
+ * Exits non-zero when there are errors; warnings alone pass.
+ *
+ * Usage: npm run report:hydration-assets [-- --json]
+ */
+
+function printFindings(title: string, findings: HydrationFinding[]) {
+  if (findings.length === 0) {
+    return;
+  }
+  console.log(`${title} (${findings.length}):`);
+  for (const finding of findings) {
+    console.log(`   - [${finding.kind}] ${finding.subject}: ${finding.message}`);
+  }
+  console.log();
+}
+
+async function main() {
+  const tayebCoins = loadTayebCoinsConfig();
+  const xcmConfig = loadXcmConfig();
+  const registry = loadHydrationAssetRegistry();
+  const report = crossReferenceHydrationAssets(registry, xcmConfig, createTokenResolver(tayebCoins, { xcmConfig }));
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`\n🔍 Hydration asset cross-reference (Omnipool snapshot of ${report.snapshotTimestamp}, ${registry.totalAssets} assets)\n`);
+    printFindings('❌ Errors', report.findings.filter((finding) => finding.severity === 'error'));
+    printFindings('⚠️  Warnings', report.findings.filter((finding) => finding.severity === 'warning'));
+    if (report.findings.length === 0) {
+      console.log('✅ xcmConfig.json and tayebCoins.json agree with the Omnipool snapshot\n');
+    }
+  }
+
+  if (report.errorCount > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
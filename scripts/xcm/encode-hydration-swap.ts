@@ -1,37 +1,14 @@
 import { ApiPromise, WsProvider } from '@polkadot/api';
 import { u8aToHex } from '@polkadot/util';
-import * as fs from 'fs';
-import * as path from 'path';
+import { HydrationAssetRegistry, XcmConfig } from '../../config/types';
+import { getHydrationAsset } from '../../sdk';
+import { loadHydrationAssetRegistry, loadXcmConfig } from '../utils/configLoader';
 
 /**
  * Encode Hydration Omnipool swap calls using Polkadot API
  * This script connects to Hydration and generates properly SCALE-encoded call data
  */
 
-interface XcmConfig {
-  hydration: {
-    rpcUrl: string;
-    omnipoolPalletName: string;
-    assetRegistry: Record<string, number>;
-  };
-  tokenMapping: {
-    moonbeamToHydration: Record<string, {
-      symbol: string;
-      assetId: number | null;
-      decimals: number;
-    }>;
-  };
-}
-
-/**
- * Load XCM configuration
- */
-function loadXcmConfig(): XcmConfig {
-  const configPath = path.join(__dirname, '../../config/xcmConfig.json');
-  const configData = fs.readFileSync(configPath, 'utf-8');
-  return JSON.parse(configData);
-}
-
 /**
  * Connect to Hydration parachain
  */
@@ -145,6 +122,16 @@ function getAssetId(config: XcmConfig, symbol: string): number {
   return assetId;
 }
 
+/**
+ * Warn when an asset isn't in the Omnipool snapshot (hydration-asset-registry.json);
+ * a swap encoded for it would fail on Hydration
+ */
+function warnIfNotInOmnipool(registry: HydrationAssetRegistry, symbol: string, assetId: number): void {
+  if (!getHydrationAsset(registry, assetId)) {
+    console.warn(`⚠️  ${symbol} (asset ${assetId}) is not in the Omnipool snapshot of ${registry.timestamp}`);
+  }
+}
+
 /**
  * Get asset ID from Moonbeam token address
  */
@@ -192,6 +179,7 @@ async function main() {
   try {
     // Load configuration
     const config = loadXcmConfig();
+    const registry = loadHydrationAssetRegistry();
     
     // Connect to Hydration
     const api = await connectToHydration(config.hydration.rpcUrl);
@@ -200,6 +188,8 @@ async function main() {
     console.log('\n🔄 Example: Swap 100 USDT for HDX');
     const usdtId = getAssetId(config, 'USDT');
     const hdxId = getAssetId(config, 'HDX');
+    warnIfNotInOmnipool(registry, 'USDT', usdtId);
+    warnIfNotInOmnipool(registry, 'HDX', hdxId);
     
     // Amount in smallest unit (assuming 6 decimals for USDT)
     const amountIn = (100 * 1e6).toString(); // 100 USDT
@@ -217,6 +207,8 @@ async function main() {
     console.log('\n🔄 Example: Swap DOT for 50 USDC');
     const dotId = getAssetId(config, 'DOT');
     const usdcId = getAssetId(config, 'USDC');
+    warnIfNotInOmnipool(registry, 'DOT', dotId);
+    warnIfNotInOmnipool(registry, 'USDC', usdcId);
     
     const amountOut = (50 * 1e6).toString(); // 50 USDC
     const maxAmountIn = (10 * 1e10).toString(); // Max 10 DOT (10 decimals)
@@ -258,6 +250,7 @@ export {
   getAssetId, 
   getAssetIdFromAddress,
   getTokenInfo,
+  warnIfNotInOmnipool,
   encodeOmnipoolSell,
   encodeOmnipoolBuy
 };
@@ -1,11 +1,10 @@
 import hre from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import * as readline from "readline";
-import { DeployedContracts } from "../../config/types";
+import { XcmConfig } from "../../config/types";
+import { loadXcmConfig } from "../utils/configLoader";
+import { loadNetworkDeployment } from "../utils/network";
 import { 
   connectToHydration, 
-  loadXcmConfig, 
   getTokenInfo, 
   encodeOmnipoolSell 
 } from "./encode-hydration-swap";
@@ -17,33 +16,6 @@ const { ethers } = hre;
  * Monitors XCM message status and provides troubleshooting guidance.
  */
 
-interface XcmConfig {
-  hydration: {
-    assetRegistry: Record<string, number>;
-  };
-}
-
-/**
- * Load deployed contracts
- */
-function loadDeployedContracts(): DeployedContracts {
-  const configPath = path.join(__dirname, "../../config/deployedContracts.json");
-  if (!fs.existsSync(configPath)) {
-    throw new Error("No deployed contracts found. Deploy CrosschainSwapInitiator first.");
-  }
-  const configData = fs.readFileSync(configPath, "utf-8");
-  return JSON.parse(configData);
-}
-
-/**
- * Load XCM config
- */
-function loadXcmConfig(): XcmConfig {
-  const configPath = path.join(__dirname, "../../config/xcmConfig.json");
-  const configData = fs.readFileSync(configPath, "utf-8");
-  return JSON.parse(configData);
-}
-
 /**
  * Create readline interface for user input
  */
@@ -150,7 +122,7 @@ async function main() {
   console.log("\n🌉 Crosschain Swap Initiator - Moonbeam → Hydration\n");
 
   // Load configurations
-  const deployedContracts = loadDeployedContracts();
+  const deployedContracts = await loadNetworkDeployment();
   const xcmConfig = loadXcmConfig();
 
   if (!deployedContracts.main?.crosschainSwapInitiator) {
@@ -1,23 +1,12 @@
 import { ApiPromise, WsProvider } from '@polkadot/api';
 import * as fs from 'fs';
 import * as path from 'path';
+import { loadXcmConfig } from '../utils/configLoader';
 
 /**
  * Query Hydration Asset Registry to get metadata (symbol, name) for each asset ID
  */
 
-interface XcmConfig {
-  hydration: {
-    rpcUrl: string;
-  };
-}
-
-function loadXcmConfig(): XcmConfig {
-  const configPath = path.join(__dirname, '../../config/xcmConfig.json');
-  const configData = fs.readFileSync(configPath, 'utf-8');
-  return JSON.parse(configData);
-}
-
 async function main() {
   console.log('\n🔍 Querying Hydration Asset Registry Metadata\n');
   
@@ -1,23 +1,49 @@
 import { ApiPromise, WsProvider } from '@polkadot/api';
-import * as fs from 'fs';
+import type { Option } from '@polkadot/types';
+import type { Codec } from '@polkadot/types/types';
 import * as path from 'path';
+import { HydrationAssetMetadata, HydrationAssetRegistry, HydrationOmnipoolAsset } from '../../config/types';
+import { createTokenResolver, crossReferenceHydrationAssets } from '../../sdk';
+import {
+  HYDRATION_ASSET_REGISTRY_PATH,
+  loadTayebCoinsConfig,
+  loadXcmConfig,
+  saveHydrationAssetRegistry,
+} from '../utils/configLoader';
 
 /**
  * Query Hydration Omnipool to get actual asset IDs
- * This helps verify and update the asset registry in xcmConfig.json
+ * Saves a snapshot to hydration-asset-registry.json (with each asset's symbol and decimals
+ * from the asset registry pallet) and cross-references it with xcmConfig.json and tayebCoins.json
  */
 
-interface XcmConfig {
-  hydration: {
-    rpcUrl: string;
-    assetRegistry: Record<string, number>;
-  };
+/**
+ * The fields read from an assetRegistry.assets entry's toHuman(); older runtimes lack some
+ */
+interface HumanAssetDetails {
+  symbol?: unknown;
+  name?: unknown;
+  decimals?: unknown;
 }
 
-function loadXcmConfig(): XcmConfig {
-  const configPath = path.join(__dirname, '../../config/xcmConfig.json');
-  const configData = fs.readFileSync(configPath, 'utf-8');
-  return JSON.parse(configData);
+/**
+ * Symbol, name and decimals from Hydration's asset registry pallet, when it has them
+ */
+async function queryAssetMetadata(api: ApiPromise, assetId: number): Promise<HydrationAssetMetadata | undefined> {
+  try {
+    const details = (await api.query.assetRegistry.assets(assetId)) as Option<Codec>;
+    if (details.isNone) {
+      return undefined;
+    }
+    const human = details.unwrap().toHuman() as HumanAssetDetails;
+    const decimals = Number(human.decimals);
+    if (typeof human.symbol !== 'string' || !Number.isInteger(decimals)) {
+      return undefined;
+    }
+    return { symbol: human.symbol, name: typeof human.name === 'string' ? human.name : undefined, decimals };
+  } catch {
+    return undefined;
+  }
 }
 
 async function main() {
@@ -38,49 +64,42 @@ async function main() {
     
     console.log(`Found ${assets.length} assets in Omnipool:\n`);
     
-    const assetMap = new Map<number, any>();
+    const assetMap = new Map<number, HydrationOmnipoolAsset>();
     
     for (const [key, value] of assets) {
       const assetId = Number(key.args[0].toString());
-      const assetData = value.toHuman();
-      assetMap.set(assetId, assetData);
+      const assetData = value.toHuman() as unknown as HydrationOmnipoolAsset;
+      const metadata = await queryAssetMetadata(api, assetId);
+      assetMap.set(assetId, metadata ? { ...assetData, metadata } : assetData);
       
-      console.log(`Asset ID ${assetId}:`);
+      console.log(`Asset ID ${assetId}${metadata ? ` (${metadata.symbol}, ${metadata.decimals} decimals)` : ''}:`);
       console.log(`  Data: ${JSON.stringify(assetData, null, 2)}`);
       console.log('');
     }
     
-    // Compare with expected asset IDs
-    console.log('\n📊 Comparison with Expected Asset IDs:\n');
-    console.log('Expected (from config) | Found in Omnipool | Status');
-    console.log('-' .repeat(60));
-    
-    for (const [symbol, expectedId] of Object.entries(config.hydration.assetRegistry)) {
-      const found = assetMap.has(expectedId);
-      const status = found ? '✅' : '❌ NOT FOUND';
-      console.log(`${symbol.padEnd(20)} | ${String(expectedId).padEnd(18)} | ${status}`);
-    }
-    
-    // List all found asset IDs
-    console.log('\n\n📋 All Asset IDs Found in Omnipool:\n');
-    const sortedIds = Array.from(assetMap.keys()).sort((a, b) => a - b);
-    for (const id of sortedIds) {
-      console.log(`  Asset ID ${id}`);
-    }
-    
     // Save to file
-    const reportPath = path.join(__dirname, '../../hydration-asset-registry.json');
-    const report = {
+    const sortedIds = Array.from(assetMap.keys()).sort((a, b) => a - b);
+    const registry: HydrationAssetRegistry = {
       timestamp: new Date().toISOString(),
       totalAssets: assets.length,
-      assets: Object.fromEntries(
-        Array.from(assetMap.entries()).map(([id, data]) => [id, data])
-      ),
+      assets: Object.fromEntries(sortedIds.map((id) => [id, assetMap.get(id)!])),
       assetIds: sortedIds
     };
     
-    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
-    console.log(`\n📄 Full registry saved to: ${reportPath}\n`);
+    saveHydrationAssetRegistry(registry);
+    console.log(`\n📄 Full registry saved to: ${path.relative(process.cwd(), HYDRATION_ASSET_REGISTRY_PATH)}\n`);
+    
+    // Compare with xcmConfig.json and tayebCoins.json
+    const report = crossReferenceHydrationAssets(
+      registry,
+      config,
+      createTokenResolver(loadTayebCoinsConfig(), { xcmConfig: config })
+    );
+    console.log(`📊 Cross-reference: ${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+    for (const finding of report.findings) {
+      console.log(`   ${finding.severity === 'error' ? '❌' : '⚠️ '} ${finding.subject}: ${finding.message}`);
+    }
+    console.log('');
     
   } catch (error: any) {
     console.error('❌ Error querying assets:', error.message);
@@ -100,4 +119,3 @@ main()
     console.error(error);
     process.exit(1);
   });
-
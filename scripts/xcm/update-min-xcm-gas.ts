@@ -1,17 +1,17 @@
 import hre from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
+import { getCalldataExportPath, writeCalldataExport } from "../utils/multisig";
+import { getNetworkChainId, loadNetworkDeployment } from "../utils/network";
 
-interface DeployedContracts {
-  main?: {
-    crosschainSwapInitiator?: string;
-  };
-}
+/**
+ * Set CrosschainSwapInitiator.minXcmGas to MIN_XCM_GAS as its owner
+ *
+ * Sends from the PRIVATE_KEY signer. Once a multisig owns the contract, pass
+ * --export-calldata [file] (or EXPORT_CALLDATA) to write the call for the multisig instead.
+ */
 
 async function main() {
   const newMinGas = BigInt(process.env.MIN_XCM_GAS ?? "2000000000"); // default: 2,000,000,000
-  const deployedPath = path.join(__dirname, "../../config/deployedContracts.json");
-  const deployed: DeployedContracts = JSON.parse(fs.readFileSync(deployedPath, "utf-8"));
+  const deployed = await loadNetworkDeployment();
 
   const crosschainAddress = deployed.main?.crosschainSwapInitiator;
   if (!crosschainAddress) {
@@ -40,6 +40,25 @@ async function main() {
     return;
   }
 
+  const chainId = await getNetworkChainId();
+  const exportPath = getCalldataExportPath("update-min-xcm-gas", chainId);
+  if (exportPath) {
+    writeCalldataExport(exportPath, {
+      chainId,
+      name: "Update CrosschainSwapInitiator minXcmGas",
+      safe: await crosschain.owner().catch(() => undefined),
+      transactions: [
+        {
+          to: crosschainAddress,
+          value: "0",
+          data: crosschain.interface.encodeFunctionData("updateMinXcmGas", [newMinGas]),
+          description: `CrosschainSwapInitiator.updateMinXcmGas(${newMinGas})`,
+        },
+      ],
+    });
+    return;
+  }
+
   const feeData = await signer.provider.getFeeData();
   const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice;
   const maxPriorityFeePerGas =
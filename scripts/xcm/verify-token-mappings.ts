@@ -3,29 +3,9 @@ import { ethers } from 'ethers';
 import * as fs from 'fs';
 import * as path from 'path';
 
-// Import types and helpers
-interface XcmConfig {
-  hydration: {
-    rpcUrl: string;
-    assetRegistry: Record<string, number>;
-  };
-  moonbeam: {
-    rpcUrl: string;
-  };
-  tokenMapping: {
-    moonbeamToHydration: Record<string, {
-      symbol: string;
-      assetId: number | null;
-      decimals: number;
-    }>;
-  };
-}
-
-function loadXcmConfig(): XcmConfig {
-  const configPath = path.join(__dirname, '../../config/xcmConfig.json');
-  const configData = fs.readFileSync(configPath, 'utf-8');
-  return JSON.parse(configData);
-}
+import { HydrationAssetRegistry } from '../../config/types';
+import { getHydrationAsset } from '../../sdk';
+import { loadHydrationAssetRegistry, loadXcmConfig } from '../utils/configLoader';
 
 async function connectToHydration(rpcUrl: string): Promise<ApiPromise> {
   console.log(`Connecting to Hydration at ${rpcUrl}...`);
@@ -116,47 +96,12 @@ async function verifyMoonbeamToken(
 }
 
 /**
- * Query Hydration Omnipool for asset registry
- */
-async function getHydrationAssetRegistry(api: ApiPromise): Promise<Map<number, string>> {
-  console.log('\n📋 Querying Hydration Omnipool asset registry...');
-  
-  const assetMap = new Map<number, string>();
-  
-  try {
-    // Try to query the asset registry from Omnipool
-    // Note: This depends on Hydration's actual API structure
-    // We'll try multiple approaches
-    
-    // Approach 1: Query assets via Omnipool pallet
-    try {
-      const assets = await api.query.omnipool.assets.entries();
-      for (const [key, value] of assets) {
-        const assetId = Number(key.args[0].toString());
-        // Try to get asset metadata if available
-        assetMap.set(assetId, `Asset_${assetId}`);
-      }
-      console.log(`   ✅ Found ${assetMap.size} assets in Omnipool`);
-    } catch (error) {
-      console.log('   ⚠️  Could not query Omnipool assets directly');
-    }
-    
-    // Approach 2: Query known assets from the registry
-    // We'll use the assetRegistry from config as a reference
-    // and verify each one exists
-    
-  } catch (error: any) {
-    console.error(`   ❌ Error querying asset registry: ${error.message}`);
-  }
-  
-  return assetMap;
-}
-
-/**
- * Verify asset exists on Hydration
+ * Verify asset exists on Hydration. The symbol comes from the asset metadata recorded in
+ * hydration-asset-registry.json, since the Omnipool pallet doesn't expose it.
  */
 async function verifyHydrationAsset(
   api: ApiPromise,
+  registry: HydrationAssetRegistry,
   assetId: number
 ): Promise<{ assetId: number; exists: boolean; symbol?: string }> {
   try {
@@ -167,7 +112,7 @@ async function verifyHydrationAsset(
       return {
         assetId,
         exists: true,
-        symbol: `Asset_${assetId}` // Hydration may not expose symbol directly
+        symbol: getHydrationAsset(registry, assetId)?.metadata?.symbol
       };
     }
     
@@ -193,7 +138,8 @@ async function main() {
   
   // Load configuration
   const xcmConfig = loadXcmConfig();
-  const moonbeamRpc = xcmConfig.moonbeam.rpcUrl;
+  const registry = loadHydrationAssetRegistry();
+  const moonbeamRpc = xcmConfig.moonbeam?.rpcUrl ?? 'https://rpc.api.moonbeam.network';
   const hydrationRpc = xcmConfig.hydration.rpcUrl;
   
   // Get token mappings
@@ -257,11 +203,15 @@ async function main() {
     // Verify on Hydration (if asset ID is provided)
     if (token.expectedAssetId !== null) {
       console.log(`   💧 Verifying on Hydration (Asset ID ${token.expectedAssetId})...`);
-      const hydrationInfo = await verifyHydrationAsset(hydrationApi, token.expectedAssetId);
+      const hydrationInfo = await verifyHydrationAsset(hydrationApi, registry, token.expectedAssetId);
       token.hydrationVerified = hydrationInfo;
       
       if (hydrationInfo.exists) {
-        console.log(`      ✅ Asset exists on Hydration`);
+        console.log(`      ✅ Asset exists on Hydration${hydrationInfo.symbol ? ` (${hydrationInfo.symbol})` : ''}`);
+        if (hydrationInfo.symbol && hydrationInfo.symbol.toUpperCase() !== token.symbol.toUpperCase()) {
+          token.status = 'mismatch';
+          token.issues.push(`Hydration symbol mismatch: expected ${token.symbol}, asset ${token.expectedAssetId} is ${hydrationInfo.symbol}`);
+        }
       } else {
         console.log(`      ❌ Asset NOT found on Hydration`);
         token.status = token.status === 'valid' ? 'not_found' : token.status;
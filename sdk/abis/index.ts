@@ -0,0 +1,5 @@
+// Contract ABIs are generated from the Hardhat artifacts (see scripts/codegen/generate-abis.ts)
+export { ShariaComplianceABI } from "./ShariaCompliance";
+export { ShariaLocalSwapABI } from "./ShariaLocalSwap";
+export { ShariaDCAABI } from "./ShariaDCA";
+export { ERC20_ABI } from "./ERC20";
@@ -0,0 +1,76 @@
+/**
+ * ShariaCompliance client: registry reads and owner-only registry writes
+ */
+
+import { ShariaComplianceABI } from "./abis";
+import { requireContract } from "./registry";
+import type { Address, TayebContracts } from "./types";
+
+/**
+ * Call builders for ShariaCompliance at the deployed address. Reads against an
+ * undeployed contract carry no address (wagmi leaves them disabled); writes throw.
+ */
+export function createComplianceClient(contracts: TayebContracts) {
+  const address = contracts.shariaCompliance ?? undefined;
+  const target = () => requireContract(contracts, "shariaCompliance");
+
+  return {
+    address,
+    getAllShariaCoins: () => ({
+      address,
+      abi: ShariaComplianceABI,
+      functionName: "getAllShariaCoins" as const,
+      args: [] as const,
+    }),
+    getTotalCoins: () => ({
+      address,
+      abi: ShariaComplianceABI,
+      functionName: "getTotalCoins" as const,
+      args: [] as const,
+    }),
+    isShariaCompliant: (symbol: string) => ({
+      address,
+      abi: ShariaComplianceABI,
+      functionName: "isShariaCompliant" as const,
+      args: [symbol] as const,
+    }),
+    getCoinBySymbol: (symbol: string) => ({
+      address,
+      abi: ShariaComplianceABI,
+      functionName: "getCoinBySymbol" as const,
+      args: [symbol] as const,
+    }),
+    owner: () => ({
+      address,
+      abi: ShariaComplianceABI,
+      functionName: "owner" as const,
+      args: [] as const,
+    }),
+    registerShariaCoin: (
+      coinId: string,
+      name: string,
+      symbol: string,
+      tokenAddress: Address,
+      complianceReason: string
+    ) => ({
+      address: target(),
+      abi: ShariaComplianceABI,
+      functionName: "registerShariaCoin" as const,
+      args: [coinId, name, symbol, tokenAddress, complianceReason] as const,
+    }),
+    updateComplianceStatus: (coinId: string, verified: boolean, complianceReason: string) => ({
+      address: target(),
+      abi: ShariaComplianceABI,
+      functionName: "updateComplianceStatus" as const,
+      args: [coinId, verified, complianceReason] as const,
+    }),
+    removeShariaCoin: (coinId: string) => ({
+      address: target(),
+      abi: ShariaComplianceABI,
+      functionName: "removeShariaCoin" as const,
+      args: [coinId] as const,
+    }),
+  };
+}
+
+export type ComplianceClient = ReturnType<typeof createComplianceClient>;
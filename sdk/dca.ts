@@ -0,0 +1,315 @@
+/**
+ * ShariaDCA client: order paths, readiness and order reads/writes
+ */
+
+import { ERC20_ABI, ShariaDCAABI } from "./abis";
+import { isSameAddress, requireContract } from "./registry";
+import type { Address, DCAOrderData, TayebContracts } from "./types";
+
+/**
+ * Default DCA route: direct when either side is WGLMR, otherwise hop through WGLMR
+ */
+export function buildDCAPath(weth: Address, sourceToken: Address, targetToken: Address): Address[] {
+  if (isSameAddress(sourceToken, weth) || isSameAddress(targetToken, weth)) {
+    return [sourceToken, targetToken];
+  }
+  return [sourceToken, weth, targetToken];
+}
+
+/**
+ * Whether executeDCAOrderWithMinOut would accept the order at `nowSeconds`
+ */
+export function isOrderReady(
+  order: Pick<DCAOrderData, "exists" | "isActive" | "nextExecutionTime" | "intervalsCompleted" | "totalIntervals">,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  return (
+    order.exists &&
+    order.isActive &&
+    nowSeconds >= Number(order.nextExecutionTime) &&
+    order.intervalsCompleted < order.totalIntervals
+  );
+}
+
+/**
+ * What an execution does with schedule slots that passed without one, in the order of
+ * ShariaDCA.MissedIntervalPolicy
+ */
+export const DCA_MISSED_INTERVAL_MODES = ["catch-up", "skip-missed", "cap"] as const;
+
+export type DCAMissedIntervalMode = (typeof DCA_MISSED_INTERVAL_MODES)[number];
+
+export interface DCAMissedIntervalPolicy {
+  mode: DCAMissedIntervalMode;
+  /** Overdue slots still executed in "cap" mode */
+  maxCatchUp?: number;
+}
+
+export function getMissedIntervalPolicy(
+  order: Pick<DCAOrderData, "missedIntervalPolicy" | "maxCatchUp">
+): DCAMissedIntervalPolicy {
+  const mode = DCA_MISSED_INTERVAL_MODES[Number(order.missedIntervalPolicy)] ?? "catch-up";
+  return mode === "cap" ? { mode, maxCatchUp: Number(order.maxCatchUp) } : { mode };
+}
+
+function missedIntervalPolicyArgs(policy: DCAMissedIntervalPolicy) {
+  return [DCA_MISSED_INTERVAL_MODES.indexOf(policy.mode), BigInt(policy.maxCatchUp ?? 0)] as const;
+}
+
+export interface DCASchedule {
+  /** Slot the next execution fills; slot n is due at startTime + n * interval */
+  nextSlot: number;
+  nextSlotTime: number;
+  /** Slots due by now that haven't been executed, the next one included */
+  dueSlots: number;
+  /** Of those, the slots the order's policy drops at the next execution */
+  droppingSlots: number;
+  /** Slots already dropped by the policy */
+  missedIntervals: number;
+  /** When the last purchase falls due if the rest run on schedule */
+  finalSlotTime: number;
+}
+
+/**
+ * The order's anchored schedule at `nowSeconds`, as ShariaDCA will apply it
+ */
+export function getDCASchedule(
+  order: Pick<
+    DCAOrderData,
+    | "isActive"
+    | "startTime"
+    | "interval"
+    | "nextExecutionTime"
+    | "intervalsCompleted"
+    | "totalIntervals"
+    | "missedIntervalPolicy"
+    | "maxCatchUp"
+    | "missedIntervals"
+  >,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): DCASchedule {
+  const startTime = Number(order.startTime);
+  const interval = Number(order.interval);
+  const nextSlotTime = Number(order.nextExecutionTime);
+  const nextSlot = Math.round((nextSlotTime - startTime) / interval);
+  const latestDueSlot = Math.floor((nowSeconds - startTime) / interval);
+  const dueSlots = order.isActive && latestDueSlot >= nextSlot ? latestDueSlot - nextSlot + 1 : 0;
+
+  const overdue = Math.max(dueSlots - 1, 0);
+  const policy = getMissedIntervalPolicy(order);
+  let droppingSlots = 0;
+  if (policy.mode === "skip-missed") {
+    droppingSlots = overdue;
+  } else if (policy.mode === "cap") {
+    droppingSlots = Math.max(overdue - (policy.maxCatchUp ?? 0), 0);
+  }
+
+  const remaining = Number(order.totalIntervals - order.intervalsCompleted);
+  return {
+    nextSlot,
+    nextSlotTime,
+    dueSlots,
+    droppingSlots,
+    missedIntervals: Number(order.missedIntervals),
+    finalSlotTime: startTime + (nextSlot + droppingSlots + Math.max(remaining - 1, 0)) * interval,
+  };
+}
+
+/**
+ * An order for performUpkeep, with the minimum output its interval must buy
+ */
+export interface DCAUpkeepOrder {
+  orderId: bigint;
+  amountOutMin: bigint;
+}
+
+/**
+ * performUpkeep's performData for the given orders: abi.encode(uint256[] orderIds, uint256[] amountOutMins)
+ */
+export function encodeUpkeepOrders(orders: readonly DCAUpkeepOrder[]): `0x${string}` {
+  const word = (value: bigint | number) => BigInt(value).toString(16).padStart(64, "0");
+  const array = (values: readonly bigint[]) => [word(values.length), ...values.map(word)];
+  return `0x${[
+    word(64),
+    word(64 + 32 * (orders.length + 1)),
+    ...array(orders.map((order) => order.orderId)),
+    ...array(orders.map((order) => order.amountOutMin)),
+  ].join("")}`;
+}
+
+/**
+ * The orders in checkUpkeep's performData, which is in performUpkeep's encoding; none for "0x"
+ */
+export function decodeUpkeepOrders(performData: string): DCAUpkeepOrder[] {
+  const hex = performData.replace(/^0x/, "");
+  if (hex.length === 0) return [];
+  const word = (index: number) => BigInt(`0x${hex.slice(index * 64, (index + 1) * 64)}`);
+  const array = (offset: bigint) => {
+    const start = Number(offset / 32n);
+    return Array.from({ length: Number(word(start)) }, (_, i) => word(start + 1 + i));
+  };
+  const orderIds = array(word(0));
+  const amountOutMins = array(word(1));
+  if (orderIds.length !== amountOutMins.length) {
+    throw new Error(`performData has ${orderIds.length} orders but ${amountOutMins.length} minimums`);
+  }
+  return orderIds.map((orderId, i) => ({ orderId, amountOutMin: amountOutMins[i] }));
+}
+
+/**
+ * Call builders for ShariaDCA at the deployed address. Reads against an undeployed
+ * contract carry no address (wagmi leaves them disabled); writes throw.
+ */
+export function createDCAClient(contracts: TayebContracts) {
+  const address = contracts.shariaDCA ?? undefined;
+  const target = () => requireContract(contracts, "shariaDCA");
+  const weth = () => requireContract(contracts, "weth");
+
+  return {
+    address,
+    buildPath: (sourceToken: Address, targetToken: Address) => buildDCAPath(weth(), sourceToken, targetToken),
+    getUserOrders: (user: Address) => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "getUserOrders" as const,
+      args: [user] as const,
+    }),
+    getDCAOrder: (orderId: bigint) => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "getDCAOrder" as const,
+      args: [orderId] as const,
+    }),
+    nextOrderId: () => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "nextOrderId" as const,
+      args: [] as const,
+    }),
+    dexRouter: () => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "dexRouter" as const,
+      args: [] as const,
+    }),
+    getOrderQuote: (orderId: bigint) => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "getOrderQuote" as const,
+      args: [orderId] as const,
+    }),
+    checkUpkeep: () => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "checkUpkeep" as const,
+      args: ["0x"] as const,
+    }),
+    keepers: (account: Address) => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "keepers" as const,
+      args: [account] as const,
+    }),
+    owner: () => ({
+      address,
+      abi: ShariaDCAABI,
+      functionName: "owner" as const,
+      args: [] as const,
+    }),
+    // The native (DEV/GLMR) path must start at WGLMR; value is the full amount to lock
+    createDCAOrderWithDEV: (
+      targetToken: Address,
+      amountPerInterval: bigint,
+      intervalSeconds: bigint,
+      totalIntervals: bigint,
+      maxSlippageBps: number,
+      missedIntervals: DCAMissedIntervalPolicy,
+      value: bigint,
+      path?: readonly Address[]
+    ) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "createDCAOrderWithDEV" as const,
+      args: [
+        targetToken,
+        path ?? buildDCAPath(weth(), weth(), targetToken),
+        amountPerInterval,
+        intervalSeconds,
+        totalIntervals,
+        BigInt(maxSlippageBps),
+        ...missedIntervalPolicyArgs(missedIntervals),
+      ] as const,
+      value,
+    }),
+    createDCAOrderWithToken: (
+      sourceToken: Address,
+      targetToken: Address,
+      amountPerInterval: bigint,
+      intervalSeconds: bigint,
+      totalIntervals: bigint,
+      maxSlippageBps: number,
+      missedIntervals: DCAMissedIntervalPolicy,
+      path?: readonly Address[]
+    ) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "createDCAOrderWithToken" as const,
+      args: [
+        sourceToken,
+        targetToken,
+        path ?? buildDCAPath(weth(), sourceToken, targetToken),
+        amountPerInterval,
+        intervalSeconds,
+        totalIntervals,
+        BigInt(maxSlippageBps),
+        ...missedIntervalPolicyArgs(missedIntervals),
+      ] as const,
+    }),
+    // Keepers and order owners pass getOrderQuote's amountOutMin, read before sending
+    executeDCAOrderWithMinOut: (orderId: bigint, amountOutMin: bigint) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "executeDCAOrderWithMinOut" as const,
+      args: [orderId, amountOutMin] as const,
+    }),
+    // Runs executeDCAOrderWithMinOut for each order with its own getOrderQuote minimum
+    performUpkeep: (orders: readonly DCAUpkeepOrder[]) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "performUpkeep" as const,
+      args: [encodeUpkeepOrders(orders)] as const,
+    }),
+    setKeeper: (keeper: Address, authorized: boolean) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "setKeeper" as const,
+      args: [keeper, authorized] as const,
+    }),
+    updateDexRouter: (router: Address) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "updateDexRouter" as const,
+      args: [router] as const,
+    }),
+    cancelDCAOrder: (orderId: bigint) => ({
+      address: target(),
+      abi: ShariaDCAABI,
+      functionName: "cancelDCAOrder" as const,
+      args: [orderId] as const,
+    }),
+    approve: (token: Address, amount: bigint) => ({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: "approve" as const,
+      args: [target(), amount] as const,
+    }),
+    allowance: (token: Address, owner: Address) => ({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: "allowance" as const,
+      args: [owner, target()] as const,
+    }),
+  };
+}
+
+export type DCAClient = ReturnType<typeof createDCAClient>;
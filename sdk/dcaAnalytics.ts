@@ -0,0 +1,309 @@
+/**
+ * DCA cost basis: what each order spent and received, indexed from ShariaDCA's events,
+ * with average entry prices and current value per order and per user
+ */
+
+import { isSameAddress } from "./registry";
+
+/**
+ * Events the index is built from. DCAOrderCreated supplies each order's owner and tokens
+ * when the orders aren't read from the contract separately.
+ */
+export const DCA_COST_BASIS_EVENTS = [
+  "DCAOrderCreated",
+  "DCAOrderExecuted",
+  "DCAOrderCompleted",
+  "DCAOrderCancelled",
+] as const;
+
+/**
+ * Blocks per eth_getLogs request when scanning ShariaDCA's history
+ */
+export const DCA_LOG_BLOCK_RANGE = 10_000n;
+
+// ShariaDCA records native GLMR orders with a zero source token
+const NATIVE_TOKEN = { symbol: "GLMR", decimals: 18 };
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface DCAOrderInfo {
+  orderId: bigint;
+  owner: string;
+  sourceToken: string;
+  targetToken: string;
+}
+
+export type DCAEvent =
+  | ({ type: "created" } & DCAOrderInfo)
+  | { type: "executed"; orderId: bigint; amountIn: bigint; amountOut: bigint; timestamp: bigint }
+  | { type: "completed"; orderId: bigint }
+  | { type: "cancelled"; orderId: bigint };
+
+/**
+ * One decoded ShariaDCA log as a DCAEvent, or null for events the index doesn't use.
+ * `args` are the named event arguments, as viem returns them or as an ethers Result.
+ */
+export function toDCAEvent(eventName: string, args: Record<string, any>): DCAEvent | null {
+  // Other ShariaDCA events (OwnershipTransferred, KeeperUpdated...) have no orderId
+  if (!(DCA_COST_BASIS_EVENTS as readonly string[]).includes(eventName)) return null;
+  const orderId = BigInt(args.orderId);
+  switch (eventName) {
+    case "DCAOrderCreated":
+      return { type: "created", orderId, owner: args.owner, sourceToken: args.sourceToken, targetToken: args.targetToken };
+    case "DCAOrderExecuted":
+      return {
+        type: "executed",
+        orderId,
+        amountIn: BigInt(args.amountIn),
+        amountOut: BigInt(args.amountOut),
+        timestamp: BigInt(args.timestamp),
+      };
+    case "DCAOrderCompleted":
+      return { type: "completed", orderId };
+    case "DCAOrderCancelled":
+      return { type: "cancelled", orderId };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Inclusive [fromBlock, toBlock] windows of at most `size` blocks covering the range
+ */
+export function dcaLogRanges(fromBlock: bigint, toBlock: bigint, size: bigint = DCA_LOG_BLOCK_RANGE): Array<[bigint, bigint]> {
+  const ranges: Array<[bigint, bigint]> = [];
+  for (let start = fromBlock; start <= toBlock; start += size) {
+    const end = start + size - 1n;
+    ranges.push([start, end < toBlock ? end : toBlock]);
+  }
+  return ranges;
+}
+
+export interface DCAPosition extends DCAOrderInfo {
+  status: "active" | "completed" | "cancelled";
+  executions: number;
+  /** Source token smallest units swapped so far */
+  totalSpent: bigint;
+  /** Target token smallest units received so far */
+  totalReceived: bigint;
+  /** Unix seconds of the first and latest execution, null before the first */
+  firstExecutedAt: number | null;
+  lastExecutedAt: number | null;
+}
+
+/**
+ * Fold the events, in chain order, into one position per order. Owner and tokens come from
+ * DCAOrderCreated or from `orders`; events for an order known to neither are left out.
+ */
+export function indexDCAEvents(events: readonly DCAEvent[], orders: readonly DCAOrderInfo[] = []): DCAPosition[] {
+  const positions = new Map<bigint, DCAPosition>();
+  const open = (info: DCAOrderInfo) => {
+    if (!positions.has(info.orderId)) {
+      positions.set(info.orderId, {
+        orderId: info.orderId,
+        owner: info.owner,
+        sourceToken: info.sourceToken,
+        targetToken: info.targetToken,
+        status: "active",
+        executions: 0,
+        totalSpent: 0n,
+        totalReceived: 0n,
+        firstExecutedAt: null,
+        lastExecutedAt: null,
+      });
+    }
+  };
+  orders.forEach(open);
+
+  for (const event of events) {
+    if (event.type === "created") {
+      open(event);
+      continue;
+    }
+    const position = positions.get(event.orderId);
+    if (!position) continue;
+    if (event.type === "executed") {
+      position.executions++;
+      position.totalSpent += event.amountIn;
+      position.totalReceived += event.amountOut;
+      position.firstExecutedAt ??= Number(event.timestamp);
+      position.lastExecutedAt = Number(event.timestamp);
+    } else {
+      position.status = event.type;
+    }
+  }
+
+  return [...positions.values()].sort((a, b) => (a.orderId < b.orderId ? -1 : a.orderId > b.orderId ? 1 : 0));
+}
+
+export interface DCATokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Current price of a token by symbol, in the report's quote unit (USD in the frontend);
+ * null, undefined or 0 when unknown
+ */
+export type DCAPriceLookup = (symbol: string) => number | null | undefined;
+
+export interface DCAPositionReport extends DCAPosition {
+  source: DCATokenInfo;
+  target: DCATokenInfo;
+  /** totalSpent and totalReceived in whole tokens */
+  spent: number;
+  received: number;
+  /** Source tokens paid per target token, null before the first execution */
+  averagePrice: number | null;
+  /** What was spent, at the source token's price today (not at each execution) */
+  spentValueToday: number | null;
+  /** What was received, at the target token's price today */
+  receivedValueToday: number | null;
+  /** receivedValueToday - spentValueToday: what the order gained over holding the source tokens */
+  gainVsHolding: number | null;
+  gainVsHoldingPercent: number | null;
+}
+
+export interface DCAUserReport {
+  owner: string;
+  orders: number;
+  executions: number;
+  /** Sums over the user's orders at today's prices; null when any executed order lacks a price */
+  spentValueToday: number | null;
+  receivedValueToday: number | null;
+  gainVsHolding: number | null;
+  /** Whole target tokens received, by symbol */
+  accumulated: Record<string, number>;
+}
+
+export interface DCACostBasisReport {
+  positions: DCAPositionReport[];
+  users: DCAUserReport[];
+}
+
+function toWhole(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+function priced(amount: number, price: number | null | undefined): number | null {
+  return price ? amount * price : null;
+}
+
+function sumOrNull(values: Array<number | null>): number | null {
+  return values.some((value) => value === null) ? null : values.reduce<number>((sum, value) => sum + value!, 0);
+}
+
+/**
+ * Value each position and total them per owner, both sides at today's prices. Executions
+ * carry no price, so what was spent is only what was paid for a stablecoin source; for
+ * anything else the gain is against holding the source tokens, not a realised PnL.
+ */
+export function buildDCACostBasisReport(
+  positions: readonly DCAPosition[],
+  tokenInfo: (address: string) => DCATokenInfo | undefined,
+  priceOf: DCAPriceLookup = () => null
+): DCACostBasisReport {
+  const describe = (address: string): DCATokenInfo =>
+    isSameAddress(address, ZERO_ADDRESS) ? NATIVE_TOKEN : (tokenInfo(address) ?? { symbol: address, decimals: 18 });
+
+  const reports = positions.map((position): DCAPositionReport => {
+    const source = describe(position.sourceToken);
+    const target = describe(position.targetToken);
+    const spent = toWhole(position.totalSpent, source.decimals);
+    const received = toWhole(position.totalReceived, target.decimals);
+    const spentValueToday = priced(spent, priceOf(source.symbol));
+    const receivedValueToday = priced(received, priceOf(target.symbol));
+    const gainVsHolding =
+      spentValueToday !== null && receivedValueToday !== null ? receivedValueToday - spentValueToday : null;
+    return {
+      ...position,
+      source,
+      target,
+      spent,
+      received,
+      averagePrice: received > 0 ? spent / received : null,
+      spentValueToday,
+      receivedValueToday,
+      gainVsHolding,
+      gainVsHoldingPercent: gainVsHolding !== null && spentValueToday ? (gainVsHolding / spentValueToday) * 100 : null,
+    };
+  });
+
+  const owners = [...new Set(reports.map((report) => report.owner.toLowerCase()))];
+  const users = owners.map((owner): DCAUserReport => {
+    const own = reports.filter((report) => report.owner.toLowerCase() === owner);
+    const executed = own.filter((report) => report.executions > 0);
+    const spentValueToday = sumOrNull(executed.map((report) => report.spentValueToday));
+    const receivedValueToday = sumOrNull(executed.map((report) => report.receivedValueToday));
+    const accumulated: Record<string, number> = {};
+    for (const report of executed) {
+      accumulated[report.target.symbol] = (accumulated[report.target.symbol] ?? 0) + report.received;
+    }
+    return {
+      owner: own[0].owner,
+      orders: own.length,
+      executions: executed.reduce((sum, report) => sum + report.executions, 0),
+      spentValueToday,
+      receivedValueToday,
+      gainVsHolding:
+        spentValueToday !== null && receivedValueToday !== null ? receivedValueToday - spentValueToday : null,
+      accumulated,
+    };
+  });
+
+  return { positions: reports, users };
+}
+
+function formatAmount(value: number | null, digits: number = 4): string {
+  return value === null ? "—" : value.toLocaleString("en-US", { maximumFractionDigits: digits });
+}
+
+function formatGain(value: number | null, percent: number | null): string {
+  if (value === null) return "—";
+  const sign = value >= 0 ? "+" : "";
+  return `${sign}${formatAmount(value, 2)}${percent === null ? "" : ` (${sign}${percent.toFixed(2)}%)`}`;
+}
+
+/**
+ * The report as two Markdown tables, per order then per user, with values in `unit` at
+ * today's prices
+ */
+export function formatDCACostBasisReport(report: DCACostBasisReport, unit: string): string {
+  const orderRows = report.positions.map((position) =>
+    [
+      `#${position.orderId}`,
+      position.owner,
+      `${position.source.symbol} → ${position.target.symbol}`,
+      position.status,
+      position.executions,
+      `${formatAmount(position.spent)} ${position.source.symbol}`,
+      `${formatAmount(position.received)} ${position.target.symbol}`,
+      position.averagePrice === null ? "—" : `${formatAmount(position.averagePrice, 6)} ${position.source.symbol}`,
+      formatAmount(position.spentValueToday, 2),
+      formatAmount(position.receivedValueToday, 2),
+      formatGain(position.gainVsHolding, position.gainVsHoldingPercent),
+    ].join(" | ")
+  );
+  const userRows = report.users.map((user) =>
+    [
+      user.owner,
+      user.orders,
+      user.executions,
+      Object.entries(user.accumulated)
+        .map(([symbol, amount]) => `${formatAmount(amount)} ${symbol}`)
+        .join(", ") || "—",
+      formatAmount(user.spentValueToday, 2),
+      formatAmount(user.receivedValueToday, 2),
+      formatGain(user.gainVsHolding, user.spentValueToday ? (user.gainVsHolding! / user.spentValueToday) * 100 : null),
+    ].join(" | ")
+  );
+
+  return [
+    `| Order | Owner | Pair | Status | Executions | Spent | Received | Avg price | Spent today (${unit}) | Received today (${unit}) | vs. holding (${unit}) |`,
+    "|---|---|---|---|---|---|---|---|---|---|---|",
+    ...orderRows.map((row) => `| ${row} |`),
+    "",
+    `| Owner | Orders | Executions | Accumulated | Spent today (${unit}) | Received today (${unit}) | vs. holding (${unit}) |`,
+    "|---|---|---|---|---|---|---|",
+    ...userRows.map((row) => `| ${row} |`),
+  ].join("\n");
+}
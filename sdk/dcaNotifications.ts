@@ -0,0 +1,496 @@
+/**
+ * DCA notifications: lifecycle events as webhook payloads, the endpoints each owner
+ * registered for them, and the delivery log with its retry schedule. The notifier
+ * service watches the chain, signs and sends; this only decides what goes where and when.
+ */
+
+import type { DCAEvent } from "./dcaAnalytics";
+import type { KeeperAttempt, KeeperOrderState } from "./keeper";
+import type { Address } from "./types";
+import { isSameAddress } from "./registry";
+
+export const DCA_NOTIFICATION_TYPES = [
+  "dca.order.executed",
+  "dca.order.completed",
+  "dca.order.cancelled",
+  "dca.keeper.failed",
+] as const;
+
+export type DCANotificationType = (typeof DCA_NOTIFICATION_TYPES)[number];
+
+/**
+ * ShariaDCA events the notifier watches; keeper failures come from the keeper state instead
+ */
+export const DCA_NOTIFIER_EVENTS = ["DCAOrderExecuted", "DCAOrderCompleted", "DCAOrderCancelled"] as const;
+
+export interface DCANotification {
+  /** Stable across replays, so receivers can drop duplicates */
+  id: string;
+  type: DCANotificationType;
+  chainId: number;
+  orderId: string;
+  owner: string;
+  occurredAt: string;
+  /** One-line summary and plain-text body, for receivers that forward notifications as email */
+  subject: string;
+  text: string;
+  data: Record<string, string | number | boolean | null>;
+}
+
+export interface DCANotifierPolicy {
+  /** Attempts per delivery before it is marked failed */
+  maxAttempts: number;
+  /** Delay after the first failed attempt; doubles with each one after */
+  backoffBaseSeconds: number;
+  backoffMaxSeconds: number;
+  /** Settled deliveries kept in the log, newest last; pending ones are always kept */
+  logLimit: number;
+  maxSubscriptionsPerOwner: number;
+  /** How long a notifier session lasts after the owner signs in */
+  authMaxAgeSeconds: number;
+}
+
+export const DEFAULT_DCA_NOTIFIER_POLICY: DCANotifierPolicy = {
+  maxAttempts: 8,
+  backoffBaseSeconds: 30,
+  backoffMaxSeconds: 3600,
+  logLimit: 500,
+  maxSubscriptionsPerOwner: 5,
+  authMaxAgeSeconds: 3600,
+};
+
+export interface DCAWebhookSubscription {
+  id: string;
+  owner: string;
+  url: string;
+  events: DCANotificationType[];
+  createdAt: string;
+}
+
+/**
+ * A subscription as the notifier stores it; the HMAC secret is only shown to the owner
+ * when the endpoint is registered
+ */
+export interface DCAWebhookSubscriptionRecord extends DCAWebhookSubscription {
+  secret: string;
+}
+
+/**
+ * - pending: waiting for its first or next attempt
+ * - delivered: the endpoint answered 2xx
+ * - failed: maxAttempts used up, or the subscription was removed
+ */
+export type DCADeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface DCADeliveryAttempt {
+  at: string;
+  /** HTTP status, or null when no response came back */
+  statusCode: number | null;
+  error: string | null;
+}
+
+export interface DCADelivery {
+  id: string;
+  subscriptionId: string;
+  owner: string;
+  url: string;
+  notification: DCANotification;
+  status: DCADeliveryStatus;
+  attempts: DCADeliveryAttempt[];
+  /** Not before this time; null once settled */
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+export interface DCANotifierState {
+  chainId: number;
+  shariaDCA: Address;
+  updatedAt: string;
+  /** First block not yet scanned for events; null until the first scan */
+  nextBlock: string | null;
+  /** finishedAt of the newest keeper failure already notified, per keeper state file */
+  keeperWatermarks: Record<string, string>;
+  subscriptions: DCAWebhookSubscriptionRecord[];
+  deliveries: DCADelivery[];
+}
+
+export function createDCANotifierState(chainId: number, shariaDCA: Address, now: string = new Date().toISOString()): DCANotifierState {
+  return { chainId, shariaDCA, updatedAt: now, nextBlock: null, keeperWatermarks: {}, subscriptions: [], deliveries: [] };
+}
+
+/**
+ * A sign-in to the notifier: the host and chain it serves, and a nonce it issued for this
+ * one sign-in, so a signature can't be replayed or taken to another notifier
+ */
+export interface DCANotifierSignIn {
+  /** Host (and port) the notifier API is reached at, e.g. notifier.example.com */
+  domain: string;
+  chainId: number;
+  owner: string;
+  nonce: string;
+  issuedAt: string;
+}
+
+/**
+ * The message an owner signs (personal_sign) to list and manage their endpoints
+ */
+export function dcaNotifierAuthMessage(signIn: DCANotifierSignIn): string {
+  return [
+    "Tayeb DCA notifications",
+    `Domain: ${signIn.domain}`,
+    `Owner: ${signIn.owner.toLowerCase()}`,
+    `Chain ID: ${signIn.chainId}`,
+    `Nonce: ${signIn.nonce}`,
+    `Issued at: ${signIn.issuedAt}`,
+  ].join("\n");
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+/** The eight 16-bit groups of an IPv6 address, with an embedded dotted IPv4 tail expanded */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  const tail = /:(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (tail) {
+    const v4 = parseIPv4(tail[1]);
+    if (!v4) return null;
+    text = `${text.slice(0, tail.index)}:${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const groups = halves.map((half) => (half ? half.split(":") : []));
+  if (!groups.flat().every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  const missing = 8 - groups.flat().length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const words = halves.length === 1 ? groups[0] : [...groups[0], ...Array<string>(missing).fill("0"), ...groups[1]];
+  return words.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b < 128) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata at 169.254.169.254
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+/**
+ * Whether an IP address (v4, or v6 with or without brackets) is loopback, private,
+ * link-local, CGNAT, multicast or otherwise not on the public internet. Host names and
+ * anything else that isn't an address are false.
+ */
+export function isPrivateIpAddress(address: string): boolean {
+  const host = address.replace(/^\[(.*)\]$/, "$1");
+  const v4 = parseIPv4(host);
+  if (v4) return isPrivateIPv4(v4);
+  const v6 = parseIPv6(host);
+  if (!v6) return false;
+  const embeddedV4 = [v6[6] >> 8, v6[6] & 0xff, v6[7] >> 8, v6[7] & 0xff];
+  if (v6.slice(0, 5).every((group) => group === 0) && (v6[5] === 0 || v6[5] === 0xffff)) {
+    // ::, ::1, IPv4-compatible and IPv4-mapped addresses
+    return v6[5] === 0 && v6[6] === 0 ? true : isPrivateIPv4(embeddedV4);
+  }
+  if (v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((group) => group === 0)) {
+    // NAT64 reaches the IPv4 address it embeds
+    return isPrivateIPv4(embeddedV4);
+  }
+  return (
+    (v6[0] & 0xfe00) === 0xfc00 || // unique local
+    (v6[0] & 0xffc0) === 0xfe80 || // link-local
+    (v6[0] & 0xffc0) === 0xfec0 || // site-local
+    (v6[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+function isIpLiteral(hostname: string): boolean {
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  return parseIPv4(host) !== null || parseIPv6(host) !== null;
+}
+
+/**
+ * Host names that only mean something inside the notifier's own network
+ */
+function isInternalHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return !host.includes(".") || /(^|\.)(localhost|local|internal|home\.arpa)$/.test(host);
+}
+
+/**
+ * Normalized endpoint URL. Only https unless `allowInsecure`, which local sinks need; the
+ * same flag is needed for loopback, private and link-local hosts, so an endpoint can't
+ * point the notifier at its own network. Names are only checked here; the notifier checks
+ * what they resolve to when it sends.
+ */
+export function validateWebhookUrl(url: string, allowInsecure: boolean = false): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`"${url}" is not a valid URL`);
+  }
+  if (parsed.protocol !== "https:" && !(allowInsecure && parsed.protocol === "http:")) {
+    throw new Error(`Webhook endpoints must use https${allowInsecure ? " or http" : ""}, got ${parsed.protocol}`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error("Webhook endpoints can't carry credentials in the URL");
+  }
+  const { hostname } = parsed;
+  const isLocal = isIpLiteral(hostname) ? isPrivateIpAddress(hostname) : isInternalHostname(hostname);
+  if (isLocal && !allowInsecure) {
+    throw new Error(`Webhook endpoints must be public hosts, got ${parsed.hostname}`);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Notification for a ShariaDCA event; null for DCAOrderCreated, which owners sent themselves.
+ * `amounts` are the interval's amounts already formatted with their symbols, when known.
+ */
+export function dcaEventNotification(
+  event: DCAEvent,
+  context: {
+    chainId: number;
+    owner: string;
+    txHash: string;
+    logIndex: number;
+    occurredAt: string;
+    amounts?: { amountIn: string; amountOut: string };
+  }
+): DCANotification | null {
+  if (event.type === "created") return null;
+  const orderId = event.orderId.toString();
+  const base = {
+    id: `${context.chainId}:${context.txHash}:${context.logIndex}`,
+    chainId: context.chainId,
+    orderId,
+    owner: context.owner,
+    occurredAt: context.occurredAt,
+  };
+  switch (event.type) {
+    case "executed": {
+      const amountIn = context.amounts?.amountIn ?? event.amountIn.toString();
+      const amountOut = context.amounts?.amountOut ?? event.amountOut.toString();
+      return {
+        ...base,
+        type: "dca.order.executed",
+        subject: `DCA order #${orderId} executed`,
+        text: `Order #${orderId} swapped ${amountIn} for ${amountOut}.\nTransaction: ${context.txHash}`,
+        data: { amountIn: event.amountIn.toString(), amountOut: event.amountOut.toString(), txHash: context.txHash },
+      };
+    }
+    case "completed":
+      return {
+        ...base,
+        type: "dca.order.completed",
+        subject: `DCA order #${orderId} completed`,
+        text: `Order #${orderId} has executed all of its intervals.\nTransaction: ${context.txHash}`,
+        data: { txHash: context.txHash },
+      };
+    case "cancelled":
+      return {
+        ...base,
+        type: "dca.order.cancelled",
+        subject: `DCA order #${orderId} cancelled`,
+        text: `Order #${orderId} was cancelled and its remaining balance refunded.\nTransaction: ${context.txHash}`,
+        data: { txHash: context.txHash },
+      };
+  }
+}
+
+/**
+ * Notification for a keeper attempt that reverted or never made it on-chain
+ */
+export function keeperFailureNotification(
+  chainId: number,
+  owner: string,
+  order: KeeperOrderState,
+  attempt: KeeperAttempt
+): DCANotification {
+  const error = attempt.error ?? "unknown error";
+  const next = order.quarantine
+    ? "The keeper has paused it until its route is fixed."
+    : order.retryAt
+      ? `The keeper will retry after ${order.retryAt}.`
+      : "The keeper will retry on its next check.";
+  return {
+    id: `${chainId}:keeper:${order.orderId}:${attempt.startedAt}`,
+    type: "dca.keeper.failed",
+    chainId,
+    orderId: order.orderId,
+    owner,
+    occurredAt: attempt.finishedAt ?? attempt.startedAt,
+    subject: `DCA order #${order.orderId} could not be executed`,
+    text: `The keeper's attempt to execute order #${order.orderId} ${attempt.status} with ${error}. ${next}`,
+    data: {
+      status: attempt.status,
+      error,
+      txHash: attempt.txHash ?? null,
+      consecutiveFailures: order.consecutiveFailures,
+      quarantined: order.quarantine !== null,
+      retryAt: order.retryAt,
+    },
+  };
+}
+
+/**
+ * Attempts the keeper state records as failed (reverted or never mined) that finished
+ * after `since`, oldest first
+ */
+export function listKeeperFailuresSince(
+  orders: Record<string, KeeperOrderState>,
+  since: string | null
+): Array<{ order: KeeperOrderState; attempt: KeeperAttempt }> {
+  return Object.values(orders)
+    .flatMap((order) => order.attempts.map((attempt) => ({ order, attempt })))
+    .filter(
+      ({ attempt }) =>
+        (attempt.status === "reverted" || attempt.status === "failed") &&
+        attempt.finishedAt !== undefined &&
+        (since === null || attempt.finishedAt > since)
+    )
+    .sort((a, b) => a.attempt.finishedAt!.localeCompare(b.attempt.finishedAt!));
+}
+
+export function listDCAWebhookSubscriptions(state: DCANotifierState, owner: string): DCAWebhookSubscription[] {
+  return state.subscriptions
+    .filter((subscription) => isSameAddress(subscription.owner, owner))
+    .map(({ secret: _secret, ...subscription }) => subscription);
+}
+
+/**
+ * Register an endpoint; throws when the owner already has it or is at the limit
+ */
+export function addDCAWebhookSubscription(
+  state: DCANotifierState,
+  subscription: DCAWebhookSubscriptionRecord,
+  policy: DCANotifierPolicy = DEFAULT_DCA_NOTIFIER_POLICY
+): DCANotifierState {
+  const owned = state.subscriptions.filter((existing) => isSameAddress(existing.owner, subscription.owner));
+  if (owned.some((existing) => existing.url === subscription.url)) {
+    throw new Error(`${subscription.url} is already registered`);
+  }
+  if (owned.length >= policy.maxSubscriptionsPerOwner) {
+    throw new Error(`At most ${policy.maxSubscriptionsPerOwner} endpoints per owner`);
+  }
+  const events = subscription.events.filter((type) => DCA_NOTIFICATION_TYPES.includes(type));
+  if (events.length === 0) {
+    throw new Error(`Subscribe to at least one of ${DCA_NOTIFICATION_TYPES.join(", ")}`);
+  }
+  return { ...state, updatedAt: subscription.createdAt, subscriptions: [...state.subscriptions, { ...subscription, events }] };
+}
+
+/**
+ * Remove the owner's endpoint and fail its pending deliveries; unchanged when it isn't theirs
+ */
+export function removeDCAWebhookSubscription(
+  state: DCANotifierState,
+  owner: string,
+  subscriptionId: string,
+  now: string = new Date().toISOString()
+): DCANotifierState {
+  const target = state.subscriptions.find((subscription) => subscription.id === subscriptionId && isSameAddress(subscription.owner, owner));
+  if (!target) return state;
+  return {
+    ...state,
+    updatedAt: now,
+    subscriptions: state.subscriptions.filter((subscription) => subscription !== target),
+    deliveries: state.deliveries.map((delivery) =>
+      delivery.subscriptionId === subscriptionId && delivery.status === "pending"
+        ? { ...delivery, status: "failed", nextAttemptAt: null }
+        : delivery
+    ),
+  };
+}
+
+/**
+ * Keep every pending delivery and the newest `logLimit` settled ones
+ */
+function trimDeliveries(deliveries: DCADelivery[], logLimit: number): DCADelivery[] {
+  const settled = deliveries.filter((delivery) => delivery.status !== "pending");
+  const dropped = new Set(settled.slice(0, Math.max(0, settled.length - logLimit)));
+  return deliveries.filter((delivery) => !dropped.has(delivery));
+}
+
+/**
+ * Queue a delivery to every endpoint of the owner subscribed to the notification's type.
+ * A notification already queued for an endpoint isn't queued again.
+ */
+export function queueDCANotification(
+  state: DCANotifierState,
+  notification: DCANotification,
+  now: string = new Date().toISOString(),
+  policy: DCANotifierPolicy = DEFAULT_DCA_NOTIFIER_POLICY
+): DCANotifierState {
+  const known = new Set(state.deliveries.map((delivery) => delivery.id));
+  const queued: DCADelivery[] = state.subscriptions
+    .filter((subscription) => isSameAddress(subscription.owner, notification.owner) && subscription.events.includes(notification.type))
+    .map((subscription) => ({
+      id: `${notification.id}:${subscription.id}`,
+      subscriptionId: subscription.id,
+      owner: subscription.owner,
+      url: subscription.url,
+      notification,
+      status: "pending" as const,
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+    }))
+    .filter((delivery) => !known.has(delivery.id));
+  if (queued.length === 0) return state;
+  return { ...state, updatedAt: now, deliveries: trimDeliveries([...state.deliveries, ...queued], policy.logLimit) };
+}
+
+export function dcaDeliveryBackoffSeconds(failedAttempts: number, policy: DCANotifierPolicy = DEFAULT_DCA_NOTIFIER_POLICY): number {
+  if (failedAttempts <= 0) return 0;
+  return Math.min(policy.backoffBaseSeconds * 2 ** (failedAttempts - 1), policy.backoffMaxSeconds);
+}
+
+export function dueDCADeliveries(state: DCANotifierState, now: string = new Date().toISOString()): DCADelivery[] {
+  return state.deliveries.filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= now);
+}
+
+/**
+ * Log an attempt: a 2xx delivers, anything else backs off until maxAttempts fails it
+ */
+export function recordDCADeliveryAttempt(
+  state: DCANotifierState,
+  deliveryId: string,
+  result: { statusCode: number | null; error: string | null },
+  now: string = new Date().toISOString(),
+  policy: DCANotifierPolicy = DEFAULT_DCA_NOTIFIER_POLICY
+): DCANotifierState {
+  const deliveries = state.deliveries.map((delivery) => {
+    if (delivery.id !== deliveryId) return delivery;
+    const attempts = [...delivery.attempts, { at: now, statusCode: result.statusCode, error: result.error }];
+    const ok = result.error === null && result.statusCode !== null && result.statusCode >= 200 && result.statusCode < 300;
+    if (ok) {
+      return { ...delivery, attempts, status: "delivered" as const, nextAttemptAt: null };
+    }
+    if (attempts.length >= policy.maxAttempts) {
+      return { ...delivery, attempts, status: "failed" as const, nextAttemptAt: null };
+    }
+    const retryAt = new Date(Date.parse(now) + dcaDeliveryBackoffSeconds(attempts.length, policy) * 1000).toISOString();
+    return { ...delivery, attempts, nextAttemptAt: retryAt };
+  });
+  return { ...state, updatedAt: now, deliveries: trimDeliveries(deliveries, policy.logLimit) };
+}
+
+/**
+ * The owner's deliveries, newest first
+ */
+export function listDCADeliveries(state: DCANotifierState, owner: string, limit: number = 50): DCADelivery[] {
+  return state.deliveries
+    .filter((delivery) => isSameAddress(delivery.owner, owner))
+    .slice(-limit)
+    .reverse();
+}
@@ -0,0 +1,71 @@
+/**
+ * Deployment registry lookups: deployedContracts.json holds one entry per chain ID
+ */
+
+import type { DeployedContracts, DeploymentRegistry } from "../config/types";
+
+/**
+ * Chains Tayeb is deployed to. The local ID matches the Hardhat network in hardhat.config.ts.
+ */
+export const TAYEB_CHAIN_IDS = {
+  moonbeam: 1284,
+  moonbaseAlpha: 1287,
+  local: 1337,
+} as const;
+
+/**
+ * Chain IDs that have a deployment entry, in ascending order
+ */
+export function getDeployedChainIds(registry: DeploymentRegistry): number[] {
+  return Object.keys(registry.deployments)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * The deployment entry for `chainId`, if there is one
+ */
+export function findDeployment(registry: DeploymentRegistry, chainId: number): DeployedContracts | undefined {
+  return registry.deployments[String(chainId)];
+}
+
+/**
+ * Like findDeployment, but throws when nothing is deployed on `chainId`
+ */
+export function getDeployment(registry: DeploymentRegistry, chainId: number): DeployedContracts {
+  const deployment = findDeployment(registry, chainId);
+  if (!deployment) {
+    const available = getDeployedChainIds(registry).join(", ") || "none";
+    throw new Error(
+      `No deployment for chain ${chainId} in config/deployedContracts.json (deployed chains: ${available})`
+    );
+  }
+  return deployment;
+}
+
+/**
+ * Copy of the registry with `deployment` stored under its chain ID
+ */
+export function setDeployment(registry: DeploymentRegistry, deployment: DeployedContracts): DeploymentRegistry {
+  return {
+    ...registry,
+    deployments: { ...registry.deployments, [String(deployment.chainId)]: deployment },
+  };
+}
+
+/**
+ * Starting point for a chain that has nothing deployed yet
+ */
+export function createEmptyDeployment(chainId: number, network: string): DeployedContracts {
+  return {
+    network,
+    chainId,
+    version: "2.0.0",
+    lastDeployed: null,
+    amm: { factory: null, router: null, weth: null },
+    main: { shariaCompliance: null, shariaLocalSwap: null, shariaDCA: null },
+    tokens: {},
+    pairs: {},
+    metadata: { deploymentDate: null, deployer: null },
+  };
+}
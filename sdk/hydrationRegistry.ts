@@ -0,0 +1,137 @@
+/**
+ * Offline cross-reference between the Hydration Omnipool snapshot
+ * (hydration-asset-registry.json), xcmConfig.json and tayebCoins.json
+ */
+
+import type { HydrationAssetRegistry, HydrationOmnipoolAsset, XcmConfig } from "../config/types";
+import { normalizeTokenSymbol } from "./tokens";
+import type { TokenResolver } from "./tokens";
+
+export type HydrationFindingKind =
+  | "unknown-asset"
+  | "symbol-mismatch"
+  | "decimals-mismatch"
+  | "asset-id-mismatch"
+  | "unlisted-mapping"
+  | "missing-asset-id";
+
+export interface HydrationFinding {
+  kind: HydrationFindingKind;
+  severity: "error" | "warning";
+  /** What the finding is about, e.g. `hydration.assetRegistry.DOT` or a token symbol */
+  subject: string;
+  message: string;
+}
+
+export interface HydrationCrossReference {
+  snapshotTimestamp: string;
+  findings: HydrationFinding[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * An asset's Omnipool entry in the snapshot, or undefined when the Omnipool doesn't list it
+ */
+export function getHydrationAsset(
+  registry: HydrationAssetRegistry,
+  assetId: number
+): HydrationOmnipoolAsset | undefined {
+  return registry.assets[String(assetId)];
+}
+
+/**
+ * Compare every asset ID, symbol and decimals that xcmConfig.json and tayebCoins.json
+ * claim for Hydration against the snapshot and each other. `tokens` must be built with
+ * the same xcmConfig so mapped asset IDs are resolved.
+ *
+ * Errors: asset IDs missing from the Omnipool, and symbols, decimals or asset IDs that
+ * disagree. Warnings: mappings for addresses tayebCoins.json doesn't list, and
+ * permissible tokens with a Moonbeam address but no Hydration asset ID. Symbols and
+ * decimals are only checked against the snapshot for assets that carry `metadata`.
+ */
+export function crossReferenceHydrationAssets(
+  registry: HydrationAssetRegistry,
+  xcmConfig: XcmConfig,
+  tokens: TokenResolver
+): HydrationCrossReference {
+  const findings: HydrationFinding[] = [];
+  const error = (kind: HydrationFindingKind, subject: string, message: string) =>
+    findings.push({ kind, severity: "error", subject, message });
+  const warning = (kind: HydrationFindingKind, subject: string, message: string) =>
+    findings.push({ kind, severity: "warning", subject, message });
+
+  // Checks every claim about one asset ID against the snapshot
+  const checkAsset = (subject: string, assetId: number, symbol?: string, decimals?: number) => {
+    const asset = getHydrationAsset(registry, assetId);
+    if (!asset) {
+      error("unknown-asset", subject, `asset ${assetId} is not in the Omnipool snapshot`);
+      return;
+    }
+    if (!asset.metadata) {
+      return;
+    }
+    if (symbol !== undefined && normalizeTokenSymbol(symbol) !== normalizeTokenSymbol(asset.metadata.symbol)) {
+      error("symbol-mismatch", subject, `symbol ${symbol}, but Hydration asset ${assetId} is ${asset.metadata.symbol}`);
+    }
+    if (decimals !== undefined && decimals !== asset.metadata.decimals) {
+      error(
+        "decimals-mismatch",
+        subject,
+        `${decimals} decimals, but Hydration asset ${assetId} has ${asset.metadata.decimals}`
+      );
+    }
+  };
+
+  for (const [symbol, assetId] of Object.entries(xcmConfig.hydration.assetRegistry)) {
+    checkAsset(`hydration.assetRegistry.${symbol}`, assetId, symbol);
+  }
+
+  for (const [address, mapping] of Object.entries(xcmConfig.tokenMapping.moonbeamToHydration)) {
+    const subject = `tokenMapping.moonbeamToHydration[${address}] (${mapping.symbol})`;
+    if (mapping.assetId !== null) {
+      checkAsset(subject, mapping.assetId, mapping.symbol, mapping.decimals);
+    }
+
+    const token = tokens.resolve(address);
+    if (!token) {
+      warning("unlisted-mapping", subject, "maps an address tayebCoins.json doesn't list");
+      continue;
+    }
+    const mapped = normalizeTokenSymbol(mapping.symbol);
+    if (mapped !== normalizeTokenSymbol(token.symbol) && mapped !== normalizeTokenSymbol(token.baseSymbol)) {
+      error("symbol-mismatch", subject, `symbol ${mapping.symbol}, but tayebCoins.json lists ${token.symbol} at that address`);
+    }
+    if (mapping.decimals !== token.decimals) {
+      error(
+        "decimals-mismatch",
+        subject,
+        `${mapping.decimals} decimals, but tayebCoins.json gives ${token.symbol} ${token.decimals}`
+      );
+    }
+  }
+
+  for (const token of tokens.entries) {
+    const declared = token.variant ? token.variant.assetId : token.coin.assetId;
+    if (declared !== null && declared !== undefined) {
+      checkAsset(token.symbol, declared, undefined, token.decimals);
+      if (token.xcm && token.xcm.assetId !== null && token.xcm.assetId !== declared) {
+        error(
+          "asset-id-mismatch",
+          token.symbol,
+          `tayebCoins.json gives asset ${declared}, but xcmConfig.json maps its address to ${token.xcm.assetId}`
+        );
+      }
+    }
+    if (token.permissible && token.address && token.assetId === null) {
+      warning("missing-asset-id", token.symbol, "permissible and on Moonbeam, but has no Hydration asset ID");
+    }
+  }
+
+  return {
+    snapshotTimestamp: registry.timestamp,
+    findings,
+    errorCount: findings.filter((finding) => finding.severity === "error").length,
+    warningCount: findings.filter((finding) => finding.severity === "warning").length,
+  };
+}
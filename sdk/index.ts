@@ -0,0 +1,51 @@
+/**
+ * Tayeb SDK: typed contract clients and registry lookups shared by the Hardhat
+ * scripts and the frontend. Nothing in here imports ethers, viem or JSON; callers
+ * pass in the loaded config and execute the returned call descriptors themselves.
+ */
+
+import type { DeployedContracts, TayebCoinsConfig, XcmConfig } from "../config/types";
+import { createComplianceClient } from "./compliance";
+import { createDCAClient } from "./dca";
+import { createTokenRegistry, getTayebContracts } from "./registry";
+import { createSwapClient } from "./swap";
+
+export * from "./abis";
+export * from "./types";
+export * from "./tokens";
+export * from "./tokenList";
+export * from "./logos";
+export * from "./registry";
+export * from "./deployments";
+export * from "./compliance";
+export * from "./reconcile";
+export * from "./routerMigration";
+export * from "./screening";
+export * from "./hydrationRegistry";
+export * from "./wiringAudit";
+export * from "./swap";
+export * from "./dca";
+export * from "./dcaAnalytics";
+export * from "./dcaNotifications";
+export * from "./keeper";
+export * from "./keeperGas";
+export * from "./keeperLease";
+export * from "./stellaswap";
+
+/**
+ * Build every client for one chain's deployment entry. Pass xcmConfig.json to resolve
+ * tokens' Hydration mappings as well.
+ */
+export function createTayebSdk(deployed: DeployedContracts, tayebCoins: TayebCoinsConfig, xcmConfig?: XcmConfig) {
+  const contracts = getTayebContracts(deployed);
+  return {
+    chainId: deployed.chainId,
+    contracts,
+    tokens: createTokenRegistry(tayebCoins, { addressOverrides: deployed.tokens, xcmConfig }),
+    compliance: createComplianceClient(contracts),
+    swap: createSwapClient(contracts),
+    dca: createDCAClient(contracts),
+  };
+}
+
+export type TayebSdk = ReturnType<typeof createTayebSdk>;
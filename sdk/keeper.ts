@@ -0,0 +1,199 @@
+/**
+ * DCA keeper bookkeeping: per-order attempt history, the transaction in flight, failure
+ * backoff and quarantine. The keeper persists this between runs; this only decides what
+ * each outcome means for the next attempt.
+ */
+
+import type { Address } from "./types";
+
+/**
+ * ShariaDCA errors that repeat on every retry until the order or its route changes
+ */
+export const KEEPER_QUARANTINE_ERRORS: readonly string[] = ["SwapFailed", "InvalidPath"];
+
+export interface KeeperPolicy {
+  /** Delay after the first failure; doubles with each consecutive failure */
+  backoffBaseSeconds: number;
+  backoffMaxSeconds: number;
+  /** Consecutive failures ending in a KEEPER_QUARANTINE_ERRORS revert before the order is parked */
+  quarantineAfter: number;
+  /** Attempts kept per order, newest last */
+  historyLimit: number;
+}
+
+export const DEFAULT_KEEPER_POLICY: KeeperPolicy = {
+  backoffBaseSeconds: 60,
+  backoffMaxSeconds: 3600,
+  quarantineAfter: 3,
+  historyLimit: 20,
+};
+
+/**
+ * - pending: sent and not yet mined; resumed after a restart
+ * - confirmed: mined successfully
+ * - reverted: mined with status 0
+ * - failed: never mined (rejected by gas estimation or the RPC)
+ * - dropped: the node no longer knows the transaction; not counted as a failure
+ */
+export type KeeperAttemptStatus = "pending" | "confirmed" | "reverted" | "failed" | "dropped";
+
+export interface KeeperAttempt {
+  status: KeeperAttemptStatus;
+  txHash?: string;
+  /** Custom error name when the revert could be decoded, otherwise the message */
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface KeeperOrderState {
+  orderId: string;
+  attempts: KeeperAttempt[];
+  lastTxHash: string | null;
+  consecutiveFailures: number;
+  /** No new attempt before this time; null when not backing off */
+  retryAt: string | null;
+  quarantine: { reason: string; since: string } | null;
+}
+
+export interface KeeperState {
+  chainId: number;
+  shariaDCA: Address;
+  updatedAt: string;
+  orders: Record<string, KeeperOrderState>;
+}
+
+export type KeeperOutcome =
+  | { status: "confirmed" }
+  | { status: "reverted" | "failed"; error: string }
+  | { status: "dropped" };
+
+export type KeeperSkipReason = "quarantined" | "in-flight" | "backoff";
+
+export function createKeeperState(chainId: number, shariaDCA: Address, now: string = new Date().toISOString()): KeeperState {
+  return { chainId, shariaDCA, updatedAt: now, orders: {} };
+}
+
+export function getKeeperOrder(state: KeeperState, orderId: bigint | string): KeeperOrderState {
+  const key = orderId.toString();
+  return (
+    state.orders[key] ?? {
+      orderId: key,
+      attempts: [],
+      lastTxHash: null,
+      consecutiveFailures: 0,
+      retryAt: null,
+      quarantine: null,
+    }
+  );
+}
+
+/**
+ * The order's transaction that was sent but not yet settled, if any
+ */
+export function inFlightAttempt(order: KeeperOrderState): KeeperAttempt | undefined {
+  const last = order.attempts[order.attempts.length - 1];
+  return last?.status === "pending" ? last : undefined;
+}
+
+/**
+ * Orders with a transaction in flight, e.g. to resume after a restart
+ */
+export function listInFlightOrders(state: KeeperState): KeeperOrderState[] {
+  return Object.values(state.orders).filter((order) => inFlightAttempt(order) !== undefined);
+}
+
+/**
+ * Delay before the next attempt after `consecutiveFailures` failures in a row
+ */
+export function keeperBackoffSeconds(consecutiveFailures: number, policy: KeeperPolicy = DEFAULT_KEEPER_POLICY): number {
+  if (consecutiveFailures <= 0) return 0;
+  return Math.min(policy.backoffBaseSeconds * 2 ** (consecutiveFailures - 1), policy.backoffMaxSeconds);
+}
+
+/**
+ * Why the keeper should leave a ready order alone right now, or null to execute it
+ */
+export function keeperSkipReason(
+  state: KeeperState,
+  orderId: bigint | string,
+  now: string = new Date().toISOString()
+): KeeperSkipReason | null {
+  const order = getKeeperOrder(state, orderId);
+  if (order.quarantine) return "quarantined";
+  if (inFlightAttempt(order)) return "in-flight";
+  if (order.retryAt && Date.parse(order.retryAt) > Date.parse(now)) return "backoff";
+  return null;
+}
+
+function withOrder(state: KeeperState, order: KeeperOrderState, now: string, policy: KeeperPolicy): KeeperState {
+  const attempts = order.attempts.slice(-policy.historyLimit);
+  return { ...state, updatedAt: now, orders: { ...state.orders, [order.orderId]: { ...order, attempts } } };
+}
+
+/**
+ * Record a transaction that was just sent for the order
+ */
+export function recordKeeperSubmission(
+  state: KeeperState,
+  orderId: bigint | string,
+  txHash: string,
+  now: string = new Date().toISOString(),
+  policy: KeeperPolicy = DEFAULT_KEEPER_POLICY
+): KeeperState {
+  const order = getKeeperOrder(state, orderId);
+  return withOrder(
+    state,
+    { ...order, lastTxHash: txHash, attempts: [...order.attempts, { status: "pending", txHash, startedAt: now }] },
+    now,
+    policy
+  );
+}
+
+/**
+ * Settle the order's pending attempt (or log one that failed before it was sent).
+ * A confirmation clears the failure count and backoff. A revert or failure backs off
+ * exponentially and quarantines the order once `quarantineAfter` failures in a row end
+ * in one of KEEPER_QUARANTINE_ERRORS.
+ */
+export function recordKeeperOutcome(
+  state: KeeperState,
+  orderId: bigint | string,
+  outcome: KeeperOutcome,
+  now: string = new Date().toISOString(),
+  policy: KeeperPolicy = DEFAULT_KEEPER_POLICY
+): KeeperState {
+  const order = getKeeperOrder(state, orderId);
+  const error = outcome.status === "reverted" || outcome.status === "failed" ? outcome.error : undefined;
+  const pending = inFlightAttempt(order);
+  const settled: KeeperAttempt = { ...(pending ?? { startedAt: now }), status: outcome.status, error, finishedAt: now };
+  const attempts = pending ? [...order.attempts.slice(0, -1), settled] : [...order.attempts, settled];
+
+  if (outcome.status === "confirmed") {
+    return withOrder(state, { ...order, attempts, consecutiveFailures: 0, retryAt: null }, now, policy);
+  }
+  if (outcome.status === "dropped") {
+    return withOrder(state, { ...order, attempts }, now, policy);
+  }
+
+  const consecutiveFailures = order.consecutiveFailures + 1;
+  const retryAt = new Date(Date.parse(now) + keeperBackoffSeconds(consecutiveFailures, policy) * 1000).toISOString();
+  const quarantine =
+    KEEPER_QUARANTINE_ERRORS.includes(outcome.error) && consecutiveFailures >= policy.quarantineAfter
+      ? { reason: `${consecutiveFailures} consecutive failures, last: ${outcome.error}`, since: now }
+      : order.quarantine;
+  return withOrder(state, { ...order, attempts, consecutiveFailures, retryAt, quarantine }, now, policy);
+}
+
+/**
+ * Put a quarantined order back into rotation with a clean failure count
+ */
+export function releaseKeeperQuarantine(
+  state: KeeperState,
+  orderId: bigint | string,
+  now: string = new Date().toISOString(),
+  policy: KeeperPolicy = DEFAULT_KEEPER_POLICY
+): KeeperState {
+  const order = getKeeperOrder(state, orderId);
+  return withOrder(state, { ...order, quarantine: null, consecutiveFailures: 0, retryAt: null }, now, policy);
+}
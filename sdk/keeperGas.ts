@@ -0,0 +1,131 @@
+/**
+ * DCA keeper gas policy: what the keeper may spend on gas per day, which ready orders are
+ * worth their gas, and whether one performUpkeep batch is cheaper than executing each
+ * order on its own. Callers estimate the gas and value; this only decides.
+ */
+
+export interface KeeperGasPolicy {
+  /** Gas the keeper may spend per UTC day, in wei; null for no limit */
+  dailyBudgetWei: bigint | null;
+  /** An interval must be worth at least this many times its gas cost (both in GLMR); 0 turns the check off */
+  minValueToGasRatio: number;
+  /** Send the orders as one performUpkeep when its estimate is below theirs combined */
+  batch: boolean;
+}
+
+export const DEFAULT_KEEPER_GAS_POLICY: KeeperGasPolicy = {
+  dailyBudgetWei: null,
+  minValueToGasRatio: 1,
+  batch: true,
+};
+
+/**
+ * GLMR spent on gas during one UTC day, as a decimal wei string so the ledger stays JSON.
+ * Every keeper on a chain charges the same ledger, in its own file beside the keeper state.
+ */
+export interface KeeperGasLedger {
+  day: string;
+  spentWei: string;
+}
+
+export interface KeeperGasCandidate {
+  orderId: bigint;
+  /** Estimated cost of executing the order's next interval on its own, in wei */
+  gasCostWei: bigint;
+  /** amountPerInterval in GLMR wei, or null when the source token couldn't be priced */
+  valueWei: bigint | null;
+}
+
+/**
+ * - uneconomic: the interval is worth less than minValueToGasRatio times its gas
+ * - daily-budget: executing it would take the day's spend past dailyBudgetWei
+ */
+export type KeeperDeferReason = "uneconomic" | "daily-budget";
+
+export interface KeeperGasDeferral<T extends KeeperGasCandidate = KeeperGasCandidate> {
+  candidate: T;
+  reason: KeeperDeferReason;
+}
+
+export interface KeeperGasPlan<T extends KeeperGasCandidate = KeeperGasCandidate> {
+  execute: T[];
+  deferred: KeeperGasDeferral<T>[];
+  /** Combined estimate of the orders to execute, sent one by one */
+  costWei: bigint;
+}
+
+// The ratio as an exact fraction, so the check stays in integer wei however small the
+// ratio is; a number's shortest decimal form ("0.001", "1e-7") is read digit for digit
+function ratioFraction(ratio: number): [numerator: bigint, denominator: bigint] {
+  const [mantissa, exponent = "0"] = ratio.toString().split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  const shift = Number(exponent) - fraction.length;
+  const digits = BigInt(whole + fraction);
+  return shift >= 0 ? [digits * 10n ** BigInt(shift), 1n] : [digits, 10n ** BigInt(-shift)];
+}
+
+function utcDay(now: string): string {
+  return now.slice(0, 10);
+}
+
+/**
+ * Gas spent so far on the UTC day of `now`; no ledger yet is nothing spent
+ */
+export function keeperGasSpentToday(ledger: KeeperGasLedger | undefined, now: string = new Date().toISOString()): bigint {
+  return ledger && ledger.day === utcDay(now) ? BigInt(ledger.spentWei) : 0n;
+}
+
+/**
+ * Add a mined transaction's cost to the day's spend, starting a new day when the date changed
+ */
+export function recordKeeperGasSpend(
+  ledger: KeeperGasLedger | undefined,
+  costWei: bigint,
+  now: string = new Date().toISOString()
+): KeeperGasLedger {
+  const spentWei = keeperGasSpentToday(ledger, now) + costWei;
+  return { day: utcDay(now), spentWei: spentWei.toString() };
+}
+
+/**
+ * Split the candidates into those to execute now and those deferred. Unpriced orders are
+ * never deferred as uneconomic. The budget admits candidates in the order given until the
+ * next one would overrun it; later, cheaper ones still fit.
+ */
+export function planKeeperGas<T extends KeeperGasCandidate>(
+  candidates: readonly T[],
+  spentTodayWei: bigint,
+  policy: KeeperGasPolicy = DEFAULT_KEEPER_GAS_POLICY
+): KeeperGasPlan<T> {
+  const [ratio, ratioScale] = ratioFraction(policy.minValueToGasRatio);
+  const execute: T[] = [];
+  const deferred: KeeperGasDeferral<T>[] = [];
+  let costWei = 0n;
+
+  for (const candidate of candidates) {
+    if (candidate.valueWei !== null && candidate.valueWei * ratioScale < candidate.gasCostWei * ratio) {
+      deferred.push({ candidate, reason: "uneconomic" });
+      continue;
+    }
+    if (policy.dailyBudgetWei !== null && spentTodayWei + costWei + candidate.gasCostWei > policy.dailyBudgetWei) {
+      deferred.push({ candidate, reason: "daily-budget" });
+      continue;
+    }
+    execute.push(candidate);
+    costWei += candidate.gasCostWei;
+  }
+
+  return { execute, deferred, costWei };
+}
+
+/**
+ * Whether to send the plan as one performUpkeep, given that batch's estimated cost
+ * (null when it couldn't be estimated)
+ */
+export function shouldBatchKeeperPlan(
+  plan: KeeperGasPlan,
+  batchCostWei: bigint | null,
+  policy: KeeperGasPolicy = DEFAULT_KEEPER_GAS_POLICY
+): boolean {
+  return policy.batch && plan.execute.length > 1 && batchCostWei !== null && batchCostWei < plan.costWei;
+}
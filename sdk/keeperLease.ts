@@ -0,0 +1,206 @@
+/**
+ * DCA keeper leases: which of several redundant keepers may execute an order right now.
+ * A keeper claims the ready orders it means to send, holds each for a TTL and releases it
+ * once settled; a peer that dies stops renewing, so its leases and its shard fall to the
+ * others when they expire. The lock backend stores the table; this only decides.
+ */
+
+export interface KeeperLeasePolicy {
+  /** How long a claim (and a keeper's heartbeat) holds without being renewed */
+  ttlSeconds: number;
+  /** Executions kept in the table, newest last */
+  historyLimit: number;
+}
+
+export const DEFAULT_KEEPER_LEASE_POLICY: KeeperLeasePolicy = {
+  // Longer than one check plus the keeper's wait on a sent transaction
+  ttlSeconds: 600,
+  historyLimit: 200,
+};
+
+/**
+ * Orders whose ID modulo `count` equals `index`
+ */
+export interface KeeperShard {
+  index: number;
+  count: number;
+}
+
+export interface KeeperLease {
+  orderId: string;
+  keeperId: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export interface KeeperPeer {
+  keeperId: string;
+  shard: KeeperShard | null;
+  lastSeen: string;
+  /** Considered dead after this, and its shard open to the others */
+  expiresAt: string;
+}
+
+export interface KeeperExecutionRecord {
+  orderId: string;
+  keeperId: string;
+  status: "executed" | "skipped" | "failed";
+  txHash: string | null;
+  at: string;
+}
+
+export interface KeeperLeaseTable {
+  updatedAt: string;
+  leases: Record<string, KeeperLease>;
+  keepers: Record<string, KeeperPeer>;
+  executions: KeeperExecutionRecord[];
+}
+
+export interface KeeperClaimRequest {
+  keeperId: string;
+  shard: KeeperShard | null;
+  orderIds: string[];
+  ttlSeconds: number;
+}
+
+export interface KeeperClaimResult {
+  /** Orders this keeper now holds, renewed or newly acquired */
+  claimed: string[];
+  /** Orders left to a peer, by the keeper holding the lease or owning the shard */
+  heldBy: Record<string, string>;
+}
+
+export interface KeeperReleaseRequest {
+  keeperId: string;
+  orderIds: string[];
+  executions: KeeperExecutionRecord[];
+}
+
+export function createKeeperLeaseTable(now: string = new Date().toISOString()): KeeperLeaseTable {
+  return { updatedAt: now, leases: {}, keepers: {}, executions: [] };
+}
+
+/**
+ * Whether a value is a shard keepers can split orders by: whole numbers with 0 <= index < count
+ */
+export function isKeeperShard(value: unknown): value is KeeperShard {
+  if (typeof value !== "object" || value === null) return false;
+  const { index, count } = value as Partial<KeeperShard>;
+  return Number.isSafeInteger(index) && Number.isSafeInteger(count) && index! >= 0 && index! < count!;
+}
+
+/**
+ * Parse "index/count", e.g. KEEPER_SHARD=0/2
+ */
+export function parseKeeperShard(value: string): KeeperShard {
+  const match = /^(\d+)\/(\d+)$/.exec(value.trim());
+  const shard = match && { index: Number(match[1]), count: Number(match[2]) };
+  if (!isKeeperShard(shard)) {
+    throw new Error(`Invalid keeper shard "${value}", expected index/count such as 0/2`);
+  }
+  return shard;
+}
+
+export function keeperShardOwns(shard: KeeperShard | null, orderId: bigint | string): boolean {
+  return shard === null || BigInt(orderId) % BigInt(shard.count) === BigInt(shard.index);
+}
+
+function addSeconds(now: string, seconds: number): string {
+  return new Date(Date.parse(now) + seconds * 1000).toISOString();
+}
+
+/**
+ * Record the keeper's heartbeat and lease it every requested order that no live peer
+ * holds. An order outside the keeper's shard is only taken when no live peer's shard
+ * owns it, which is how a dead keeper's orders fail over.
+ */
+export function claimKeeperLeases(
+  table: KeeperLeaseTable,
+  request: KeeperClaimRequest,
+  now: string = new Date().toISOString()
+): { table: KeeperLeaseTable; result: KeeperClaimResult } {
+  const { keeperId, shard, ttlSeconds } = request;
+  const expiresAt = addSeconds(now, ttlSeconds);
+  const keepers = { ...table.keepers, [keeperId]: { keeperId, shard, lastSeen: now, expiresAt } };
+  const leases = { ...table.leases };
+  const livePeers = Object.values(keepers).filter((peer) => peer.keeperId !== keeperId && peer.expiresAt > now);
+  const result: KeeperClaimResult = { claimed: [], heldBy: {} };
+
+  for (const orderId of request.orderIds) {
+    const lease = leases[orderId];
+    if (lease && lease.keeperId !== keeperId && lease.expiresAt > now) {
+      result.heldBy[orderId] = lease.keeperId;
+      continue;
+    }
+    const owner = keeperShardOwns(shard, orderId)
+      ? undefined
+      : livePeers.find((peer) => peer.shard !== null && keeperShardOwns(peer.shard, orderId));
+    if (owner) {
+      result.heldBy[orderId] = owner.keeperId;
+      continue;
+    }
+    const renewed = lease?.keeperId === keeperId && lease.expiresAt > now;
+    leases[orderId] = { orderId, keeperId, acquiredAt: renewed ? lease.acquiredAt : now, expiresAt };
+    result.claimed.push(orderId);
+  }
+
+  return { table: { ...table, updatedAt: now, leases, keepers }, result };
+}
+
+/**
+ * Drop the keeper's leases on the orders and log what it did with them; a lease another
+ * keeper has since taken over is left alone
+ */
+export function releaseKeeperLeases(
+  table: KeeperLeaseTable,
+  request: KeeperReleaseRequest,
+  now: string = new Date().toISOString(),
+  policy: KeeperLeasePolicy = DEFAULT_KEEPER_LEASE_POLICY
+): KeeperLeaseTable {
+  const leases = { ...table.leases };
+  for (const orderId of request.orderIds) {
+    if (leases[orderId]?.keeperId === request.keeperId) {
+      delete leases[orderId];
+    }
+  }
+  const executions = [...table.executions, ...request.executions].slice(-policy.historyLimit);
+  return { ...table, updatedAt: now, leases, executions };
+}
+
+/**
+ * Keepers that have checked in within their TTL
+ */
+export function listLiveKeepers(table: KeeperLeaseTable, now: string = new Date().toISOString()): KeeperPeer[] {
+  return Object.values(table.keepers).filter((peer) => peer.expiresAt > now);
+}
+
+/**
+ * Markdown summary of the keepers, the leases they hold and who executed what
+ */
+export function formatKeeperLeaseReport(
+  table: KeeperLeaseTable,
+  now: string = new Date().toISOString(),
+  executionLimit: number = 20
+): string {
+  const shardLabel = (shard: KeeperShard | null) => (shard ? `${shard.index}/${shard.count}` : "all");
+  const lines = ["#### Keepers", "", "| Keeper | Shard | Last seen | Status | Leases |", "| --- | --- | --- | --- | --- |"];
+  const leases = Object.values(table.leases).filter((lease) => lease.expiresAt > now);
+  for (const peer of Object.values(table.keepers)) {
+    const held = leases.filter((lease) => lease.keeperId === peer.keeperId).map((lease) => `#${lease.orderId}`);
+    const status = peer.expiresAt > now ? "live" : "expired";
+    lines.push(`| ${peer.keeperId} | ${shardLabel(peer.shard)} | ${peer.lastSeen} | ${status} | ${held.join(", ") || "—"} |`);
+  }
+  if (Object.keys(table.keepers).length === 0) {
+    lines.push("| — | — | — | — | — |");
+  }
+
+  lines.push("", "#### Executions", "", "| At | Order | Keeper | Result | Transaction |", "| --- | --- | --- | --- | --- |");
+  const recent = table.executions.slice(-executionLimit).reverse();
+  for (const record of recent) {
+    lines.push(`| ${record.at} | #${record.orderId} | ${record.keeperId} | ${record.status} | ${record.txHash ?? "—"} |`);
+  }
+  if (recent.length === 0) {
+    lines.push("| — | — | — | — | — |");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,33 @@
+/**
+ * Token logo URLs (CoinGecko), keyed by base coin symbol. Variants use their base coin's logo.
+ */
+
+export const TOKEN_LOGOS: Record<string, string> = {
+  ETH: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
+  WETH: "https://assets.coingecko.com/coins/images/2518/small/weth.png",
+  USDT: "https://assets.coingecko.com/coins/images/325/small/Tether.png",
+  USDC: "https://assets.coingecko.com/coins/images/6319/small/usdc.png",
+  WBTC: "https://assets.coingecko.com/coins/images/7598/small/wrapped_bitcoin_wbtc.png",
+  BTC: "https://assets.coingecko.com/coins/images/1/small/bitcoin.png",
+  DAI: "https://assets.coingecko.com/coins/images/9956/small/Badge_Dai.png",
+  HDX: "https://assets.coingecko.com/coins/images/18185/small/hydradx.png",
+  GLMR: "https://assets.coingecko.com/coins/images/22459/small/glmr.png",
+  DEV: "https://assets.coingecko.com/coins/images/22459/small/glmr.png",
+  XRP: "https://assets.coingecko.com/coins/images/44/small/xrp-symbol-white-128.png",
+  BNB: "https://assets.coingecko.com/coins/images/825/small/bnb-icon2_2x.png",
+  SOL: "https://assets.coingecko.com/coins/images/4128/small/solana.png",
+  TRX: "https://assets.coingecko.com/coins/images/1094/small/tron-logo.png",
+  ADA: "https://assets.coingecko.com/coins/images/975/small/cardano.png",
+  LINK: "https://assets.coingecko.com/coins/images/877/small/chainlink-new-logo.png",
+  BCH: "https://assets.coingecko.com/coins/images/780/small/bitcoin-cash-circle.png",
+  LEO: "https://assets.coingecko.com/coins/images/8418/small/leo-token.png",
+  XLM: "https://assets.coingecko.com/coins/images/100/small/Stellar_symbol_black_RGB.png",
+  SUI: "https://assets.coingecko.com/coins/images/26375/small/sui_asset.jpeg",
+  HBAR: "https://assets.coingecko.com/coins/images/3688/small/hbar.png",
+  AVAX: "https://assets.coingecko.com/coins/images/12559/small/Avalanche_Circle_RedWhite_Trans.png",
+  DOT: "https://assets.coingecko.com/coins/images/12171/small/polkadot.png",
+  FIL: "https://assets.coingecko.com/coins/images/12817/small/filecoin.png",
+  // Fallback for custom tokens
+  SHARIA: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
+  TAYEB: "https://assets.coingecko.com/coins/images/279/small/ethereum.png",
+};
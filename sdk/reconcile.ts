@@ -0,0 +1,265 @@
+/**
+ * Reconciliation between tayebCoins.json and the on-chain ShariaCompliance registry:
+ * a diff of the two as registry calls, plus the receipt that tracks executing them
+ */
+
+import type { ComplianceClient } from "./compliance";
+import { isSameAddress } from "./registry";
+import { formatVariantSymbol } from "./tokens";
+import type { TokenResolver } from "./tokens";
+import type { Address, ContractCall, ResolvedToken, ShariaCoinData } from "./types";
+
+/**
+ * Arguments to ShariaCompliance.registerShariaCoin for one config entry
+ */
+export interface CoinRegistration {
+  coinId: string;
+  name: string;
+  symbol: string;
+  tokenAddress: Address;
+  complianceReason: string;
+}
+
+export type ReconcileAction =
+  | { type: "remove"; coinId: string; reason: string }
+  | { type: "register"; coinId: string; reason: string; registration: CoinRegistration }
+  | { type: "update"; coinId: string; reason: string; verified: boolean; complianceReason: string };
+
+export interface ReconcilePlan {
+  /** Removals first (they free symbols and addresses for re-registration), then registrations, then updates */
+  actions: ReconcileAction[];
+  /** On-chain coin IDs that already match the config */
+  inSync: string[];
+}
+
+/**
+ * How a config entry is registered on-chain. Variants use their display symbol
+ * (WBTC_WH → WBTC.wh) as both ID and symbol. Null when the entry has no address.
+ */
+export function toCoinRegistration(token: ResolvedToken): CoinRegistration | null {
+  if (!token.address) {
+    return null;
+  }
+  const symbol = token.isVariant ? formatVariantSymbol(token.symbol) : token.symbol;
+  return {
+    coinId: symbol,
+    name: token.variant?.name ?? (token.isVariant ? `${token.coin.name} (${symbol})` : token.name),
+    symbol,
+    tokenAddress: token.address,
+    complianceReason: token.complianceReason,
+  };
+}
+
+/**
+ * Diff the config against getAllShariaCoins():
+ * - on-chain coins missing from the config (or duplicating an entry) are removed
+ * - on-chain coins whose address no longer matches the config are removed and re-registered
+ * - permissible config entries with an address but no on-chain coin are registered
+ * - on-chain coins whose verified flag or compliance reason differ from the config are updated
+ *
+ * Non-permissible entries that were never registered are left off-chain; unlisted coins
+ * already fail isShariaCompliant.
+ */
+export function planReconciliation(tokens: TokenResolver, onChainCoins: readonly ShariaCoinData[]): ReconcilePlan {
+  const removals: ReconcileAction[] = [];
+  const registrations: ReconcileAction[] = [];
+  const updates: ReconcileAction[] = [];
+  const inSync: string[] = [];
+  const matched = new Set<ResolvedToken>();
+
+  for (const coin of onChainCoins) {
+    const token = tokens.resolve(coin.id) ?? tokens.resolve(coin.tokenAddress);
+    if (!token) {
+      removals.push({ type: "remove", coinId: coin.id, reason: "not in tayebCoins.json" });
+      continue;
+    }
+    if (matched.has(token)) {
+      removals.push({ type: "remove", coinId: coin.id, reason: `duplicate registration of ${token.symbol}` });
+      continue;
+    }
+    matched.add(token);
+
+    const registration = toCoinRegistration(token);
+    if (!registration) {
+      removals.push({ type: "remove", coinId: coin.id, reason: `${token.symbol} has no address in the config` });
+      continue;
+    }
+    if (!isSameAddress(coin.tokenAddress, registration.tokenAddress)) {
+      removals.push({
+        type: "remove",
+        coinId: coin.id,
+        reason: `address changed from ${coin.tokenAddress} to ${registration.tokenAddress}`,
+      });
+      if (token.permissible) {
+        registrations.push({ type: "register", coinId: registration.coinId, reason: "re-register at new address", registration });
+      }
+      continue;
+    }
+
+    const changes: string[] = [];
+    if (coin.verified !== token.permissible) {
+      changes.push(`verified ${coin.verified} → ${token.permissible}`);
+    }
+    if (coin.complianceReason !== token.complianceReason) {
+      changes.push("compliance reason changed");
+    }
+    if (changes.length === 0) {
+      inSync.push(coin.id);
+      continue;
+    }
+    updates.push({
+      type: "update",
+      coinId: coin.id,
+      reason: changes.join(", "),
+      verified: token.permissible,
+      complianceReason: token.complianceReason,
+    });
+  }
+
+  for (const token of tokens.entries) {
+    const registration = toCoinRegistration(token);
+    if (matched.has(token) || !registration || !token.permissible) {
+      continue;
+    }
+    registrations.push({ type: "register", coinId: registration.coinId, reason: "missing on-chain", registration });
+  }
+
+  return { actions: [...removals, ...registrations, ...updates], inSync };
+}
+
+export interface SeedPlan extends ReconcilePlan {
+  /** Removals, and registrations blocked by a coin holding their ID, symbol or address; left to reconcile-coins.ts */
+  conflicts: ReconcileAction[];
+}
+
+/**
+ * One-way plan for seeding a new or partly seeded registry: the registrations and
+ * updates of planReconciliation, minus anything that needs an on-chain coin removed
+ * first. Rerunning it against the same chain only returns what is still missing.
+ */
+export function planSeeding(tokens: TokenResolver, onChainCoins: readonly ShariaCoinData[]): SeedPlan {
+  const blocked = (registration: CoinRegistration) =>
+    onChainCoins.some(
+      (coin) =>
+        coin.id === registration.coinId ||
+        coin.symbol === registration.symbol ||
+        isSameAddress(coin.tokenAddress, registration.tokenAddress)
+    );
+
+  const { actions, inSync } = planReconciliation(tokens, onChainCoins);
+  const seeding: ReconcileAction[] = [];
+  const conflicts: ReconcileAction[] = [];
+  for (const action of actions) {
+    const isConflict = action.type === "remove" || (action.type === "register" && blocked(action.registration));
+    (isConflict ? conflicts : seeding).push(action);
+  }
+  return { actions: seeding, inSync, conflicts };
+}
+
+/**
+ * Stable identifier for an action, used to match receipt steps across runs
+ */
+export function reconcileActionKey(action: ReconcileAction): string {
+  return `${action.type}:${action.coinId}`;
+}
+
+/**
+ * One-line summary for plan output and confirmation prompts
+ */
+export function describeReconcileAction(action: ReconcileAction): string {
+  switch (action.type) {
+    case "remove":
+      return `removeShariaCoin(${action.coinId}): ${action.reason}`;
+    case "register":
+      return `registerShariaCoin(${action.coinId}, ${action.registration.tokenAddress}): ${action.reason}`;
+    case "update":
+      return `updateComplianceStatus(${action.coinId}, ${action.verified}): ${action.reason}`;
+  }
+}
+
+/**
+ * The ShariaCompliance call that carries out an action
+ */
+export function reconcileActionCall(compliance: ComplianceClient, action: ReconcileAction): ContractCall {
+  switch (action.type) {
+    case "remove":
+      return compliance.removeShariaCoin(action.coinId);
+    case "register": {
+      const { coinId, name, symbol, tokenAddress, complianceReason } = action.registration;
+      return compliance.registerShariaCoin(coinId, name, symbol, tokenAddress, complianceReason);
+    }
+    case "update":
+      return compliance.updateComplianceStatus(action.coinId, action.verified, action.complianceReason);
+  }
+}
+
+/**
+ * - pending: not attempted yet
+ * - confirmed: transaction mined
+ * - failed: reverted or errored; retried on resume
+ * - declined: refused at the confirmation prompt; offered again on resume
+ * - superseded: no longer needed when the run resumed (the chain already matches)
+ */
+export type ReconcileStepStatus = "pending" | "confirmed" | "failed" | "declined" | "superseded";
+
+export interface ReconcileReceiptStep {
+  key: string;
+  action: ReconcileAction;
+  status: ReconcileStepStatus;
+  txHash?: string;
+  error?: string;
+  updatedAt?: string;
+}
+
+export interface ReconcileReceipt {
+  chainId: number;
+  network: string;
+  shariaCompliance: Address;
+  createdAt: string;
+  updatedAt: string;
+  steps: ReconcileReceiptStep[];
+}
+
+export function createReconcileReceipt(
+  chainId: number,
+  network: string,
+  shariaCompliance: Address,
+  plan: ReconcilePlan,
+  now: string = new Date().toISOString()
+): ReconcileReceipt {
+  return {
+    chainId,
+    network,
+    shariaCompliance,
+    createdAt: now,
+    updatedAt: now,
+    steps: plan.actions.map((action) => ({ key: reconcileActionKey(action), action, status: "pending" })),
+  };
+}
+
+/**
+ * Continue a receipt against a freshly computed plan. Unfinished steps the fresh plan
+ * still contains are reset to pending with the fresh action; those it no longer contains
+ * are superseded. Drift that appeared since the receipt was written is not picked up:
+ * finish the receipt, then reconcile again.
+ */
+export function resumeReconcileReceipt(
+  receipt: ReconcileReceipt,
+  plan: ReconcilePlan,
+  now: string = new Date().toISOString()
+): ReconcileReceipt {
+  const fresh = new Map(plan.actions.map((action) => [reconcileActionKey(action), action]));
+  return {
+    ...receipt,
+    updatedAt: now,
+    steps: receipt.steps.map((step) => {
+      if (step.status === "confirmed" || step.status === "superseded") {
+        return step;
+      }
+      const action = fresh.get(step.key);
+      return action
+        ? { ...step, action, status: "pending", error: undefined }
+        : { ...step, status: "superseded", updatedAt: now };
+    }),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Registry lookups over the config files: deployed contract addresses and tayebCoins.json tokens
+ */
+
+import type { DeployedContracts, TayebCoinsConfig } from "../config/types";
+import { createTokenResolver, normalizeTokenSymbol, type TokenResolver, type TokenResolverOptions } from "./tokens";
+import type { Address, RegistryToken, ResolvedToken, ShariaCoinData, TayebContracts, Token } from "./types";
+
+const CONTRACT_LABELS: Record<keyof TayebContracts, string> = {
+  shariaCompliance: "ShariaCompliance",
+  shariaLocalSwap: "ShariaLocalSwap",
+  shariaDCA: "ShariaDCA",
+  router: "DEX router",
+  weth: "WGLMR",
+};
+
+const DEFAULT_DECIMALS = 18;
+
+/**
+ * Case-insensitive address comparison; null/undefined never match
+ */
+export function isSameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Pick the Tayeb contract and DEX addresses out of one chain's deployment entry
+ */
+export function getTayebContracts(deployed: DeployedContracts): TayebContracts {
+  return {
+    shariaCompliance: deployed.main.shariaCompliance as Address | null,
+    shariaLocalSwap: deployed.main.shariaLocalSwap as Address | null,
+    shariaDCA: deployed.main.shariaDCA as Address | null,
+    router: deployed.amm.router as Address | null,
+    weth: deployed.amm.weth as Address | null,
+  };
+}
+
+/**
+ * Return a contract address, throwing if it hasn't been deployed yet
+ */
+export function requireContract(contracts: TayebContracts, name: keyof TayebContracts): Address {
+  const address = contracts[name];
+  if (!address) {
+    throw new Error(
+      `${CONTRACT_LABELS[name]} address not found in config/deployedContracts.json. Deploy the contract first.`
+    );
+  }
+  return address;
+}
+
+export interface TokenRegistry extends TokenResolver {
+  /** Every coin and variant that has a Moonbeam address */
+  tokens: RegistryToken[];
+  /** Find a coin or variant by symbol (case-insensitive) */
+  findToken(symbol: string): RegistryToken | undefined;
+  /** Like findToken, but throws if the symbol is unknown or has no Moonbeam address */
+  getToken(symbol: string): RegistryToken;
+  /** Find a coin or variant by Moonbeam address (case-insensitive) */
+  findTokenByAddress(address: string): RegistryToken | undefined;
+  /** Merge an on-chain ShariaCompliance coin with its tayebCoins.json metadata */
+  fromShariaCoin(coin: ShariaCoinData): Token;
+}
+
+function toRegistryToken(entry: ResolvedToken): RegistryToken | undefined {
+  if (!entry.address) return undefined;
+  return {
+    symbol: entry.symbol,
+    name: entry.name,
+    decimals: entry.decimals,
+    description: entry.description,
+    complianceReason: entry.complianceReason,
+    permissible: entry.permissible,
+    avgSlippagePercent: entry.avgSlippagePercent,
+    addresses: { moonbeam: entry.address },
+    isVariant: entry.isVariant,
+    baseSymbol: entry.baseSymbol,
+  };
+}
+
+/**
+ * Tradeable-token lookups on top of the token resolver (see ./tokens)
+ */
+export function createTokenRegistry(config: TayebCoinsConfig, options: TokenResolverOptions = {}): TokenRegistry {
+  const resolver = createTokenResolver(config, options);
+  const findEntry = (symbol: string) => {
+    const entry = resolver.resolve(symbol);
+    // Symbol lookups only; addresses and asset IDs go through resolve()
+    return entry && normalizeTokenSymbol(entry.symbol) === normalizeTokenSymbol(symbol) ? entry : undefined;
+  };
+
+  const tokens = resolver.entries
+    .map(toRegistryToken)
+    .filter((token): token is RegistryToken => token !== undefined);
+
+  return {
+    ...resolver,
+    tokens,
+    findToken(symbol) {
+      const entry = findEntry(symbol);
+      return entry ? toRegistryToken(entry) : undefined;
+    },
+    getToken(symbol) {
+      const entry = findEntry(symbol);
+      if (!entry) {
+        throw new Error(`Unable to find token symbol '${symbol}' in tayebCoins.json`);
+      }
+      const token = toRegistryToken(entry);
+      if (!token) {
+        throw new Error(
+          `${entry.isVariant ? "Variant" : "Token"} ${entry.symbol} is missing a Moonbeam address in tayebCoins.json`
+        );
+      }
+      return token;
+    },
+    findTokenByAddress(address) {
+      const entry = resolver.resolve(address);
+      return entry && isSameAddress(entry.address, address) ? toRegistryToken(entry) : undefined;
+    },
+    fromShariaCoin(coin) {
+      // On-chain variants are registered as e.g. WBTC.wh; fall back to the token address
+      const entry = findEntry(coin.symbol) ?? resolver.resolve(coin.tokenAddress);
+      return {
+        symbol: coin.symbol,
+        name: coin.name,
+        decimals: entry?.decimals ?? DEFAULT_DECIMALS,
+        description: coin.complianceReason,
+        complianceReason: coin.complianceReason,
+        addresses: { moonbeam: coin.tokenAddress as Address },
+        permissible: coin.verified,
+        avgSlippagePercent: entry?.avgSlippagePercent,
+      };
+    },
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * DEX router migration check: the paths ShariaLocalSwap and ShariaDCA depend on, and
+ * how quotes for them on a candidate router compare with the current one. The caller
+ * quotes both routers; this only decides what would break.
+ */
+
+import type { DeployedContracts } from "../config/types";
+import type { TokenResolver } from "./tokens";
+import type { Address, DCAOrderData } from "./types";
+import { resolvePairKey } from "./wiringAudit";
+
+/** Largest quote drop on the candidate router that still counts as ok, in basis points */
+export const DEFAULT_MAX_QUOTE_DEGRADATION_BPS = 100;
+
+export interface MigrationPath {
+  /** e.g. `pairs.GLMR_USDC_WH` or `DCA order #3` */
+  label: string;
+  path: Address[];
+  amountIn: bigint;
+}
+
+/**
+ * - ok: quotes on both routers, within the allowed degradation
+ * - degraded: the candidate quotes less than allowed
+ * - fails: quotes on the current router, reverts on the candidate
+ * - fixed: reverts on the current router, quotes on the candidate
+ * - unquotable: reverts on both
+ */
+export type MigrationPathStatus = "ok" | "degraded" | "fails" | "fixed" | "unquotable";
+
+export interface MigrationPathComparison extends MigrationPath {
+  /** getAmountsOut output on each router; null when the call reverted */
+  current: bigint | null;
+  candidate: bigint | null;
+  /** Candidate quote relative to the current one, when both quote */
+  changeBps: number | null;
+  status: MigrationPathStatus;
+}
+
+export interface RouterMigrationReport {
+  paths: MigrationPathComparison[];
+  /** Paths that fail or degrade on the candidate; a migration should stop on any */
+  blocking: MigrationPathComparison[];
+}
+
+/**
+ * Every `pairs` entry (quoting one whole first token) and every DCA order that still
+ * has intervals to run (quoting its amount per interval along its stored path)
+ */
+export function collectMigrationPaths(
+  deployment: DeployedContracts,
+  tokens: TokenResolver,
+  orders: readonly DCAOrderData[]
+): MigrationPath[] {
+  const paths: MigrationPath[] = [];
+  for (const [key, pair] of Object.entries(deployment.pairs)) {
+    const pairTokens = pair ? resolvePairKey(key, tokens) : null;
+    if (!pairTokens) continue;
+    const [tokenIn, tokenOut] = pairTokens;
+    paths.push({
+      label: `pairs.${key}`,
+      path: [tokenIn.address!, tokenOut.address!],
+      amountIn: 10n ** BigInt(tokenIn.decimals),
+    });
+  }
+  for (const order of orders) {
+    if (!order.exists || !order.isActive || order.intervalsCompleted >= order.totalIntervals) continue;
+    paths.push({ label: `DCA order #${order.id}`, path: [...order.path] as Address[], amountIn: order.amountPerInterval });
+  }
+  return paths;
+}
+
+/**
+ * Classify each path from its quotes on the current and candidate routers
+ * (`quotes[i]` belongs to `paths[i]`)
+ */
+export function compareRouterQuotes(
+  paths: readonly MigrationPath[],
+  quotes: ReadonlyArray<{ current: bigint | null; candidate: bigint | null }>,
+  maxDegradationBps: number = DEFAULT_MAX_QUOTE_DEGRADATION_BPS
+): RouterMigrationReport {
+  const compared = paths.map((entry, index): MigrationPathComparison => {
+    const { current, candidate } = quotes[index];
+    if (current === null || candidate === null) {
+      const status = current !== null ? "fails" : candidate !== null ? "fixed" : "unquotable";
+      return { ...entry, current, candidate, changeBps: null, status };
+    }
+    const changeBps = current === 0n ? 0 : Number(((candidate - current) * 10_000n) / current);
+    return { ...entry, current, candidate, changeBps, status: -changeBps > maxDegradationBps ? "degraded" : "ok" };
+  });
+  return {
+    paths: compared,
+    blocking: compared.filter((entry) => entry.status === "fails" || entry.status === "degraded"),
+  };
+}
+
+/**
+ * One line per path for the migration plan output
+ */
+export function formatMigrationPath(entry: MigrationPathComparison): string {
+  const quote = (value: bigint | null) => (value === null ? "reverts" : value.toString());
+  const change = entry.changeBps === null ? "" : ` (${entry.changeBps >= 0 ? "+" : ""}${(entry.changeBps / 100).toFixed(2)}%)`;
+  return `${entry.status.toUpperCase()} ${entry.label}: ${quote(entry.current)} → ${quote(entry.candidate)}${change}`;
+}
@@ -0,0 +1,136 @@
+/**
+ * Sharia screening engine: scores a coin's structured screening data against a methodology
+ */
+
+import type {
+  RevenueSourceCategory,
+  ScreeningMethodology,
+  ShariaScreening,
+  TayebCoinsConfig,
+} from "../config/types";
+
+/**
+ * Used when tayebCoins.json doesn't set `screeningMethodology`. The 5% income threshold
+ * follows the purification tolerance common to AAOIFI-style equity screens.
+ */
+export const DEFAULT_SCREENING_METHODOLOGY: ScreeningMethodology = {
+  name: "Tayeb default",
+  prohibitedRevenueSources: ["lending-interest", "leveraged-trading", "gambling", "prohibited-goods"],
+  maxImpermissibleIncomePercent: 5,
+  allowInterestBearing: false,
+  allowLeverageOrLending: false,
+};
+
+export const REVENUE_SOURCE_LABELS: Record<RevenueSourceCategory, string> = {
+  "network-fees": "Network fees",
+  "staking-rewards": "Staking rewards",
+  "asset-backing": "Asset-backed",
+  payments: "Payments",
+  "protocol-fees": "Protocol fees",
+  "lending-interest": "Lending interest",
+  "leveraged-trading": "Leveraged trading",
+  gambling: "Gambling",
+  "prohibited-goods": "Prohibited goods",
+  other: "Other",
+};
+
+/**
+ * - compliant: every criterion passes
+ * - non-compliant: at least one criterion fails
+ * - needs-review: nothing fails, but a criterion has no data to evaluate
+ * - unscreened: the coin has no screening data
+ */
+export type ScreeningStatus = "compliant" | "non-compliant" | "needs-review" | "unscreened";
+
+export interface ScreeningCriterion {
+  id: "interest" | "revenue" | "leverage" | "income";
+  label: string;
+  /** Null when the data needed to evaluate it is missing */
+  passed: boolean | null;
+  detail: string;
+}
+
+export interface ScreeningResult {
+  status: ScreeningStatus;
+  methodology: string;
+  criteria: ScreeningCriterion[];
+  explanation: string;
+  governanceNotes?: string;
+}
+
+/**
+ * The methodology a config declares, or the default
+ */
+export function getScreeningMethodology(config: Pick<TayebCoinsConfig, "screeningMethodology">): ScreeningMethodology {
+  return config.screeningMethodology ?? DEFAULT_SCREENING_METHODOLOGY;
+}
+
+/**
+ * Evaluate screening data criterion by criterion and derive a status and explanation
+ */
+export function screenCoin(
+  screening: ShariaScreening | null | undefined,
+  methodology: ScreeningMethodology = DEFAULT_SCREENING_METHODOLOGY
+): ScreeningResult {
+  if (!screening) {
+    return {
+      status: "unscreened",
+      methodology: methodology.name,
+      criteria: [],
+      explanation: "No screening data in tayebCoins.json",
+    };
+  }
+
+  const prohibited = screening.revenueSources.filter((source) =>
+    methodology.prohibitedRevenueSources.includes(source)
+  );
+  const income = screening.impermissibleIncomePercent;
+  const sources = screening.revenueSources.map((source) => REVENUE_SOURCE_LABELS[source]).join(", ") || "none listed";
+
+  const criteria: ScreeningCriterion[] = [
+    {
+      id: "interest",
+      label: "No interest (riba)",
+      passed: methodology.allowInterestBearing || !screening.interestBearing,
+      detail: screening.interestBearing ? "Pays or accrues interest to holders" : "No interest-bearing mechanism",
+    },
+    {
+      id: "revenue",
+      label: "Permissible revenue sources",
+      passed: prohibited.length === 0,
+      detail:
+        prohibited.length === 0
+          ? sources
+          : `Prohibited: ${prohibited.map((source) => REVENUE_SOURCE_LABELS[source]).join(", ")}`,
+    },
+    {
+      id: "leverage",
+      label: "No leverage or lending",
+      passed: methodology.allowLeverageOrLending || !screening.leverageOrLending,
+      detail: screening.leverageOrLending ? "Used mainly for leveraged trading or lending" : "Not a leverage or lending instrument",
+    },
+    {
+      id: "income",
+      label: `Impermissible income ≤ ${methodology.maxImpermissibleIncomePercent}%`,
+      passed: income === undefined ? null : income <= methodology.maxImpermissibleIncomePercent,
+      detail: income === undefined ? "Not assessed" : `${income}% of holder returns`,
+    },
+  ];
+
+  const failed = criteria.filter((criterion) => criterion.passed === false);
+  const missing = criteria.filter((criterion) => criterion.passed === null);
+  let status: ScreeningStatus;
+  let explanation: string;
+  if (failed.length > 0) {
+    status = "non-compliant";
+    explanation = `Fails ${failed.map((criterion) => `${criterion.label} (${criterion.detail})`).join("; ")}`;
+  } else if (missing.length > 0) {
+    status = "needs-review";
+    explanation = `No data for ${missing.map((criterion) => criterion.label).join(", ")}`;
+  } else {
+    status = "compliant";
+    explanation = `Meets all ${criteria.length} criteria of the ${methodology.name} methodology`;
+  }
+
+  return { status, methodology: methodology.name, criteria, explanation, governanceNotes: screening.governanceNotes };
+}
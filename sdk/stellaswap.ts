@@ -0,0 +1,185 @@
+/**
+ * Parsing for StellaSwap hybrid router quotes (@stellaswap/swap-sdk getQuote)
+ *
+ * The SDK's payload shape has changed between versions, so each extractor checks
+ * every known location. Callers own the network request and error reporting.
+ */
+
+import type { Address } from "./types";
+import { isSameAddress } from "./registry";
+
+/** StellaSwap's symbol for the native asset */
+export const STELLASWAP_NATIVE = "ETH";
+
+/** Hybrid router on Moonbeam, used when a trades-style payload names no router */
+export const STELLASWAP_DEFAULT_ROUTER = "0x70085a09d30d6f8c4ecf6ee10120d1847383bb57";
+
+export interface StellaSwapQuote {
+  path: Address[] | null;
+  router: string | null;
+  amountOut: string | null;
+}
+
+/**
+ * Map a token address to what the StellaSwap API expects (native GLMR is "ETH")
+ */
+export function toStellaSwapToken(address: string, weth: string): string {
+  return isSameAddress(address, weth) ? STELLASWAP_NATIVE : address;
+}
+
+/**
+ * Return the error message if getQuote returned (rather than threw) an AxiosError
+ */
+export function getStellaSwapErrorResponse(
+  response: any
+): { message: string; status?: number; data?: any } | null {
+  if (!response || typeof response !== "object" || response.name !== "AxiosError") return null;
+  return {
+    message: response.response?.data?.message || response.message || "Request failed",
+    status: response.response?.status ?? response.status,
+    data: response.response?.data,
+  };
+}
+
+/**
+ * Unwrap the quote payload, throwing if the API reported failure
+ */
+export function getStellaSwapPayload(response: any): any {
+  const payload = response?.result ?? response;
+  if (!payload || response?.isSuccess === false) {
+    throw new Error(response?.message ?? response?.error ?? "Unknown error from StellaSwap router API");
+  }
+  return payload;
+}
+
+function nodeAddress(node: any): string | undefined {
+  return typeof node === "string" ? node : node?.address;
+}
+
+function addressList(candidate: any): string[] | null {
+  if (!Array.isArray(candidate) || candidate.length < 2) return null;
+  if (typeof candidate[0] === "string") return candidate as string[];
+  if (candidate[0] && typeof candidate[0].address === "string") {
+    return candidate.map((node: any) => node.address);
+  }
+  return null;
+}
+
+function extractTradesPath(result: any): string[] | null {
+  const path: string[] = [];
+  const fromToken = nodeAddress(result.fromToken);
+  const toToken = nodeAddress(result.toToken);
+
+  if (fromToken) path.push(fromToken);
+
+  // Chain trades together, skipping a trade's first hop when it repeats the previous token
+  for (const trade of result.trades) {
+    if (!Array.isArray(trade?.path) || trade.path.length === 0) continue;
+    const first = nodeAddress(trade.path[0])?.toLowerCase() ?? "";
+    const startIdx = path.length > 0 && first === path[path.length - 1].toLowerCase() ? 1 : 0;
+
+    for (let i = startIdx; i < trade.path.length; i++) {
+      const address = nodeAddress(trade.path[i]);
+      if (address && address.startsWith("0x") && !path.some((p) => isSameAddress(p, address))) {
+        path.push(address);
+      }
+    }
+  }
+
+  // Make sure the route ends at toToken
+  if (toToken && !isSameAddress(path[path.length - 1], toToken)) {
+    const filtered = path.filter((p) => !isSameAddress(p, toToken));
+    filtered.push(toToken);
+    return filtered.length > 1 ? filtered : null;
+  }
+
+  return path.length > 1 ? path : null;
+}
+
+/**
+ * Extract the swap path, converting StellaSwap's "ETH" back to the WGLMR address
+ */
+export function extractStellaSwapPath(result: any, weth: Address): Address[] | null {
+  if (!result) return null;
+
+  let path: string[] | null = null;
+  if (Array.isArray(result.trades) && result.trades.length > 0) {
+    path = extractTradesPath(result);
+  }
+
+  const candidates = [result.path, result?.route?.path, result?.bestRoute?.path];
+  for (const candidate of candidates) {
+    path = path ?? addressList(candidate);
+  }
+
+  if (!path && Array.isArray(result.routes)) {
+    for (const route of result.routes) {
+      path = path ?? addressList(route?.path);
+      for (const step of Array.isArray(route?.steps) ? route.steps : []) {
+        path = path ?? addressList(step?.path);
+      }
+    }
+  }
+
+  if (!path) return null;
+  return path.map((address) => (address.toUpperCase() === STELLASWAP_NATIVE ? weth : (address as Address)));
+}
+
+/**
+ * Extract the quoted output amount in the output token's smallest units
+ */
+export function extractStellaSwapAmountOut(result: any): string | null {
+  if (!result) return null;
+  const candidates: unknown[] = [
+    result.amountOut,
+    result?.route?.amountOut,
+    result?.bestRoute?.amountOut,
+    result?.routes?.[0]?.amountOut,
+    result?.execution?.amountOut,
+  ];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && candidate !== "") return candidate;
+    if (typeof candidate === "number" || typeof candidate === "bigint") return candidate.toString();
+  }
+  return null;
+}
+
+/**
+ * Extract the router StellaSwap plans to execute through
+ */
+export function extractStellaSwapRouter(result: any): string | null {
+  if (!result) return null;
+
+  const candidates: unknown[] = [
+    result.routerAddress,
+    result.router,
+    result?.execution?.router,
+    result?.execution?.routerAddress,
+    result?.route?.router,
+    result?.bestRoute?.router,
+  ];
+  for (const route of Array.isArray(result.routes) ? result.routes : []) {
+    candidates.push(route?.routerAddress, route?.router);
+  }
+
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && candidate.startsWith("0x")) return candidate;
+  }
+
+  if (Array.isArray(result.trades) && result.trades.length > 0) {
+    return STELLASWAP_DEFAULT_ROUTER;
+  }
+  return null;
+}
+
+/**
+ * Extract path, router and output amount from a quote payload
+ */
+export function parseStellaSwapQuote(payload: any, weth: Address): StellaSwapQuote {
+  return {
+    path: extractStellaSwapPath(payload, weth),
+    router: extractStellaSwapRouter(payload),
+    amountOut: extractStellaSwapAmountOut(payload),
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * ShariaLocalSwap client: path building, quotes, swaps and swap history
+ */
+
+import { ERC20_ABI, ShariaLocalSwapABI } from "./abis";
+import { isSameAddress, requireContract } from "./registry";
+import type { Address, SwapRecord, TayebContracts } from "./types";
+
+/** Swaps must land within this window or the contract reverts */
+export const SWAP_DEADLINE_SECONDS = 15 * 60;
+
+/** Window used by the "recent transactions" views */
+export const RECENT_SWAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Unix deadline (seconds) for a swap submitted now
+ */
+export function swapDeadline(nowMs: number = Date.now(), windowSeconds: number = SWAP_DEADLINE_SECONDS): bigint {
+  return BigInt(Math.floor(nowMs / 1000) + windowSeconds);
+}
+
+/**
+ * Default swap route: direct when either side is WGLMR or tryDirect is set,
+ * otherwise hop through WGLMR
+ */
+export function buildSwapPath(weth: Address, tokenIn: Address, tokenOut: Address, tryDirect: boolean = true): Address[] {
+  if (isSameAddress(tokenIn, weth) || isSameAddress(tokenOut, weth) || tryDirect) {
+    return [tokenIn, tokenOut];
+  }
+  return [tokenIn, weth, tokenOut];
+}
+
+/**
+ * Swaps from the last `windowMs`, newest first, at most `limit` of them
+ */
+export function getRecentSwaps<T extends Pick<SwapRecord, "timestamp">>(
+  history: readonly T[],
+  limit: number,
+  nowMs: number = Date.now(),
+  windowMs: number = RECENT_SWAP_WINDOW_MS
+): T[] {
+  const since = nowMs - windowMs;
+  return history
+    .filter((swap) => Number(swap.timestamp) * 1000 >= since)
+    .sort((a, b) => Number(b.timestamp - a.timestamp))
+    .slice(0, limit);
+}
+
+/**
+ * Call builders for ShariaLocalSwap at the deployed address. Reads against an
+ * undeployed contract carry no address (wagmi leaves them disabled); writes throw.
+ */
+export function createSwapClient(contracts: TayebContracts) {
+  const address = contracts.shariaLocalSwap ?? undefined;
+  const target = () => requireContract(contracts, "shariaLocalSwap");
+  const weth = () => requireContract(contracts, "weth");
+
+  return {
+    address,
+    buildPath: (tokenIn: Address, tokenOut: Address, tryDirect: boolean = true) =>
+      buildSwapPath(weth(), tokenIn, tokenOut, tryDirect),
+    // GLMR swaps wrap to WGLMR first, so their path starts there
+    buildNativePath: (tokenOut: Address): Address[] => [weth(), tokenOut],
+    getSwapQuote: (path: readonly Address[], amountIn: bigint) => ({
+      address,
+      abi: ShariaLocalSwapABI,
+      functionName: "getSwapQuote" as const,
+      args: [path, amountIn] as const,
+    }),
+    swapShariaCompliant: (path: readonly Address[], amountIn: bigint, minAmountOut: bigint, deadline: bigint) => ({
+      address: target(),
+      abi: ShariaLocalSwapABI,
+      functionName: "swapShariaCompliant" as const,
+      args: [path, amountIn, minAmountOut, deadline] as const,
+    }),
+    swapGLMRForToken: (path: readonly Address[], minAmountOut: bigint, deadline: bigint, value: bigint) => ({
+      address: target(),
+      abi: ShariaLocalSwapABI,
+      functionName: "swapGLMRForToken" as const,
+      args: [path, minAmountOut, deadline] as const,
+      value,
+    }),
+    getUserSwapHistory: (user: Address) => ({
+      address,
+      abi: ShariaLocalSwapABI,
+      functionName: "getUserSwapHistory" as const,
+      args: [user] as const,
+    }),
+    dexRouter: () => ({
+      address,
+      abi: ShariaLocalSwapABI,
+      functionName: "dexRouter" as const,
+      args: [] as const,
+    }),
+    updateDexRouter: (router: Address) => ({
+      address: target(),
+      abi: ShariaLocalSwapABI,
+      functionName: "updateDexRouter" as const,
+      args: [router] as const,
+    }),
+    approve: (token: Address, amount: bigint) => ({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: "approve" as const,
+      args: [target(), amount] as const,
+    }),
+    allowance: (token: Address, owner: Address) => ({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: "allowance" as const,
+      args: [owner, target()] as const,
+    }),
+  };
+}
+
+export type SwapClient = ReturnType<typeof createSwapClient>;
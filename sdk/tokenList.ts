@@ -0,0 +1,249 @@
+/**
+ * Uniswap token-list format (https://tokenlists.org): export tayebCoins.json so other
+ * wallets and DEX frontends can consume it, and read lists back in as selectable tokens
+ */
+
+import { TOKEN_LOGOS } from "./logos";
+import { formatVariantSymbol } from "./tokens";
+import type { TokenResolver } from "./tokens";
+import type { Address, ResolvedToken, Token } from "./types";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export interface TokenListVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+export type TokenListExtensionValue = string | number | boolean | null;
+
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: Record<string, TokenListExtensionValue>;
+}
+
+export interface TokenListTag {
+  name: string;
+  description: string;
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: TokenListVersion;
+  tokens: TokenListToken[];
+  tags?: Record<string, TokenListTag>;
+  logoURI?: string;
+  keywords?: string[];
+}
+
+/**
+ * Tag IDs the exporter puts on tokens. IDs must be word characters only.
+ */
+export const TOKEN_LIST_TAGS: Record<"sharia" | "bridged" | "hydration", TokenListTag> = {
+  sharia: { name: "Sharia-compliant", description: "Listed as permissible in the Tayeb registry" },
+  bridged: { name: "Bridged", description: "Bridged or XCM variant of a base coin" },
+  hydration: { name: "Hydration", description: "Transferable to Hydration over XCM" },
+};
+
+export const TAYEB_TOKEN_LIST_NAME = "Tayeb Sharia-compliant";
+
+export interface BuildTokenListOptions {
+  chainId: number;
+  version: TokenListVersion;
+  timestamp: string;
+  /** Export non-permissible entries too (untagged, `permissible: false`); off by default */
+  includeNonPermissible?: boolean;
+}
+
+function toListToken(token: ResolvedToken & { address: Address }, chainId: number, resolver: TokenResolver): TokenListToken {
+  const screening = resolver.screen(token.symbol);
+  const tags: string[] = [];
+  if (token.permissible) {
+    tags.push("sharia");
+  }
+  if (token.isVariant) {
+    tags.push("bridged");
+  }
+  if (token.xcm) {
+    tags.push("hydration");
+  }
+
+  const listToken: TokenListToken = {
+    chainId,
+    address: token.address,
+    symbol: formatVariantSymbol(token.symbol),
+    name: token.name,
+    decimals: token.decimals,
+    logoURI: TOKEN_LOGOS[token.baseSymbol.toUpperCase()],
+    tags,
+    extensions: {
+      tayebSymbol: token.symbol,
+      baseSymbol: token.baseSymbol,
+      permissible: token.permissible,
+      complianceReason: token.complianceReason,
+      screeningStatus: screening?.status ?? null,
+      screeningMethodology: screening?.methodology ?? null,
+      hydrationAssetId: token.assetId,
+    },
+  };
+  if (!listToken.logoURI) {
+    delete listToken.logoURI;
+  }
+  return listToken;
+}
+
+/**
+ * Every coin and variant with an address on the resolver's network, in tayebCoins.json order
+ */
+export function buildTokenList(resolver: TokenResolver, options: BuildTokenListOptions): TokenList {
+  const tokens = resolver.entries
+    .filter((token): token is ResolvedToken & { address: Address } => token.address !== null)
+    .filter((token) => token.permissible || options.includeNonPermissible)
+    .map((token) => toListToken(token, options.chainId, resolver));
+
+  return {
+    name: TAYEB_TOKEN_LIST_NAME,
+    timestamp: options.timestamp,
+    version: options.version,
+    keywords: ["sharia", "halal", "moonbeam"],
+    tags: TOKEN_LIST_TAGS,
+    tokens,
+  };
+}
+
+function tokenKey(token: Pick<TokenListToken, "chainId" | "address">): string {
+  return `${token.chainId}:${token.address.toLowerCase()}`;
+}
+
+/**
+ * Version for `tokens` following the token-list rules: major when a token is removed,
+ * minor when one is added, patch when an existing token changes, unchanged otherwise.
+ * The first export is 1.0.0.
+ */
+export function nextTokenListVersion(previous: TokenList | null, tokens: TokenListToken[]): TokenListVersion {
+  if (!previous) {
+    return { major: 1, minor: 0, patch: 0 };
+  }
+  const { major, minor, patch } = previous.version;
+  const before = new Map(previous.tokens.map((token) => [tokenKey(token), JSON.stringify(token)]));
+  const after = new Map(tokens.map((token) => [tokenKey(token), JSON.stringify(token)]));
+
+  if ([...before.keys()].some((key) => !after.has(key))) {
+    return { major: major + 1, minor: 0, patch: 0 };
+  }
+  if ([...after.keys()].some((key) => !before.has(key))) {
+    return { major, minor: minor + 1, patch: 0 };
+  }
+  if ([...after].some(([key, token]) => before.get(key) !== token)) {
+    return { major, minor, patch: patch + 1 };
+  }
+  return previous.version;
+}
+
+/**
+ * Thrown by parseTokenList with every problem found in the payload
+ */
+export class TokenListError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid token list:\n  - ${issues.join("\n  - ")}`);
+    this.name = "TokenListError";
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/**
+ * Check the parts of the token-list schema the frontend relies on, and throw a
+ * TokenListError listing every problem
+ */
+export function parseTokenList(data: unknown): TokenList {
+  const issues: string[] = [];
+  if (!isObject(data)) {
+    throw new TokenListError(["expected a JSON object"]);
+  }
+  if (typeof data.name !== "string" || data.name.trim() === "") {
+    issues.push("name must be a non-empty string");
+  }
+  const version = data.version;
+  if (!isObject(version) || !["major", "minor", "patch"].every((part) => isNonNegativeInteger(version[part]))) {
+    issues.push("version must be { major, minor, patch } with non-negative integers");
+  }
+  if (!Array.isArray(data.tokens)) {
+    issues.push("tokens must be an array");
+  } else {
+    data.tokens.forEach((token: unknown, index: number) => {
+      const label = `tokens[${index}]`;
+      if (!isObject(token)) {
+        issues.push(`${label} must be an object`);
+        return;
+      }
+      if (!isNonNegativeInteger(token.chainId)) {
+        issues.push(`${label}.chainId must be an integer`);
+      }
+      if (typeof token.address !== "string" || !ADDRESS_PATTERN.test(token.address)) {
+        issues.push(`${label}.address must be a 0x-prefixed 20-byte address`);
+      }
+      if (typeof token.symbol !== "string" || token.symbol === "") {
+        issues.push(`${label}.symbol must be a non-empty string`);
+      }
+      if (typeof token.name !== "string") {
+        issues.push(`${label}.name must be a string`);
+      }
+      if (!isNonNegativeInteger(token.decimals) || token.decimals > 255) {
+        issues.push(`${label}.decimals must be an integer from 0 to 255`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new TokenListError(issues);
+  }
+  return data as TokenList;
+}
+
+/**
+ * A token imported from a list, with the list it came from
+ */
+export interface ImportedToken extends Token {
+  listName: string;
+  logoURI?: string;
+}
+
+/**
+ * `list`'s tokens on `chainId` as selectable tokens. `permissible` comes from the
+ * extension Tayeb's exporter writes; tokens from other lists are not permissible. This
+ * is display only: the contracts still check the on-chain registry.
+ */
+export function tokenListToTokens(list: TokenList, chainId: number): ImportedToken[] {
+  return list.tokens
+    .filter((token) => token.chainId === chainId)
+    .map((token) => {
+      const extensions = token.extensions ?? {};
+      return {
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        description: `Imported from ${list.name}`,
+        complianceReason: typeof extensions.complianceReason === "string" ? extensions.complianceReason : "",
+        permissible: extensions.permissible === true,
+        addresses: { moonbeam: token.address as Address },
+        listName: list.name,
+        logoURI: token.logoURI,
+      };
+    });
+}
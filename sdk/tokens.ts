@@ -0,0 +1,161 @@
+/**
+ * Token resolution over tayebCoins.json: one lookup for base coins and variants by
+ * symbol, variant symbol, address or Hydration asset ID
+ */
+
+import type { DeployedContracts, TayebCoinsConfig, XcmConfig } from "../config/types";
+import { getScreeningMethodology, screenCoin } from "./screening";
+import type { ScreeningResult } from "./screening";
+import type { Address, ResolvedToken } from "./types";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const ASSET_ID_PATTERN = /^[0-9]+$/;
+
+export interface TokenResolverOptions {
+  /** A deployment's `tokens` map (keyed by symbol), replacing Moonbeam addresses on other networks */
+  addressOverrides?: DeployedContracts["tokens"];
+  /** Supplies the Moonbeam → Hydration mapping and asset IDs */
+  xcmConfig?: XcmConfig;
+}
+
+export interface TokenResolver {
+  /** Every coin and variant in tayebCoins.json, including those without an address */
+  entries: ResolvedToken[];
+  /**
+   * Resolve a symbol or variant symbol (any case, `WBTC_WH` or the on-chain `WBTC.wh`),
+   * an address, or a Hydration asset ID (number or numeric string)
+   */
+  resolve(query: string | number): ResolvedToken | undefined;
+  /** Like resolve, but throws when nothing matches */
+  resolveOrThrow(query: string | number): ResolvedToken;
+  /** Decimals for whatever `query` resolves to, or `fallback` when nothing matches */
+  getDecimals(query: string | number, fallback?: number): number;
+  /** Screening result under the config's methodology, or undefined when nothing matches */
+  screen(query: string | number): ScreeningResult | undefined;
+}
+
+/**
+ * Canonical lookup form of a symbol: upper case, with the on-chain `.` variant separator as `_`
+ */
+export function normalizeTokenSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/\./g, "_");
+}
+
+/**
+ * Display (and on-chain registration) form of a variant symbol: WBTC_WH → WBTC.wh, ETH_E → ETH.e
+ */
+export function formatVariantSymbol(symbol: string): string {
+  const underscoreIndex = symbol.lastIndexOf("_");
+  if (underscoreIndex <= 0) {
+    return symbol;
+  }
+  return `${symbol.substring(0, underscoreIndex)}.${symbol.substring(underscoreIndex + 1).toLowerCase()}`;
+}
+
+/**
+ * Build the resolver. Variants inherit missing metadata (decimals, name, compliance
+ * fields, screening) from their base coin.
+ */
+export function createTokenResolver(config: TayebCoinsConfig, options: TokenResolverOptions = {}): TokenResolver {
+  const { addressOverrides = {}, xcmConfig } = options;
+  const xcmMappings = xcmConfig?.tokenMapping.moonbeamToHydration ?? {};
+  const methodology = getScreeningMethodology(config);
+
+  const entries: ResolvedToken[] = [];
+  const addEntry = (
+    entry: Omit<ResolvedToken, "address" | "assetId" | "xcm">,
+    address: string | null,
+    assetId: number | null | undefined
+  ) => {
+    const resolvedAddress = (addressOverrides[entry.symbol] ?? address) as Address | null;
+    const xcm = resolvedAddress ? xcmMappings[resolvedAddress.toLowerCase()] ?? null : null;
+    entries.push({ ...entry, address: resolvedAddress, assetId: assetId ?? xcm?.assetId ?? null, xcm });
+  };
+
+  for (const coin of config.coins) {
+    addEntry(
+      {
+        symbol: coin.symbol,
+        baseSymbol: coin.symbol,
+        isVariant: false,
+        coin,
+        variant: null,
+        name: coin.name,
+        decimals: coin.decimals,
+        description: coin.description,
+        complianceReason: coin.complianceReason,
+        permissible: coin.permissible,
+        avgSlippagePercent: coin.avgSlippagePercent,
+        screening: coin.screening ?? null,
+      },
+      coin.addresses.moonbeam,
+      coin.assetId
+    );
+    for (const variant of coin.variants ?? []) {
+      addEntry(
+        {
+          symbol: variant.symbol,
+          baseSymbol: coin.symbol,
+          isVariant: true,
+          coin,
+          variant,
+          name: variant.name ?? `${coin.name} (${variant.symbol})`,
+          decimals: variant.decimals ?? coin.decimals,
+          description: variant.description ?? coin.description,
+          complianceReason: variant.complianceReason ?? coin.complianceReason,
+          permissible: variant.permissible ?? coin.permissible,
+          avgSlippagePercent: variant.avgSlippagePercent ?? coin.avgSlippagePercent,
+          screening: variant.screening ?? coin.screening ?? null,
+        },
+        variant.addresses.moonbeam,
+        variant.assetId
+      );
+    }
+  }
+
+  const bySymbol = new Map<string, ResolvedToken>();
+  const byAddress = new Map<string, ResolvedToken>();
+  const byAssetId = new Map<number, ResolvedToken>();
+  for (const entry of entries) {
+    bySymbol.set(normalizeTokenSymbol(entry.symbol), entry);
+    if (entry.address && !byAddress.has(entry.address.toLowerCase())) {
+      byAddress.set(entry.address.toLowerCase(), entry);
+    }
+    if (entry.assetId !== null && !byAssetId.has(entry.assetId)) {
+      byAssetId.set(entry.assetId, entry);
+    }
+  }
+
+  const resolve = (query: string | number): ResolvedToken | undefined => {
+    if (typeof query === "number") {
+      return byAssetId.get(query);
+    }
+    const trimmed = query.trim();
+    if (ADDRESS_PATTERN.test(trimmed)) {
+      return byAddress.get(trimmed.toLowerCase());
+    }
+    if (ASSET_ID_PATTERN.test(trimmed)) {
+      return byAssetId.get(Number(trimmed));
+    }
+    return bySymbol.get(normalizeTokenSymbol(trimmed));
+  };
+
+  return {
+    entries,
+    resolve,
+    resolveOrThrow(query) {
+      const token = resolve(query);
+      if (!token) {
+        throw new Error(`Unable to resolve token '${query}' in tayebCoins.json`);
+      }
+      return token;
+    },
+    getDecimals(query, fallback = 18) {
+      return resolve(query)?.decimals ?? fallback;
+    },
+    screen(query) {
+      const token = resolve(query);
+      return token ? screenCoin(token.screening, methodology) : undefined;
+    },
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Types shared by the Tayeb SDK, the Hardhat scripts and the frontend
+ */
+
+import type { HydrationTokenMapping, ShariaScreening, TayebCoin, TayebCoinVariant } from "../config/types";
+
+/**
+ * Hex address, structurally identical to viem's `Address`
+ */
+export type Address = `0x${string}`;
+
+/**
+ * A contract call described as data: wagmi's read/write hooks take it as-is, and the
+ * scripts run it through ethers (scripts/utils/sdkContracts.ts). The address is
+ * undefined when the target contract isn't deployed.
+ */
+export interface ContractCall {
+  address: Address | undefined;
+  abi: readonly unknown[];
+  functionName: string;
+  args: readonly unknown[];
+  value?: bigint;
+}
+
+/**
+ * A token that can be traded: tayebCoins.json metadata resolved to a Moonbeam address
+ */
+export interface Token
+  extends Pick<TayebCoin, "symbol" | "name" | "decimals" | "description" | "complianceReason" | "permissible"> {
+  addresses: {
+    moonbeam: Address;
+  };
+  avgSlippagePercent?: number;
+}
+
+/**
+ * Token as resolved from the registry, including where it sits in tayebCoins.json
+ */
+export interface RegistryToken extends Token {
+  isVariant: boolean;
+  baseSymbol: string;
+}
+
+/**
+ * A coin or variant from tayebCoins.json with inherited metadata filled in and its
+ * Moonbeam address and Hydration asset resolved
+ */
+export interface ResolvedToken {
+  /** Canonical tayebCoins.json symbol, e.g. `WBTC_WH` */
+  symbol: string;
+  baseSymbol: string;
+  isVariant: boolean;
+  coin: TayebCoin;
+  variant: TayebCoinVariant | null;
+  name: string;
+  decimals: number;
+  description: string;
+  complianceReason: string;
+  permissible: boolean;
+  avgSlippagePercent?: number;
+  /** Structured screening data (a variant's own, else its base coin's) */
+  screening: ShariaScreening | null;
+  /** Address on the current network (a deployment's token override, else the Moonbeam address) */
+  address: Address | null;
+  /** Hydration asset ID, from tayebCoins.json or the XCM token mapping */
+  assetId: number | null;
+  /** xcmConfig.json Moonbeam → Hydration mapping for this token's address */
+  xcm: HydrationTokenMapping | null;
+}
+
+/**
+ * Addresses of the deployed Tayeb contracts and the DEX they route through
+ */
+export interface TayebContracts {
+  shariaCompliance: Address | null;
+  shariaLocalSwap: Address | null;
+  shariaDCA: Address | null;
+  router: Address | null;
+  weth: Address | null;
+}
+
+/**
+ * ShariaCompliance.ShariaCoin
+ */
+export interface ShariaCoinData {
+  id: string;
+  name: string;
+  symbol: string;
+  tokenAddress: string;
+  verified: boolean;
+  complianceReason: string;
+  exists: boolean;
+}
+
+/**
+ * ShariaDCA.DCAOrder
+ */
+export interface DCAOrderData {
+  id: bigint;
+  owner: string;
+  sourceToken: string;
+  targetToken: string;
+  path: readonly string[];
+  amountPerInterval: bigint;
+  interval: bigint;
+  intervalsCompleted: bigint;
+  totalIntervals: bigint;
+  nextExecutionTime: bigint;
+  startTime: bigint;
+  isActive: boolean;
+  exists: boolean;
+  maxSlippageBps: bigint;
+  skippedIntervals: bigint;
+  /** ShariaDCA.MissedIntervalPolicy; a uint8, so viem decodes a number and ethers a bigint */
+  missedIntervalPolicy: number | bigint;
+  maxCatchUp: bigint;
+  missedIntervals: bigint;
+}
+
+/**
+ * ShariaLocalSwap.SwapRecord
+ */
+export interface SwapRecord {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  timestamp: bigint;
+  tokenInSymbol: string;
+  tokenOutSymbol: string;
+}
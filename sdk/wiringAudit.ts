@@ -0,0 +1,174 @@
+/**
+ * Post-deployment wiring audit: compares what the deployed contracts point at
+ * (compliance registry, DEX router, WGLMR, owner) and the DEX pairs on the factory
+ * with one chain's deployment entry. The caller reads the chain; this only compares.
+ */
+
+import type { DeployedContracts, DeployedMain } from "../config/types";
+import { isSameAddress } from "./registry";
+import type { TokenResolver } from "./tokens";
+import type { ResolvedToken } from "./types";
+
+const CONTRACT_NAMES: Record<keyof DeployedMain, string> = {
+  shariaCompliance: "ShariaCompliance",
+  shariaLocalSwap: "ShariaLocalSwap",
+  shariaDCA: "ShariaDCA",
+  crosschainSwapInitiator: "CrosschainSwapInitiator",
+  crosschainSwapInitiatorNoSdk: "CrosschainSwapInitiatorNoSdk",
+};
+
+/**
+ * What one deployed `main` contract reports on-chain. Reads that the contract doesn't
+ * support (or that reverted) are left undefined.
+ */
+export interface ContractWiring {
+  hasCode: boolean;
+  owner?: string;
+  /** shariaCompliance(), dexRouter() and WETH() on ShariaLocalSwap and ShariaDCA */
+  shariaCompliance?: string;
+  dexRouter?: string;
+  weth?: string;
+}
+
+export interface OnChainWiring {
+  contracts: Partial<Record<keyof DeployedMain, ContractWiring>>;
+  /** factory() and WETH() of the configured router */
+  router?: { hasCode: boolean; factory?: string; weth?: string };
+  /** factory.getPair() for each `pairs` key whose tokens resolve (the zero address when there's no pair) */
+  pairs: Record<string, string>;
+}
+
+export interface WiringCheck {
+  /** Contract or config entry checked, e.g. `ShariaDCA` or `pairs.WGLMR_USDC_WH` */
+  subject: string;
+  description: string;
+  expected: string;
+  actual: string;
+  passed: boolean;
+}
+
+export interface WiringAudit {
+  checks: WiringCheck[];
+  passed: number;
+  failed: number;
+}
+
+export interface WiringAuditOptions {
+  /**
+   * Expected owner of every Ownable contract; defaults to the multisig for contracts
+   * recorded in metadata.ownership, else each contract's recorded deployer
+   */
+  expectedOwner?: string;
+}
+
+/**
+ * The two tokens of a `pairs` key such as `WGLMR_USDC_WH`. Symbols may contain
+ * underscores, so every split point is tried; null unless exactly one split gives
+ * two tokens with addresses.
+ */
+export function resolvePairKey(key: string, tokens: TokenResolver): [ResolvedToken, ResolvedToken] | null {
+  const parts = key.split("_");
+  const matches: Array<[ResolvedToken, ResolvedToken]> = [];
+  for (let i = 1; i < parts.length; i++) {
+    const tokenA = tokens.resolve(parts.slice(0, i).join("_"));
+    const tokenB = tokens.resolve(parts.slice(i).join("_"));
+    if (tokenA?.address && tokenB?.address) {
+      matches.push([tokenA, tokenB]);
+    }
+  }
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Check every deployed `main` contract has code and the expected owner, that
+ * ShariaLocalSwap and ShariaDCA point at the recorded ShariaCompliance, router and
+ * WGLMR, that the router's factory and WETH match `amm`, and that every `pairs`
+ * entry is the factory's pair for its two tokens.
+ */
+export function auditWiring(
+  deployment: DeployedContracts,
+  onChain: OnChainWiring,
+  tokens: TokenResolver,
+  options: WiringAuditOptions = {}
+): WiringAudit {
+  const checks: WiringCheck[] = [];
+  const check = (subject: string, description: string, expected: string, actual: string | undefined) =>
+    checks.push({
+      subject,
+      description,
+      expected,
+      actual: actual ?? "unreadable",
+      passed: actual !== undefined && (isSameAddress(expected, actual) || expected === actual),
+    });
+
+  for (const [key, address] of Object.entries(deployment.main) as Array<[keyof DeployedMain, string | null]>) {
+    if (!address) continue;
+    const name = CONTRACT_NAMES[key];
+    const wiring = onChain.contracts[key];
+    check(name, `has code at ${address}`, "code", wiring?.hasCode ? "code" : "no code");
+    if (!wiring?.hasCode) continue;
+
+    const ownership = deployment.metadata.ownership;
+    const multisig = isSameAddress(ownership?.transfers[key]?.address, address) ? ownership?.multisig : undefined;
+    const owner =
+      options.expectedOwner ??
+      multisig ??
+      deployment.metadata.contracts?.[key]?.deployer ??
+      deployment.metadata.deployer;
+    if (owner) {
+      check(name, "owner()", owner, wiring.owner);
+    }
+
+    if (key === "shariaLocalSwap" || key === "shariaDCA") {
+      const configured = (value: string | null, field: string) => value ?? `${field} (not configured)`;
+      check(
+        name,
+        "shariaCompliance() is main.shariaCompliance",
+        configured(deployment.main.shariaCompliance, "main.shariaCompliance"),
+        wiring.shariaCompliance
+      );
+      check(name, "dexRouter() is amm.router", configured(deployment.amm.router, "amm.router"), wiring.dexRouter);
+      check(name, "WETH() is amm.weth", configured(deployment.amm.weth, "amm.weth"), wiring.weth);
+    }
+  }
+
+  if (deployment.amm.router) {
+    const router = onChain.router;
+    check("DEX router", `has code at ${deployment.amm.router}`, "code", router?.hasCode ? "code" : "no code");
+    if (router?.hasCode) {
+      if (deployment.amm.factory) {
+        check("DEX router", "factory() is amm.factory", deployment.amm.factory, router.factory);
+      }
+      if (deployment.amm.weth) {
+        check("DEX router", "WETH() is amm.weth", deployment.amm.weth, router.weth);
+      }
+    }
+  }
+
+  for (const [key, pair] of Object.entries(deployment.pairs)) {
+    if (!pair) continue;
+    const subject = `pairs.${key}`;
+    const pairTokens = resolvePairKey(key, tokens);
+    if (!pairTokens) {
+      check(subject, "key names two tokens with addresses", "two tokens", "unresolved");
+      continue;
+    }
+    check(subject, `factory.getPair(${pairTokens[0].symbol}, ${pairTokens[1].symbol})`, pair, onChain.pairs[key]);
+  }
+
+  const passed = checks.filter((entry) => entry.passed).length;
+  return { checks, passed, failed: checks.length - passed };
+}
+
+/**
+ * The audit as a Markdown checklist, one `- [x]` / `- [ ]` line per check
+ */
+export function formatWiringChecklist(audit: WiringAudit): string {
+  return audit.checks
+    .map((entry) =>
+      entry.passed
+        ? `- [x] ${entry.subject}: ${entry.description} (${entry.actual})`
+        : `- [ ] ${entry.subject}: ${entry.description}: expected ${entry.expected}, got ${entry.actual}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { getAddress } from "ethers";
+import tayebCoinsConfig from "../config/tayebCoins.json";
+import xcmConfig from "../config/xcmConfig.json";
+import deployedContractsConfig from "../config/deployedContracts.json";
+import hydrationAssetRegistry from "../hydration-asset-registry.json";
+import {
+  ConfigValidationError,
+  checkTayebCoinsConfig,
+  checkXcmConfig,
+  checkDeployedContracts,
+  checkHydrationAssetRegistry,
+  parseTayebCoinsConfig,
+  parseXcmConfig,
+} from "../config/validation";
+import {
+  UnsupportedConfigVersionError,
+  migrateTayebCoinsConfig,
+  migrateXcmConfig,
+} from "../config/migrations";
+import { TayebCoinsConfig } from "../config/types";
+
+const options = { checksumAddress: (address: string) => getAddress(address) };
+
+function cloneCoins(): TayebCoinsConfig {
+  return JSON.parse(JSON.stringify(tayebCoinsConfig));
+}
+
+describe("Config validation", function () {
+  it("Should accept the checked-in config files", function () {
+    expect(checkTayebCoinsConfig(tayebCoinsConfig, options)).to.deep.equal([]);
+    expect(checkXcmConfig(xcmConfig, options, tayebCoinsConfig as TayebCoinsConfig)).to.deep.equal([]);
+    expect(checkDeployedContracts(deployedContractsConfig, options)).to.deep.equal([]);
+    expect(checkHydrationAssetRegistry(hydrationAssetRegistry)).to.deep.equal([]);
+  });
+
+  it("Should reject duplicate symbols across coins and variants", function () {
+    const config = cloneCoins();
+    config.coins[0].variants![0].symbol = "eth";
+
+    const issues = checkTayebCoinsConfig(config, options);
+    expect(issues.some((issue) => issue.includes('duplicates symbol "ETH"'))).to.be.true;
+  });
+
+  it("Should reject non-checksummed Moonbeam addresses", function () {
+    const config = cloneCoins();
+    const glmr = config.coins.find((coin) => coin.symbol === "GLMR")!;
+    glmr.addresses.moonbeam = glmr.addresses.moonbeam!.toLowerCase();
+
+    const issues = checkTayebCoinsConfig(config, options);
+    expect(issues).to.have.lengthOf(1);
+    expect(issues[0]).to.include("coins[GLMR].addresses.moonbeam is not checksummed");
+  });
+
+  it("Should reject missing decimals and unknown stablecoins", function () {
+    const config = cloneCoins();
+    delete (config.coins[0] as Partial<TayebCoinsConfig["coins"][0]>).decimals;
+    config.stablecoins.push("DAI");
+
+    expect(() => parseTayebCoinsConfig(config, options))
+      .to.throw(ConfigValidationError)
+      .with.property("issues")
+      .that.deep.equals([
+        "coins[BTC].decimals is missing",
+        'stablecoins[2] references unknown coin "DAI"',
+      ]);
+  });
+
+  it("Should reject malformed screening data", function () {
+    const config = cloneCoins();
+    config.coins[0].screening = {
+      ...config.coins[0].screening!,
+      revenueSources: ["mining" as any],
+      impermissibleIncomePercent: 120,
+    };
+
+    expect(checkTayebCoinsConfig(config, options)).to.deep.equal([
+      'coins[BTC].screening.revenueSources has unknown category "mining" (expected one of network-fees, staking-rewards, asset-backing, payments, protocol-fees, lending-interest, leveraged-trading, gambling, prohibited-goods, other)',
+      "coins[BTC].screening.impermissibleIncomePercent must be a number between 0 and 100",
+    ]);
+  });
+
+  it("Should reject deployments whose chain ID disagrees with their key", function () {
+    const registry = JSON.parse(JSON.stringify(deployedContractsConfig));
+    registry.deployments["1287"] = { ...registry.deployments["1284"] };
+
+    expect(checkDeployedContracts(registry, options)).to.deep.equal([
+      "deployments[1287].chainId is 1284 but the entry is keyed by 1287",
+    ]);
+  });
+
+  it("Should validate recorded ownership transfers to a multisig", function () {
+    const registry = JSON.parse(JSON.stringify(deployedContractsConfig));
+    const entry = registry.deployments["1284"];
+    const transfer = {
+      address: entry.main.shariaCompliance,
+      previousOwner: entry.metadata.deployer,
+      txHash: "0x" + "ab".repeat(32),
+      blockNumber: 100,
+      transferredAt: "2026-01-01T00:00:00.000Z",
+    };
+    entry.metadata.ownership = {
+      multisig: "0x0000000000000000000000000000000000000a01",
+      transfers: { shariaCompliance: transfer, shariaTreasury: { ...transfer, txHash: "0x1234" } },
+    };
+
+    expect(checkDeployedContracts(registry, options)).to.deep.equal([
+      "deployments[1284].metadata.ownership.transfers.shariaTreasury has no matching main.shariaTreasury",
+      "deployments[1284].metadata.ownership.transfers.shariaTreasury.txHash must be a transaction hash",
+    ]);
+  });
+
+  it("Should reject XCM token mappings whose decimals disagree with tayebCoins", function () {
+    const config = JSON.parse(JSON.stringify(xcmConfig));
+    config.tokenMapping.moonbeamToHydration["0xffffffff1fcacbd218edc0eba20fc2308c778080"].decimals = 12;
+
+    const issues = checkXcmConfig(config, options, tayebCoinsConfig as TayebCoinsConfig);
+    expect(issues).to.have.lengthOf(1);
+    expect(issues[0]).to.include("disagrees with tayebCoins.json DOT_XC (10)");
+  });
+
+  it("Should migrate older config files step by step to the current schema", function () {
+    const coins = cloneCoins() as any;
+    coins.metadata.version = "1.0.0";
+    delete coins.coins[0].variants[0].assetId;
+
+    const migratedCoins = migrateTayebCoinsConfig(coins);
+    expect(migratedCoins.applied.map((step) => step.to)).to.deep.equal(["2.0.0", "2.1.0"]);
+    expect(migratedCoins.data.coins[0].variants[0].assetId).to.be.null;
+    expect(checkTayebCoinsConfig(migratedCoins.data, options)).to.deep.equal([]);
+
+    const xcm = JSON.parse(JSON.stringify(xcmConfig));
+    delete xcm.metadata;
+    xcm.tokenMapping.moonbeamToHydration = {
+      "0xAcc15dC74880C9944775448304B263D191c6077F": { symbol: "GLMR", assetId: 2287, decimals: 18 },
+    };
+
+    const migratedXcm = migrateXcmConfig(xcm);
+    expect(migratedXcm.from).to.equal("1.0.0");
+    expect(Object.keys(migratedXcm.data.tokenMapping.moonbeamToHydration)).to.deep.equal([
+      "0xacc15dc74880c9944775448304b263d191c6077f",
+    ]);
+    expect(checkXcmConfig(migratedXcm.data, options, tayebCoinsConfig as TayebCoinsConfig)).to.deep.equal([]);
+  });
+
+  it("Should refuse to load unsupported schema versions", function () {
+    const older = cloneCoins();
+    older.metadata.version = "2.0.0";
+    expect(() => parseTayebCoinsConfig(older, options))
+      .to.throw(UnsupportedConfigVersionError)
+      .with.property("message")
+      .that.includes("Run `npm run migrate:config` to upgrade it");
+
+    const newer = JSON.parse(JSON.stringify(xcmConfig));
+    newer.metadata.version = "9.0.0";
+    expect(() => parseXcmConfig(newer, options)).to.throw(
+      UnsupportedConfigVersionError,
+      "xcmConfig.json is schema version 9.0.0, but this build only supports 1.1.0"
+    );
+    expect(() => migrateXcmConfig(newer)).to.throw(UnsupportedConfigVersionError);
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre from "hardhat";
+import { getAddress } from "ethers";
+import { checkDeployedContracts } from "../config/validation";
+import { createEmptyDeployment } from "../sdk";
+import { compareRuntimeBytecode, hashRuntimeBytecode, loadArtifactBytecode } from "../scripts/utils/bytecode";
+import { deployOrVerifyContract, withDeploymentRecord } from "../scripts/utils/deployHelpers";
+import { SafeTransactionBatch, encodeContractCall, getCalldataExportPath, writeCalldataExport } from "../scripts/utils/multisig";
+
+const { ethers } = hre;
+
+const ROUTER = "0xe6d0ED3759709b743707DcfeCAe39BC180C981fe";
+const WETH = "0xAcc15dC74880C9944775448304B263D191c6077F";
+
+describe("Deployment manifest", function () {
+  async function deployLocalSwap() {
+    const compliance = await deployOrVerifyContract("ShariaCompliance", null, async () =>
+      (await ethers.getContractFactory("ShariaCompliance")).deploy()
+    );
+    const localSwap = await deployOrVerifyContract("ShariaLocalSwap", null, async () =>
+      (await ethers.getContractFactory("ShariaLocalSwap")).deploy(compliance.address, ROUTER, WETH)
+    );
+    return { compliance, localSwap };
+  }
+
+  it("Should record the transaction, constructor arguments, compiler settings and runtime hash", async function () {
+    const [deployer] = await ethers.getSigners();
+    const { compliance, localSwap } = await deployLocalSwap();
+    const record = localSwap.record!;
+    const receipt = await ethers.provider.getTransactionReceipt(record.txHash);
+
+    expect(record).to.include({ contractName: "ShariaLocalSwap", address: localSwap.address, deployer: deployer.address });
+    expect(record.blockNumber).to.equal(receipt!.blockNumber);
+    expect(record.constructorArgs).to.deep.equal([compliance.address, ROUTER, WETH]);
+    expect(record.compiler).to.deep.include({ viaIR: true, evmVersion: "london", optimizer: { enabled: true, runs: 200 } });
+    expect(record.compiler.version).to.match(/^0\.8\.20\+/);
+    expect(record.runtimeBytecodeHash).to.equal(
+      hashRuntimeBytecode(await ethers.provider.getCode(localSwap.address), await loadArtifactBytecode("ShariaLocalSwap"))
+    );
+
+    // An existing contract is kept without a new record
+    const kept = await deployOrVerifyContract("ShariaLocalSwap", localSwap.address, async () => {
+      throw new Error("should not redeploy");
+    });
+    expect(kept).to.deep.equal({ address: localSwap.address });
+
+    const deployment = createEmptyDeployment(1337, "hardhat");
+    deployment.main.shariaLocalSwap = localSwap.address;
+    deployment.metadata.contracts = withDeploymentRecord(undefined, "shariaLocalSwap", record);
+    const options = { checksumAddress: (address: string) => getAddress(address) };
+    expect(checkDeployedContracts({ deployments: { "1337": deployment } }, options)).to.deep.equal([]);
+
+    deployment.main.shariaLocalSwap = compliance.address;
+    expect(checkDeployedContracts({ deployments: { "1337": deployment } }, options)).to.deep.equal([
+      `deployments[1337].metadata.contracts.shariaLocalSwap.address ${localSwap.address} is not main.shariaLocalSwap (${compliance.address})`,
+    ]);
+  });
+
+  it("Should match on-chain code against the artifacts, ignoring immutable values", async function () {
+    const { localSwap } = await deployLocalSwap();
+    const code = await ethers.provider.getCode(localSwap.address);
+    const artifact = await loadArtifactBytecode("ShariaLocalSwap");
+
+    expect(artifact.immutableRanges).to.not.be.empty;
+    expect(code.toLowerCase()).to.not.equal(artifact.deployedBytecode.toLowerCase());
+    expect(compareRuntimeBytecode(code, artifact)).to.equal("match");
+    expect(compareRuntimeBytecode(code, await loadArtifactBytecode("ShariaDCA"))).to.equal("mismatch");
+    expect(compareRuntimeBytecode("0x", artifact)).to.equal("no-code");
+
+    // Flip a byte inside the trailing CBOR metadata (before its 2-byte length)
+    const flipped = code.slice(0, -8) + (code.slice(-8, -6) === "00" ? "01" : "00") + code.slice(-6);
+    expect(compareRuntimeBytecode(flipped, artifact)).to.equal("metadata-only");
+  });
+
+  it("Should export owner-only calls as a Safe batch that the owner can execute", async function () {
+    const [owner, multisig] = await ethers.getSigners();
+    const { compliance } = await deployLocalSwap();
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tayeb-calldata-")), "handoff.json");
+
+    process.env.EXPORT_CALLDATA = filePath;
+    try {
+      expect(getCalldataExportPath("transfer-ownership", 1337)).to.equal(filePath);
+    } finally {
+      delete process.env.EXPORT_CALLDATA;
+    }
+    expect(getCalldataExportPath("transfer-ownership", 1337)).to.be.null;
+
+    const call = {
+      address: compliance.address as `0x${string}`,
+      abi: ["function transferOwnership(address newOwner)"],
+      functionName: "transferOwnership",
+      args: [multisig.address],
+    };
+    writeCalldataExport(filePath, {
+      chainId: 1337,
+      name: "handoff",
+      safe: owner.address,
+      transactions: [encodeContractCall(call, "ShariaCompliance.transferOwnership")],
+    });
+    const batch = JSON.parse(fs.readFileSync(filePath, "utf-8")) as SafeTransactionBatch;
+    expect(batch).to.deep.include({ version: "1.0", chainId: "1337" });
+    expect(batch.meta.createdFromSafeAddress).to.equal(owner.address);
+
+    const [tx] = batch.transactions;
+    await (await owner.sendTransaction({ to: tx.to, value: BigInt(tx.value), data: tx.data })).wait();
+    const registry = await ethers.getContractAt("ShariaCompliance", compliance.address);
+    expect(await registry.owner()).to.equal(multisig.address);
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,352 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import tayebCoinsConfig from "../config/tayebCoins.json";
+import { TayebCoinsConfig } from "../config/types";
+import {
+  Address,
+  DCAOrderData,
+  collectMigrationPaths,
+  compareRouterQuotes,
+  createEmptyDeployment,
+  createTokenResolver,
+  decodeUpkeepOrders,
+  encodeUpkeepOrders,
+} from "../sdk";
+
+const { ethers } = hre;
+
+describe("Local DEX fixture", function () {
+  const USDC_POOL = ethers.parseUnits("10000", 6);
+  const BTC_POOL = ethers.parseUnits("10", 8);
+  const GLMR_POOL = ethers.parseEther("100");
+
+  async function deployLocalDex() {
+    const [owner, user] = await ethers.getSigners();
+    const weth = await (await ethers.getContractFactory("MockWETH")).deploy();
+    const factory = await (await ethers.getContractFactory("MockDEXFactory")).deploy();
+    const router = await (await ethers.getContractFactory("MockDEXRouter")).deploy(
+      await factory.getAddress(),
+      await weth.getAddress()
+    );
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const usdc = await MockERC20.deploy("USD Coin (Wormhole)", "USDC.wh", 6);
+    const btc = await MockERC20.deploy("Wrapped BTC (Wormhole)", "WBTC.wh", 8);
+
+    const routerAddress = await router.getAddress();
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+    await weth.deposit({ value: GLMR_POOL * 2n });
+    await weth.approve(routerAddress, GLMR_POOL * 2n);
+    for (const [token, amount] of [
+      [usdc, USDC_POOL],
+      [btc, BTC_POOL],
+    ] as const) {
+      await token.mint(owner.address, amount);
+      await token.approve(routerAddress, amount);
+      await router.addLiquidity(await weth.getAddress(), await token.getAddress(), GLMR_POOL, amount, 0, 0, owner.address, deadline);
+    }
+
+    return { owner, user, weth, factory, router, usdc, btc, deadline };
+  }
+
+  async function deployShariaDCA() {
+    const dex = await deployLocalDex();
+    const compliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    await compliance.registerShariaCoin("USDC.wh", "USD Coin (Wormhole)", "USDC.wh", await dex.usdc.getAddress(), "Stablecoin");
+    const dca = await (await ethers.getContractFactory("ShariaDCA")).deploy(
+      await compliance.getAddress(),
+      await dex.router.getAddress(),
+      await dex.weth.getAddress()
+    );
+    const path = [await dex.weth.getAddress(), await dex.usdc.getAddress()];
+    return { ...dex, dca, path };
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("Should quote and swap like a Uniswap V2 router, including two-hop paths", async function () {
+    const { user, weth, factory, router, usdc, btc, deadline } = await deployLocalDex();
+    expect(await factory.allPairsLength()).to.equal(2);
+    expect(await router.WETH()).to.equal(await weth.getAddress());
+
+    const amountIn = ethers.parseUnits("100", 6);
+    const path = [await usdc.getAddress(), await weth.getAddress(), await btc.getAddress()];
+    const glmrOut = (amountIn * 997n * GLMR_POOL) / (USDC_POOL * 1000n + amountIn * 997n);
+    const btcOut = (glmrOut * 997n * BTC_POOL) / (GLMR_POOL * 1000n + glmrOut * 997n);
+    expect(await router.getAmountsOut(amountIn, path)).to.deep.equal([amountIn, glmrOut, btcOut]);
+
+    await usdc.mint(user.address, amountIn);
+    await usdc.connect(user).approve(await router.getAddress(), amountIn);
+    await expect(
+      router.connect(user).swapExactTokensForTokens(amountIn, btcOut + 1n, path, user.address, deadline)
+    ).to.be.revertedWithCustomError(router, "InsufficientOutputAmount");
+    await router.connect(user).swapExactTokensForTokens(amountIn, btcOut, path, user.address, deadline);
+    expect(await btc.balanceOf(user.address)).to.equal(btcOut);
+
+    const [quotedIn] = await router.getAmountsIn(btcOut, path);
+    expect(quotedIn).to.be.greaterThan(amountIn);
+    await expect(
+      router.connect(user).swapTokensForExactTokens(btcOut, quotedIn, path, user.address, 1)
+    ).to.be.revertedWithCustomError(router, "Expired");
+  });
+
+  it("Should let ShariaLocalSwap swap GLMR and tokens into registered coins", async function () {
+    const { user, weth, router, usdc, btc, deadline } = await deployLocalDex();
+    const compliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    await compliance.registerShariaCoin("USDC.wh", "USD Coin (Wormhole)", "USDC.wh", await usdc.getAddress(), "Stablecoin");
+    await compliance.registerShariaCoin("WBTC.wh", "Wrapped BTC (Wormhole)", "WBTC.wh", await btc.getAddress(), "Asset-backed");
+    const localSwap = await (await ethers.getContractFactory("ShariaLocalSwap")).deploy(
+      await compliance.getAddress(),
+      await router.getAddress(),
+      await weth.getAddress()
+    );
+
+    const glmrPath = [await weth.getAddress(), await usdc.getAddress()];
+    const [, usdcQuote] = await router.getAmountsOut(ethers.parseEther("1"), glmrPath);
+    await localSwap.connect(user).swapGLMRForToken(glmrPath, usdcQuote, deadline, { value: ethers.parseEther("1") });
+    expect(await usdc.balanceOf(user.address)).to.equal(usdcQuote);
+
+    const tokenPath = [await usdc.getAddress(), await weth.getAddress(), await btc.getAddress()];
+    expect(await localSwap.getSwapQuote(tokenPath, usdcQuote)).to.equal((await router.getAmountsOut(usdcQuote, tokenPath))[2]);
+    await usdc.connect(user).approve(await localSwap.getAddress(), usdcQuote);
+    await localSwap.connect(user).swapShariaCompliant(tokenPath, usdcQuote, 1, deadline);
+    expect(await usdc.balanceOf(user.address)).to.equal(0);
+    expect(await btc.balanceOf(user.address)).to.be.greaterThan(0);
+    expect(await localSwap.getUserSwapCount(user.address)).to.equal(2);
+  });
+
+  it("Should compare quotes on a candidate router and block paths it can't route", async function () {
+    const { owner, weth, router, usdc, btc, deadline } = await deployLocalDex();
+    const [wethAddress, usdcAddress, btcAddress] = [await weth.getAddress(), await usdc.getAddress(), await btc.getAddress()];
+
+    // The candidate has a deeper WGLMR/USDC.wh pool at the same price and no WBTC.wh pool
+    const candidateFactory = await (await ethers.getContractFactory("MockDEXFactory")).deploy();
+    const candidate = await (await ethers.getContractFactory("MockDEXRouter")).deploy(
+      await candidateFactory.getAddress(),
+      wethAddress
+    );
+    await weth.deposit({ value: GLMR_POOL * 10n });
+    await weth.approve(await candidate.getAddress(), GLMR_POOL * 10n);
+    await usdc.mint(owner.address, USDC_POOL * 10n);
+    await usdc.approve(await candidate.getAddress(), USDC_POOL * 10n);
+    await candidate.addLiquidity(wethAddress, usdcAddress, GLMR_POOL * 10n, USDC_POOL * 10n, 0, 0, owner.address, deadline);
+
+    const deployment = createEmptyDeployment(1337, "hardhat");
+    deployment.tokens = { GLMR: wethAddress, USDC_WH: usdcAddress, WBTC_WH: btcAddress };
+    deployment.pairs = { GLMR_USDC_WH: "0x0000000000000000000000000000000000000001", GLMR_WBTC_WH: "0x0000000000000000000000000000000000000002" };
+    const tokens = createTokenResolver(tayebCoinsConfig as TayebCoinsConfig, { addressOverrides: deployment.tokens });
+    const order = (id: bigint, intervalsCompleted: bigint): DCAOrderData => ({
+      id,
+      owner: owner.address,
+      sourceToken: usdcAddress,
+      targetToken: btcAddress,
+      path: [usdcAddress, wethAddress, btcAddress],
+      amountPerInterval: ethers.parseUnits("50", 6),
+      interval: 3600n,
+      intervalsCompleted,
+      totalIntervals: 4n,
+      nextExecutionTime: 0n,
+      startTime: 0n,
+      isActive: intervalsCompleted < 4n,
+      exists: true,
+      maxSlippageBps: 100n,
+      skippedIntervals: 0n,
+      missedIntervalPolicy: 0,
+      maxCatchUp: 0n,
+      missedIntervals: 0n,
+    });
+
+    const paths = collectMigrationPaths(deployment, tokens, [order(1n, 1n), order(2n, 4n)]);
+    expect(paths.map((entry) => entry.label)).to.deep.equal(["pairs.GLMR_USDC_WH", "pairs.GLMR_WBTC_WH", "DCA order #1"]);
+    expect(paths[0].amountIn).to.equal(ethers.parseEther("1"));
+
+    const quoteOn = async (quoter: typeof router, path: Address[], amountIn: bigint) =>
+      quoter.getAmountsOut(amountIn, path).then((amounts) => amounts[amounts.length - 1]).catch(() => null);
+    const quotes = [];
+    for (const entry of paths) {
+      quotes.push({ current: await quoteOn(router, entry.path, entry.amountIn), candidate: await quoteOn(candidate, entry.path, entry.amountIn) });
+    }
+
+    const report = compareRouterQuotes(paths, quotes);
+    expect(report.paths.map((entry) => entry.status)).to.deep.equal(["ok", "fails", "fails"]);
+    expect(report.paths[0].changeBps).to.be.greaterThan(0);
+    expect(report.blocking.map((entry) => entry.label)).to.deep.equal(["pairs.GLMR_WBTC_WH", "DCA order #1"]);
+
+    // A quote that drops by more than the allowed basis points blocks too
+    const degraded = compareRouterQuotes(paths.slice(0, 1), [{ current: 1000n, candidate: 980n }], 100);
+    expect(degraded.paths[0]).to.include({ status: "degraded", changeBps: -200 });
+  });
+
+  it("Should skip a ShariaDCA interval whose quote falls below the keeper's minimum", async function () {
+    const { user, router, usdc, dca, path } = await deployShariaDCA();
+    const amountPerInterval = ethers.parseEther("1");
+    await expect(
+      dca.connect(user).createDCAOrderWithDEV(await usdc.getAddress(), path, amountPerInterval, 3600, 2, 1001, 0, 0, { value: amountPerInterval * 2n })
+    ).to.be.revertedWithCustomError(dca, "InvalidSlippage");
+    await dca.connect(user).createDCAOrderWithDEV(await usdc.getAddress(), path, amountPerInterval, 3600, 2, 100, 0, 0, { value: amountPerInterval * 2n });
+    const [orderId] = await dca.getUserOrders(user.address);
+    await increaseTime(3600);
+
+    const [, usdcQuote] = await router.getAmountsOut(amountPerInterval, path);
+    const [expectedAmountOut, amountOutMin] = await dca.getOrderQuote(orderId);
+    expect(expectedAmountOut).to.equal(usdcQuote);
+    expect(amountOutMin).to.equal((usdcQuote * 9900n) / 10000n);
+
+    // A minimum above the current quote, as after a price move, skips the interval without swapping
+    await expect(dca.executeDCAOrderWithMinOut(orderId, usdcQuote + 1n)).to.emit(dca, "DCAIntervalSkipped");
+    let order = await dca.getDCAOrder(orderId);
+    expect(order.skippedIntervals).to.equal(1);
+    expect(order.intervalsCompleted).to.equal(0);
+    expect(order.nextExecutionTime).to.equal(order.startTime + 2n * 3600n);
+    expect(await usdc.balanceOf(user.address)).to.equal(0);
+    await expect(dca.executeDCAOrderWithMinOut(orderId, amountOutMin)).to.be.revertedWithCustomError(dca, "OrderNotReady");
+
+    await increaseTime(3600);
+    await expect(dca.executeDCAOrderWithMinOut(orderId, amountOutMin)).to.emit(dca, "DCAOrderExecuted");
+    order = await dca.getDCAOrder(orderId);
+    expect(order.intervalsCompleted).to.equal(1);
+    expect(await usdc.balanceOf(user.address)).to.equal(usdcQuote);
+  });
+
+  it("Should hold each order in a performUpkeep batch to its own minimum output", async function () {
+    const { user, usdc, dca, path } = await deployShariaDCA();
+    const amountPerInterval = ethers.parseEther("1");
+    for (let i = 0; i < 2; i++) {
+      await dca.connect(user).createDCAOrderWithDEV(await usdc.getAddress(), path, amountPerInterval, 3600, 2, 100, 0, 0, { value: amountPerInterval * 2n });
+    }
+    const [first, second] = await dca.getUserOrders(user.address);
+    await increaseTime(3600);
+
+    await expect(dca.performUpkeep(ethers.AbiCoder.defaultAbiCoder().encode(["uint256[]", "uint256[]"], [[first, second], [1n]])))
+      .to.be.revertedWithCustomError(dca, "InvalidPerformData");
+
+    // The first order's minimum is above its quote, as after a sandwich's front-run
+    const [expectedAmountOut, amountOutMin] = await dca.getOrderQuote(first);
+    const performData = encodeUpkeepOrders([
+      { orderId: first, amountOutMin: expectedAmountOut + 1n },
+      { orderId: second, amountOutMin },
+    ]);
+    await expect(dca.performUpkeep(performData))
+      .to.emit(dca, "DCAIntervalSkipped")
+      .withArgs(first, expectedAmountOut, expectedAmountOut + 1n, (await dca.getDCAOrder(first)).startTime + 2n * 3600n)
+      .and.to.emit(dca, "DCAOrderExecuted");
+    expect((await dca.getDCAOrder(first)).intervalsCompleted).to.equal(0);
+    expect((await dca.getDCAOrder(second)).intervalsCompleted).to.equal(1);
+  });
+
+  it("Should take checkUpkeep's performData straight into performUpkeep", async function () {
+    const { owner, user, usdc, dca, path } = await deployShariaDCA();
+    const [, , keeper] = await ethers.getSigners();
+    await dca.connect(owner).setKeeper(keeper.address, true);
+    // Small enough that the first swap leaves the second within its 1% slippage
+    const amountPerInterval = ethers.parseEther("0.1");
+    for (let i = 0; i < 2; i++) {
+      await dca.connect(user).createDCAOrderWithDEV(await usdc.getAddress(), path, amountPerInterval, 3600, 2, 100, 0, 0, { value: amountPerInterval * 2n });
+    }
+    const [first, second] = await dca.getUserOrders(user.address);
+    expect((await dca.checkUpkeep("0x"))[0]).to.be.false;
+    await increaseTime(3600);
+
+    const [upkeepNeeded, performData] = await dca.checkUpkeep("0x");
+    expect(upkeepNeeded).to.be.true;
+    expect(decodeUpkeepOrders(performData)).to.deep.equal([
+      { orderId: first, amountOutMin: (await dca.getOrderQuote(first))[1] },
+      { orderId: second, amountOutMin: (await dca.getOrderQuote(second))[1] },
+    ]);
+    await expect(dca.connect(keeper).performUpkeep(performData)).to.emit(dca, "DCAOrderExecuted");
+    expect((await dca.getDCAOrder(first)).intervalsCompleted).to.equal(1);
+    expect((await dca.getDCAOrder(second)).intervalsCompleted).to.equal(1);
+    expect((await dca.checkUpkeep("0x"))[0]).to.be.false;
+  });
+
+  it("Should only take ShariaDCA executions from keepers, the owner and the order's owner", async function () {
+    const { owner, user, usdc, dca, path } = await deployShariaDCA();
+    const [, , keeper] = await ethers.getSigners();
+    const amountPerInterval = ethers.parseEther("1");
+    await dca.connect(user).createDCAOrderWithDEV(await usdc.getAddress(), path, amountPerInterval, 3600, 4, 100, 0, 0, { value: amountPerInterval * 4n });
+    const [orderId] = await dca.getUserOrders(user.address);
+    await increaseTime(3600);
+    const minOut = async () => (await dca.getOrderQuote(orderId))[1];
+    const amountOutMin = await minOut();
+
+    // An outsider can neither execute the order mid-sandwich nor skip its slot with an unreachable minimum
+    await expect(dca.connect(keeper).executeDCAOrderWithMinOut(orderId, amountOutMin)).to.be.revertedWithCustomError(dca, "Unauthorized");
+    await expect(dca.connect(keeper).executeDCAOrderWithMinOut(orderId, ethers.MaxUint256)).to.be.revertedWithCustomError(dca, "Unauthorized");
+    await expect(
+      dca.connect(keeper).performUpkeep(encodeUpkeepOrders([{ orderId, amountOutMin: ethers.MaxUint256 }]))
+    ).to.be.revertedWithCustomError(dca, "Unauthorized");
+    await expect(dca.connect(keeper).setKeeper(keeper.address, true)).to.be.revertedWithCustomError(dca, "OwnableUnauthorizedAccount");
+    expect((await dca.getDCAOrder(orderId)).skippedIntervals).to.equal(0);
+
+    // Every execution carries a minimum of its own
+    await expect(dca.connect(user).executeDCAOrderWithMinOut(orderId, 0)).to.be.revertedWithCustomError(dca, "InvalidAmount");
+    await expect(dca.connect(user).executeDCAOrderWithMinOut(orderId, amountOutMin)).to.emit(dca, "DCAOrderExecuted");
+
+    await expect(dca.connect(owner).setKeeper(keeper.address, true)).to.emit(dca, "KeeperUpdated").withArgs(keeper.address, true);
+    await increaseTime(3600);
+    await expect(dca.connect(keeper).performUpkeep(encodeUpkeepOrders([{ orderId, amountOutMin: await minOut() }]))).to.emit(
+      dca,
+      "DCAOrderExecuted"
+    );
+    await increaseTime(3600);
+    await expect(dca.connect(owner).executeDCAOrderWithMinOut(orderId, await minOut())).to.emit(dca, "DCAOrderExecuted");
+
+    await dca.connect(owner).setKeeper(keeper.address, false);
+    await increaseTime(3600);
+    await expect(dca.connect(keeper).executeDCAOrderWithMinOut(orderId, await minOut())).to.be.revertedWithCustomError(dca, "Unauthorized");
+    expect((await dca.getDCAOrder(orderId)).intervalsCompleted).to.equal(3);
+  });
+
+  it("Should keep ShariaDCA slots anchored and apply the order's missed-interval policy", async function () {
+    const { user, usdc, dca, path } = await deployShariaDCA();
+    const usdcAddress = await usdc.getAddress();
+    const amountPerInterval = ethers.parseEther("1");
+    const create = (policy: number, maxCatchUp: number) =>
+      dca.connect(user).createDCAOrderWithDEV(usdcAddress, path, amountPerInterval, 3600, 5, 100, policy, maxCatchUp, {
+        value: amountPerInterval * 5n,
+      });
+    await expect(
+      dca.connect(user).createDCAOrderWithDEV(usdcAddress, path, amountPerInterval, 0, 5, 100, 0, 0, { value: amountPerInterval * 5n })
+    ).to.be.revertedWithCustomError(dca, "InvalidInterval");
+    await create(0, 0); // catch up every slot
+    await create(1, 0); // skip missed slots
+    await create(2, 1); // catch up at most one
+    const [catchUp, skipMissed, capped] = await dca.getUserOrders(user.address);
+    const execute = async (orderId: bigint) => dca.executeDCAOrderWithMinOut(orderId, (await dca.getOrderQuote(orderId))[1]);
+
+    // Slots 1-3 are due for every order
+    await increaseTime(3 * 3600 + 1800);
+
+    for (let i = 0; i < 3; i++) {
+      await execute(catchUp);
+    }
+    await expect(execute(catchUp)).to.be.revertedWithCustomError(dca, "OrderNotReady");
+    let order = await dca.getDCAOrder(catchUp);
+    expect([order.intervalsCompleted, order.missedIntervals]).to.deep.equal([3n, 0n]);
+
+    // Slots 1 and 2 are dropped and slot 3 executes
+    const slot = async (orderId: bigint, n: bigint) => (await dca.getDCAOrder(orderId)).startTime + n * 3600n;
+    await expect(execute(skipMissed))
+      .to.emit(dca, "DCAIntervalsMissed")
+      .withArgs(skipMissed, 2, await slot(skipMissed, 3n));
+    await expect(execute(skipMissed)).to.be.revertedWithCustomError(dca, "OrderNotReady");
+    order = await dca.getDCAOrder(skipMissed);
+    expect([order.intervalsCompleted, order.missedIntervals]).to.deep.equal([1n, 2n]);
+
+    await expect(execute(capped))
+      .to.emit(dca, "DCAIntervalsMissed")
+      .withArgs(capped, 1, await slot(capped, 2n));
+    await execute(capped);
+    await expect(execute(capped)).to.be.revertedWithCustomError(dca, "OrderNotReady");
+    order = await dca.getDCAOrder(capped);
+    expect([order.intervalsCompleted, order.missedIntervals]).to.deep.equal([2n, 1n]);
+
+    // Every order now waits for slot 4, however late its executions ran
+    for (const orderId of [catchUp, skipMissed, capped]) {
+      const { startTime, nextExecutionTime } = await dca.getDCAOrder(orderId);
+      expect(nextExecutionTime).to.equal(startTime + 4n * 3600n);
+    }
+  });
+});
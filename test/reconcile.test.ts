@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import tayebCoinsConfig from "../config/tayebCoins.json";
+import { TayebCoinsConfig } from "../config/types";
+import {
+  Address,
+  ShariaCoinData,
+  createComplianceClient,
+  createReconcileReceipt,
+  createTokenResolver,
+  planReconciliation,
+  planSeeding,
+  reconcileActionCall,
+  resumeReconcileReceipt,
+} from "../sdk";
+import { readContract, writeContract } from "../scripts/utils/sdkContracts";
+
+const { ethers } = hre;
+
+const USDC = "0x931715FEE2d06333043d11F658C8CE934aC61D0c" as Address; // USDC_WH
+const BTC = "0xE57eBd2d67B462E9926e04a8e33f01cD0D64346D" as Address; // WBTC_WH
+const STRAY = "0x000000000000000000000000000000000000dEaD" as Address;
+
+// The only entries with addresses: [address, permissible]
+const LISTED: Record<string, [Address, boolean]> = {
+  USDC_WH: [USDC, true],
+  WBTC_WH: [BTC, false],
+};
+
+function reconcileConfig(): TayebCoinsConfig {
+  const config = structuredClone(tayebCoinsConfig) as TayebCoinsConfig;
+  for (const coin of config.coins) {
+    coin.addresses.moonbeam = null;
+    for (const variant of coin.variants ?? []) {
+      const [address, permissible] = LISTED[variant.symbol] ?? [null, variant.permissible];
+      variant.addresses.moonbeam = address;
+      variant.permissible = permissible;
+    }
+  }
+  return config;
+}
+
+describe("Registry reconciliation", function () {
+  async function deployDriftedRegistry() {
+    const [owner] = await ethers.getSigners();
+    const shariaCompliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    await shariaCompliance.waitForDeployment();
+
+    // WBTC.wh is listed as verified though the config marks it non-permissible, and a coin
+    // the config doesn't know is registered; USDC.wh is missing
+    await (await shariaCompliance.registerShariaCoin("WBTC.wh", "Wrapped BTC", "WBTC.wh", BTC, "Old reason")).wait();
+    await (await shariaCompliance.registerShariaCoin("STRAY", "Stray", "STRAY", STRAY, "Unknown")).wait();
+
+    const compliance = createComplianceClient({
+      shariaCompliance: (await shariaCompliance.getAddress()) as Address,
+      shariaLocalSwap: null,
+      shariaDCA: null,
+      router: null,
+      weth: null,
+    });
+    return { owner, compliance };
+  }
+
+  it("Should plan removals, registrations and updates, and be in sync after executing them", async function () {
+    const { owner, compliance } = await deployDriftedRegistry();
+    const tokens = createTokenResolver(reconcileConfig());
+    const readCoins = () => readContract<ShariaCoinData[]>(owner, compliance.getAllShariaCoins());
+
+    const plan = planReconciliation(tokens, await readCoins());
+    expect(plan.actions.map((action) => `${action.type}:${action.coinId}`)).to.deep.equal([
+      "remove:STRAY",
+      "register:USDC.wh",
+      "update:WBTC.wh",
+    ]);
+    expect(plan.actions[2]).to.include({ verified: false });
+
+    for (const action of plan.actions) {
+      await (await writeContract(owner, reconcileActionCall(compliance, action))).wait();
+    }
+
+    const after = planReconciliation(tokens, await readCoins());
+    expect(after.actions).to.be.empty;
+    expect(after.inSync).to.have.members(["USDC.wh", "WBTC.wh"]);
+  });
+
+  it("Should resume a receipt, retrying unfinished steps and superseding those already applied", async function () {
+    const { owner, compliance } = await deployDriftedRegistry();
+    const tokens = createTokenResolver(reconcileConfig());
+    const readCoins = () => readContract<ShariaCoinData[]>(owner, compliance.getAllShariaCoins());
+
+    const plan = planReconciliation(tokens, await readCoins());
+    const receipt = createReconcileReceipt(1337, "hardhat", compliance.address!, plan);
+    receipt.steps[0].status = "confirmed";
+    receipt.steps[1].status = "failed";
+    receipt.steps[1].error = "nonce too low";
+    receipt.steps[2].status = "declined";
+
+    // The removal went through; the update was applied out of band before the resume
+    await (await writeContract(owner, reconcileActionCall(compliance, plan.actions[0]))).wait();
+    await (await writeContract(owner, reconcileActionCall(compliance, plan.actions[2]))).wait();
+
+    const resumed = resumeReconcileReceipt(receipt, planReconciliation(tokens, await readCoins()));
+    expect(resumed.steps.map((step) => step.status)).to.deep.equal(["confirmed", "pending", "superseded"]);
+    expect(resumed.steps[1].error).to.be.undefined;
+  });
+
+  it("Should seed only missing and changed coins, leave removals alone, and have nothing left on a rerun", async function () {
+    const { owner, compliance } = await deployDriftedRegistry();
+    const tokens = createTokenResolver(reconcileConfig());
+    const readCoins = () => readContract<ShariaCoinData[]>(owner, compliance.getAllShariaCoins());
+
+    const plan = planSeeding(tokens, await readCoins());
+    expect(plan.actions.map((action) => `${action.type}:${action.coinId}`)).to.deep.equal([
+      "register:USDC.wh",
+      "update:WBTC.wh",
+    ]);
+    expect(plan.conflicts.map((action) => `${action.type}:${action.coinId}`)).to.deep.equal(["remove:STRAY"]);
+
+    // A run that stopped after the registration resumes with just the update
+    await (await writeContract(owner, reconcileActionCall(compliance, plan.actions[0]))).wait();
+    const receipt = createReconcileReceipt(1337, "hardhat", compliance.address!, plan);
+    receipt.steps[1].status = "failed";
+    const resumed = resumeReconcileReceipt(receipt, planSeeding(tokens, await readCoins()));
+    expect(resumed.steps.map((step) => step.status)).to.deep.equal(["superseded", "pending"]);
+
+    await (await writeContract(owner, reconcileActionCall(compliance, resumed.steps[1].action))).wait();
+    const rerun = planSeeding(tokens, await readCoins());
+    expect(rerun.actions).to.be.empty;
+    expect(rerun.inSync).to.have.members(["USDC.wh", "WBTC.wh"]);
+  });
+});
@@ -0,0 +1,852 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import hre from "hardhat";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import tayebCoinsConfig from "../config/tayebCoins.json";
+import deployedContractsConfig from "../config/deployedContracts.json";
+import xcmConfig from "../config/xcmConfig.json";
+import hydrationAssetRegistry from "../hydration-asset-registry.json";
+import { DeploymentRegistry, HydrationAssetRegistry, TayebCoinsConfig, XcmConfig } from "../config/types";
+import {
+  Address,
+  ShariaCoinData,
+  ShariaComplianceABI,
+  TAYEB_CHAIN_IDS,
+  createComplianceClient,
+  createDCAClient,
+  getDCASchedule,
+  getMissedIntervalPolicy,
+  DCAEvent,
+  buildDCACostBasisReport,
+  dcaLogRanges,
+  formatDCACostBasisReport,
+  indexDCAEvents,
+  toDCAEvent,
+  DCADelivery,
+  DCANotifierSignIn,
+  DCAWebhookSubscription,
+  addDCAWebhookSubscription,
+  createDCANotifierState,
+  dcaEventNotification,
+  dcaNotifierAuthMessage,
+  dueDCADeliveries,
+  isPrivateIpAddress,
+  keeperFailureNotification,
+  listKeeperFailuresSince,
+  queueDCANotification,
+  recordDCADeliveryAttempt,
+  removeDCAWebhookSubscription,
+  validateWebhookUrl,
+  createEmptyDeployment,
+  createTayebSdk,
+  createTokenResolver,
+  crossReferenceHydrationAssets,
+  auditWiring,
+  formatWiringChecklist,
+  resolvePairKey,
+  buildTokenList,
+  formatVariantSymbol,
+  nextTokenListVersion,
+  parseTokenList,
+  tokenListToTokens,
+  screenCoin,
+  getDeployment,
+  getRecentSwaps,
+  createKeeperState,
+  getKeeperOrder,
+  keeperBackoffSeconds,
+  keeperSkipReason,
+  listInFlightOrders,
+  recordKeeperOutcome,
+  recordKeeperSubmission,
+  releaseKeeperQuarantine,
+  decodeUpkeepOrders,
+  encodeUpkeepOrders,
+  keeperGasSpentToday,
+  planKeeperGas,
+  recordKeeperGasSpend,
+  shouldBatchKeeperPlan,
+  claimKeeperLeases,
+  createKeeperLeaseTable,
+  formatKeeperLeaseReport,
+  listLiveKeepers,
+  parseKeeperShard,
+  releaseKeeperLeases,
+  parseStellaSwapQuote,
+} from "../sdk";
+import {
+  DCANotifierStore,
+  createDCANotifierServer,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "../scripts/utils/dcaNotifier";
+import { KeeperLeaseBackend, createFileLeaseBackend, createHttpLeaseBackend, createKeeperLeaseServer } from "../scripts/utils/keeperLease";
+import { loadKeeperGasPolicy } from "../scripts/utils/keeperGas";
+import { chargeKeeperGas, loadKeeperGasLedger } from "../scripts/utils/keeperStore";
+import { createKeeperMetrics } from "../scripts/utils/keeperMetrics";
+import { describeRevert, readContract, writeContract } from "../scripts/utils/sdkContracts";
+
+const { ethers } = hre;
+
+const WETH = "0xAcc15dC74880C9944775448304B263D191c6077F" as Address;
+const USDC = "0x931715FEE2d06333043d11F658C8CE934aC61D0c" as Address; // USDC_WH
+const BTC = "0xE57eBd2d67B462E9926e04a8e33f01cD0D64346D" as Address; // WBTC_WH
+
+describe("Tayeb SDK", function () {
+  const registry = deployedContractsConfig as DeploymentRegistry;
+  const sdk = createTayebSdk(getDeployment(registry, TAYEB_CHAIN_IDS.moonbeam), tayebCoinsConfig as TayebCoinsConfig);
+
+  it("Should resolve coins and variants case-insensitively with inherited metadata", function () {
+    const variant = tayebCoinsConfig.coins.find((coin) => coin.variants?.length)!;
+    const token = sdk.tokens.getToken(variant.variants![0].symbol.toLowerCase());
+
+    expect(token.isVariant).to.be.true;
+    expect(token.baseSymbol).to.equal(variant.symbol);
+    expect(token.decimals).to.equal(variant.variants![0].decimals ?? variant.decimals);
+    expect(sdk.tokens.findTokenByAddress(token.addresses.moonbeam.toLowerCase())?.symbol).to.equal(token.symbol);
+    expect(() => sdk.tokens.getToken("NOPE")).to.throw("Unable to find token symbol 'NOPE'");
+  });
+
+  it("Should resolve one token from its symbol, on-chain variant symbol, address or Hydration asset ID", function () {
+    const tokens = createTokenResolver(tayebCoinsConfig as TayebCoinsConfig, { xcmConfig: xcmConfig as XcmConfig });
+    const usdc = tokens.resolveOrThrow("USDC_WH");
+
+    expect(tokens.resolve("wbtc.wh")).to.include({ symbol: "WBTC_WH", baseSymbol: "BTC", isVariant: true });
+    expect(tokens.resolve(formatVariantSymbol("USDC_WH"))).to.equal(usdc);
+    expect(tokens.resolve(USDC.toLowerCase())).to.equal(usdc);
+    expect(tokens.resolve(1337)).to.equal(usdc);
+    expect(tokens.resolve("1337")).to.equal(usdc);
+    expect(usdc.xcm).to.deep.equal({ symbol: "USDC", assetId: 1337, decimals: 6 });
+    expect(tokens.getDecimals("usdc.wh")).to.equal(6);
+    expect(tokens.getDecimals("NOPE")).to.equal(18);
+    expect(() => tokens.resolveOrThrow("NOPE")).to.throw("Unable to resolve token 'NOPE' in tayebCoins.json");
+  });
+
+  it("Should score screening data against the methodology and explain the result", function () {
+    const btc = sdk.tokens.screen("wbtc.wh")!;
+    expect(btc.status).to.equal("compliant");
+    expect(btc.criteria.map((criterion) => criterion.passed)).to.deep.equal([true, true, true, true]);
+
+    const lending = screenCoin({
+      interestBearing: true,
+      revenueSources: ["lending-interest", "protocol-fees"],
+      leverageOrLending: true,
+    });
+    expect(lending.status).to.equal("non-compliant");
+    expect(lending.criteria.map((criterion) => criterion.passed)).to.deep.equal([false, false, false, null]);
+    expect(lending.explanation).to.include("Prohibited: Lending interest");
+
+    expect(screenCoin({ interestBearing: false, revenueSources: ["payments"], leverageOrLending: false }).status)
+      .to.equal("needs-review");
+    expect(screenCoin(undefined).status).to.equal("unscreened");
+  });
+
+  it("Should export a versioned token list and import it back as tokens", function () {
+    const tokens = createTokenResolver(tayebCoinsConfig as TayebCoinsConfig, { xcmConfig: xcmConfig as XcmConfig });
+    const list = buildTokenList(tokens, {
+      chainId: TAYEB_CHAIN_IDS.moonbeam,
+      version: { major: 1, minor: 0, patch: 0 },
+      timestamp: "2026-01-01T00:00:00.000Z",
+    });
+
+    const usdc = list.tokens.find((token) => token.address === USDC)!;
+    expect(usdc).to.include({ chainId: 1284, symbol: "USDC.wh", decimals: 6 });
+    expect(usdc.tags).to.deep.equal(["sharia", "bridged", "hydration"]);
+    expect(usdc.extensions).to.include({ tayebSymbol: "USDC_WH", permissible: true, hydrationAssetId: 1337 });
+    expect(list.tokens.every((token) => token.extensions?.permissible)).to.be.true;
+
+    expect(nextTokenListVersion(list, list.tokens)).to.equal(list.version);
+    expect(nextTokenListVersion(list, [...list.tokens, { ...usdc, address: "0x000000000000000000000000000000000000dEaD" }]))
+      .to.deep.equal({ major: 1, minor: 1, patch: 0 });
+    expect(nextTokenListVersion(list, list.tokens.map((token) => (token === usdc ? { ...usdc, name: "USDC" } : token))))
+      .to.deep.equal({ major: 1, minor: 0, patch: 1 });
+    expect(nextTokenListVersion(list, list.tokens.slice(1))).to.deep.equal({ major: 2, minor: 0, patch: 0 });
+
+    const imported = tokenListToTokens(parseTokenList(JSON.parse(JSON.stringify(list))), TAYEB_CHAIN_IDS.moonbeam);
+    expect(imported).to.have.length(list.tokens.length);
+    expect(imported.find((token) => token.addresses.moonbeam === USDC)).to.include({ symbol: "USDC.wh", permissible: true });
+    expect(tokenListToTokens(list, TAYEB_CHAIN_IDS.moonbaseAlpha)).to.be.empty;
+    expect(() => parseTokenList({ name: "Bad", version: { major: 1 }, tokens: [{ chainId: 1284, address: "0x1" }] }))
+      .to.throw(/version must be[\s\S]*tokens\[0\]\.address/);
+  });
+
+  it("Should cross-reference Hydration asset IDs, symbols and decimals offline", function () {
+    const registry = structuredClone(hydrationAssetRegistry) as HydrationAssetRegistry;
+    const xcm = structuredClone(xcmConfig) as XcmConfig;
+    // Point USDC at an Omnipool asset whose metadata disagrees on symbol and decimals
+    registry.assets["22"] = { ...registry.assets["0"], metadata: { symbol: "USDT", decimals: 18 } };
+    xcm.hydration.assetRegistry.USDC = 22;
+    xcm.tokenMapping.moonbeamToHydration[USDC.toLowerCase()].assetId = 22;
+
+    const tokens = createTokenResolver(tayebCoinsConfig as TayebCoinsConfig, { xcmConfig: xcm });
+    const report = crossReferenceHydrationAssets(registry, xcm, tokens);
+    const about = (subject: string) =>
+      report.findings.filter((finding) => finding.subject.startsWith(subject)).map((finding) => finding.kind);
+
+    expect(about("hydration.assetRegistry.DOT")).to.deep.equal(["unknown-asset"]);
+    expect(about("hydration.assetRegistry.USDC")).to.deep.equal(["symbol-mismatch"]);
+    expect(about(`tokenMapping.moonbeamToHydration[${USDC.toLowerCase()}]`))
+      .to.deep.equal(["symbol-mismatch", "decimals-mismatch"]);
+    expect(about("WBTC_WH")).to.deep.equal(["missing-asset-id"]);
+    expect(about("XRP")).to.be.empty; // no Moonbeam address, so no Hydration ID expected
+    expect(report.errorCount).to.equal(report.findings.filter((finding) => finding.severity === "error").length);
+  });
+
+  it("Should audit contract wiring, owners and pairs against the deployment entry", function () {
+    const tokens = createTokenResolver(tayebCoinsConfig as TayebCoinsConfig);
+    const [compliance, localSwap, dca, router, factory, pair, owner, other] = [
+      "0x0000000000000000000000000000000000000c01",
+      "0x0000000000000000000000000000000000000c02",
+      "0x0000000000000000000000000000000000000c03",
+      "0x0000000000000000000000000000000000000c04",
+      "0x0000000000000000000000000000000000000c05",
+      "0x0000000000000000000000000000000000000c06",
+      "0x0000000000000000000000000000000000000a01",
+      "0x0000000000000000000000000000000000000a02",
+    ];
+    const deployment = {
+      ...createEmptyDeployment(TAYEB_CHAIN_IDS.moonbeam, "moonbeam"),
+      amm: { factory, router, weth: WETH },
+      main: { shariaCompliance: compliance, shariaLocalSwap: localSwap, shariaDCA: dca },
+      pairs: { GLMR_USDC_WH: pair, FOO_BAR: pair },
+    };
+    deployment.metadata.deployer = owner;
+
+    expect(resolvePairKey("GLMR_USDC_WH", tokens)?.map((token) => token.symbol)).to.deep.equal(["GLMR", "USDC_WH"]);
+
+    const audit = auditWiring(
+      deployment,
+      {
+        contracts: {
+          shariaCompliance: { hasCode: true, owner },
+          shariaLocalSwap: { hasCode: true, owner: other, shariaCompliance: compliance, dexRouter: other, weth: WETH },
+          shariaDCA: { hasCode: false },
+        },
+        router: { hasCode: true, factory, weth: WETH },
+        pairs: { GLMR_USDC_WH: pair },
+      },
+      tokens
+    );
+    const failed = audit.checks.filter((check) => !check.passed).map((check) => `${check.subject}: ${check.description}`);
+
+    expect(failed).to.deep.equal([
+      "ShariaLocalSwap: owner()",
+      "ShariaLocalSwap: dexRouter() is amm.router",
+      `ShariaDCA: has code at ${dca}`,
+      "pairs.FOO_BAR: key names two tokens with addresses",
+    ]);
+    expect(audit.passed + audit.failed).to.equal(audit.checks.length);
+    expect(formatWiringChecklist(audit)).to.contain(
+      `- [ ] ShariaLocalSwap: dexRouter() is amm.router: expected ${router}, got ${other}`
+    );
+
+    // A recorded handoff makes the multisig the expected owner, but only for the address it covered
+    const transfer = { previousOwner: owner, txHash: "0x" + "ab".repeat(32), blockNumber: 1, transferredAt: "" };
+    deployment.metadata.ownership = {
+      multisig: other,
+      transfers: { shariaCompliance: { ...transfer, address: compliance }, shariaDCA: { ...transfer, address: other } },
+    };
+    const handedOver = auditWiring(
+      deployment,
+      {
+        contracts: { shariaCompliance: { hasCode: true, owner: other }, shariaDCA: { hasCode: true, owner: other } },
+        pairs: {},
+      },
+      tokens
+    );
+    const ownerChecks = handedOver.checks.filter((check) => check.description === "owner()");
+    expect(ownerChecks.map((check) => [check.subject, check.passed])).to.deep.equal([
+      ["ShariaCompliance", true],
+      ["ShariaDCA", false],
+    ]);
+
+    // An explicit expected owner overrides both
+    const overridden = auditWiring(
+      deployment,
+      { contracts: { shariaDCA: { hasCode: true, owner: other } }, pairs: {} },
+      tokens,
+      { expectedOwner: other }
+    );
+    expect(overridden.checks.find((check) => check.subject === "ShariaDCA" && check.description === "owner()")?.passed)
+      .to.equal(true);
+  });
+
+  it("Should pick deployments by chain ID and apply per-network token addresses", function () {
+    expect(sdk.chainId).to.equal(TAYEB_CHAIN_IDS.moonbeam);
+    expect(() => getDeployment(registry, TAYEB_CHAIN_IDS.moonbaseAlpha)).to.throw(
+      "No deployment for chain 1287 in config/deployedContracts.json (deployed chains: 1284)"
+    );
+
+    const localToken = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+    const local = createTayebSdk(
+      { ...createEmptyDeployment(TAYEB_CHAIN_IDS.local, "localhost"), tokens: { USDC_WH: localToken } },
+      tayebCoinsConfig as TayebCoinsConfig
+    );
+    expect(local.tokens.getToken("USDC_WH").addresses.moonbeam).to.equal(localToken);
+    expect(local.tokens.findTokenByAddress(USDC)).to.be.undefined;
+    expect(local.contracts.shariaCompliance).to.be.null;
+  });
+
+  it("Should route swaps and DCA orders through WGLMR", function () {
+    expect(sdk.swap.buildPath(USDC, BTC, false)).to.deep.equal([USDC, WETH, BTC]);
+    expect(sdk.swap.buildPath(USDC, BTC)).to.deep.equal([USDC, BTC]);
+    expect(sdk.swap.buildNativePath(BTC)).to.deep.equal([WETH, BTC]);
+
+    const dca = createDCAClient({ ...sdk.contracts, shariaDCA: USDC });
+    expect(dca.createDCAOrderWithDEV(BTC, 1n, 3600n, 5n, 100, { mode: "catch-up" }, 5n).args[1]).to.deep.equal([WETH, BTC]);
+    const tokenOrder = dca.createDCAOrderWithToken(USDC, BTC, 1n, 3600n, 5n, 100, { mode: "cap", maxCatchUp: 2 });
+    expect(tokenOrder.args[2]).to.deep.equal([USDC, WETH, BTC]);
+    expect(tokenOrder.args.slice(7)).to.deep.equal([2, 2n]);
+  });
+
+  it("Should project the anchored DCA schedule and the slots each policy drops", function () {
+    // Slot n falls due at startTime + n hours; slot 2 is next and it's now past slot 5
+    const order = {
+      isActive: true,
+      startTime: 1_000_000n,
+      interval: 3600n,
+      nextExecutionTime: 1_000_000n + 2n * 3600n,
+      intervalsCompleted: 1n,
+      totalIntervals: 10n,
+      missedIntervalPolicy: 0,
+      maxCatchUp: 0n,
+      missedIntervals: 0n,
+    };
+    const now = 1_000_000 + 5 * 3600 + 60;
+
+    expect(getDCASchedule(order, now)).to.deep.equal({
+      nextSlot: 2,
+      nextSlotTime: 1_000_000 + 2 * 3600,
+      dueSlots: 4,
+      droppingSlots: 0,
+      missedIntervals: 0,
+      finalSlotTime: 1_000_000 + 10 * 3600,
+    });
+    expect(getDCASchedule({ ...order, missedIntervalPolicy: 1n }, now)).to.include({ droppingSlots: 3, finalSlotTime: 1_000_000 + 13 * 3600 });
+    expect(getDCASchedule({ ...order, missedIntervalPolicy: 2, maxCatchUp: 1n }, now).droppingSlots).to.equal(2);
+    expect(getDCASchedule(order, 1_000_000 + 3600).dueSlots).to.equal(0);
+    expect(getMissedIntervalPolicy({ missedIntervalPolicy: 2n, maxCatchUp: 1n })).to.deep.equal({ mode: "cap", maxCatchUp: 1 });
+  });
+
+  it("Should index DCA executions into cost basis per order and per user", function () {
+    const alice = "0x00000000000000000000000000000000000A11CE";
+    const bob = "0x0000000000000000000000000000000000000B0B";
+    const events = [
+      toDCAEvent("DCAOrderCreated", { orderId: 1n, owner: alice, sourceToken: USDC, targetToken: BTC }),
+      toDCAEvent("DCAOrderCreated", { orderId: 2n, owner: bob, sourceToken: ethers.ZeroAddress, targetToken: USDC }),
+      // 100 USDC for 0.002 BTC, then 100 USDC for 0.0025 BTC
+      toDCAEvent("DCAOrderExecuted", { orderId: 1n, intervalNumber: 1n, amountIn: 100_000_000n, amountOut: 200_000n, timestamp: 1000n }),
+      toDCAEvent("DCAOrderExecuted", { orderId: 1n, intervalNumber: 2n, amountIn: 100_000_000n, amountOut: 250_000n, timestamp: 4600n }),
+      toDCAEvent("DCAOrderCompleted", { orderId: 1n, owner: alice, totalIntervals: 2n }),
+      toDCAEvent("DCAOrderCancelled", { orderId: 2n, owner: bob }),
+      // Not one of the indexed orders
+      toDCAEvent("DCAOrderExecuted", { orderId: 9n, intervalNumber: 1n, amountIn: 1n, amountOut: 1n, timestamp: 1n }),
+      toDCAEvent("DCAIntervalSkipped", { orderId: 1n, expectedAmountOut: 1n, amountOutMin: 2n, nextExecutionTime: 3n }),
+    ];
+    expect(events[7]).to.be.null;
+    // Admin events from the deployment block on carry no orderId
+    expect(toDCAEvent("OwnershipTransferred", { previousOwner: ethers.ZeroAddress, newOwner: alice })).to.be.null;
+    expect(toDCAEvent("KeeperUpdated", { keeper: bob, authorized: true })).to.be.null;
+
+    const positions = indexDCAEvents(events.filter((event): event is DCAEvent => event !== null));
+    expect(positions.map((position) => [position.orderId, position.status, position.executions])).to.deep.equal([
+      [1n, "completed", 2],
+      [2n, "cancelled", 0],
+    ]);
+    expect(positions[0]).to.include({ totalSpent: 200_000_000n, totalReceived: 450_000n, firstExecutedAt: 1000, lastExecutedAt: 4600 });
+
+    const tokens = createTokenResolver(tayebCoinsConfig as TayebCoinsConfig);
+    const tokenInfo = (address: string) => {
+      const token = tokens.resolve(address);
+      return token && { symbol: token.symbol, decimals: token.decimals };
+    };
+    const prices: Record<string, number> = { USDC_WH: 1, WBTC_WH: 50_000 };
+    const report = buildDCACostBasisReport(positions, tokenInfo, (symbol) => prices[symbol]);
+
+    const [order] = report.positions;
+    expect(order.source.symbol).to.equal("USDC_WH");
+    expect(order.spent).to.equal(200);
+    expect(order.received).to.be.closeTo(0.0045, 1e-12);
+    expect(order.averagePrice).to.be.closeTo(44_444.44, 0.01);
+    expect(order.spentValueToday).to.equal(200);
+    expect(order.receivedValueToday).to.be.closeTo(225, 1e-9);
+    expect(order.gainVsHoldingPercent).to.be.closeTo(12.5, 1e-9);
+    expect(report.positions[1].source).to.deep.equal({ symbol: "GLMR", decimals: 18 });
+
+    const [aliceReport, bobReport] = report.users;
+    expect(aliceReport).to.include({ owner: alice, orders: 1, executions: 2 });
+    expect(aliceReport.accumulated.WBTC_WH).to.be.closeTo(0.0045, 1e-12);
+    // Bob never executed, so nothing is left to value
+    expect(bobReport).to.include({ executions: 0, spentValueToday: 0, receivedValueToday: 0, gainVsHolding: 0 });
+    // Unpriced tokens leave the values unknown rather than zero
+    expect(buildDCACostBasisReport(positions, tokenInfo).users[0].spentValueToday).to.be.null;
+
+    expect(formatDCACostBasisReport(report, "USDC_WH")).to.contain("| #1 | " + alice + " | USDC_WH → WBTC_WH | completed | 2 | 200 USDC_WH |");
+    expect(dcaLogRanges(100n, 125n, 10n)).to.deep.equal([
+      [100n, 109n],
+      [110n, 119n],
+      [120n, 125n],
+    ]);
+  });
+
+  it("Should queue DCA notifications per subscribed endpoint and retry failed deliveries with backoff", function () {
+    const at = (seconds: number) => new Date(1_700_000_000_000 + seconds * 1000).toISOString();
+    const owner = "0x1111111111111111111111111111111111111111";
+    const policy = { maxAttempts: 3, backoffBaseSeconds: 30, backoffMaxSeconds: 3600, logLimit: 1, maxSubscriptionsPerOwner: 2, authMaxAgeSeconds: 3600 };
+    const subscription = (id: string, url: string, events: any[]) => ({ id, owner, url, events, secret: `secret-${id}`, createdAt: at(0) });
+
+    let state = createDCANotifierState(1284, WETH, at(0));
+    state = addDCAWebhookSubscription(state, subscription("all", "https://a.example/hook", ["dca.order.executed", "dca.keeper.failed"]), policy);
+    state = addDCAWebhookSubscription(state, subscription("failures", "https://b.example/hook", ["dca.keeper.failed", "nope"]), policy);
+    expect(state.subscriptions[1].events).to.deep.equal(["dca.keeper.failed"]);
+    expect(() => addDCAWebhookSubscription(state, subscription("again", "https://a.example/hook", ["dca.order.executed"]), policy)).to.throw("already registered");
+    expect(() => addDCAWebhookSubscription(state, subscription("third", "https://c.example/hook", ["dca.order.executed"]), policy)).to.throw("At most 2");
+    expect(() => validateWebhookUrl("http://localhost:9000/hook")).to.throw("must use https");
+    expect(validateWebhookUrl("http://localhost:9000/hook", true)).to.equal("http://localhost:9000/hook");
+    // Loopback, private, link-local and metadata hosts, however they're spelled, need allowInsecure too
+    for (const url of ["https://localhost/hook", "https://10.0.0.8/hook", "https://169.254.169.254/latest", "https://2130706433/hook", "https://[::ffff:127.0.0.1]/hook", "https://[fd00::1]/hook", "https://metadata.google.internal/hook"]) {
+      expect(() => validateWebhookUrl(url), url).to.throw("must be public hosts");
+    }
+    expect(validateWebhookUrl("https://10.0.0.8/hook", true)).to.equal("https://10.0.0.8/hook");
+    expect(validateWebhookUrl("https://8.8.8.8/hook")).to.equal("https://8.8.8.8/hook");
+    expect([isPrivateIpAddress("172.31.255.255"), isPrivateIpAddress("172.32.0.1"), isPrivateIpAddress("100.64.0.1"), isPrivateIpAddress("[::1]"), isPrivateIpAddress("2001:4860:4860::8888")]).to.deep.equal([true, false, true, true, false]);
+
+    const executed = dcaEventNotification(
+      { type: "executed", orderId: 5n, amountIn: 10n, amountOut: 3n, timestamp: 1n },
+      { chainId: 1284, owner, txHash: "0xaa", logIndex: 2, occurredAt: at(5), amounts: { amountIn: "10 USDC_WH", amountOut: "3 WBTC_WH" } }
+    )!;
+    expect(executed).to.include({ id: "1284:0xaa:2", type: "dca.order.executed", subject: "DCA order #5 executed" });
+    expect(executed.text).to.include("swapped 10 USDC_WH for 3 WBTC_WH");
+    expect(dcaEventNotification({ type: "created", orderId: 5n, owner, sourceToken: USDC, targetToken: BTC }, { chainId: 1284, owner, txHash: "0xaa", logIndex: 0, occurredAt: at(0) })).to.be.null;
+
+    // Only the endpoint subscribed to executions gets one, and a replayed event isn't queued twice
+    state = queueDCANotification(state, executed, at(10), policy);
+    state = queueDCANotification(state, executed, at(11), policy);
+    expect(state.deliveries.map((delivery) => delivery.id)).to.deep.equal(["1284:0xaa:2:all"]);
+
+    let keeper = recordKeeperSubmission(createKeeperState(1284, WETH, at(0)), 5n, "0xbb", at(20));
+    keeper = recordKeeperOutcome(keeper, 5n, { status: "reverted", error: "SwapFailed" }, at(21));
+    const [failure] = listKeeperFailuresSince(keeper.orders, at(20));
+    expect(listKeeperFailuresSince(keeper.orders, at(21))).to.be.empty;
+    const failed = keeperFailureNotification(1284, owner, failure.order, failure.attempt);
+    expect(failed.data).to.include({ error: "SwapFailed", txHash: "0xbb", consecutiveFailures: 1, quarantined: false });
+    state = queueDCANotification(state, failed, at(30), policy);
+    expect(dueDCADeliveries(state, at(30)).map((delivery) => delivery.subscriptionId)).to.deep.equal(["all", "all", "failures"]);
+
+    // Backoff doubles from 30 seconds until maxAttempts fails the delivery
+    const first = "1284:0xaa:2:all";
+    state = recordDCADeliveryAttempt(state, first, { statusCode: 500, error: "HTTP 500" }, at(40), policy);
+    expect(state.deliveries[0]).to.include({ status: "pending", nextAttemptAt: at(70) });
+    expect(dueDCADeliveries(state, at(69)).map((delivery) => delivery.id)).to.not.include(first);
+    state = recordDCADeliveryAttempt(state, first, { statusCode: null, error: "ECONNREFUSED" }, at(70), policy);
+    expect(state.deliveries[0].nextAttemptAt).to.equal(at(130));
+    state = recordDCADeliveryAttempt(state, first, { statusCode: 502, error: "HTTP 502" }, at(130), policy);
+    expect(state.deliveries[0]).to.include({ status: "failed", nextAttemptAt: null });
+
+    // Removing an endpoint fails what it still had pending; the log keeps logLimit settled deliveries
+    state = recordDCADeliveryAttempt(state, state.deliveries[1].id, { statusCode: 204, error: null }, at(140), policy);
+    expect(state.deliveries.map((delivery) => delivery.status)).to.deep.equal(["delivered", "pending"]);
+    state = removeDCAWebhookSubscription(state, owner, "failures", at(150));
+    expect(state.deliveries.map((delivery) => delivery.status)).to.deep.equal(["delivered", "failed"]);
+    expect(removeDCAWebhookSubscription(state, WETH, "all", at(160))).to.equal(state);
+  });
+
+  it("Should register endpoints signed by the owner and deliver HMAC-signed webhooks to a local sink", async function () {
+    const [owner, stranger] = await ethers.getSigners();
+    let state = createDCANotifierState(1284, WETH);
+    const store: DCANotifierStore = { get: () => state, update: (next) => (state = next) };
+
+    const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+    let sinkStatus = 500;
+    const sink = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ headers: request.headers, body });
+        response.writeHead(sinkStatus);
+        response.end();
+      });
+    });
+    const notifier = createDCANotifierServer(store, { allowInsecure: true, domain: "notifier.example" });
+    const listen = (server: http.Server) =>
+      new Promise<string>((resolve) => server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+    const [sinkUrl, apiUrl] = [await listen(sink), await listen(notifier)];
+
+    try {
+      const signedIn = async (signer: typeof owner, overrides: Partial<DCANotifierSignIn> = {}) => {
+        const { nonce } = (await (await fetch(`${apiUrl}/nonce`)).json()) as { nonce: string };
+        const signIn = { domain: "notifier.example", chainId: 1284, owner: signer.address, nonce, issuedAt: new Date().toISOString(), ...overrides };
+        const signature = await signer.signMessage(dcaNotifierAuthMessage(signIn));
+        return JSON.stringify({ owner: signIn.owner, issuedAt: signIn.issuedAt, nonce: signIn.nonce, signature });
+      };
+      const startSession = (body: string) => fetch(`${apiUrl}/session`, { method: "POST", body });
+
+      const signInBody = await signedIn(owner);
+      const session = await startSession(signInBody);
+      expect(session.status).to.equal(201);
+      const { token } = (await session.json()) as { token: string };
+      const headers = { Authorization: `Bearer ${token}` };
+
+      expect((await fetch(`${apiUrl}/subscriptions`)).status).to.equal(401);
+      expect((await fetch(`${apiUrl}/subscriptions`, { headers: { Authorization: "Bearer nope" } })).status).to.equal(401);
+      // A nonce signs in once, and a signature only works for this notifier's host and chain
+      expect((await startSession(signInBody)).status).to.equal(401);
+      expect((await startSession(await signedIn(stranger, { owner: owner.address }))).status).to.equal(401);
+      expect((await startSession(await signedIn(owner, { domain: "evil.example" }))).status).to.equal(401);
+      // Naming the Host the request arrived with doesn't help: only the configured domain counts
+      expect((await startSession(await signedIn(owner, { domain: new URL(apiUrl).host }))).status).to.equal(401);
+      expect((await startSession(await signedIn(owner, { chainId: 1 }))).status).to.equal(401);
+      expect((await startSession(await signedIn(owner, { nonce: "0".repeat(32) }))).status).to.equal(401);
+
+      const created = await fetch(`${apiUrl}/subscriptions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ url: `${sinkUrl}/hook`, events: ["dca.order.completed"] }),
+      });
+      expect(created.status).to.equal(201);
+      const { subscription, secret } = (await created.json()) as { subscription: DCAWebhookSubscription; secret: string };
+      const listed = (await (await fetch(`${apiUrl}/subscriptions`, { headers })).json()) as { subscriptions: DCAWebhookSubscription[] };
+      expect(listed.subscriptions).to.deep.equal([subscription]);
+      expect(JSON.stringify(listed)).to.not.include(secret);
+
+      const notification = dcaEventNotification(
+        { type: "completed", orderId: 9n },
+        { chainId: 1284, owner: owner.address.toLowerCase(), txHash: "0xcc", logIndex: 0, occurredAt: new Date().toISOString() }
+      )!;
+      state = queueDCANotification(state, notification);
+      const [delivery] = dueDCADeliveries(state);
+
+      // Without allowInsecure the notifier won't send to the local sink, even if it was registered
+      expect(await sendWebhook(delivery, secret)).to.deep.include({ statusCode: null });
+      expect(received).to.be.empty;
+
+      // The sink fails the first attempt and accepts the retry
+      state = recordDCADeliveryAttempt(state, delivery.id, await sendWebhook(delivery, secret, { allowInsecure: true }));
+      expect(state.deliveries[0]).to.include({ status: "pending" });
+      expect(state.deliveries[0].attempts[0]).to.include({ statusCode: 500, error: "HTTP 500" });
+      sinkStatus = 200;
+      state = recordDCADeliveryAttempt(state, delivery.id, await sendWebhook(state.deliveries[0], secret, { allowInsecure: true }));
+      expect(state.deliveries[0].status).to.equal("delivered");
+
+      const { headers: sent, body } = received[1];
+      expect(JSON.parse(body)).to.deep.equal(notification);
+      expect(sent["x-tayeb-event"]).to.equal("dca.order.completed");
+      expect(sent["x-tayeb-delivery"]).to.equal(delivery.id);
+      expect(verifyWebhookSignature(secret, sent["x-tayeb-signature"] as string, body)).to.be.true;
+      expect(verifyWebhookSignature(secret, sent["x-tayeb-signature"] as string, body.replace("9", "8"))).to.be.false;
+      expect(verifyWebhookSignature(secret, signWebhookPayload(secret, body, 1_000), body)).to.be.false;
+
+      const log = (await (await fetch(`${apiUrl}/deliveries`, { headers })).json()) as { deliveries: DCADelivery[] };
+      expect(log.deliveries.map((entry) => entry.status)).to.deep.equal(["delivered"]);
+
+      const removed = await fetch(`${apiUrl}/subscriptions/${subscription.id}`, { method: "DELETE", headers });
+      expect(removed.status).to.equal(204);
+      expect(state.subscriptions).to.be.empty;
+      expect((await fetch(`${apiUrl}/subscriptions/${subscription.id}`, { method: "DELETE", headers })).status).to.equal(404);
+    } finally {
+      sink.close();
+      notifier.close();
+    }
+  });
+
+  it("Should leave reads unaddressed and reject writes when a contract isn't deployed", function () {
+    const dca = createDCAClient({ ...sdk.contracts, shariaDCA: null });
+
+    expect(dca.getDCAOrder(1n).address).to.be.undefined;
+    expect(() => dca.executeDCAOrderWithMinOut(1n, 1n)).to.throw("ShariaDCA address not found");
+  });
+
+  it("Should parse StellaSwap trade quotes and map ETH back to WGLMR", function () {
+    const quote = parseStellaSwapQuote(
+      {
+        fromToken: "ETH",
+        toToken: BTC,
+        amountOut: "12345",
+        trades: [{ path: ["ETH", USDC] }, { path: [{ address: USDC }, { address: BTC }] }],
+      },
+      WETH
+    );
+
+    expect(quote.path).to.deep.equal([WETH, USDC, BTC]);
+    expect(quote.amountOut).to.equal("12345");
+    expect(quote.router).to.not.be.null;
+  });
+
+  it("Should keep only swaps from the last 24 hours, newest first", function () {
+    const now = 1_700_000_000_000;
+    const hoursAgo = (hours: number) => ({ timestamp: BigInt(now / 1000 - hours * 3600) });
+
+    const recent = getRecentSwaps([hoursAgo(30), hoursAgo(2), hoursAgo(1)], 5, now);
+    expect(recent).to.deep.equal([hoursAgo(1), hoursAgo(2)]);
+  });
+
+  it("Should back off failed DCA orders, track transactions in flight and quarantine repeated swap reverts", function () {
+    const at = (seconds: number) => new Date(1_700_000_000_000 + seconds * 1000).toISOString();
+    let state = createKeeperState(1284, WETH, at(0));
+
+    state = recordKeeperSubmission(state, 7n, "0xaa", at(0));
+    expect(keeperSkipReason(state, 7n, at(0))).to.equal("in-flight");
+    expect(listInFlightOrders(state).map((order) => order.orderId)).to.deep.equal(["7"]);
+
+    // Backoff doubles from a minute; only a swap revert can tip an order into quarantine
+    state = recordKeeperOutcome(state, 7n, { status: "reverted", error: "OrderNotReady" }, at(0));
+    state = recordKeeperOutcome(state, 7n, { status: "failed", error: "SwapFailed" }, at(60));
+    expect(getKeeperOrder(state, 7n)).to.include({ consecutiveFailures: 2, retryAt: at(180), quarantine: null });
+    expect(keeperSkipReason(state, 7n, at(179))).to.equal("backoff");
+    expect(keeperSkipReason(state, 7n, at(180))).to.be.null;
+    expect(keeperBackoffSeconds(20)).to.equal(3600);
+
+    state = recordKeeperOutcome(state, 7n, { status: "failed", error: "SwapFailed" }, at(180));
+    expect(keeperSkipReason(state, 7n, at(100_000))).to.equal("quarantined");
+    expect(getKeeperOrder(state, 7n).attempts.map((attempt) => attempt.status)).to.deep.equal(["reverted", "failed", "failed"]);
+
+    state = releaseKeeperQuarantine(state, 7n, at(200));
+    state = recordKeeperSubmission(state, 7n, "0xbb", at(200));
+    state = recordKeeperOutcome(state, 7n, { status: "confirmed" }, at(212));
+    expect(getKeeperOrder(state, 7n)).to.include({ consecutiveFailures: 0, retryAt: null, lastTxHash: "0xbb" });
+    expect(getKeeperOrder(state, 7n).attempts[3]).to.deep.equal({ status: "confirmed", txHash: "0xbb", error: undefined, startedAt: at(200), finishedAt: at(212) });
+    expect(getKeeperOrder(state, 8n).attempts).to.be.empty;
+  });
+
+  it("Should defer DCA orders not worth their gas or past the daily budget, and batch when cheaper", function () {
+    const glmr = (amount: string) => ethers.parseEther(amount);
+    const candidates = [
+      { orderId: 1n, gasCostWei: glmr("0.02"), valueWei: glmr("5") },
+      // Worth half its gas
+      { orderId: 2n, gasCostWei: glmr("0.02"), valueWei: glmr("0.01") },
+      // Unpriced: never deferred as uneconomic
+      { orderId: 3n, gasCostWei: glmr("0.04"), valueWei: null },
+      { orderId: 4n, gasCostWei: glmr("0.01"), valueWei: glmr("1") },
+    ];
+    const policy = { dailyBudgetWei: glmr("0.1"), minValueToGasRatio: 1, batch: true };
+
+    // 0.05 already spent: order 3 would overrun the budget, the cheaper order 4 still fits
+    const plan = planKeeperGas(candidates, glmr("0.05"), policy);
+    expect(plan.execute.map((candidate) => candidate.orderId)).to.deep.equal([1n, 4n]);
+    expect(plan.deferred.map(({ candidate, reason }) => [candidate.orderId, reason])).to.deep.equal([
+      [2n, "uneconomic"],
+      [3n, "daily-budget"],
+    ]);
+    expect(plan.costWei).to.equal(glmr("0.03"));
+    expect(planKeeperGas(candidates, 0n, { ...policy, dailyBudgetWei: null, minValueToGasRatio: 0 }).deferred).to.be.empty;
+    // Small ratios keep their precision rather than rounding down to "no check"
+    const dust = [{ orderId: 9n, gasCostWei: glmr("1"), valueWei: glmr("0.0009") }];
+    expect(planKeeperGas(dust, 0n, { ...policy, dailyBudgetWei: null, minValueToGasRatio: 0.001 }).deferred).to.have.lengthOf(1);
+    expect(planKeeperGas(dust, 0n, { ...policy, dailyBudgetWei: null, minValueToGasRatio: 0.0009 }).deferred).to.be.empty;
+    expect(planKeeperGas(dust, 0n, { ...policy, dailyBudgetWei: null, minValueToGasRatio: 1e-7 }).deferred).to.be.empty;
+    expect(planKeeperGas(dust, 0n, { ...policy, dailyBudgetWei: null, minValueToGasRatio: 1.5e21 }).deferred).to.have.lengthOf(1);
+
+    expect(shouldBatchKeeperPlan(plan, glmr("0.025"), policy)).to.be.true;
+    expect(shouldBatchKeeperPlan(plan, glmr("0.03"), policy)).to.be.false;
+    expect(shouldBatchKeeperPlan(plan, null, policy)).to.be.false;
+    expect(shouldBatchKeeperPlan(plan, glmr("0.025"), { ...policy, batch: false })).to.be.false;
+
+    // The ledger restarts each UTC day
+    let ledger = recordKeeperGasSpend(undefined, glmr("0.04"), "2026-01-01T10:00:00.000Z");
+    ledger = recordKeeperGasSpend(ledger, glmr("0.01"), "2026-01-01T23:59:00.000Z");
+    expect(keeperGasSpentToday(ledger, "2026-01-01T23:59:59.000Z")).to.equal(glmr("0.05"));
+    expect(keeperGasSpentToday(ledger, "2026-01-02T00:00:00.000Z")).to.equal(0n);
+    expect(keeperGasSpentToday(undefined)).to.equal(0n);
+    expect(recordKeeperGasSpend(ledger, 7n, "2026-01-02T00:00:00.000Z")).to.deep.equal({ day: "2026-01-02", spentWei: "7" });
+
+    expect(encodeUpkeepOrders([{ orderId: 3n, amountOutMin: 990n }, { orderId: 12n, amountOutMin: 7n }])).to.equal(
+      ethers.AbiCoder.defaultAbiCoder().encode(["uint256[]", "uint256[]"], [[3n, 12n], [990n, 7n]])
+    );
+    expect(encodeUpkeepOrders([])).to.equal(ethers.AbiCoder.defaultAbiCoder().encode(["uint256[]", "uint256[]"], [[], []]));
+    expect(decodeUpkeepOrders(encodeUpkeepOrders([{ orderId: 3n, amountOutMin: 990n }]))).to.deep.equal([{ orderId: 3n, amountOutMin: 990n }]);
+    expect(decodeUpkeepOrders("0x")).to.deep.equal([]);
+    expect(() => decodeUpkeepOrders(ethers.AbiCoder.defaultAbiCoder().encode(["uint256[]", "uint256[]"], [[3n], []]))).to.throw("1 orders but 0 minimums");
+
+    // A policy the keeper can't plan with stops it at startup
+    const loadWith = (env: Record<string, string>) => {
+      const saved = { ...process.env };
+      Object.assign(process.env, env);
+      try {
+        return loadKeeperGasPolicy();
+      } finally {
+        process.env = saved;
+      }
+    };
+    expect(loadWith({ KEEPER_DAILY_GAS_BUDGET_GLMR: "2.5", KEEPER_MIN_VALUE_TO_GAS_RATIO: "0" })).to.include({
+      dailyBudgetWei: glmr("2.5"),
+      minValueToGasRatio: 0,
+    });
+    expect(() => loadWith({ KEEPER_MIN_VALUE_TO_GAS_RATIO: "two" })).to.throw("KEEPER_MIN_VALUE_TO_GAS_RATIO must be a finite number");
+    expect(() => loadWith({ KEEPER_MIN_VALUE_TO_GAS_RATIO: "-1" })).to.throw("KEEPER_MIN_VALUE_TO_GAS_RATIO");
+    expect(() => loadWith({ KEEPER_MIN_VALUE_TO_GAS_RATIO: "Infinity" })).to.throw("KEEPER_MIN_VALUE_TO_GAS_RATIO");
+    expect(() => loadWith({ KEEPER_DAILY_GAS_BUDGET_GLMR: "-0.1" })).to.throw("KEEPER_DAILY_GAS_BUDGET_GLMR must be a non-negative");
+    expect(() => loadWith({ KEEPER_DAILY_GAS_BUDGET_GLMR: "lots" })).to.throw("KEEPER_DAILY_GAS_BUDGET_GLMR");
+  });
+
+  it("Should lease each DCA order to one keeper, keep shards apart and fail over when a peer stops checking in", function () {
+    const at = (seconds: number) => new Date(1_700_000_000_000 + seconds * 1000).toISOString();
+    const even = parseKeeperShard("0/2");
+    const odd = parseKeeperShard("1/2");
+    expect(() => parseKeeperShard("2/2")).to.throw("Invalid keeper shard");
+
+    // b checks in first with the odd shard, so a leaves order 3 to it and takes the rest
+    let table = claimKeeperLeases(createKeeperLeaseTable(at(0)), { keeperId: "b", shard: odd, orderIds: [], ttlSeconds: 600 }, at(0)).table;
+    let claim = claimKeeperLeases(table, { keeperId: "a", shard: even, orderIds: ["2", "3", "4"], ttlSeconds: 600 }, at(10));
+    expect(claim.result).to.deep.equal({ claimed: ["2", "4"], heldBy: { "3": "b" } });
+    table = claim.table;
+
+    // An unsharded keeper still can't take a live lease
+    claim = claimKeeperLeases(table, { keeperId: "c", shard: null, orderIds: ["2", "5"], ttlSeconds: 600 }, at(20));
+    expect(claim.result).to.deep.equal({ claimed: ["5"], heldBy: { "2": "a" } });
+
+    // a renews order 2 and settles order 4; b stops checking in
+    table = claimKeeperLeases(table, { keeperId: "a", shard: even, orderIds: ["2"], ttlSeconds: 600 }, at(300)).table;
+    expect(table.leases["2"]).to.include({ acquiredAt: at(10), expiresAt: at(900) });
+    table = releaseKeeperLeases(
+      table,
+      { keeperId: "a", orderIds: ["4"], executions: [{ orderId: "4", keeperId: "a", status: "executed", txHash: "0xaa", at: at(310) }] },
+      at(310)
+    );
+    expect(table.leases["4"]).to.be.undefined;
+    expect(listLiveKeepers(table, at(601)).map((peer) => peer.keeperId)).to.deep.equal(["a"]);
+
+    claim = claimKeeperLeases(table, { keeperId: "a", shard: even, orderIds: ["3"], ttlSeconds: 600 }, at(601));
+    expect(claim.result.claimed).to.deep.equal(["3"]);
+
+    // Releasing a lease a peer has since taken over leaves it alone
+    expect(releaseKeeperLeases(claim.table, { keeperId: "b", orderIds: ["3"], executions: [] }, at(602)).leases["3"]).to.include({ keeperId: "a" });
+
+    const report = formatKeeperLeaseReport(claim.table, at(601));
+    expect(report).to.include("| a | 0/2 | " + at(601) + " | live | #2, #3 |");
+    expect(report).to.include("| b | 1/2 | " + at(0) + " | expired | — |");
+    expect(report).to.include(`| ${at(310)} | #4 | a | executed | 0xaa |`);
+  });
+
+  it("Should charge the gas ledger from both keepers without losing a charge", async function () {
+    const ledgerDir = fs.mkdtempSync(path.join(os.tmpdir(), "tayeb-gas-"));
+    const filePath = path.join(ledgerDir, "keeper-gas.json");
+    try {
+      expect(loadKeeperGasLedger(filePath)).to.be.undefined;
+      await Promise.all([chargeKeeperGas(filePath, 5n), chargeKeeperGas(filePath, 7n), chargeKeeperGas(filePath, 11n)]);
+      expect(keeperGasSpentToday(loadKeeperGasLedger(filePath))).to.equal(23n);
+      expect(fs.readdirSync(ledgerDir)).to.deep.equal(["keeper-gas.json"]);
+    } finally {
+      fs.rmSync(ledgerDir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should share leases between keepers through the lock file and the HTTP lock service", async function () {
+    const exercise = async (first: KeeperLeaseBackend, second: KeeperLeaseBackend) => {
+      const [one, two] = await Promise.all([first.claim([1n, 2n]), second.claim([2n, 1n])]);
+      expect([...one.claimed, ...two.claimed].sort()).to.deep.equal(["1", "2"]);
+      const winner = one.claimed.includes("1") ? first : second;
+      await winner.release([1n], [{ orderId: "1", status: "executed", txHash: "0xaa" }]);
+
+      const table = await second.table();
+      expect(table.leases["1"]).to.be.undefined;
+      expect(table.executions).to.have.lengthOf(1);
+      expect(table.executions[0]).to.include({ orderId: "1", keeperId: winner.keeperId, status: "executed", txHash: "0xaa" });
+    };
+
+    const leaseDir = fs.mkdtempSync(path.join(os.tmpdir(), "tayeb-leases-"));
+    const filePath = path.join(leaseDir, "leases.json");
+    try {
+      await exercise(
+        createFileLeaseBackend(filePath, { keeperId: "a", shard: null, ttlSeconds: 600 }),
+        createFileLeaseBackend(filePath, { keeperId: "b", shard: null, ttlSeconds: 600 })
+      );
+      expect(fs.existsSync(`${filePath}.lock`)).to.be.false;
+
+      // A dead keeper's lock is taken over once, and nothing is left beside the table
+      fs.writeFileSync(`${filePath}.lock`, "");
+      const longAgo = new Date(Date.now() - 60_000);
+      fs.utimesSync(`${filePath}.lock`, longAgo, longAgo);
+      const [c, d] = await Promise.all([
+        createFileLeaseBackend(filePath, { keeperId: "c", shard: null, ttlSeconds: 600 }).claim([7n]),
+        createFileLeaseBackend(filePath, { keeperId: "d", shard: null, ttlSeconds: 600 }).claim([7n]),
+      ]);
+      expect([...c.claimed, ...d.claimed]).to.deep.equal(["7"]);
+      expect(fs.readdirSync(leaseDir)).to.deep.equal(["leases.json"]);
+    } finally {
+      fs.rmSync(leaseDir, { recursive: true, force: true });
+    }
+
+    const server = createKeeperLeaseServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      await exercise(
+        createHttpLeaseBackend(url, { keeperId: "a", shard: null, ttlSeconds: 600 }),
+        createHttpLeaseBackend(url, { keeperId: "b", shard: null, ttlSeconds: 600 })
+      );
+      const rejected = await fetch(`${url}/claim`, { method: "POST", body: "{}" });
+      expect(rejected.status).to.equal(400);
+      const claim = (body: object) => fetch(`${url}/claim`, { method: "POST", body: JSON.stringify({ keeperId: "c", orderIds: ["1"], ...body }) });
+      // A zero shard count would be a modulo by zero; the service answers 400 and keeps serving
+      expect((await claim({ shard: { index: 0, count: 0 } })).status).to.equal(400);
+      expect((await claim({ shard: { index: 2, count: 2 } })).status).to.equal(400);
+      expect((await claim({ orderIds: ["1", "one"] })).status).to.equal(400);
+      expect((await claim({ ttlSeconds: 1e300 })).status).to.equal(400);
+      const badRelease = await fetch(`${url}/release`, { method: "POST", body: JSON.stringify({ keeperId: "c", orderIds: [], executions: [{}] }) });
+      expect(badRelease.status).to.equal(400);
+      expect((await fetch(`${url}/healthz`)).status).to.equal(200);
+      expect((await claim({ shard: { index: 1, count: 2 } })).status).to.equal(200);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("Should render keeper metrics for Prometheus with reverts labelled by decoded error", async function () {
+    const [, stranger] = await ethers.getSigners();
+    const shariaCompliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    const compliance = createComplianceClient({ ...sdk.contracts, shariaCompliance: (await shariaCompliance.getAddress()) as Address });
+    const unauthorized = await writeContract(stranger, compliance.removeShariaCoin("USDC_WH")).catch((error) => error);
+    expect(describeRevert(unauthorized, ShariaComplianceABI)).to.equal("OwnableUnauthorizedAccount");
+
+    const metrics = createKeeperMetrics();
+    expect(metrics.render()).to.not.include("\ntayeb_keeper_last_success_timestamp_seconds ");
+    metrics.setReadyOrders(2);
+    metrics.recordExecution();
+    metrics.recordRevert("SwapFailed");
+    metrics.recordRevert("SwapFailed");
+    metrics.recordRevert("could not coalesce error");
+    metrics.recordGas(21000n, 0.5);
+    metrics.recordGas(9000n, 0.25);
+    metrics.recordDeferral("uneconomic");
+    metrics.setGasSpentToday(0.75);
+    metrics.markLoopSuccess(1_700_000_000_000);
+
+    const text = metrics.render(1_700_000_042_000);
+    expect(text).to.include("# TYPE tayeb_keeper_executions_total counter\ntayeb_keeper_executions_total 1\n");
+    expect(text).to.include('tayeb_keeper_reverts_total{error="SwapFailed"} 2\ntayeb_keeper_reverts_total{error="unknown"} 1');
+    expect(text).to.include("tayeb_keeper_ready_orders 2\n");
+    expect(text).to.include("tayeb_keeper_gas_used_total 30000\n");
+    expect(text).to.include("tayeb_keeper_gas_spent_glmr_total 0.75\n");
+    expect(text).to.include('tayeb_keeper_deferred_total{reason="uneconomic"} 1\n');
+    expect(text).to.include("tayeb_keeper_gas_spent_today_glmr 0.75\n");
+    expect(text).to.include("tayeb_keeper_last_success_timestamp_seconds 1700000000\n");
+    expect(text).to.include("tayeb_keeper_seconds_since_last_success 42\n");
+  });
+
+  it("Should read and write through ethers with the same call descriptors", async function () {
+    const [owner] = await ethers.getSigners();
+    const shariaCompliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    await shariaCompliance.waitForDeployment();
+
+    const compliance = createComplianceClient({
+      ...sdk.contracts,
+      shariaCompliance: (await shariaCompliance.getAddress()) as Address,
+    });
+    const tx = await writeContract(owner, {
+      address: compliance.address,
+      abi: ShariaComplianceABI,
+      functionName: "registerShariaCoin",
+      args: ["USDC_WH", "USD Coin (Wormhole)", "USDC_WH", USDC, "Stablecoin"],
+    });
+    await tx.wait();
+
+    const coins = await readContract<ShariaCoinData[]>(owner, compliance.getAllShariaCoins());
+    expect(coins).to.have.lengthOf(1);
+    expect(coins[0].tokenAddress).to.equal(USDC);
+    expect(sdk.tokens.fromShariaCoin(coins[0]).decimals).to.equal(6);
+  });
+});